@@ -10,6 +10,7 @@ import ScrollToTop from './components/ScrollToTop';
 import HomePage from './pages/HomePage';
 import AboutPage from './pages/AboutPage';
 import JoinPage from './pages/JoinPage';
+import ApplicationPage from './pages/ApplicationPage';
 import EventsPage from './pages/EventsPage';
 import NewsPage from './pages/NewsPage';
 import NewsDetailPage from './pages/NewsDetailPage';
@@ -24,6 +25,13 @@ import CMSAdminPage from './pages/CMSAdminPage';
 import ProfilePage from './pages/ProfilePage';
 import MembersPendingPage from './pages/MembersPendingPage';
 import DirectoryPage from './pages/DirectoryPage';
+import DiningPage from './pages/DiningPage';
+import SummonsPage from './pages/SummonsPage';
+import CeremonyPlannerPage from './pages/CeremonyPlannerPage';
+import TreasurerPage from './pages/TreasurerPage';
+import MentoringPage from './pages/MentoringPage';
+import EndorsementsPage from './pages/EndorsementsPage';
+import WelfarePage from './pages/WelfarePage';
 import SetupAdminPage from './pages/SetupAdminPage';
 import DebugPage from './pages/DebugPage';
 import ViteDebugPage from './pages/ViteDebugPage';
@@ -43,6 +51,7 @@ function App() {
           <Route index element={<HomePage />} />
           <Route path="about" element={<AboutPage />} />
           <Route path="join" element={<JoinPage />} />
+          <Route path="apply" element={<ApplicationPage />} />
           <Route path="events" element={<EventsPage />} />
           <Route path="news" element={<NewsPage />} />
           <Route path="news/:id" element={<NewsDetailPage />} />
@@ -64,6 +73,13 @@ function App() {
           <Route path="members/cms/blog" element={<BlogAdminPage />} />
           <Route path="members/profile" element={<ProfilePage />} />
           <Route path="members/directory" element={<DirectoryPage />} />
+          <Route path="members/dining" element={<DiningPage />} />
+          <Route path="members/summons/:id" element={<SummonsPage />} />
+          <Route path="members/ceremonies" element={<CeremonyPlannerPage />} />
+          <Route path="members/treasurer" element={<TreasurerPage />} />
+          <Route path="members/mentoring" element={<MentoringPage />} />
+          <Route path="members/endorsements" element={<EndorsementsPage />} />
+          <Route path="members/welfare" element={<WelfarePage />} />
           <Route path="connection-test" element={<ConnectionTestPage />} />
           <Route path="*" element={<NotFoundPage />} />
         </Route>
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ClipboardList } from 'lucide-react';
+import { optimizedApi as api } from '../lib/optimizedApi';
+import { MeetingAttendance, MeetingMinutes } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+
+interface AttendanceHistoryProps {
+  userId: string;
+  joinDate?: string;
+}
+
+interface HistoryEntry {
+  minutes: MeetingMinutes;
+  status: 'present' | 'apology' | 'absent';
+}
+
+const RECENT_LIMIT = 10;
+
+const statusLabels: Record<HistoryEntry['status'], { label: string; className: string }> = {
+  present: { label: 'Present', className: 'bg-green-100 text-green-700' },
+  apology: { label: 'Apologies', className: 'bg-yellow-100 text-yellow-800' },
+  absent: { label: 'Absent', className: 'bg-neutral-100 text-neutral-600' }
+};
+
+const AttendanceHistory: React.FC<AttendanceHistoryProps> = ({ userId, joinDate }) => {
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setError(null);
+        const [minutes, attendance] = await Promise.all([
+          api.getMeetingMinutes(),
+          api.getMemberAttendance(userId)
+        ]);
+        const joined = joinDate ? joinDate.slice(0, 10) : '';
+
+        // Only meetings with a recorded register since the member joined count
+        setHistory(minutes
+          .filter(m => m.attendance_recorded_at && m.meeting_date.slice(0, 10) >= joined)
+          .map(m => {
+            const entry = attendance.find((a: MeetingAttendance) => a.minutes_id === m.id);
+            return {
+              minutes: m,
+              status: !entry ? 'absent' : entry.attendance_type === 'apology' ? 'apology' : 'present'
+            };
+          }));
+      } catch (err) {
+        console.error('Error loading attendance history:', err);
+        setError('Your attendance history is not available at the moment.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [userId, joinDate]);
+
+  const presentCount = history.filter(entry => entry.status === 'present').length;
+  const apologyCount = history.filter(entry => entry.status === 'apology').length;
+  const visibleHistory = showAll ? history : history.slice(0, RECENT_LIMIT);
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-soft mt-6">
+      <h4 className="text-lg font-heading font-semibold text-primary-600 mb-2 flex items-center">
+        <ClipboardList className="w-5 h-5 mr-2 text-secondary-500" />
+        Meeting Attendance
+      </h4>
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-2" />
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-neutral-600">
+          No attendance has been recorded for you yet. The Secretary records attendance with the minutes of each meeting.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm text-neutral-600 mb-4">
+            You attended {presentCount} of {history.length} recorded meeting{history.length === 1 ? '' : 's'}
+            {' '}({Math.round((presentCount / history.length) * 100)}%)
+            {apologyCount > 0 && ` and sent apologies for ${apologyCount}`}.
+          </p>
+          <ul className="divide-y divide-neutral-100">
+            {visibleHistory.map(({ minutes, status }) => (
+              <li key={minutes.id} className="flex items-center justify-between py-2 text-sm">
+                <span className="text-neutral-700">
+                  {format(new Date(minutes.meeting_date), 'd MMM yyyy')}
+                  <span className="text-neutral-500"> - {minutes.title}</span>
+                </span>
+                <span className={`text-xs font-medium px-2 py-1 rounded ${statusLabels[status].className}`}>
+                  {statusLabels[status].label}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {history.length > RECENT_LIMIT && (
+            <button
+              type="button"
+              onClick={() => setShowAll(prev => !prev)}
+              className="mt-3 text-sm text-secondary-600 hover:text-secondary-700"
+            >
+              {showAll ? 'Show recent meetings only' : `Show all ${history.length} meetings`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AttendanceHistory;
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarPlus, Copy, RefreshCw } from 'lucide-react';
+import { api } from '../lib/api';
+import { CalendarFeedToken } from '../types';
+import Button from './Button';
+import LoadingSpinner from './LoadingSpinner';
+import { getCalendarFeedUrl, getWebcalUrl } from '../utils/icalendar';
+
+interface CalendarSubscriptionProps {
+  userId: string;
+}
+
+const CalendarSubscription: React.FC<CalendarSubscriptionProps> = ({ userId }) => {
+  const [feedToken, setFeedToken] = useState<CalendarFeedToken | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadToken = async () => {
+      try {
+        setError(null);
+        const token = await api.getCalendarFeedToken(userId);
+        setFeedToken(token);
+      } catch (err) {
+        console.error('Error loading calendar feed token:', err);
+        setError('Personal calendar feeds are not available at the moment.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadToken();
+  }, [userId]);
+
+  const handleGenerate = async () => {
+    if (feedToken && !window.confirm('Generating a new link will stop your current calendar subscription from updating. Continue?')) {
+      return;
+    }
+
+    try {
+      setGenerating(true);
+      setError(null);
+      const token = await api.regenerateCalendarFeedToken(userId);
+      setFeedToken(token);
+    } catch (err) {
+      console.error('Error generating calendar feed token:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate calendar link');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const feedUrl = feedToken ? getCalendarFeedUrl(feedToken.token) : null;
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-soft mt-6">
+      <h4 className="text-lg font-heading font-semibold text-primary-600 mb-2 flex items-center">
+        <CalendarPlus className="w-5 h-5 mr-2 text-secondary-500" />
+        Calendar Subscription
+      </h4>
+      <p className="text-sm text-neutral-600 mb-4">
+        Your personal feed includes Lodge meetings, public events and members-only events.
+        Keep the link private - anyone with it can see the members-only events.
+      </p>
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-2" />
+      ) : (
+        <>
+          {error && (
+            <p className="text-sm text-red-600 mb-4">{error}</p>
+          )}
+
+          {feedUrl && (
+            <div className="mb-4">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={feedUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="block w-full rounded-md border border-neutral-300 px-3 py-2 text-xs font-mono text-neutral-600 bg-neutral-50"
+                  aria-label="Personal calendar feed URL"
+                />
+                <Button type="button" variant="outline" size="sm" onClick={handleCopy} className="flex items-center">
+                  <Copy size={14} className="mr-1" />
+                  {copied ? 'Copied' : 'Copy'}
+                </Button>
+              </div>
+              <a
+                href={getWebcalUrl(feedUrl)}
+                className="inline-flex items-center text-sm font-medium text-secondary-600 hover:text-secondary-700 mt-3"
+              >
+                <CalendarPlus size={16} className="mr-1.5" />
+                Open in Calendar App
+              </a>
+            </div>
+          )}
+
+          <Button
+            type="button"
+            variant={feedToken ? 'outline' : 'primary'}
+            size="sm"
+            onClick={handleGenerate}
+            disabled={generating}
+            className="flex items-center"
+          >
+            <RefreshCw size={14} className="mr-2" />
+            {generating ? 'Generating...' : feedToken ? 'Generate New Link' : 'Create Calendar Link'}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CalendarSubscription;
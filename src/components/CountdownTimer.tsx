@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Calendar, Clock, MapPin, Crown } from 'lucide-react';
 import { cmsApi } from '../lib/cmsApi';
 import LoadingSpinner from './LoadingSpinner';
+import { getNextLodgeMeeting, getLodgeMeetingsForYear, loadMeetingSchedule, toMeetingDateKey } from '../utils/lodgeMeetings';
 
 interface CountdownTimerProps {
   targetDate?: string;
@@ -33,83 +34,12 @@ const CountdownTimer: React.FC<CountdownTimerProps> = ({
     description: string;
     location: string;
     isInstallation: boolean;
+    originalDate?: Date;
+    reason?: string;
   } | null>(null);
 
   const [loading, setLoading] = useState(true);
 
-  // Calculate next Lodge meeting based on schedule
-  const calculateNextLodgeMeeting = () => {
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    
-    // Lodge meeting schedule: 2nd Sat Dec, 2nd Sat Feb, 1st Sat Apr, 2nd Sat Jul, 1st Sat Sep
-    const meetings = [];
-    
-    // Helper function to get nth weekday of month
-    const getNthWeekday = (year: number, month: number, weekday: number, occurrence: number) => {
-      const firstDay = new Date(year, month, 1);
-      const firstWeekday = firstDay.getDay();
-      let firstOccurrence = 1 + (weekday - firstWeekday + 7) % 7;
-      const targetDate = firstOccurrence + (occurrence - 1) * 7;
-      return new Date(year, month, targetDate, 18, 0); // 6:00 PM
-    };
-    
-    // Generate meetings for current and next year
-    for (const year of [currentYear, currentYear + 1]) {
-      // February - 2nd Saturday
-      meetings.push({
-        date: getNthWeekday(year, 1, 6, 2),
-        title: "Regular Lodge Meeting",
-        description: "February regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
-        location: "Radlett Masonic Centre, Rose Walk, Radlett",
-        isInstallation: false
-      });
-      
-      // April - 1st Saturday
-      meetings.push({
-        date: getNthWeekday(year, 3, 6, 1),
-        title: "Regular Lodge Meeting", 
-        description: "April regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
-        location: "Radlett Masonic Centre, Rose Walk, Radlett",
-        isInstallation: false
-      });
-      
-      // July - 2nd Saturday
-      meetings.push({
-        date: getNthWeekday(year, 6, 6, 2),
-        title: "Regular Lodge Meeting",
-        description: "July regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
-        location: "Radlett Masonic Centre, Rose Walk, Radlett", 
-        isInstallation: false
-      });
-      
-      // September - 1st Saturday
-      meetings.push({
-        date: getNthWeekday(year, 8, 6, 1),
-        title: "Regular Lodge Meeting",
-        description: "September regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
-        location: "Radlett Masonic Centre, Rose Walk, Radlett",
-        isInstallation: false
-      });
-      
-      // December - 2nd Saturday (Installation)
-      meetings.push({
-        date: getNthWeekday(year, 11, 6, 2),
-        title: "Installation Meeting",
-        description: "Annual Installation of the Worshipful Master and Officers. Festive Board to follow.",
-        location: "Radlett Masonic Centre, Rose Walk, Radlett",
-        isInstallation: true
-      });
-    }
-    
-    // Find next meeting
-    const nextMeeting = meetings
-      .filter(meeting => meeting.date > now)
-      .sort((a, b) => a.date.getTime() - b.date.getTime())[0];
-    
-    return nextMeeting || null;
-  };
-
   // Fetch next event from CMS
   const fetchNextEvent = useCallback(async () => {
     try {
@@ -144,11 +74,23 @@ const CountdownTimer: React.FC<CountdownTimerProps> = ({
       
       if (useSchedule) {
         // Try to get the next event from CMS first
-        targetMeeting = await fetchNextEvent();
+        const [cmsEvent, schedule] = await Promise.all([fetchNextEvent(), loadMeetingSchedule()]);
+        targetMeeting = cmsEvent;
+        
+        // Ignore a CMS event that falls on a meeting date which has since been cancelled
+        if (targetMeeting) {
+          const eventKey = toMeetingDateKey(targetMeeting.date);
+          const isCancelled = getLodgeMeetingsForYear(targetMeeting.date.getFullYear(), schedule)
+            .some(meeting => meeting.isCancelled && toMeetingDateKey(meeting.date) === eventKey);
+          
+          if (isCancelled) {
+            targetMeeting = null;
+          }
+        }
         
-        // Fall back to calculated meeting if no CMS event
+        // Fall back to the meeting calculated from the schedule rules if no CMS event
         if (!targetMeeting) {
-          targetMeeting = calculateNextLodgeMeeting();
+          targetMeeting = getNextLodgeMeeting(schedule);
         }
         
         setNextMeeting(targetMeeting);
@@ -268,6 +210,12 @@ const CountdownTimer: React.FC<CountdownTimerProps> = ({
                     minute: '2-digit'
                   })}
                 </p>
+                {nextMeeting.originalDate && (
+                  <p className="text-sm text-secondary-300 mt-1">
+                    Moved from {nextMeeting.originalDate.toLocaleDateString('en-GB')}
+                    {nextMeeting.reason && ` - ${nextMeeting.reason}`}
+                  </p>
+                )}
               </div>
             )}
           </div>
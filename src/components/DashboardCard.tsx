@@ -1,8 +1,9 @@
 import React from 'react';
+import type { LucideIcon } from 'lucide-react';
 
 interface DashboardCardProps {
   title: string;
-  icon?: React.ComponentType<{ size?: number; className?: string }>;
+  icon?: LucideIcon;
   children: React.ReactNode;
   className?: string;
   headerAction?: React.ReactNode;
@@ -0,0 +1,188 @@
+import React from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { format } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+import { DegreeCeremony, RitualPart } from '../types';
+import Button from './Button';
+import { LodgeMeeting, toMeetingDateKey } from '../utils/lodgeMeetings';
+import { DEGREE_LABELS, DEGREE_ORDER, defaultRitualParts } from '../utils/ceremonies';
+
+interface DegreeCeremonyFormProps {
+  onSubmit: (data: Omit<DegreeCeremony, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
+  onCancel: () => void;
+  initialData?: DegreeCeremony;
+  defaultMeetingDate?: string;
+  meetings: LodgeMeeting[];
+  memberNames: string[];
+}
+
+interface DegreeCeremonyFormData {
+  meeting_date: string;
+  degree: DegreeCeremony['degree'];
+  candidate_name: string;
+  ritual_parts: RitualPart[];
+  notes: string;
+}
+
+const inputClassName = 'mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500';
+
+const DegreeCeremonyForm: React.FC<DegreeCeremonyFormProps> = ({ onSubmit, onCancel, initialData, defaultMeetingDate, meetings, memberNames }) => {
+  const { register, control, handleSubmit, formState: { errors, isSubmitting } } = useForm<DegreeCeremonyFormData>({
+    defaultValues: {
+      meeting_date: initialData?.meeting_date || defaultMeetingDate || (meetings[0] ? toMeetingDateKey(meetings[0].originalDate || meetings[0].date) : ''),
+      degree: initialData?.degree || 'first',
+      candidate_name: initialData?.candidate_name || '',
+      ritual_parts: initialData?.ritual_parts || defaultRitualParts('first'),
+      notes: initialData?.notes || ''
+    }
+  });
+  const { fields, append, remove, replace } = useFieldArray({ control, name: 'ritual_parts' });
+
+  // Keep the planned meeting selectable when editing a ceremony whose meeting has passed
+  const hasInitialMeeting = !initialData || meetings.some(m => toMeetingDateKey(m.originalDate || m.date) === initialData.meeting_date);
+
+  const onFormSubmit = async (data: DegreeCeremonyFormData) => {
+    await onSubmit({
+      meeting_date: data.meeting_date,
+      degree: data.degree,
+      candidate_name: data.candidate_name.trim(),
+      ritual_parts: data.ritual_parts
+        .filter(part => part.part.trim())
+        .map(part => ({ part: part.part.trim(), performer: part.performer?.trim() || undefined })),
+      notes: data.notes || undefined
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="meeting_date" className="block text-sm font-medium text-primary-600">
+            Meeting
+          </label>
+          <select
+            id="meeting_date"
+            {...register('meeting_date', { required: 'Choose a meeting' })}
+            className={inputClassName}
+          >
+            {!hasInitialMeeting && initialData && (
+              <option value={initialData.meeting_date}>
+                {format(new Date(`${initialData.meeting_date}T00:00:00`), 'd MMMM yyyy')}
+              </option>
+            )}
+            {meetings.map(meeting => {
+              const key = toMeetingDateKey(meeting.originalDate || meeting.date);
+              return (
+                <option key={key} value={key}>
+                  {format(meeting.date, 'd MMMM yyyy')} - {meeting.title}{meeting.isCancelled ? ' (cancelled)' : ''}
+                </option>
+              );
+            })}
+          </select>
+          {errors.meeting_date && (
+            <p className="mt-1 text-sm text-red-600">{errors.meeting_date.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="degree" className="block text-sm font-medium text-primary-600">
+            Degree
+          </label>
+          <select
+            id="degree"
+            {...register('degree', {
+              // A new ceremony starts from the usual parts for its degree
+              onChange: (e) => !initialData && replace(defaultRitualParts(e.target.value))
+            })}
+            className={inputClassName}
+          >
+            {DEGREE_ORDER.map(degree => (
+              <option key={degree} value={degree}>{DEGREE_LABELS[degree]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="candidate_name" className="block text-sm font-medium text-primary-600">
+            Candidate
+          </label>
+          <input
+            id="candidate_name"
+            list="ceremony-member-names"
+            {...register('candidate_name', { required: 'Candidate name is required' })}
+            className={inputClassName}
+            placeholder="e.g., Mr John Smith"
+          />
+          {errors.candidate_name && (
+            <p className="mt-1 text-sm text-red-600">{errors.candidate_name.message}</p>
+          )}
+        </div>
+      </div>
+
+      <datalist id="ceremony-member-names">
+        {memberNames.map(name => <option key={name} value={name} />)}
+      </datalist>
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <span className="text-sm font-medium text-primary-600">Ritual Parts</span>
+          <Button type="button" size="sm" variant="outline" onClick={() => append({ part: '', performer: '' })} className="flex items-center">
+            <Plus size={14} className="mr-1" />
+            Add Part
+          </Button>
+        </div>
+        <div className="space-y-2">
+          {fields.map((field, index) => (
+            <div key={field.id} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center">
+              <input
+                {...register(`ritual_parts.${index}.part` as const)}
+                placeholder="Part"
+                aria-label="Ritual part"
+                className={`${inputClassName} mt-0 md:col-span-6`}
+              />
+              <input
+                {...register(`ritual_parts.${index}.performer` as const)}
+                list="ceremony-member-names"
+                placeholder="Performed by"
+                aria-label="Performed by"
+                className={`${inputClassName} mt-0 md:col-span-5`}
+              />
+              <button
+                type="button"
+                className="p-2 text-neutral-500 hover:text-red-500 transition-colors md:col-span-1"
+                onClick={() => remove(index)}
+                title="Remove part"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="ceremony_notes" className="block text-sm font-medium text-primary-600">
+          Notes
+        </label>
+        <textarea
+          id="ceremony_notes"
+          {...register('notes')}
+          rows={2}
+          className={inputClassName}
+          placeholder="e.g., Proposer and seconder, rehearsal arrangements"
+        />
+      </div>
+
+      <div className="flex justify-end space-x-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Save Ceremony'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default DegreeCeremonyForm;
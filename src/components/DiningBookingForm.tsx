@@ -0,0 +1,181 @@
+import React from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { Plus, Trash2 } from 'lucide-react';
+import { FestiveBoard, FestiveBoardBooking, FestiveBoardGuest } from '../types';
+import Button from './Button';
+
+interface DiningBookingFormProps {
+  festiveBoard: FestiveBoard;
+  onSubmit: (data: Pick<FestiveBoardBooking, 'menu_choice' | 'dietary_requirements' | 'guests' | 'notes'>) => Promise<void>;
+  onCancel: () => void;
+  initialData?: Partial<FestiveBoardBooking>;
+}
+
+interface DiningBookingFormData {
+  menu_choice: string;
+  dietary_requirements: string;
+  guests: Required<FestiveBoardGuest>[];
+  notes: string;
+}
+
+const DiningBookingForm: React.FC<DiningBookingFormProps> = ({ festiveBoard, onSubmit, onCancel, initialData }) => {
+  const { register, control, handleSubmit, formState: { errors, isSubmitting } } = useForm<DiningBookingFormData>({
+    defaultValues: {
+      menu_choice: initialData?.menu_choice || '',
+      dietary_requirements: initialData?.dietary_requirements || '',
+      guests: (initialData?.guests || []).map(guest => ({
+        name: guest.name,
+        menu_choice: guest.menu_choice || '',
+        dietary_requirements: guest.dietary_requirements || ''
+      })),
+      notes: initialData?.notes || ''
+    }
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'guests' });
+
+  const onFormSubmit = async (data: DiningBookingFormData) => {
+    await onSubmit({
+      menu_choice: data.menu_choice,
+      dietary_requirements: data.dietary_requirements || undefined,
+      guests: data.guests.map(guest => ({
+        name: guest.name.trim(),
+        menu_choice: guest.menu_choice,
+        dietary_requirements: guest.dietary_requirements || undefined
+      })),
+      notes: data.notes || undefined
+    });
+  };
+
+  const menuSelect = (id: string, field: `guests.${number}.menu_choice` | 'menu_choice') => (
+    <select
+      id={id}
+      {...register(field, { required: 'Please choose from the menu' })}
+      className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+    >
+      <option value="">Select...</option>
+      {festiveBoard.menu_options.map(option => (
+        <option key={option} value={option}>{option}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="menu_choice" className="block text-sm font-medium text-primary-600">
+            Your Menu Choice
+          </label>
+          {menuSelect('menu_choice', 'menu_choice')}
+          {errors.menu_choice && (
+            <p className="mt-1 text-sm text-red-600">{errors.menu_choice.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="dietary_requirements" className="block text-sm font-medium text-primary-600">
+            Dietary Requirements
+          </label>
+          <input
+            id="dietary_requirements"
+            {...register('dietary_requirements')}
+            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+            placeholder="e.g., Gluten free, nut allergy"
+          />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium text-primary-600">Guests ({fields.length})</h4>
+          <button
+            type="button"
+            onClick={() => append({ name: '', menu_choice: '', dietary_requirements: '' })}
+            className="flex items-center text-sm text-secondary-600 hover:text-secondary-700"
+          >
+            <Plus size={16} className="mr-1" />
+            Add Guest
+          </button>
+        </div>
+
+        {fields.length === 0 ? (
+          <p className="text-sm text-neutral-500">No guests.</p>
+        ) : (
+          <div className="space-y-4">
+            {fields.map((field, index) => (
+              <div key={field.id} className="grid grid-cols-1 md:grid-cols-7 gap-3 items-start bg-white border border-neutral-200 rounded-md p-3">
+                <div className="md:col-span-2">
+                  <label htmlFor={`guests.${index}.name`} className="block text-xs font-medium text-neutral-600">
+                    Guest Name
+                  </label>
+                  <input
+                    id={`guests.${index}.name`}
+                    {...register(`guests.${index}.name`, { required: 'Guest name is required' })}
+                    className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                  />
+                  {errors.guests?.[index]?.name && (
+                    <p className="mt-1 text-sm text-red-600">{errors.guests[index]?.name?.message}</p>
+                  )}
+                </div>
+                <div className="md:col-span-2">
+                  <label htmlFor={`guests.${index}.menu_choice`} className="block text-xs font-medium text-neutral-600">
+                    Menu Choice
+                  </label>
+                  {menuSelect(`guests.${index}.menu_choice`, `guests.${index}.menu_choice`)}
+                  {errors.guests?.[index]?.menu_choice && (
+                    <p className="mt-1 text-sm text-red-600">{errors.guests[index]?.menu_choice?.message}</p>
+                  )}
+                </div>
+                <div className="md:col-span-2">
+                  <label htmlFor={`guests.${index}.dietary_requirements`} className="block text-xs font-medium text-neutral-600">
+                    Dietary Requirements
+                  </label>
+                  <input
+                    id={`guests.${index}.dietary_requirements`}
+                    {...register(`guests.${index}.dietary_requirements`)}
+                    className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                  />
+                </div>
+                <div className="flex md:justify-end md:pt-6">
+                  <button
+                    type="button"
+                    onClick={() => remove(index)}
+                    className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                    title="Remove guest"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="notes" className="block text-sm font-medium text-primary-600">
+          Notes for the Director of Ceremonies
+        </label>
+        <textarea
+          id="notes"
+          {...register('notes')}
+          rows={2}
+          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          placeholder="e.g., Please seat my guest next to me"
+        />
+      </div>
+
+      <div className="flex justify-end space-x-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : initialData?.id ? 'Update Booking' : 'Book Dining'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default DiningBookingForm;
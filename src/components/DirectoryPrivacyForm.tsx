@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { EyeOff } from 'lucide-react';
+import { DirectoryPrivacy, DirectoryPrivacyField, DirectoryVisibility } from '../types';
+import Button from './Button';
+import { DIRECTORY_PRIVACY_FIELDS, DIRECTORY_VISIBILITY_LABELS, getFieldVisibility } from '../utils/directoryPrivacy';
+
+interface DirectoryPrivacyFormProps {
+  privacy?: DirectoryPrivacy;
+  onSave: (privacy: DirectoryPrivacy) => Promise<void>;
+  isUpdating?: boolean;
+}
+
+const DirectoryPrivacyForm: React.FC<DirectoryPrivacyFormProps> = ({ privacy, onSave, isUpdating = false }) => {
+  const [settings, setSettings] = useState<DirectoryPrivacy>(() =>
+    Object.fromEntries(DIRECTORY_PRIVACY_FIELDS.map(({ field }) => [field, getFieldVisibility(privacy, field)]))
+  );
+
+  const updateSetting = (field: DirectoryPrivacyField, visibility: DirectoryVisibility) => {
+    setSettings(prev => ({ ...prev, [field]: visibility }));
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-soft mt-6">
+      <h4 className="text-lg font-heading font-semibold text-primary-600 mb-2 flex items-center">
+        <EyeOff className="w-5 h-5 mr-2 text-secondary-500" />
+        Directory Privacy
+      </h4>
+      <p className="text-sm text-neutral-600 mb-4">
+        Choose who can see each of these details in the Member Directory. Your name and office are always shown,
+        and you and the Lodge officers can always see your full profile.
+      </p>
+
+      <div className="space-y-3 mb-4">
+        {DIRECTORY_PRIVACY_FIELDS.map(({ field, label }) => (
+          <div key={field} className="flex flex-wrap items-center justify-between gap-2">
+            <label htmlFor={`privacy_${field}`} className="text-sm text-neutral-700">
+              {label}
+            </label>
+            <select
+              id={`privacy_${field}`}
+              value={getFieldVisibility(settings, field)}
+              onChange={(e) => updateSetting(field, e.target.value as DirectoryVisibility)}
+              className="rounded-md border border-neutral-300 px-2 py-1 text-sm focus:border-secondary-500 focus:ring-secondary-500"
+            >
+              {Object.entries(DIRECTORY_VISIBILITY_LABELS).map(([visibility, visibilityLabel]) => (
+                <option key={visibility} value={visibility}>{visibilityLabel}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <Button type="button" size="sm" onClick={() => onSave(settings)} disabled={isUpdating}>
+        {isUpdating ? 'Saving...' : 'Save Privacy Settings'}
+      </Button>
+    </div>
+  );
+};
+
+export default DirectoryPrivacyForm;
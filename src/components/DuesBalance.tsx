@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { PoundSterling } from 'lucide-react';
+import { api } from '../lib/api';
+import { DuesEntry } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+import { DUES_ENTRY_LABELS, PAYMENT_METHOD_LABELS, formatCurrency, getDuesBalance, getOutstandingYears } from '../utils/dues';
+import { formatMasonicYear } from '../utils/officerProgression';
+
+interface DuesBalanceProps {
+  userId: string;
+}
+
+const RECENT_LIMIT = 5;
+
+const DuesBalance: React.FC<DuesBalanceProps> = ({ userId }) => {
+  const [entries, setEntries] = useState<DuesEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      try {
+        setError(null);
+        setEntries(await api.getDuesEntries(userId));
+      } catch (err) {
+        console.error('Error loading subscriptions ledger:', err);
+        setError('Your subscription balance is not available at the moment.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEntries();
+  }, [userId]);
+
+  const balance = getDuesBalance(entries);
+  const outstandingYears = getOutstandingYears(entries);
+  const recentEntries = entries.slice(-RECENT_LIMIT).reverse();
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-soft mt-6">
+      <h4 className="text-lg font-heading font-semibold text-primary-600 mb-2 flex items-center">
+        <PoundSterling className="w-5 h-5 mr-2 text-secondary-500" />
+        Subscriptions
+      </h4>
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-2" />
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-neutral-600">
+          No subscriptions have been recorded for you yet. Contact the Treasurer with any questions.
+        </p>
+      ) : (
+        <>
+          <div className={`rounded-md p-4 mb-4 ${balance > 0 ? 'bg-yellow-50 border border-yellow-200' : 'bg-green-50 border border-green-200'}`}>
+            <p className={`text-2xl font-semibold ${balance > 0 ? 'text-yellow-800' : 'text-green-700'}`}>
+              {formatCurrency(Math.abs(balance))}
+            </p>
+            <p className={`text-sm ${balance > 0 ? 'text-yellow-700' : 'text-green-700'}`}>
+              {balance > 0
+                ? `Outstanding for ${outstandingYears.map(formatMasonicYear).join(', ')}`
+                : balance < 0 ? 'In credit' : 'Your subscriptions are up to date'}
+            </p>
+          </div>
+          <ul className="divide-y divide-neutral-100">
+            {recentEntries.map(entry => (
+              <li key={entry.id} className="flex items-center justify-between py-2 text-sm">
+                <span className="text-neutral-700">
+                  {format(new Date(entry.entry_date), 'd MMM yyyy')}
+                  <span className="text-neutral-500">
+                    {' '}- {DUES_ENTRY_LABELS[entry.entry_type]} ({formatMasonicYear(entry.subscription_year)})
+                    {entry.method && `, ${PAYMENT_METHOD_LABELS[entry.method]}`}
+                  </span>
+                </span>
+                <span className={`font-medium ${entry.entry_type === 'invoice' ? 'text-neutral-800' : 'text-green-700'}`}>
+                  {entry.entry_type === 'invoice' ? '' : '-'}{formatCurrency(Number(entry.amount))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DuesBalance;
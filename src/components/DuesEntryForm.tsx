@@ -0,0 +1,156 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { DuesEntry } from '../types';
+import Button from './Button';
+import { DUES_ENTRY_LABELS, PAYMENT_METHOD_LABELS } from '../utils/dues';
+
+export type DuesEntryFormData = Pick<DuesEntry, 'entry_type' | 'amount' | 'entry_date' | 'subscription_year' | 'method' | 'reference' | 'notes'>;
+
+interface DuesEntryFormProps {
+  onSubmit: (data: DuesEntryFormData) => Promise<void>;
+  onCancel: () => void;
+  defaultYear: number;
+  defaultAmount?: number;
+}
+
+interface DuesEntryFields {
+  entry_type: DuesEntry['entry_type'];
+  amount: string;
+  entry_date: string;
+  subscription_year: string;
+  method: string;
+  reference: string;
+  notes: string;
+}
+
+const inputClassName = 'mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500';
+
+const DuesEntryForm: React.FC<DuesEntryFormProps> = ({ onSubmit, onCancel, defaultYear, defaultAmount }) => {
+  const { register, handleSubmit, watch, formState: { errors, isSubmitting } } = useForm<DuesEntryFields>({
+    defaultValues: {
+      entry_type: 'payment',
+      amount: defaultAmount ? String(defaultAmount) : '',
+      entry_date: new Date().toISOString().split('T')[0],
+      subscription_year: String(defaultYear),
+      method: 'bank_transfer',
+      reference: '',
+      notes: ''
+    }
+  });
+
+  const entryType = watch('entry_type');
+
+  const onFormSubmit = async (data: DuesEntryFields) => {
+    await onSubmit({
+      entry_type: data.entry_type,
+      amount: Number(data.amount),
+      entry_date: data.entry_date,
+      subscription_year: Number(data.subscription_year),
+      // Only payments have a method
+      method: data.entry_type === 'payment' && data.method ? data.method as DuesEntry['method'] : null,
+      reference: data.reference.trim() || undefined,
+      notes: data.notes.trim() || undefined
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label htmlFor="entry_type" className="block text-sm font-medium text-primary-600">
+            Entry
+          </label>
+          <select id="entry_type" {...register('entry_type')} className={inputClassName}>
+            {Object.entries(DUES_ENTRY_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="amount" className="block text-sm font-medium text-primary-600">
+            Amount (£)
+          </label>
+          <input
+            id="amount"
+            type="number"
+            step="0.01"
+            {...register('amount', {
+              required: 'Amount is required',
+              min: { value: 0.01, message: 'Amount must be more than zero' }
+            })}
+            className={inputClassName}
+          />
+          {errors.amount && (
+            <p className="mt-1 text-sm text-red-600">{errors.amount.message}</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="entry_date" className="block text-sm font-medium text-primary-600">
+            Date
+          </label>
+          <input
+            id="entry_date"
+            type="date"
+            {...register('entry_date', { required: 'Date is required' })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="subscription_year" className="block text-sm font-medium text-primary-600">
+            Subscription Year
+          </label>
+          <input
+            id="subscription_year"
+            type="number"
+            {...register('subscription_year', { required: true, min: 1940, max: 2200 })}
+            className={inputClassName}
+          />
+          <p className="mt-1 text-xs text-neutral-500">Installation year the subscription runs from</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {entryType === 'payment' && (
+          <div>
+            <label htmlFor="method" className="block text-sm font-medium text-primary-600">
+              Method
+            </label>
+            <select id="method" {...register('method')} className={inputClassName}>
+              {Object.entries(PAYMENT_METHOD_LABELS).map(([method, label]) => (
+                <option key={method} value={method}>{label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label htmlFor="reference" className="block text-sm font-medium text-primary-600">
+            Reference
+          </label>
+          <input
+            id="reference"
+            {...register('reference')}
+            className={inputClassName}
+            placeholder="e.g., bank reference or cheque number"
+          />
+        </div>
+        <div>
+          <label htmlFor="dues_notes" className="block text-sm font-medium text-primary-600">
+            Notes
+          </label>
+          <input id="dues_notes" {...register('notes')} className={inputClassName} />
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Record Entry'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default DuesEntryForm;
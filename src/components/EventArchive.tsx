@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Archive, Clock, MapPin, Lock, FileText } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { optimizedApi as api } from '../lib/optimizedApi';
+import { CMSEvent, MeetingMinutes } from '../types';
+import { MeetingSchedule, getLodgeMeetingsForYear, toMeetingDateKey } from '../utils/lodgeMeetings';
+
+interface EventArchiveProps {
+  events: CMSEvent[];
+  meetingSchedule: MeetingSchedule;
+  showPublicOnly?: boolean;
+}
+
+interface ArchiveEntry {
+  key: string;
+  date: Date;
+  title: string;
+  location: string;
+  isLodgeMeeting: boolean;
+  isMembersOnly: boolean;
+  isCancelled: boolean;
+}
+
+const EventArchive: React.FC<EventArchiveProps> = ({ events, meetingSchedule, showPublicOnly = false }) => {
+  const { user } = useAuth();
+  const currentYear = new Date().getFullYear();
+  const [selectedYear, setSelectedYear] = useState(currentYear);
+  const [minutes, setMinutes] = useState<MeetingMinutes[]>([]);
+
+  // Minutes are members-only, so only look them up for signed-in members
+  useEffect(() => {
+    if (!user) {
+      setMinutes([]);
+      return;
+    }
+
+    api.getMeetingMinutes()
+      .then(setMinutes)
+      .catch(err => {
+        console.error('Error loading meeting minutes for archive:', err);
+        setMinutes([]);
+      });
+  }, [user]);
+
+  const pastEvents = useMemo(
+    () => events.filter(event => event.is_past_event && !(showPublicOnly && event.is_members_only)),
+    [events, showPublicOnly]
+  );
+
+  // Every year from the earliest archived event or minutes up to this one
+  const years = useMemo(() => {
+    const earliest = Math.min(
+      currentYear,
+      ...pastEvents.map(event => new Date(event.event_date).getFullYear()),
+      ...minutes.map(entry => new Date(entry.meeting_date).getFullYear())
+    );
+    return Array.from({ length: currentYear - earliest + 1 }, (_, i) => currentYear - i);
+  }, [pastEvents, minutes, currentYear]);
+
+  const entries = useMemo(() => {
+    const now = new Date();
+    const lodgeMeetings: ArchiveEntry[] = showPublicOnly ? [] : getLodgeMeetingsForYear(selectedYear, meetingSchedule)
+      .filter(meeting => meeting.date < now)
+      .map(meeting => ({
+        key: `meeting-${meeting.date.toISOString()}`,
+        date: meeting.date,
+        title: meeting.title,
+        location: meeting.location,
+        isLodgeMeeting: true,
+        isMembersOnly: false,
+        isCancelled: !!meeting.isCancelled
+      }));
+    const archivedEvents: ArchiveEntry[] = pastEvents
+      .filter(event => new Date(event.event_date).getFullYear() === selectedYear)
+      .map(event => ({
+        key: event.id,
+        date: new Date(event.event_date),
+        title: event.title,
+        location: event.location,
+        isLodgeMeeting: false,
+        isMembersOnly: event.is_members_only,
+        isCancelled: false
+      }));
+
+    return [...lodgeMeetings, ...archivedEvents].sort((a, b) => b.date.getTime() - a.date.getTime());
+  }, [pastEvents, meetingSchedule, selectedYear, showPublicOnly]);
+
+  const minutesByDate = useMemo(
+    () => new Map(minutes.map(entry => [entry.meeting_date.slice(0, 10), entry])),
+    [minutes]
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-heading font-semibold text-primary-600 flex items-center">
+          <Archive size={22} className="mr-2 text-secondary-500" />
+          Event Archive
+        </h3>
+        <div className="flex items-center">
+          <label htmlFor="archive-year" className="text-sm text-neutral-600 mr-2">
+            Year
+          </label>
+          <select
+            id="archive-year"
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(parseInt(e.target.value, 10))}
+            className="px-3 py-1.5 border border-neutral-300 rounded-md text-sm focus:ring-2 focus:ring-secondary-500 focus:border-secondary-500"
+          >
+            {years.map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="bg-white p-6 rounded-lg text-center">
+          <p className="text-neutral-600">No past events recorded for {selectedYear}.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-soft divide-y divide-neutral-100">
+          {entries.map(entry => {
+            const entryMinutes = entry.isCancelled ? undefined : minutesByDate.get(toMeetingDateKey(entry.date));
+
+            return (
+              <div key={entry.key} className="p-4 flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <h4 className={`font-heading font-semibold ${entry.isCancelled ? 'text-neutral-500 line-through' : 'text-primary-600'}`}>
+                      {entry.title}
+                    </h4>
+                    {entry.isLodgeMeeting && (
+                      <span className="text-xs font-medium bg-secondary-100 text-secondary-700 px-2 py-1 rounded">
+                        Lodge Meeting
+                      </span>
+                    )}
+                    {entry.isMembersOnly && (
+                      <span className="flex items-center text-xs font-medium bg-primary-100 text-primary-600 px-2 py-1 rounded">
+                        <Lock size={12} className="mr-1" />
+                        Members Only
+                      </span>
+                    )}
+                    {entry.isCancelled && (
+                      <span className="text-xs font-medium bg-red-100 text-red-700 px-2 py-1 rounded">
+                        Cancelled
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center text-sm text-neutral-500 gap-4 mt-1">
+                    <span className="flex items-center">
+                      <Clock size={14} className="mr-1 text-secondary-500" />
+                      {format(entry.date, 'EEEE d MMMM yyyy')}
+                    </span>
+                    <span className="flex items-center">
+                      <MapPin size={14} className="mr-1 text-secondary-500" />
+                      {entry.location}
+                    </span>
+                  </div>
+                </div>
+                {entryMinutes && (
+                  entryMinutes.document_url ? (
+                    <a
+                      href={entryMinutes.document_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center text-sm font-medium text-secondary-600 hover:text-secondary-700"
+                    >
+                      <FileText size={16} className="mr-1.5" />
+                      View Minutes
+                    </a>
+                  ) : (
+                    <Link
+                      to="/members?category=minutes"
+                      className="flex items-center text-sm font-medium text-secondary-600 hover:text-secondary-700"
+                    >
+                      <FileText size={16} className="mr-1.5" />
+                      View Minutes
+                    </Link>
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!user && (
+        <p className="text-sm text-neutral-500 mt-4">
+          Members can <Link to="/login" className="text-secondary-600 hover:text-secondary-700 underline">sign in</Link> to
+          see the minutes of past Lodge meetings.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default EventArchive;
@@ -1,8 +1,9 @@
 import React from 'react';
-import { Calendar, Clock, MapPin, Lock } from 'lucide-react';
+import { Calendar, Clock, MapPin, Lock, CalendarPlus } from 'lucide-react';
 import { format } from 'date-fns';
 import { Event } from '../types';
 import Button from './Button';
+import { downloadICalendar, eventToCalendarEntry, icsFilename } from '../utils/icalendar';
 
 interface EventCardProps {
   event: Event;
@@ -49,13 +50,22 @@ const EventCard: React.FC<EventCardProps> = ({ event, detailed = false }) => {
           <p className="mt-4 text-neutral-600 line-clamp-2">{description}</p>
         )}
         
-        {!detailed && (
-          <div className="mt-5">
+        <div className="mt-5 flex flex-wrap items-center gap-4">
+          {!detailed && (
             <Button variant="outline" size="sm">
               View Details
             </Button>
-          </div>
-        )}
+          )}
+          <button
+            type="button"
+            onClick={() => downloadICalendar(icsFilename(date), [eventToCalendarEntry(event)])}
+            className="flex items-center text-sm text-secondary-600 hover:text-secondary-700 transition-colors"
+            title="Download this event as an .ics file"
+          >
+            <CalendarPlus size={16} className="mr-1.5" />
+            Add to Calendar
+          </button>
+        </div>
       </div>
     </div>
   );
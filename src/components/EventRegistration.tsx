@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Users } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../lib/api';
+import { CMSEvent, EventRegistration as Registration, EventRegistrationSummary } from '../types';
+import Button from './Button';
+
+interface EventRegistrationProps {
+  event: CMSEvent;
+  summary?: EventRegistrationSummary;
+  registration?: Registration; // The signed-in member's active registration, if any
+  onChange: () => void;
+}
+
+const MAX_SEATS = 10;
+
+const inputClassName = 'w-full px-4 py-2 border border-neutral-300 rounded-md focus:ring-2 focus:ring-secondary-500 focus:border-secondary-500 disabled:bg-neutral-100 disabled:cursor-not-allowed';
+
+const EventRegistration: React.FC<EventRegistrationProps> = ({ event, summary, registration, onChange }) => {
+  const { user, profile } = useAuth();
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState({ name: '', email: '', phone: '', seats: '1', notes: '' });
+  const [formStatus, setFormStatus] = useState<'idle' | 'submitting' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+
+  if (!event.capacity) return null;
+
+  const deadline = event.signup_deadline ? new Date(event.signup_deadline) : null;
+  const isClosed = new Date(event.event_date) <= new Date() || (deadline !== null && deadline <= new Date());
+  const placesLeft = Math.max(0, event.capacity - (summary?.confirmed_seats || 0));
+  const waitlistCount = summary?.waitlist_count || 0;
+  const isFull = placesLeft === 0 || waitlistCount > 0;
+
+  const openForm = () => {
+    setFormData(prev => ({
+      ...prev,
+      name: prev.name || profile?.full_name || '',
+      email: prev.email || profile?.contact_email || user?.email || ''
+    }));
+    setMessage('');
+    setShowForm(true);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormStatus('submitting');
+
+    try {
+      const result = await api.registerForEvent({
+        event_id: event.id,
+        name: formData.name,
+        email: formData.email,
+        phone: formData.phone || undefined,
+        seats: parseInt(formData.seats, 10),
+        notes: formData.notes || undefined
+      });
+
+      setFormStatus('idle');
+      setShowForm(false);
+      setMessage(result.status === 'confirmed'
+        ? 'You are registered. A confirmation has been sent to your email.'
+        : 'The event is full, so you have been added to the waitlist. We will email you if a place comes up.');
+      onChange();
+    } catch (error) {
+      console.error('Error registering for event:', error);
+      setFormStatus('error');
+      setMessage(error instanceof Error ? error.message : 'Failed to register. Please try again.');
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!registration) return;
+
+    try {
+      setFormStatus('submitting');
+      await api.cancelEventRegistration({ registration_id: registration.id });
+      setFormStatus('idle');
+      setMessage('Your registration has been cancelled.');
+      onChange();
+    } catch (error) {
+      console.error('Error cancelling registration:', error);
+      setFormStatus('error');
+      setMessage(error instanceof Error ? error.message : 'Failed to cancel. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-neutral-50 border border-neutral-100 rounded-lg px-6 py-4 mt-2">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center text-sm text-neutral-600">
+          <Users size={16} className="mr-1.5 text-secondary-500" />
+          {isFull
+            ? `Fully booked${waitlistCount > 0 ? ` - ${waitlistCount} on the waitlist` : ''}`
+            : `${placesLeft} of ${event.capacity} places left`}
+          {deadline && !isClosed && (
+            <span className="ml-2 text-neutral-500">&middot; Book by {format(deadline, 'd MMMM, HH:mm')}</span>
+          )}
+        </div>
+
+        {registration ? (
+          <div className="flex items-center gap-3">
+            <span className={`text-xs font-medium px-2 py-1 rounded ${registration.status === 'confirmed' ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-800'}`}>
+              {registration.status === 'confirmed'
+                ? `Registered (${registration.seats} ${registration.seats === 1 ? 'place' : 'places'})`
+                : 'On the waitlist'}
+            </span>
+            <Button size="sm" variant="outline" onClick={handleCancel} disabled={formStatus === 'submitting'}>
+              {formStatus === 'submitting' ? 'Cancelling...' : 'Cancel'}
+            </Button>
+          </div>
+        ) : isClosed ? (
+          <span className="text-sm text-neutral-500">Registration closed</span>
+        ) : event.is_members_only && !user ? (
+          <Link to="/login" className="text-sm font-medium text-secondary-600 hover:text-secondary-700">
+            Sign in to register
+          </Link>
+        ) : !showForm && (
+          <Button size="sm" onClick={openForm}>
+            {isFull ? 'Join Waitlist' : 'Register'}
+          </Button>
+        )}
+      </div>
+
+      {message && (
+        <p className={`mt-3 text-sm ${formStatus === 'error' ? 'text-red-600' : 'text-green-700'}`}>{message}</p>
+      )}
+
+      {showForm && !registration && (
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <input
+              type="text"
+              name="name"
+              value={formData.name}
+              onChange={handleChange}
+              required
+              disabled={formStatus === 'submitting'}
+              placeholder="Your name"
+              aria-label="Your name"
+              className={inputClassName}
+            />
+            <input
+              type="email"
+              name="email"
+              value={formData.email}
+              onChange={handleChange}
+              required
+              disabled={formStatus === 'submitting'}
+              placeholder="Email address"
+              aria-label="Email address"
+              className={inputClassName}
+            />
+            <input
+              type="tel"
+              name="phone"
+              value={formData.phone}
+              onChange={handleChange}
+              disabled={formStatus === 'submitting'}
+              placeholder="Phone number (optional)"
+              aria-label="Phone number"
+              className={inputClassName}
+            />
+            <select
+              name="seats"
+              value={formData.seats}
+              onChange={handleChange}
+              disabled={formStatus === 'submitting'}
+              aria-label="Number of places"
+              className={inputClassName}
+            >
+              {Array.from({ length: MAX_SEATS }, (_, i) => i + 1).map(seats => (
+                <option key={seats} value={seats}>
+                  {seats === 1 ? '1 place' : `${seats} places (you and ${seats - 1} ${seats === 2 ? 'guest' : 'guests'})`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            name="notes"
+            value={formData.notes}
+            onChange={handleChange}
+            rows={2}
+            disabled={formStatus === 'submitting'}
+            placeholder="Guest names, dietary requirements or anything else we should know"
+            aria-label="Notes"
+            className={inputClassName}
+          />
+          <div className="flex justify-end space-x-4">
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={formStatus === 'submitting'}>
+              {formStatus === 'submitting' ? 'Sending...' : isFull ? 'Join Waitlist' : 'Register'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default EventRegistration;
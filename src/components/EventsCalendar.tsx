@@ -0,0 +1,350 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  addDays,
+  addMonths,
+  addYears,
+  eachDayOfInterval,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  startOfWeek
+} from 'date-fns';
+import { ChevronLeft, ChevronRight, Clock, MapPin } from 'lucide-react';
+import { CMSEvent } from '../types';
+import { MeetingSchedule } from '../utils/lodgeMeetings';
+import {
+  CALENDAR_ITEM_STYLES,
+  CalendarItem,
+  CalendarView,
+  WEEK_OPTIONS,
+  getCalendarItems,
+  getCalendarRange,
+  shiftCalendarDate
+} from '../utils/eventCalendar';
+import Button from './Button';
+import EventCard from './EventCard';
+import LodgeMeetingCard from './LodgeMeetingCard';
+
+interface EventsCalendarProps {
+  view: Exclude<CalendarView, 'list'>;
+  date: Date;
+  events: CMSEvent[];
+  meetingSchedule: MeetingSchedule;
+  onNavigate: (date: Date, options?: { replace?: boolean }) => void;
+  renderEventActions?: (event: CMSEvent) => React.ReactNode;
+}
+
+const WEEKDAY_HEADINGS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const KEYBOARD_HINTS: Record<EventsCalendarProps['view'], string> = {
+  month: 'Arrow keys move between days, Home and End to the start or end of the week, Page Up and Page Down change month (with Shift, year).',
+  week: 'Left and right arrow keys move between days, Page Up and Page Down change week.',
+  agenda: 'Up and down arrow keys move between entries, Page Up and Page Down show the previous or next weeks.'
+};
+
+const toEventCardData = (event: CMSEvent) => ({
+  id: event.id,
+  title: event.title,
+  date: new Date(event.event_date),
+  description: event.description,
+  location: event.location,
+  isMembers: event.is_members_only
+});
+
+const CalendarChip: React.FC<{ item: CalendarItem; showTime?: boolean }> = ({ item, showTime = false }) => (
+  <div
+    className={`text-xs rounded px-1.5 py-0.5 truncate ${CALENDAR_ITEM_STYLES[item.kind].className} ${item.isCancelled ? 'line-through opacity-60' : ''}`}
+    title={`${format(item.start, 'HH:mm')} ${item.title}${item.isCancelled ? ' (cancelled)' : ''}`}
+  >
+    {showTime && <span className="font-semibold mr-1">{format(item.start, 'HH:mm')}</span>}
+    {item.title}
+  </div>
+);
+
+const EventsCalendar: React.FC<EventsCalendarProps> = ({
+  view,
+  date,
+  events,
+  meetingSchedule,
+  onNavigate,
+  renderEventActions
+}) => {
+  const [focusedDate, setFocusedDate] = useState<Date>(startOfDay(date));
+  const [focusedItemIndex, setFocusedItemIndex] = useState(0);
+  const focusAfterMove = useRef(false);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const range = useMemo(() => getCalendarRange(view, date), [view, date]);
+
+  const isInView = (day: Date) =>
+    view === 'month' ? isSameMonth(day, date) : day >= range.start && day <= range.end;
+
+  // Follow the URL when it moves to another month or week, e.g. Back/Forward
+  useEffect(() => {
+    setFocusedDate(prev =>
+      (view === 'month' ? isSameMonth(prev, date) : prev >= range.start && prev <= range.end) ? prev : startOfDay(date)
+    );
+    setFocusedItemIndex(0);
+  }, [date, view, range]);
+
+  const items = useMemo(
+    () => getCalendarItems(events, meetingSchedule, range.start, range.end),
+    [events, meetingSchedule, range]
+  );
+  const days = useMemo(() => eachDayOfInterval(range), [range]);
+  const itemsOn = (day: Date) => items.filter(item => isSameDay(item.start, day));
+  const focusedItems = itemsOn(focusedDate);
+
+  // Move keyboard focus to the newly focused day or agenda entry
+  useEffect(() => {
+    if (!focusAfterMove.current) return;
+    focusAfterMove.current = false;
+    gridRef.current?.querySelector<HTMLElement>('[tabindex="0"]')?.focus();
+  });
+
+  const moveTo = (next: Date) => {
+    focusAfterMove.current = true;
+    setFocusedDate(startOfDay(next));
+    if (!isInView(next)) {
+      onNavigate(next, { replace: true });
+    }
+  };
+
+  const handleDayKeyDown = (e: React.KeyboardEvent) => {
+    const moves: Record<string, () => Date> = {
+      ArrowLeft: () => addDays(focusedDate, -1),
+      ArrowRight: () => addDays(focusedDate, 1),
+      Home: () => startOfWeek(focusedDate, WEEK_OPTIONS),
+      End: () => endOfWeek(focusedDate, WEEK_OPTIONS),
+      PageUp: () => view === 'month' ? (e.shiftKey ? addYears(focusedDate, -1) : addMonths(focusedDate, -1)) : addDays(focusedDate, -7),
+      PageDown: () => view === 'month' ? (e.shiftKey ? addYears(focusedDate, 1) : addMonths(focusedDate, 1)) : addDays(focusedDate, 7)
+    };
+    if (view === 'month') {
+      moves.ArrowUp = () => addDays(focusedDate, -7);
+      moves.ArrowDown = () => addDays(focusedDate, 7);
+    }
+
+    const move = moves[e.key];
+    if (move) {
+      e.preventDefault();
+      moveTo(move());
+    }
+  };
+
+  const handleAgendaKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      focusAfterMove.current = true;
+      setFocusedItemIndex(index => Math.min(Math.max(index + (e.key === 'ArrowDown' ? 1 : -1), 0), items.length - 1));
+    } else if (e.key === 'Home' || e.key === 'End') {
+      e.preventDefault();
+      focusAfterMove.current = true;
+      setFocusedItemIndex(e.key === 'Home' ? 0 : items.length - 1);
+    } else if (e.key === 'PageUp' || e.key === 'PageDown') {
+      e.preventDefault();
+      focusAfterMove.current = true;
+      onNavigate(shiftCalendarDate(view, date, e.key === 'PageUp' ? -1 : 1));
+    }
+  };
+
+  const title = view === 'month'
+    ? format(date, 'MMMM yyyy')
+    : `${format(range.start, 'd MMM')} - ${format(range.end, 'd MMM yyyy')}`;
+
+  const renderDayDetails = () => (
+    <div className="mt-6" aria-live="polite">
+      <h4 className="text-lg font-heading font-semibold text-primary-600 mb-4">
+        {format(focusedDate, 'EEEE d MMMM yyyy')}
+      </h4>
+      {focusedItems.length === 0 ? (
+        <p className="text-sm text-neutral-500">Nothing scheduled on this day.</p>
+      ) : (
+        <div className="space-y-4">
+          {focusedItems.map(item => item.meeting ? (
+            <LodgeMeetingCard key={item.id} meeting={item.meeting} />
+          ) : item.event ? (
+            <div key={item.id}>
+              <EventCard event={toEventCardData(item.event)} detailed />
+              {renderEventActions?.(item.event)}
+            </div>
+          ) : null)}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onNavigate(shiftCalendarDate(view, date, -1))}
+          >
+            <ChevronLeft size={16} />
+            <span className="sr-only">Previous {view === 'month' ? 'month' : 'weeks'}</span>
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => onNavigate(new Date())}>
+            Today
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onNavigate(shiftCalendarDate(view, date, 1))}
+          >
+            <ChevronRight size={16} />
+            <span className="sr-only">Next {view === 'month' ? 'month' : 'weeks'}</span>
+          </Button>
+          <h3 className="text-xl font-heading font-semibold text-primary-600 ml-2" aria-live="polite">
+            {title}
+          </h3>
+        </div>
+        <ul className="flex flex-wrap gap-3 text-xs text-neutral-600" aria-label="Colour key">
+          {Object.entries(CALENDAR_ITEM_STYLES).map(([kind, style]) => (
+            <li key={kind} className="flex items-center">
+              <span className={`inline-block w-3 h-3 rounded-full mr-1.5 ${style.dotClassName}`} aria-hidden="true" />
+              {style.label}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <p className="text-xs text-neutral-500 mb-4">{KEYBOARD_HINTS[view]}</p>
+
+      {view === 'month' && (
+        <>
+          <div ref={gridRef} role="grid" aria-label={title} className="border border-neutral-200 rounded-lg overflow-hidden" onKeyDown={handleDayKeyDown}>
+            <div role="row" className="grid grid-cols-7 bg-neutral-50 text-xs font-medium text-neutral-600">
+              {WEEKDAY_HEADINGS.map(day => (
+                <div key={day} role="columnheader" className="px-2 py-2 text-center">{day}</div>
+              ))}
+            </div>
+            {Array.from({ length: days.length / 7 }, (_, week) => (
+              <div key={week} role="row" className="grid grid-cols-7 border-t border-neutral-200">
+                {days.slice(week * 7, week * 7 + 7).map(day => {
+                  const dayItems = itemsOn(day);
+                  const isFocused = isSameDay(day, focusedDate);
+                  return (
+                    <div
+                      key={day.toISOString()}
+                      role="gridcell"
+                      tabIndex={isFocused ? 0 : -1}
+                      aria-selected={isFocused}
+                      aria-label={`${format(day, 'EEEE d MMMM yyyy')}, ${dayItems.length === 0 ? 'nothing scheduled' : dayItems.map(item => item.title).join(', ')}`}
+                      onClick={() => setFocusedDate(day)}
+                      className={`min-h-[6rem] p-1.5 border-l border-neutral-200 first:border-l-0 cursor-pointer focus:outline-none ${
+                        isFocused ? 'ring-2 ring-inset ring-secondary-500' : ''
+                      } ${isSameMonth(day, date) ? 'bg-white' : 'bg-neutral-50 text-neutral-400'}`}
+                    >
+                      <div className={`text-xs mb-1 ${isToday(day) ? 'inline-flex items-center justify-center w-6 h-6 rounded-full bg-primary-600 text-white' : ''}`}>
+                        {format(day, 'd')}
+                      </div>
+                      <div className="space-y-1">
+                        {dayItems.map(item => <CalendarChip key={item.id} item={item} />)}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+          {renderDayDetails()}
+        </>
+      )}
+
+      {view === 'week' && (
+        <>
+          <div ref={gridRef} role="grid" aria-label={title} className="border border-neutral-200 rounded-lg overflow-hidden" onKeyDown={handleDayKeyDown}>
+            <div role="row" className="grid grid-cols-1 md:grid-cols-7">
+              {days.map(day => {
+                const dayItems = itemsOn(day);
+                const isFocused = isSameDay(day, focusedDate);
+                return (
+                  <div
+                    key={day.toISOString()}
+                    role="gridcell"
+                    tabIndex={isFocused ? 0 : -1}
+                    aria-selected={isFocused}
+                    aria-label={`${format(day, 'EEEE d MMMM yyyy')}, ${dayItems.length === 0 ? 'nothing scheduled' : dayItems.map(item => item.title).join(', ')}`}
+                    onClick={() => setFocusedDate(day)}
+                    className={`min-h-[10rem] p-2 border-t md:border-t-0 md:border-l border-neutral-200 first:border-0 cursor-pointer focus:outline-none bg-white ${
+                      isFocused ? 'ring-2 ring-inset ring-secondary-500' : ''
+                    }`}
+                  >
+                    <div className="text-xs font-medium text-neutral-600 mb-2">
+                      {format(day, 'EEE')}{' '}
+                      <span className={isToday(day) ? 'inline-flex items-center justify-center w-6 h-6 rounded-full bg-primary-600 text-white' : ''}>
+                        {format(day, 'd')}
+                      </span>
+                    </div>
+                    <div className="space-y-1">
+                      {dayItems.map(item => <CalendarChip key={item.id} item={item} showTime />)}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+          {renderDayDetails()}
+        </>
+      )}
+
+      {view === 'agenda' && (
+        <div ref={gridRef} onKeyDown={handleAgendaKeyDown}>
+          {items.length === 0 ? (
+            <div className="bg-neutral-50 p-6 rounded-lg text-center text-neutral-600">
+              Nothing scheduled in these weeks.
+            </div>
+          ) : (
+            <ol className="space-y-3" aria-label={title}>
+              {items.map((item, index) => {
+                const isNewDay = index === 0 || !isSameDay(items[index - 1].start, item.start);
+                return (
+                  <li key={item.id}>
+                    {isNewDay && (
+                      <h4 className="text-sm font-semibold text-neutral-700 mt-4 mb-2">
+                        {format(item.start, 'EEEE d MMMM yyyy')}
+                      </h4>
+                    )}
+                    <div
+                      tabIndex={index === Math.min(focusedItemIndex, items.length - 1) ? 0 : -1}
+                      onFocus={() => setFocusedItemIndex(index)}
+                      className={`rounded-lg p-4 focus:outline-none focus:ring-2 focus:ring-secondary-500 ${CALENDAR_ITEM_STYLES[item.kind].className}`}
+                    >
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className={`font-semibold ${item.isCancelled ? 'line-through' : ''}`}>{item.title}</span>
+                        <span className="text-xs bg-white/70 px-2 py-0.5 rounded">{CALENDAR_ITEM_STYLES[item.kind].label}</span>
+                        {item.isCancelled && (
+                          <span className="text-xs font-medium bg-red-100 text-red-700 px-2 py-0.5 rounded">Cancelled</span>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-4 mt-1 text-sm">
+                        <span className="flex items-center">
+                          <Clock size={14} className="mr-1" />
+                          {format(item.start, 'HH:mm')}
+                        </span>
+                        <span className="flex items-center">
+                          <MapPin size={14} className="mr-1" />
+                          {item.location}
+                        </span>
+                      </div>
+                      {item.description && <p className="text-sm mt-2 text-neutral-700">{item.description}</p>}
+                      {item.event && renderEventActions?.(item.event)}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventsCalendar;
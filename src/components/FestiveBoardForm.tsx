@@ -0,0 +1,233 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { format, subDays } from 'date-fns';
+import { CMSEvent, FestiveBoard } from '../types';
+import Button from './Button';
+import { LodgeMeeting, toMeetingDateKey } from '../utils/lodgeMeetings';
+
+interface FestiveBoardFormProps {
+  onSubmit: (data: Omit<FestiveBoard, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
+  onCancel: () => void;
+  initialData?: Partial<FestiveBoard>;
+  meetings: LodgeMeeting[];
+  events: CMSEvent[];
+}
+
+interface FestiveBoardFormData {
+  linked_to: string; // "meeting:YYYY-MM-DD", "event:<id>" or ""
+  title: string;
+  dining_date: string;
+  menu_options: string;
+  price: string;
+  cutoff_date: string;
+  notes: string;
+  is_open: boolean;
+}
+
+const toInputDateTime = (value?: string) => value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '';
+
+const FestiveBoardForm: React.FC<FestiveBoardFormProps> = ({ onSubmit, onCancel, initialData, meetings, events }) => {
+  // A recurring event is stored by its series id, so match the occurrence on the dining day
+  const linkedEvent = initialData?.event_id
+    ? events.find(e => e.id === initialData.event_id ||
+        (e.series_id === initialData.event_id && initialData.dining_date &&
+          e.event_date.slice(0, 10) === initialData.dining_date.slice(0, 10)))
+    : undefined;
+
+  const { register, handleSubmit, setValue, formState: { errors, isSubmitting } } = useForm<FestiveBoardFormData>({
+    defaultValues: {
+      linked_to: initialData?.meeting_date
+        ? `meeting:${initialData.meeting_date}`
+        : linkedEvent ? `event:${linkedEvent.id}` : '',
+      title: initialData?.title || '',
+      dining_date: toInputDateTime(initialData?.dining_date),
+      menu_options: (initialData?.menu_options || []).join('\n'),
+      price: initialData?.price !== undefined && initialData.price !== null ? String(initialData.price) : '',
+      cutoff_date: toInputDateTime(initialData?.cutoff_date),
+      notes: initialData?.notes || '',
+      is_open: initialData?.is_open !== undefined ? initialData.is_open : true
+    }
+  });
+
+  // Pre-fill the title, dining time and a cut-off a week before from the chosen meeting or event
+  const handleLinkedToChange = (value: string) => {
+    const [type, id] = value.split(':');
+    const meeting = type === 'meeting' ? meetings.find(m => toMeetingDateKey(m.originalDate || m.date) === id) : undefined;
+    const event = type === 'event' ? events.find(e => e.id === id) : undefined;
+    const title = meeting?.title || event?.title;
+    const date = meeting?.date || (event ? new Date(event.event_date) : undefined);
+
+    if (title && date) {
+      setValue('title', `Festive Board - ${title}`);
+      setValue('dining_date', format(date, "yyyy-MM-dd'T'HH:mm"));
+      setValue('cutoff_date', format(subDays(date, 7), "yyyy-MM-dd'T'HH:mm"));
+    }
+  };
+
+  const onFormSubmit = async (data: FestiveBoardFormData) => {
+    const [type, id] = data.linked_to.split(':');
+
+    await onSubmit({
+      title: data.title,
+      event_id: type === 'event' ? events.find(e => e.id === id)?.series_id || id : undefined,
+      meeting_date: type === 'meeting' ? id : undefined,
+      dining_date: new Date(data.dining_date).toISOString(),
+      menu_options: data.menu_options.split('\n').map(option => option.trim()).filter(Boolean),
+      price: data.price ? Number(data.price) : undefined,
+      cutoff_date: new Date(data.cutoff_date).toISOString(),
+      notes: data.notes || undefined,
+      is_open: data.is_open
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-6">
+      <div>
+        <label htmlFor="linked_to" className="block text-sm font-medium text-primary-600">
+          Following
+        </label>
+        <select
+          id="linked_to"
+          {...register('linked_to', { onChange: (e) => handleLinkedToChange(e.target.value) })}
+          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+        >
+          <option value="">Not linked to a meeting or event</option>
+          {meetings.length > 0 && (
+            <optgroup label="Lodge Meetings">
+              {meetings.map(meeting => {
+                const key = toMeetingDateKey(meeting.originalDate || meeting.date);
+                return (
+                  <option key={key} value={`meeting:${key}`}>
+                    {format(meeting.date, 'd MMMM yyyy')} - {meeting.title}
+                  </option>
+                );
+              })}
+            </optgroup>
+          )}
+          {events.length > 0 && (
+            <optgroup label="Events">
+              {events.map(event => (
+                <option key={event.id} value={`event:${event.id}`}>
+                  {format(new Date(event.event_date), 'd MMMM yyyy')} - {event.title}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="title" className="block text-sm font-medium text-primary-600">
+          Title
+        </label>
+        <input
+          id="title"
+          {...register('title', { required: 'Title is required' })}
+          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          placeholder="e.g., Festive Board - Installation Meeting"
+        />
+        {errors.title && (
+          <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="dining_date" className="block text-sm font-medium text-primary-600">
+            Dining Date & Time
+          </label>
+          <input
+            id="dining_date"
+            type="datetime-local"
+            {...register('dining_date', { required: 'Dining date is required' })}
+            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          />
+          {errors.dining_date && (
+            <p className="mt-1 text-sm text-red-600">{errors.dining_date.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="cutoff_date" className="block text-sm font-medium text-primary-600">
+            Booking Cut-off
+          </label>
+          <input
+            id="cutoff_date"
+            type="datetime-local"
+            {...register('cutoff_date', { required: 'Cut-off date is required' })}
+            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          />
+          {errors.cutoff_date && (
+            <p className="mt-1 text-sm text-red-600">{errors.cutoff_date.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="price" className="block text-sm font-medium text-primary-600">
+            Price per Head (£)
+          </label>
+          <input
+            id="price"
+            type="number"
+            step="0.01"
+            min="0"
+            {...register('price')}
+            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="menu_options" className="block text-sm font-medium text-primary-600">
+          Menu Choices
+        </label>
+        <textarea
+          id="menu_options"
+          {...register('menu_options', { required: 'Add at least one menu choice' })}
+          rows={4}
+          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          placeholder={'One choice per line, e.g.\nRoast Beef\nSalmon\nVegetarian Wellington'}
+        />
+        {errors.menu_options && (
+          <p className="mt-1 text-sm text-red-600">{errors.menu_options.message}</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="notes" className="block text-sm font-medium text-primary-600">
+          Notes for Members
+        </label>
+        <textarea
+          id="notes"
+          {...register('notes')}
+          rows={2}
+          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          placeholder="e.g., Payment to the Treasurer on the night. Dark suits."
+        />
+      </div>
+
+      <div className="flex items-center">
+        <input
+          id="is_open"
+          type="checkbox"
+          {...register('is_open')}
+          className="h-4 w-4 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
+        />
+        <label htmlFor="is_open" className="ml-2 block text-sm text-neutral-700">
+          Open for bookings
+        </label>
+      </div>
+
+      <div className="flex justify-end space-x-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Save Festive Board'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default FestiveBoardForm;
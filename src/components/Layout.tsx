@@ -18,12 +18,17 @@ const Layout: React.FC = () => {
   return (
     <div className="flex flex-col min-h-screen">
       <SkipLink />
-      {isMembersArea ? <MembersHeader /> : <Header />}
+      <div className="print:hidden">
+        {isMembersArea ? <MembersHeader /> : <Header />}
+      </div>
       <main id="main-content" className="flex-grow" tabIndex={-1}>
         <Outlet />
       </main>
-      <Footer />
-      <CookieConsent />
+      {/* Pages such as the summons print without the site chrome */}
+      <div className="print:hidden">
+        <Footer />
+        <CookieConsent />
+      </div>
       
       {/* Global Toast Notifications */}
       {toasts.map((toast) => (
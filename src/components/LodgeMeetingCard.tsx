@@ -0,0 +1,70 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { CalendarPlus, Clock, MapPin } from 'lucide-react';
+import { LodgeMeeting } from '../utils/lodgeMeetings';
+import { downloadICalendar, icsFilename, lodgeMeetingToCalendarEntry } from '../utils/icalendar';
+
+interface LodgeMeetingCardProps {
+  meeting: LodgeMeeting;
+}
+
+const LodgeMeetingCard: React.FC<LodgeMeetingCardProps> = ({ meeting }) => (
+  <div className={`rounded-lg border p-5 ${meeting.isCancelled ? 'bg-neutral-50 border-neutral-200' : 'bg-white border-neutral-200 shadow-soft'}`}>
+    <div className="flex flex-wrap items-center gap-2 mb-2">
+      <h4 className={`text-lg font-heading font-semibold ${meeting.isCancelled ? 'text-neutral-500 line-through' : 'text-primary-600'}`}>
+        {meeting.title}
+      </h4>
+      {meeting.isInstallation && (
+        <span className="text-xs font-medium bg-secondary-100 text-secondary-700 px-2 py-1 rounded">
+          Installation
+        </span>
+      )}
+      {meeting.isCancelled && (
+        <span className="text-xs font-medium bg-red-100 text-red-700 px-2 py-1 rounded">
+          Cancelled
+        </span>
+      )}
+      {meeting.originalDate && (
+        <span className="text-xs font-medium bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
+          Moved
+        </span>
+      )}
+      {meeting.isEmergency && (
+        <span className="text-xs font-medium bg-primary-100 text-primary-700 px-2 py-1 rounded">
+          Emergency Meeting
+        </span>
+      )}
+    </div>
+    <div className="flex flex-wrap items-center text-sm text-neutral-600 gap-4">
+      <span className="flex items-center">
+        <Clock size={16} className="mr-1 text-secondary-500" />
+        {format(meeting.date, 'EEEE d MMMM yyyy, HH:mm')}
+      </span>
+      <span className="flex items-center">
+        <MapPin size={16} className="mr-1 text-secondary-500" />
+        {meeting.location}
+      </span>
+    </div>
+    {meeting.originalDate && (
+      <p className="text-sm text-neutral-500 mt-2">
+        Originally scheduled for {format(meeting.originalDate, 'EEEE d MMMM yyyy')}
+      </p>
+    )}
+    {meeting.reason && (
+      <p className="text-sm text-neutral-600 mt-2">{meeting.reason}</p>
+    )}
+    {!meeting.isCancelled && (
+      <button
+        type="button"
+        onClick={() => downloadICalendar(icsFilename(meeting.date), [lodgeMeetingToCalendarEntry(meeting)])}
+        className="flex items-center text-sm text-secondary-600 hover:text-secondary-700 transition-colors mt-3"
+        title="Download this meeting as an .ics file"
+      >
+        <CalendarPlus size={16} className="mr-1.5" />
+        Add to Calendar
+      </button>
+    )}
+  </div>
+);
+
+export default LodgeMeetingCard;
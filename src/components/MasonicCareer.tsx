@@ -0,0 +1,86 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Award } from 'lucide-react';
+import { MasonicCareerFields } from '../types';
+import { APPOINTMENT_LEVEL_LABELS, getCareerMilestones, getSortedAppointments } from '../utils/masonicCareer';
+
+interface MasonicCareerProps {
+  career: MasonicCareerFields;
+  // One line per member for the directory cards
+  compact?: boolean;
+}
+
+const MasonicCareer: React.FC<MasonicCareerProps> = ({ career, compact = false }) => {
+  const milestones = getCareerMilestones(career);
+  const appointments = getSortedAppointments(career);
+
+  if (compact) {
+    if (milestones.length === 0 && appointments.length === 0) return null;
+
+    return (
+      <div className="text-xs text-neutral-500 mt-2 space-y-1">
+        {milestones.length > 0 && (
+          <p>{milestones.map(m => `${m.label} ${format(m.date, 'yyyy')}`).join(' • ')}</p>
+        )}
+        {appointments[0] && (
+          <p className="flex items-center">
+            <Award size={12} className="mr-1 text-secondary-500 flex-shrink-0" />
+            {appointments[0].title} ({appointments[0].year})
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-soft mt-6">
+      <h4 className="text-lg font-heading font-semibold text-primary-600 mb-2 flex items-center">
+        <Award className="w-5 h-5 mr-2 text-secondary-500" />
+        Masonic Career
+      </h4>
+
+      {milestones.length === 0 && appointments.length === 0 ? (
+        <p className="text-sm text-neutral-600">
+          No career milestones have been recorded yet. Contact the Lodge Secretary to have your record added.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-4 text-sm">
+          <div>
+            <h5 className="font-medium text-neutral-700 mb-2">Milestones</h5>
+            {milestones.length === 0 ? (
+              <p className="text-neutral-500">None recorded</p>
+            ) : (
+              <ul className="space-y-2">
+                {milestones.map(milestone => (
+                  <li key={milestone.label} className="flex justify-between gap-4 border-b border-neutral-100 pb-2">
+                    <span className="text-neutral-600">{milestone.label}</span>
+                    <span className="font-medium text-neutral-900">{format(milestone.date, 'd MMMM yyyy')}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div>
+            <h5 className="font-medium text-neutral-700 mb-2">Appointments</h5>
+            {appointments.length === 0 ? (
+              <p className="text-neutral-500">None recorded</p>
+            ) : (
+              <ul className="space-y-2">
+                {appointments.map((appointment, index) => (
+                  <li key={index} className="border-b border-neutral-100 pb-2">
+                    <span className="font-medium text-neutral-900">{appointment.title}</span>
+                    <span className="block text-neutral-500">
+                      {APPOINTMENT_LEVEL_LABELS[appointment.level]}, {appointment.year}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MasonicCareer;
@@ -1,7 +1,10 @@
 import React from 'react';
-import { useForm } from 'react-hook-form';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { Plus, Trash2 } from 'lucide-react';
 import Button from './Button';
-import { MemberProfile } from '../types';
+import { LodgePermission, MasonicAppointment, MasonicCareerFields, MemberProfile } from '../types';
+import { APPOINTMENT_LEVEL_LABELS, CAREER_MILESTONES } from '../utils/masonicCareer';
+import { LODGE_PERMISSIONS } from '../utils/permissions';
 
 interface MemberProfileAdminFormProps {
   onSubmit: (data: {
@@ -11,7 +14,8 @@ interface MemberProfileAdminFormProps {
     position?: string;
     role: 'member' | 'admin';
     notes?: string;
-  }) => Promise<void>;
+    permissions?: LodgePermission[];
+  } & MasonicCareerFields) => Promise<void>;
   onCancel: () => void;
   initialData?: Partial<MemberProfile>;
 }
@@ -21,21 +25,44 @@ const MemberProfileAdminForm: React.FC<MemberProfileAdminFormProps> = ({
   onCancel, 
   initialData 
 }) => {
-  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm({
+  const { register, control, handleSubmit, formState: { errors, isSubmitting } } = useForm({
     defaultValues: {
       user_id: initialData?.user_id || '',
       full_name: initialData?.full_name || '',
       status: initialData?.status || 'pending',
       position: initialData?.position || '',
       role: initialData?.role || 'member',
-      notes: initialData?.notes || ''
+      notes: initialData?.notes || '',
+      permissions: (initialData?.permissions || []) as LodgePermission[],
+      initiated_date: initialData?.initiated_date || '',
+      passed_date: initialData?.passed_date || '',
+      raised_date: initialData?.raised_date || '',
+      installed_date: initialData?.installed_date || '',
+      exalted_date: initialData?.exalted_date || '',
+      masonic_appointments: (initialData?.masonic_appointments || []) as MasonicAppointment[]
     }
   });
+  const { fields: appointmentFields, append, remove } = useFieldArray({ control, name: 'masonic_appointments' });
 
   const isEditing = !!initialData;
 
+  const onFormSubmit = async (data: Parameters<MemberProfileAdminFormProps['onSubmit']>[0]) => {
+    // Empty date inputs clear the milestone rather than sending '' to a date column
+    await onSubmit({
+      ...data,
+      initiated_date: data.initiated_date || null,
+      passed_date: data.passed_date || null,
+      raised_date: data.raised_date || null,
+      installed_date: data.installed_date || null,
+      exalted_date: data.exalted_date || null,
+      masonic_appointments: (data.masonic_appointments || [])
+        .filter(appointment => appointment.title.trim())
+        .map(appointment => ({ ...appointment, title: appointment.title.trim(), year: Number(appointment.year) }))
+    });
+  };
+
   return (
-    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+    <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-6">
       <div>
         <label htmlFor="user_id" className="block text-sm font-medium text-primary-600">
           User ID
@@ -113,6 +140,99 @@ const MemberProfileAdminForm: React.FC<MemberProfileAdminFormProps> = ({
         )}
       </div>
 
+      <fieldset>
+        <legend className="block text-sm font-medium text-primary-600">Office Permissions</legend>
+        <div className="mt-2 space-y-2">
+          {LODGE_PERMISSIONS.map(({ permission, label, description }) => (
+            <label key={permission} className="flex items-start text-sm">
+              <input
+                type="checkbox"
+                value={permission}
+                {...register('permissions')}
+                className="mt-0.5 mr-2 h-4 w-4 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
+              />
+              <span>
+                <span className="font-medium text-neutral-700">{label}</span>
+                <span className="block text-neutral-500">{description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <fieldset className="border border-neutral-200 rounded-md p-4">
+        <legend className="px-2 text-sm font-medium text-primary-600">Masonic Career</legend>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {CAREER_MILESTONES.map(({ field, label }) => (
+            <div key={field}>
+              <label htmlFor={field} className="block text-sm text-neutral-700">
+                {label}
+              </label>
+              <input
+                id={field}
+                type="date"
+                {...register(field)}
+                className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm text-neutral-700">Provincial and Grand Appointments</span>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => append({ title: '', level: 'provincial', year: new Date().getFullYear() })}
+              className="flex items-center"
+            >
+              <Plus size={14} className="mr-1" />
+              Add Appointment
+            </Button>
+          </div>
+          <div className="space-y-2">
+            {appointmentFields.map((field, index) => (
+              <div key={field.id} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center">
+                <input
+                  {...register(`masonic_appointments.${index}.title` as const, { required: 'Appointment title is required' })}
+                  placeholder="e.g., Provincial Grand Steward"
+                  aria-label="Appointment"
+                  className="block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500 md:col-span-6"
+                />
+                <select
+                  {...register(`masonic_appointments.${index}.level` as const)}
+                  aria-label="Appointment level"
+                  className="block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500 md:col-span-3"
+                >
+                  {Object.entries(APPOINTMENT_LEVEL_LABELS).map(([level, label]) => (
+                    <option key={level} value={level}>{label}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  {...register(`masonic_appointments.${index}.year` as const, { required: true, min: 1717, max: 2100 })}
+                  aria-label="Year"
+                  className="block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500 md:col-span-2"
+                />
+                <button
+                  type="button"
+                  className="p-2 text-neutral-500 hover:text-red-500 transition-colors md:col-span-1"
+                  onClick={() => remove(index)}
+                  title="Remove appointment"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+          {errors.masonic_appointments && (
+            <p className="mt-1 text-sm text-red-600">Each appointment needs a title and a year</p>
+          )}
+        </div>
+      </fieldset>
+
       <div>
         <label htmlFor="notes" className="block text-sm font-medium text-primary-600">
           Admin Notes
@@ -1,12 +1,12 @@
 import React, { useState } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
-import { Menu, X, LogOut, User, Settings, Home, FileText, Users, Calendar } from 'lucide-react';
+import { Menu, X, LogOut, User, Settings, Home, FileText, Users, Calendar, UtensilsCrossed, ScrollText, PoundSterling, GraduationCap, HeartHandshake } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import Button from './Button';
 
 const MembersHeader: React.FC = () => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
-  const { user, profile, signOut } = useAuth();
+  const { user, profile, signOut, hasPermission } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
 
@@ -72,6 +72,52 @@ const MembersHeader: React.FC = () => {
             >
               Directory
             </Link>
+            <Link 
+              to="/members/dining" 
+              className={`text-sm font-medium hover:text-secondary-300 transition-colors ${
+                location.pathname === '/members/dining' ? 'text-secondary-500' : 'text-neutral-50'
+              }`}
+            >
+              Dining
+            </Link>
+            <Link 
+              to="/members/ceremonies" 
+              className={`text-sm font-medium hover:text-secondary-300 transition-colors ${
+                location.pathname === '/members/ceremonies' ? 'text-secondary-500' : 'text-neutral-50'
+              }`}
+            >
+              Ceremonies
+            </Link>
+            {hasPermission('treasurer') && (
+              <Link 
+                to="/members/treasurer" 
+                className={`text-sm font-medium hover:text-secondary-300 transition-colors ${
+                  location.pathname === '/members/treasurer' ? 'text-secondary-500' : 'text-neutral-50'
+                }`}
+              >
+                Treasurer
+              </Link>
+            )}
+            {(hasPermission('mentor') || profile?.role === 'admin') && (
+              <Link 
+                to="/members/mentoring" 
+                className={`text-sm font-medium hover:text-secondary-300 transition-colors ${
+                  location.pathname === '/members/mentoring' ? 'text-secondary-500' : 'text-neutral-50'
+                }`}
+              >
+                Mentoring
+              </Link>
+            )}
+            {(hasPermission('almoner') || hasPermission('worshipful_master')) && (
+              <Link 
+                to="/members/welfare" 
+                className={`text-sm font-medium hover:text-secondary-300 transition-colors ${
+                  location.pathname === '/members/welfare' ? 'text-secondary-500' : 'text-neutral-50'
+                }`}
+              >
+                Almoner
+              </Link>
+            )}
             {profile?.role === 'admin' && (
               <>
                 <Link 
@@ -161,6 +207,72 @@ const MembersHeader: React.FC = () => {
                 <Users size={18} className="mr-3" />
                 Directory
               </Link>
+              <Link 
+                to="/members/dining" 
+                className={`flex items-center py-2 px-4 rounded-md ${
+                  location.pathname === '/members/dining' 
+                    ? 'bg-primary-700 text-secondary-500' 
+                    : 'text-white hover:bg-primary-700'
+                }`}
+                onClick={() => setIsMenuOpen(false)}
+              >
+                <UtensilsCrossed size={18} className="mr-3" />
+                Dining
+              </Link>
+              <Link 
+                to="/members/ceremonies" 
+                className={`flex items-center py-2 px-4 rounded-md ${
+                  location.pathname === '/members/ceremonies' 
+                    ? 'bg-primary-700 text-secondary-500' 
+                    : 'text-white hover:bg-primary-700'
+                }`}
+                onClick={() => setIsMenuOpen(false)}
+              >
+                <ScrollText size={18} className="mr-3" />
+                Ceremonies
+              </Link>
+              {hasPermission('treasurer') && (
+                <Link 
+                  to="/members/treasurer" 
+                  className={`flex items-center py-2 px-4 rounded-md ${
+                    location.pathname === '/members/treasurer' 
+                      ? 'bg-primary-700 text-secondary-500' 
+                      : 'text-white hover:bg-primary-700'
+                  }`}
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  <PoundSterling size={18} className="mr-3" />
+                  Treasurer
+                </Link>
+              )}
+              {(hasPermission('mentor') || profile?.role === 'admin') && (
+                <Link 
+                  to="/members/mentoring" 
+                  className={`flex items-center py-2 px-4 rounded-md ${
+                    location.pathname === '/members/mentoring' 
+                      ? 'bg-primary-700 text-secondary-500' 
+                      : 'text-white hover:bg-primary-700'
+                  }`}
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  <GraduationCap size={18} className="mr-3" />
+                  Mentoring
+                </Link>
+              )}
+              {(hasPermission('almoner') || hasPermission('worshipful_master')) && (
+                <Link 
+                  to="/members/welfare" 
+                  className={`flex items-center py-2 px-4 rounded-md ${
+                    location.pathname === '/members/welfare' 
+                      ? 'bg-primary-700 text-secondary-500' 
+                      : 'text-white hover:bg-primary-700'
+                  }`}
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  <HeartHandshake size={18} className="mr-3" />
+                  Almoner
+                </Link>
+              )}
               {profile?.role === 'admin' && (
                 <>
                   <Link 
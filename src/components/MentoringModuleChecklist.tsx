@@ -0,0 +1,71 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { CheckCircle, Circle } from 'lucide-react';
+import { MasonicCareerFields, MentoringModuleCompletion } from '../types';
+import { MENTORING_MODULES, MENTORING_STAGE_LABELS, MentoringModule, MentoringStage, getStageDate } from '../utils/mentoring';
+
+interface MentoringModuleChecklistProps {
+  career: MasonicCareerFields;
+  completions: MentoringModuleCompletion[];
+  // Read-only when omitted
+  onToggle?: (module: MentoringModule, completion?: MentoringModuleCompletion) => void;
+}
+
+const STAGES = Object.keys(MENTORING_STAGE_LABELS) as MentoringStage[];
+
+const MentoringModuleChecklist: React.FC<MentoringModuleChecklistProps> = ({ career, completions, onToggle }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    {STAGES.map(stage => {
+      const reached = getStageDate(career, stage) !== null;
+      return (
+        <div key={stage}>
+          <h5 className="text-sm font-medium text-primary-600 mb-2">
+            {MENTORING_STAGE_LABELS[stage]}
+            {!reached && <span className="text-xs font-normal text-neutral-400"> - not yet taken</span>}
+          </h5>
+          <ul className="space-y-1">
+            {MENTORING_MODULES.filter(module => module.stage === stage).map(module => {
+              const completion = completions.find(c => c.module_key === module.key);
+              const content = (
+                <>
+                  {completion ? (
+                    <CheckCircle className="w-4 h-4 text-green-600 mr-2 mt-0.5 flex-shrink-0" />
+                  ) : (
+                    <Circle className="w-4 h-4 text-neutral-300 mr-2 mt-0.5 flex-shrink-0" />
+                  )}
+                  <span className={completion ? 'text-neutral-800' : 'text-neutral-600'}>
+                    {module.title}
+                    {completion && (
+                      <span className="block text-xs text-neutral-500">
+                        Completed {format(new Date(completion.completed_on), 'd MMM yyyy')}
+                      </span>
+                    )}
+                  </span>
+                </>
+              );
+
+              return (
+                <li key={module.key} className="text-sm">
+                  {onToggle ? (
+                    <button
+                      type="button"
+                      onClick={() => onToggle(module, completion)}
+                      className="w-full flex items-start text-left px-2 py-1 rounded-md hover:bg-neutral-50 transition-colors"
+                      title={completion ? 'Mark as not completed' : 'Mark as completed'}
+                    >
+                      {content}
+                    </button>
+                  ) : (
+                    <div className="flex items-start px-2 py-1">{content}</div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default MentoringModuleChecklist;
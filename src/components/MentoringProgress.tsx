@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { GraduationCap } from 'lucide-react';
+import { api } from '../lib/api';
+import { MasonicCareerFields, MentoringAssignment, MentoringMeeting, MentoringModuleCompletion } from '../types';
+import LoadingSpinner from './LoadingSpinner';
+import MentoringModuleChecklist from './MentoringModuleChecklist';
+
+interface MentoringProgressProps {
+  userId: string;
+  career: MasonicCareerFields;
+}
+
+const MentoringProgress: React.FC<MentoringProgressProps> = ({ userId, career }) => {
+  const [assignment, setAssignment] = useState<MentoringAssignment | null>(null);
+  const [mentorName, setMentorName] = useState<string | null>(null);
+  const [completions, setCompletions] = useState<MentoringModuleCompletion[]>([]);
+  const [meetings, setMeetings] = useState<MentoringMeeting[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadMentoring = async () => {
+      try {
+        const [assignments, completionsData, meetingsData] = await Promise.all([
+          api.getMentoringAssignments(userId),
+          api.getMentoringModules(userId),
+          api.getMentoringMeetings(userId)
+        ]);
+        const ownAssignment = assignments[0] || null;
+
+        setAssignment(ownAssignment);
+        setCompletions(completionsData);
+        setMeetings(meetingsData);
+
+        if (ownAssignment) {
+          // Other members' names come from the directory
+          const directory = await api.getMemberDirectory();
+          setMentorName(directory.find(entry => entry.user_id === ownAssignment.mentor_id)?.full_name || null);
+        }
+      } catch (err) {
+        console.error('Error loading mentoring record:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMentoring();
+  }, [userId]);
+
+  if (loading) {
+    return <LoadingSpinner subtle={true} className="py-2" />;
+  }
+
+  // Only shown to members who are, or have been, in the mentoring scheme
+  if (!assignment && completions.length === 0) {
+    return null;
+  }
+
+  const lastMeeting = meetings[0];
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-soft mt-6">
+      <h4 className="text-lg font-heading font-semibold text-primary-600 mb-2 flex items-center">
+        <GraduationCap className="w-5 h-5 mr-2 text-secondary-500" />
+        Mentoring
+      </h4>
+      <p className="text-sm text-neutral-600 mb-4">
+        {assignment
+          ? `Your personal mentor is ${mentorName || 'assigned by the Lodge Mentor'}${assignment.completed_on ? ` - completed ${format(new Date(assignment.completed_on), 'd MMM yyyy')}` : ''}.`
+          : 'The Lodge Mentor will assign you a personal mentor.'}
+        {lastMeeting && ` Last mentoring meeting ${format(new Date(lastMeeting.meeting_date), 'd MMM yyyy')}.`}
+      </p>
+      <MentoringModuleChecklist career={career} completions={completions} />
+      <p className="text-sm text-neutral-600 mt-4">
+        The modules draw on the{' '}
+        <Link to="/members?category=solomon" className="text-primary-600 hover:text-secondary-600 underline">
+          Solomon learning resources
+        </Link>
+        .
+      </p>
+    </div>
+  );
+};
+
+export default MentoringProgress;
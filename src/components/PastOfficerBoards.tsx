@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { cmsApi } from '../lib/cmsApi';
+import { loadMeetingSchedule } from '../utils/lodgeMeetings';
+import { OfficerBoard, formatMasonicYear, getMasonicYear, groupBoardsByYear } from '../utils/officerProgression';
+
+const PastOfficerBoards: React.FC = () => {
+  const [boards, setBoards] = useState<OfficerBoard[]>([]);
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+
+  useEffect(() => {
+    const loadBoards = async () => {
+      try {
+        const [appointments, schedule] = await Promise.all([
+          cmsApi.getOfficerAppointments(),
+          loadMeetingSchedule()
+        ]);
+        const currentYear = getMasonicYear(new Date(), schedule);
+        const pastBoards = groupBoardsByYear(appointments)
+          .filter(board => board.masonicYear < currentYear);
+
+        setBoards(pastBoards);
+        setSelectedYear(pastBoards[0]?.masonicYear ?? null);
+      } catch (err) {
+        // The current officers are still shown, so past boards are simply left out
+        console.warn('Could not load past officer boards:', err);
+      }
+    };
+
+    loadBoards();
+  }, []);
+
+  const selectedBoard = boards.find(board => board.masonicYear === selectedYear);
+
+  if (!selectedBoard) {
+    return null;
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto mt-16">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-heading font-semibold text-primary-600 flex items-center">
+          <History className="w-6 h-6 mr-2 text-secondary-500" />
+          Past Officers
+        </h3>
+        <label className="flex items-center text-sm text-neutral-600">
+          <span className="mr-2">Masonic year</span>
+          <select
+            value={selectedBoard.masonicYear}
+            onChange={(e) => setSelectedYear(Number(e.target.value))}
+            className="rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          >
+            {boards.map(board => (
+              <option key={board.masonicYear} value={board.masonicYear}>
+                {formatMasonicYear(board.masonicYear)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="bg-neutral-50 rounded-lg p-6">
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-3 text-sm">
+          {selectedBoard.officers.map(officer => (
+            <div key={officer.id} className="flex justify-between gap-4 border-b border-neutral-200 pb-2">
+              <dt className="text-neutral-500">{officer.position}</dt>
+              <dd className="font-medium text-neutral-800 text-right">{officer.full_name}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
+
+export default PastOfficerBoards;
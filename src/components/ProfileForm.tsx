@@ -19,6 +19,7 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSubmit, isUpdating
     defaultValues: {
       full_name: profile.full_name,
       position: profile.position || '',
+      birthday: profile.birthday || '',
       contact_email: profile.contact_email || '',
       contact_phone: profile.contact_phone || '',
       masonic_provincial_rank: profile.masonic_provincial_rank || '',
@@ -33,6 +34,7 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSubmit, isUpdating
     await onSubmit({
       full_name: data.full_name.trim(),
       position: data.position.trim() || undefined,
+      birthday: data.birthday || null,
       contact_email: data.contact_email.trim() || undefined,
       contact_phone: data.contact_phone.trim() || undefined,
       masonic_provincial_rank: data.masonic_provincial_rank.trim() || undefined,
@@ -102,6 +104,22 @@ const ProfileForm: React.FC<ProfileFormProps> = ({ profile, onSubmit, isUpdating
               Your current Masonic rank or office within the Lodge (optional)
             </p>
           </div>
+
+          <div>
+            <label htmlFor="birthday" className="block text-sm font-medium text-primary-600 mb-2">
+              Birthday
+            </label>
+            <input
+              id="birthday"
+              type="date"
+              {...register('birthday')}
+              className="w-full px-4 py-3 border border-neutral-300 rounded-md focus:ring-2 focus:ring-secondary-500 focus:border-secondary-500 transition-colors"
+              disabled={isUpdating}
+            />
+            <p className="mt-1 text-xs text-neutral-500">
+              Lets the Lodge mark your birthday (optional). Choose who can see it under Directory Privacy
+            </p>
+          </div>
         </div>
       </div>
 
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { BellRing } from 'lucide-react';
+import { api } from '../lib/api';
+import { ReminderPreferences } from '../types';
+import Button from './Button';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ReminderPreferencesFormProps {
+  userId: string;
+}
+
+type ReminderSettings = Pick<ReminderPreferences, 'meeting_reminders' | 'event_reminders' | 'days_before'>;
+
+const defaultSettings: ReminderSettings = { meeting_reminders: false, event_reminders: false, days_before: 3 };
+
+const DAYS_BEFORE_OPTIONS = [1, 2, 3, 5, 7, 14];
+
+const ReminderPreferencesForm: React.FC<ReminderPreferencesFormProps> = ({ userId }) => {
+  const [settings, setSettings] = useState<ReminderSettings>(defaultSettings);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        setError(null);
+        const preferences = await api.getReminderPreferences(userId);
+        if (preferences) {
+          setSettings({
+            meeting_reminders: preferences.meeting_reminders,
+            event_reminders: preferences.event_reminders,
+            days_before: preferences.days_before
+          });
+        }
+      } catch (err) {
+        console.error('Error loading reminder preferences:', err);
+        setError('Email reminders are not available at the moment.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPreferences();
+  }, [userId]);
+
+  const updateSetting = <K extends keyof ReminderSettings>(key: K, value: ReminderSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await api.saveReminderPreferences(userId, settings);
+      setSaved(true);
+    } catch (err) {
+      console.error('Error saving reminder preferences:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save reminder preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-soft mt-6">
+      <h4 className="text-lg font-heading font-semibold text-primary-600 mb-2 flex items-center">
+        <BellRing className="w-5 h-5 mr-2 text-secondary-500" />
+        Email Reminders
+      </h4>
+      <p className="text-sm text-neutral-600 mb-4">
+        Choose whether to be emailed before Lodge meetings and the events you have registered for.
+      </p>
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-2" />
+      ) : (
+        <>
+          {error && (
+            <p className="text-sm text-red-600 mb-4">{error}</p>
+          )}
+
+          <div className="space-y-3 mb-4">
+            <div className="flex items-center">
+              <input
+                id="meeting_reminders"
+                type="checkbox"
+                checked={settings.meeting_reminders}
+                onChange={(e) => updateSetting('meeting_reminders', e.target.checked)}
+                className="h-4 w-4 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
+              />
+              <label htmlFor="meeting_reminders" className="ml-2 block text-sm text-neutral-700">
+                Remind me before each Lodge meeting
+              </label>
+            </div>
+            <div className="flex items-center">
+              <input
+                id="event_reminders"
+                type="checkbox"
+                checked={settings.event_reminders}
+                onChange={(e) => updateSetting('event_reminders', e.target.checked)}
+                className="h-4 w-4 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
+              />
+              <label htmlFor="event_reminders" className="ml-2 block text-sm text-neutral-700">
+                Remind me before events I have registered for
+              </label>
+            </div>
+            <div className="flex items-center gap-2">
+              <label htmlFor="days_before" className="text-sm text-neutral-700">
+                Send reminders
+              </label>
+              <select
+                id="days_before"
+                value={settings.days_before}
+                onChange={(e) => updateSetting('days_before', Number(e.target.value))}
+                disabled={!settings.meeting_reminders && !settings.event_reminders}
+                className="rounded-md border border-neutral-300 px-2 py-1 text-sm focus:border-secondary-500 focus:ring-secondary-500"
+              >
+                {DAYS_BEFORE_OPTIONS.map(days => (
+                  <option key={days} value={days}>
+                    {days === 1 ? '1 day' : `${days} days`}
+                  </option>
+                ))}
+              </select>
+              <span className="text-sm text-neutral-700">before</span>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button type="button" size="sm" onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Reminders'}
+            </Button>
+            {saved && <span className="text-sm text-green-600">Saved</span>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReminderPreferencesForm;
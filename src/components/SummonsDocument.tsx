@@ -0,0 +1,107 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Summons } from '../types';
+import { CEREMONY_LABELS, getSummonsOfficer } from '../utils/summons';
+
+interface SummonsDocumentProps {
+  summons: Omit<Summons, 'id' | 'created_at' | 'updated_at'>;
+}
+
+// The summons as issued to the brethren, laid out for an A4 page
+const SummonsDocument: React.FC<SummonsDocumentProps> = ({ summons }) => {
+  const meetingStart = new Date(summons.meeting_start);
+  const worshipfulMaster = getSummonsOfficer(summons, 'Worshipful Master');
+  const secretary = getSummonsOfficer(summons, 'Secretary');
+
+  return (
+    <article className="bg-white text-neutral-800 font-serif max-w-3xl mx-auto p-8 md:p-12 shadow-soft print:shadow-none print:p-0">
+      <header className="text-center border-b-2 border-primary-600 pb-6 mb-6">
+        <h1 className="text-3xl font-heading font-bold text-primary-600">Radlett Lodge No. 6652</h1>
+        <p className="mt-4 text-lg">
+          You are hereby summoned to attend the {summons.meeting_title} of the Lodge at
+        </p>
+        <p className="mt-2 text-lg font-semibold">{summons.location}</p>
+        <p className="mt-2 text-lg">
+          on <strong>{format(meetingStart, 'EEEE d MMMM yyyy')}</strong> at <strong>{format(meetingStart, 'h:mm a')}</strong> precisely
+        </p>
+        {worshipfulMaster && (
+          <p className="mt-4 text-sm text-neutral-600">W.Bro. {worshipfulMaster}, Worshipful Master</p>
+        )}
+      </header>
+
+      <section className="mb-6">
+        <h2 className="text-lg font-heading font-semibold text-primary-600 mb-2">Business of the Meeting</h2>
+        <ol className="list-decimal list-inside space-y-1">
+          {summons.agenda.map((item, index) => (
+            <li key={index}>{item}</li>
+          ))}
+        </ol>
+      </section>
+
+      {summons.candidates.length > 0 && (
+        <section className="mb-6">
+          <h2 className="text-lg font-heading font-semibold text-primary-600 mb-2">Candidates</h2>
+          <ul className="space-y-2">
+            {summons.candidates.map((candidate, index) => (
+              <li key={index}>
+                <span className="font-semibold">{CEREMONY_LABELS[candidate.ceremony]}:</span> {candidate.name}
+                {(candidate.proposer || candidate.seconder) && (
+                  <span className="block text-sm text-neutral-600">
+                    {candidate.proposer && `Proposed by ${candidate.proposer}`}
+                    {candidate.proposer && candidate.seconder && ', '}
+                    {candidate.seconder && `seconded by ${candidate.seconder}`}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {summons.dining && (
+        <section className="mb-6">
+          <h2 className="text-lg font-heading font-semibold text-primary-600 mb-2">Festive Board</h2>
+          <p>
+            The brethren will dine together at {format(new Date(summons.dining.dining_date), 'h:mm a')}
+            {summons.dining.price !== undefined && summons.dining.price !== null && ` at a cost of £${Number(summons.dining.price).toFixed(2)}`}.
+          </p>
+          {summons.dining.menu_options.length > 0 && (
+            <p className="mt-1">Menu: {summons.dining.menu_options.join(', ')}</p>
+          )}
+          <p className="mt-1 text-sm text-neutral-600">
+            Please book through the members area by {format(new Date(summons.dining.cutoff_date), 'EEEE d MMMM')}.
+            {summons.dining.notes && ` ${summons.dining.notes}`}
+          </p>
+        </section>
+      )}
+
+      {summons.notes && (
+        <section className="mb-6">
+          <p className="whitespace-pre-line">{summons.notes}</p>
+        </section>
+      )}
+
+      {summons.officers.length > 0 && (
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="text-lg font-heading font-semibold text-primary-600 mb-2">Officers of the Lodge</h2>
+          <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+            {summons.officers.map((officer, index) => (
+              <div key={index} className="flex justify-between border-b border-neutral-100 py-1">
+                <dt className="text-neutral-600">{officer.position}</dt>
+                <dd className="font-medium text-right">{officer.full_name}</dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+      )}
+
+      <footer className="pt-6 border-t border-neutral-200 text-right">
+        <p className="italic">By Command of the Worshipful Master</p>
+        {secretary && <p className="mt-2 font-semibold">{secretary}</p>}
+        <p className="text-sm text-neutral-600">Secretary</p>
+      </footer>
+    </article>
+  );
+};
+
+export default SummonsDocument;
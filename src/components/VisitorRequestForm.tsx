@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import Button from './Button';
+import { LodgeMeeting, toMeetingDateKey } from '../utils/lodgeMeetings';
+
+interface VisitorRequestFormProps {
+  meetings: LodgeMeeting[];
+}
+
+const initialFormData = {
+  meeting_date: '',
+  name: '',
+  email: '',
+  phone: '',
+  lodge_name: '',
+  lodge_number: '',
+  rank: '',
+  guest_of: '',
+  notes: ''
+};
+
+const inputClassName = 'w-full px-4 py-2 border border-neutral-300 rounded-md focus:ring-2 focus:ring-secondary-500 focus:border-secondary-500 disabled:bg-neutral-100 disabled:cursor-not-allowed';
+
+const VisitorRequestForm: React.FC<VisitorRequestFormProps> = ({ meetings }) => {
+  const [formData, setFormData] = useState(initialFormData);
+  const [formStatus, setFormStatus] = useState<'idle' | 'submitting' | 'success' | 'error'>('idle');
+  const [errorMessage, setErrorMessage] = useState<string>('');
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormStatus('submitting');
+    setErrorMessage('');
+
+    try {
+      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+
+      if (!supabaseUrl) {
+        throw new Error('Supabase URL not configured. Please set up your environment variables.');
+      }
+
+      const response = await fetch(`${supabaseUrl}/functions/v1/send-visitor-email`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        },
+        body: JSON.stringify({ action: 'request', ...formData }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || `Server error: ${response.status}`);
+      }
+
+      setFormStatus('success');
+      setFormData(initialFormData);
+    } catch (error) {
+      console.error('Error sending visitor request:', error);
+      setFormStatus('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to send your request. Please try again.');
+    }
+  };
+
+  if (formStatus === 'success') {
+    return (
+      <div className="bg-green-50 border border-green-200 rounded-lg p-6 text-center animate-fadeIn">
+        <p className="text-green-700 font-medium">
+          ✓ Thank you, Brother. Your request has been sent to the Secretary, who will confirm your visit by email.
+        </p>
+        <button
+          type="button"
+          onClick={() => setFormStatus('idle')}
+          className="mt-4 text-sm text-secondary-600 hover:text-secondary-700 underline"
+        >
+          Make another request
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div>
+        <label htmlFor="visitor_meeting_date" className="block mb-2 text-sm font-medium text-primary-600">
+          Meeting <span className="text-red-500">*</span>
+        </label>
+        <select
+          id="visitor_meeting_date"
+          name="meeting_date"
+          value={formData.meeting_date}
+          onChange={handleChange}
+          required
+          disabled={formStatus === 'submitting'}
+          className={inputClassName}
+        >
+          <option value="">Please select</option>
+          {meetings.map(meeting => {
+            const key = toMeetingDateKey(meeting.originalDate || meeting.date);
+            return (
+              <option key={key} value={key}>
+                {format(meeting.date, 'EEEE d MMMM yyyy')} - {meeting.title}
+              </option>
+            );
+          })}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="visitor_name" className="block mb-2 text-sm font-medium text-primary-600">
+            Your Name <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            id="visitor_name"
+            name="name"
+            value={formData.name}
+            onChange={handleChange}
+            required
+            disabled={formStatus === 'submitting'}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="visitor_rank" className="block mb-2 text-sm font-medium text-primary-600">
+            Masonic Rank <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            id="visitor_rank"
+            name="rank"
+            value={formData.rank}
+            onChange={handleChange}
+            required
+            disabled={formStatus === 'submitting'}
+            placeholder="e.g., MM, PM, PPrJGW"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="md:col-span-2">
+          <label htmlFor="visitor_lodge_name" className="block mb-2 text-sm font-medium text-primary-600">
+            Mother Lodge Name <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            id="visitor_lodge_name"
+            name="lodge_name"
+            value={formData.lodge_name}
+            onChange={handleChange}
+            required
+            disabled={formStatus === 'submitting'}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="visitor_lodge_number" className="block mb-2 text-sm font-medium text-primary-600">
+            Lodge No. <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            id="visitor_lodge_number"
+            name="lodge_number"
+            value={formData.lodge_number}
+            onChange={handleChange}
+            required
+            disabled={formStatus === 'submitting'}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="visitor_email" className="block mb-2 text-sm font-medium text-primary-600">
+            Email Address <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="email"
+            id="visitor_email"
+            name="email"
+            value={formData.email}
+            onChange={handleChange}
+            required
+            disabled={formStatus === 'submitting'}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="visitor_phone" className="block mb-2 text-sm font-medium text-primary-600">
+            Phone Number
+          </label>
+          <input
+            type="tel"
+            id="visitor_phone"
+            name="phone"
+            value={formData.phone}
+            onChange={handleChange}
+            disabled={formStatus === 'submitting'}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="visitor_guest_of" className="block mb-2 text-sm font-medium text-primary-600">
+          Guest Of
+        </label>
+        <input
+          type="text"
+          id="visitor_guest_of"
+          name="guest_of"
+          value={formData.guest_of}
+          onChange={handleChange}
+          disabled={formStatus === 'submitting'}
+          placeholder="Name of the Radlett Lodge member inviting you, if any"
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="visitor_notes" className="block mb-2 text-sm font-medium text-primary-600">
+          Anything Else?
+        </label>
+        <textarea
+          id="visitor_notes"
+          name="notes"
+          value={formData.notes}
+          onChange={handleChange}
+          rows={3}
+          disabled={formStatus === 'submitting'}
+          placeholder="e.g., Dining requirements, or other brethren visiting with you"
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="flex items-center space-x-4">
+        <Button
+          type="submit"
+          disabled={formStatus === 'submitting' || meetings.length === 0}
+          className="min-w-[150px]"
+        >
+          {formStatus === 'submitting' ? 'Sending...' : 'Request to Visit'}
+        </Button>
+
+        {formStatus === 'error' && (
+          <div className="text-red-600 font-medium animate-fadeIn">
+            ✗ {errorMessage}
+          </div>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default VisitorRequestForm;
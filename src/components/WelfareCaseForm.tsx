@@ -0,0 +1,185 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { DirectoryMember, WelfareCase } from '../types';
+import Button from './Button';
+import { WELFARE_CATEGORY_LABELS, WELFARE_SUBJECT_LABELS } from '../utils/welfare';
+
+export type WelfareCaseFormData = Pick<
+  WelfareCase,
+  'member_id' | 'subject_name' | 'subject_type' | 'category' | 'status' | 'opened_on' | 'closed_on' | 'contact_details' | 'notes'
+>;
+
+interface WelfareCaseFormProps {
+  welfareCase?: WelfareCase;
+  members: DirectoryMember[];
+  onSubmit: (data: WelfareCaseFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface WelfareCaseFields {
+  member_id: string;
+  subject_name: string;
+  subject_type: WelfareCase['subject_type'];
+  category: WelfareCase['category'];
+  status: WelfareCase['status'];
+  opened_on: string;
+  closed_on: string;
+  contact_details: string;
+  notes: string;
+}
+
+const inputClassName = 'mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500';
+
+const WelfareCaseForm: React.FC<WelfareCaseFormProps> = ({ welfareCase, members, onSubmit, onCancel }) => {
+  const { register, handleSubmit, watch, formState: { errors, isSubmitting } } = useForm<WelfareCaseFields>({
+    defaultValues: {
+      member_id: welfareCase?.member_id || '',
+      subject_name: welfareCase?.subject_name || '',
+      subject_type: welfareCase?.subject_type || 'member',
+      category: welfareCase?.category || 'sick',
+      status: welfareCase?.status || 'open',
+      opened_on: welfareCase?.opened_on || new Date().toISOString().split('T')[0],
+      closed_on: welfareCase?.closed_on || '',
+      contact_details: welfareCase?.contact_details || '',
+      notes: welfareCase?.notes || ''
+    }
+  });
+
+  const subjectType = watch('subject_type');
+  const status = watch('status');
+  const memberName = (userId: string) => members.find(member => member.user_id === userId)?.full_name;
+
+  const onFormSubmit = async (data: WelfareCaseFields) => {
+    await onSubmit({
+      member_id: data.member_id || null,
+      // A brother's record takes his name from his profile unless one is given
+      subject_name: data.subject_name.trim() || memberName(data.member_id) || '',
+      subject_type: data.subject_type,
+      category: data.category,
+      status: data.status,
+      opened_on: data.opened_on,
+      closed_on: data.status === 'closed' ? data.closed_on || new Date().toISOString().split('T')[0] : null,
+      contact_details: data.contact_details.trim() || null,
+      notes: data.notes.trim() || null
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="subject_type" className="block text-sm font-medium text-primary-600">
+            Record For
+          </label>
+          <select id="subject_type" {...register('subject_type')} className={inputClassName}>
+            {Object.entries(WELFARE_SUBJECT_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="welfare_member_id" className="block text-sm font-medium text-primary-600">
+            {subjectType === 'member' ? 'Member' : 'Connected To'}
+          </label>
+          <select id="welfare_member_id" {...register('member_id')} className={inputClassName}>
+            <option value="">Not linked to a member</option>
+            {members.map(member => (
+              <option key={member.id} value={member.user_id}>{member.full_name}</option>
+            ))}
+          </select>
+          {subjectType !== 'member' && (
+            <p className="mt-1 text-xs text-neutral-500">The brother they are connected to, e.g. her late husband</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="subject_name" className="block text-sm font-medium text-primary-600">
+            Name
+          </label>
+          <input
+            id="subject_name"
+            {...register('subject_name', {
+              validate: (value, values) =>
+                Boolean(value.trim() || (values.subject_type === 'member' && values.member_id)) || 'Name is required'
+            })}
+            className={inputClassName}
+            placeholder={subjectType === 'member' ? 'Taken from the member if left blank' : ''}
+          />
+          {errors.subject_name && (
+            <p className="mt-1 text-sm text-red-600">{errors.subject_name.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label htmlFor="category" className="block text-sm font-medium text-primary-600">
+            Reason
+          </label>
+          <select id="category" {...register('category')} className={inputClassName}>
+            {Object.entries(WELFARE_CATEGORY_LABELS).map(([category, label]) => (
+              <option key={category} value={category}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="welfare_status" className="block text-sm font-medium text-primary-600">
+            Status
+          </label>
+          <select id="welfare_status" {...register('status')} className={inputClassName}>
+            <option value="open">Open</option>
+            <option value="closed">Closed</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="opened_on" className="block text-sm font-medium text-primary-600">
+            Opened
+          </label>
+          <input
+            id="opened_on"
+            type="date"
+            {...register('opened_on', { required: 'Date is required' })}
+            className={inputClassName}
+          />
+        </div>
+        {status === 'closed' && (
+          <div>
+            <label htmlFor="closed_on" className="block text-sm font-medium text-primary-600">
+              Closed
+            </label>
+            <input id="closed_on" type="date" {...register('closed_on')} className={inputClassName} />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="contact_details" className="block text-sm font-medium text-primary-600">
+          Address and Telephone
+        </label>
+        <textarea
+          id="contact_details"
+          rows={2}
+          {...register('contact_details')}
+          className={inputClassName}
+          placeholder="Where different from the member's profile, e.g. a hospital ward"
+        />
+      </div>
+      <div>
+        <label htmlFor="welfare_notes" className="block text-sm font-medium text-primary-600">
+          Notes
+        </label>
+        <textarea id="welfare_notes" rows={3} {...register('notes')} className={inputClassName} />
+      </div>
+
+      <div className="flex justify-end space-x-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : welfareCase ? 'Save Changes' : 'Add to Register'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default WelfareCaseForm;
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle, Clock, Mail, Paperclip, XCircle } from 'lucide-react';
+import { api } from '../../lib/api';
+import { MemberProfile, MembershipApplication } from '../../types';
+import Button from '../Button';
+import { APPLICATION_DECLARATIONS } from '../../utils/membershipApplication';
+
+interface ApplicationSummaryProps {
+  application: MembershipApplication;
+  members: MemberProfile[];
+  usingDemoData: boolean;
+  onUpdate: (application: MembershipApplication) => void;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const SPONSOR_ROLES = [
+  { role: 'proposer', label: 'Proposer' },
+  { role: 'seconder', label: 'Seconder' }
+] as const;
+
+const ApplicationSummary: React.FC<ApplicationSummaryProps> = ({
+  application,
+  members,
+  usingDemoData,
+  onUpdate,
+  onSuccess,
+  onError
+}) => {
+  const { answers } = application;
+  const [proposerId, setProposerId] = useState(application.proposer_id || '');
+  const [seconderId, setSeconderId] = useState(application.seconder_id || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isNotifying, setIsNotifying] = useState(false);
+
+  useEffect(() => {
+    setProposerId(application.proposer_id || '');
+    setSeconderId(application.seconder_id || '');
+  }, [application.proposer_id, application.seconder_id]);
+
+  const sponsorsChanged =
+    proposerId !== (application.proposer_id || '') || seconderId !== (application.seconder_id || '');
+  const sponsorIds = { proposer: proposerId, seconder: seconderId };
+  const setSponsorId = { proposer: setProposerId, seconder: setSeconderId };
+
+  // Emails whichever named members have yet to endorse
+  const notifySponsors = async (current: MembershipApplication): Promise<number> => {
+    if (usingDemoData) return 0;
+    const sent = await api.notifyApplicationSponsors(current.id);
+    if (sent > 0) {
+      onUpdate({ ...current, sponsors_notified_at: new Date().toISOString() });
+    }
+    return sent;
+  };
+
+  const handleSaveSponsors = async () => {
+    if (proposerId && proposerId === seconderId) {
+      onError('The proposer and seconder must be different members');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const sponsors = { proposer_id: proposerId || null, seconder_id: seconderId || null };
+      const updated = usingDemoData
+        ? {
+            ...application,
+            ...sponsors,
+            proposer_endorsed_at: sponsors.proposer_id === application.proposer_id ? application.proposer_endorsed_at : null,
+            seconder_endorsed_at: sponsors.seconder_id === application.seconder_id ? application.seconder_endorsed_at : null
+          }
+        : await api.setApplicationSponsors(application.id, sponsors);
+      onUpdate(updated);
+      await notifySponsors(updated);
+      onSuccess(`Proposer and seconder updated${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error updating application sponsors:', err);
+      onError(err instanceof Error ? err.message : 'Failed to update proposer and seconder');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleNotify = async () => {
+    setIsNotifying(true);
+    try {
+      const sent = await notifySponsors(application);
+      onSuccess(usingDemoData ? 'Reminders sent (demo mode)' : `${sent} reminder${sent === 1 ? '' : 's'} sent`);
+    } catch (err) {
+      console.error('Error notifying application sponsors:', err);
+      onError('Failed to send reminders');
+    } finally {
+      setIsNotifying(false);
+    }
+  };
+
+  const openAttachment = async (path: string) => {
+    if (usingDemoData) {
+      onError('Attachments are not available in demo mode');
+      return;
+    }
+
+    try {
+      window.open(await api.getApplicationAttachmentUrl(path), '_blank', 'noopener');
+    } catch (err) {
+      console.error('Error opening application attachment:', err);
+      onError('Failed to open attachment');
+    }
+  };
+
+  const details: [string, string | null | undefined][] = [
+    ['Date of Birth', answers.date_of_birth && format(new Date(answers.date_of_birth), 'd MMMM yyyy')],
+    ['Occupation', answers.occupation],
+    ['Address', answers.address],
+    ['Proposer', answers.proposer_name && `${answers.proposer_name}${answers.proposer_known_years ? ` (known ${answers.proposer_known_years} years)` : ''}`],
+    ['Seconder', answers.seconder_name && `${answers.seconder_name}${answers.seconder_known_years ? ` (known ${answers.seconder_known_years} years)` : ''}`],
+    ['Previous Masonic membership', answers.previous_membership],
+    ['Disclosures', answers.conduct_details]
+  ];
+
+  return (
+    <div className="bg-neutral-50 rounded-lg p-4 text-sm">
+      <h4 className="font-medium text-primary-600">
+        Online Application
+        <span className="font-normal text-neutral-500">
+          {application.status === 'submitted' && application.submitted_at
+            ? ` - submitted ${format(new Date(application.submitted_at), 'd MMM yyyy')}`
+            : ' - draft, not yet submitted'}
+        </span>
+      </h4>
+
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 mt-3">
+        {details.map(([label, value]) => (
+          <div key={label}>
+            <dt className="text-xs text-neutral-500">{label}</dt>
+            <dd className="text-neutral-700 whitespace-pre-wrap">{value || 'Not given'}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {answers.reasons && (
+        <div className="mt-3">
+          <p className="text-xs text-neutral-500">Why they wish to become a Freemason</p>
+          <p className="text-neutral-700 whitespace-pre-wrap">{answers.reasons}</p>
+        </div>
+      )}
+
+      <ul className="mt-3 space-y-1">
+        {APPLICATION_DECLARATIONS.map(({ key, label }) => (
+          <li key={key} className="flex items-start text-xs text-neutral-600">
+            {answers.declarations?.[key] ? (
+              <CheckCircle className="w-4 h-4 text-green-600 mr-2 flex-shrink-0" />
+            ) : (
+              <XCircle className="w-4 h-4 text-red-500 mr-2 flex-shrink-0" />
+            )}
+            {label}
+          </li>
+        ))}
+      </ul>
+
+      {application.status === 'submitted' && (
+        <div className="mt-4 border-t border-neutral-200 pt-3">
+          <p className="text-xs text-neutral-500 mb-2">
+            Endorsements - the application cannot move to Interview until both are recorded
+            {application.sponsors_notified_at &&
+              `. Last emailed ${format(new Date(application.sponsors_notified_at), 'd MMM yyyy')}`}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {SPONSOR_ROLES.map(({ role, label }) => {
+              const endorsedAt = application[`${role}_endorsed_at`];
+              return (
+                <div key={role}>
+                  <label className="block text-xs text-neutral-500">{label}</label>
+                  <select
+                    value={sponsorIds[role]}
+                    onChange={(e) => setSponsorId[role](e.target.value)}
+                    className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                  >
+                    <option value="">Not matched to a member</option>
+                    {members.map(member => (
+                      <option key={member.user_id} value={member.user_id}>{member.full_name}</option>
+                    ))}
+                  </select>
+                  <p className={`flex items-center text-xs mt-1 ${endorsedAt ? 'text-green-700' : 'text-neutral-500'}`}>
+                    {endorsedAt ? (
+                      <>
+                        <CheckCircle className="w-4 h-4 mr-1" />
+                        Endorsed {format(new Date(endorsedAt), 'd MMM yyyy, HH:mm')}
+                      </>
+                    ) : (
+                      <>
+                        <Clock className="w-4 h-4 mr-1" />
+                        Awaiting endorsement
+                      </>
+                    )}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex flex-wrap justify-end gap-2 mt-3">
+            {sponsorsChanged ? (
+              <Button size="sm" onClick={handleSaveSponsors} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Proposer and Seconder'}
+              </Button>
+            ) : (application.proposer_id && !application.proposer_endorsed_at) ||
+              (application.seconder_id && !application.seconder_endorsed_at) ? (
+              <Button size="sm" variant="outline" onClick={handleNotify} disabled={isNotifying} className="flex items-center">
+                <Mail size={14} className="mr-2" />
+                {isNotifying ? 'Sending...' : 'Send Reminder'}
+              </Button>
+            ) : null}
+          </div>
+        </div>
+      )}
+
+      {application.attachments.length > 0 && (
+        <div className="flex flex-wrap gap-3 mt-3">
+          {application.attachments.map(attachment => (
+            <button
+              key={attachment.path}
+              type="button"
+              onClick={() => openAttachment(attachment.path)}
+              className="flex items-center text-primary-600 hover:text-secondary-600"
+            >
+              <Paperclip size={14} className="mr-1" />
+              {attachment.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApplicationSummary;
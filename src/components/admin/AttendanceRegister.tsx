@@ -0,0 +1,314 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Plus, Trash2, UserCheck } from 'lucide-react';
+import { optimizedApi } from '../../lib/optimizedApi';
+import { api } from '../../lib/api';
+import { MeetingAttendance, MeetingMinutes, MemberProfile } from '../../types';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+
+interface AttendanceRegisterProps {
+  minutes: MeetingMinutes;
+  members: MemberProfile[];
+  usingDemoData: boolean;
+  onSaved: (minutesId: string) => void;
+  onClose: () => void;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+type MemberAttendance = 'present' | 'apology' | '';
+
+interface MemberRow {
+  user_id: string;
+  name: string;
+}
+
+interface VisitorRow {
+  name: string;
+  lodge_name: string;
+  lodge_number: string;
+  rank: string;
+}
+
+const emptyVisitor: VisitorRow = { name: '', lodge_name: '', lodge_number: '', rank: '' };
+
+const inputClassName = 'block w-full rounded-md border border-neutral-300 px-3 py-2 text-sm focus:border-secondary-500 focus:ring-secondary-500';
+
+const AttendanceRegister: React.FC<AttendanceRegisterProps> = ({
+  minutes,
+  members,
+  usingDemoData,
+  onSaved,
+  onClose,
+  onSuccess,
+  onError
+}) => {
+  const [existing, setExisting] = useState<MeetingAttendance[]>([]);
+  const [memberStatus, setMemberStatus] = useState<Record<string, MemberAttendance>>({});
+  const [visitors, setVisitors] = useState<VisitorRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadRegister = async () => {
+      try {
+        setLoadError(null);
+        const rows = usingDemoData ? [] : await optimizedApi.getMeetingAttendance(minutes.id);
+        setExisting(rows);
+        setMemberStatus(Object.fromEntries(rows
+          .filter(row => row.user_id)
+          .map(row => [row.user_id as string, row.attendance_type === 'apology' ? 'apology' : 'present'])
+        ));
+        setVisitors(rows
+          .filter(row => row.attendance_type === 'visitor')
+          .map(row => ({
+            name: row.name,
+            lodge_name: row.lodge_name || '',
+            lodge_number: row.lodge_number || '',
+            rank: row.rank || ''
+          })));
+      } catch (err) {
+        console.error('Error loading attendance register:', err);
+        setLoadError('Failed to load the attendance register');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRegister();
+  }, [minutes.id, usingDemoData]);
+
+  // Active members, plus anyone already on the register who has since left
+  const memberRows = useMemo<MemberRow[]>(() => {
+    const rows = members
+      .filter(member => !member.status || member.status === 'active')
+      .map(member => ({ user_id: member.user_id, name: member.full_name }));
+    existing
+      .filter(row => row.user_id && !rows.some(member => member.user_id === row.user_id))
+      .forEach(row => rows.push({ user_id: row.user_id as string, name: row.name }));
+    return rows.sort((a, b) => a.name.localeCompare(b.name));
+  }, [members, existing]);
+
+  const presentCount = memberRows.filter(member => memberStatus[member.user_id] === 'present').length;
+  const apologyCount = memberRows.filter(member => memberStatus[member.user_id] === 'apology').length;
+  const visitorCount = visitors.filter(visitor => visitor.name.trim()).length;
+
+  const setStatus = (userId: string, status: MemberAttendance) =>
+    setMemberStatus(prev => ({ ...prev, [userId]: status }));
+
+  const markAllPresent = () =>
+    setMemberStatus(Object.fromEntries(memberRows.map(member => [
+      member.user_id,
+      memberStatus[member.user_id] === 'apology' ? 'apology' : 'present'
+    ])));
+
+  const updateVisitor = (index: number, field: keyof VisitorRow, value: string) =>
+    setVisitors(prev => prev.map((visitor, i) => i === index ? { ...visitor, [field]: value } : visitor));
+
+  // Visitors the Secretary has already approved for this meeting date
+  const addApprovedVisitors = async () => {
+    try {
+      const requests = await api.getVisitorRequests('approved');
+      const meetingDate = minutes.meeting_date.slice(0, 10);
+      const toAdd = requests
+        .filter(request => request.meeting_date === meetingDate)
+        .filter(request => !visitors.some(visitor => visitor.name.trim().toLowerCase() === request.name.toLowerCase()))
+        .map(request => ({
+          name: request.name,
+          lodge_name: request.lodge_name,
+          lodge_number: request.lodge_number,
+          rank: request.rank
+        }));
+
+      setVisitors(prev => [...prev, ...toAdd]);
+      onSuccess(toAdd.length > 0
+        ? `Added ${toAdd.length} approved visitor${toAdd.length === 1 ? '' : 's'}`
+        : 'No other approved visitors for this meeting');
+    } catch (err) {
+      console.error('Error loading approved visitors:', err);
+      onError('Failed to load approved visitors');
+    }
+  };
+
+  const handleSave = async () => {
+    const entries: Omit<MeetingAttendance, 'id' | 'minutes_id' | 'created_at' | 'updated_at'>[] = [
+      ...memberRows
+        .filter(member => memberStatus[member.user_id])
+        .map(member => ({
+          attendance_type: memberStatus[member.user_id] === 'apology' ? 'apology' as const : 'member' as const,
+          user_id: member.user_id,
+          name: member.name
+        })),
+      ...visitors
+        .filter(visitor => visitor.name.trim())
+        .map(visitor => ({
+          attendance_type: 'visitor' as const,
+          name: visitor.name.trim(),
+          lodge_name: visitor.lodge_name || undefined,
+          lodge_number: visitor.lodge_number || undefined,
+          rank: visitor.rank || undefined
+        }))
+    ];
+
+    try {
+      setIsSaving(true);
+      await optimizedApi.saveMeetingAttendance(minutes.id, entries);
+      onSaved(minutes.id);
+      onSuccess(`Attendance register saved${usingDemoData ? ' (demo mode)' : ''}`);
+      onClose();
+    } catch (err) {
+      console.error('Error saving attendance register:', err);
+      onError(err instanceof Error ? err.message : 'Failed to save attendance register');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-neutral-50 rounded-lg p-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <div>
+          <h4 className="text-lg font-semibold text-primary-600">Attendance Register</h4>
+          <p className="text-sm text-neutral-500">
+            {minutes.title}, {format(new Date(minutes.meeting_date), 'd MMMM yyyy')}
+          </p>
+        </div>
+        <p className="text-sm text-neutral-700">
+          Present: {presentCount} member{presentCount === 1 ? '' : 's'} and {visitorCount} visitor{visitorCount === 1 ? '' : 's'}
+          {' • '}{apologyCount} apolog{apologyCount === 1 ? 'y' : 'ies'}
+        </p>
+      </div>
+
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 p-3 rounded-lg mb-4 text-sm">
+          {loadError}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-4" />
+      ) : (
+        <>
+          <div className="flex justify-between items-center mb-2">
+            <h5 className="font-medium text-neutral-700">Members</h5>
+            <Button type="button" size="sm" variant="outline" onClick={markAllPresent}>
+              Mark All Present
+            </Button>
+          </div>
+          <div className="bg-white rounded-lg border border-neutral-200 divide-y divide-neutral-100 mb-6">
+            {memberRows.length === 0 ? (
+              <p className="p-3 text-sm text-neutral-500">No active members found.</p>
+            ) : memberRows.map(member => (
+              <div key={member.user_id} className="flex items-center justify-between px-3 py-2">
+                <span className="text-sm text-neutral-800">{member.name}</span>
+                <div className="flex gap-1" role="radiogroup" aria-label={`Attendance for ${member.name}`}>
+                  {([['present', 'Present'], ['apology', 'Apologies'], ['', 'Absent']] as [MemberAttendance, string][]).map(([status, label]) => (
+                    <button
+                      key={label}
+                      type="button"
+                      role="radio"
+                      aria-checked={(memberStatus[member.user_id] || '') === status}
+                      onClick={() => setStatus(member.user_id, status)}
+                      className={`text-xs px-2 py-1 rounded border transition-colors ${
+                        (memberStatus[member.user_id] || '') === status
+                          ? status === 'present'
+                            ? 'bg-green-100 border-green-300 text-green-800'
+                            : status === 'apology'
+                              ? 'bg-yellow-100 border-yellow-300 text-yellow-800'
+                              : 'bg-neutral-200 border-neutral-300 text-neutral-700'
+                          : 'bg-white border-neutral-200 text-neutral-500 hover:border-neutral-300'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+            <h5 className="font-medium text-neutral-700">Visitors</h5>
+            <div className="flex gap-2">
+              {!usingDemoData && (
+                <Button type="button" size="sm" variant="outline" onClick={addApprovedVisitors} className="flex items-center">
+                  <UserCheck size={14} className="mr-1" />
+                  Add Approved Visitors
+                </Button>
+              )}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setVisitors(prev => [...prev, emptyVisitor])}
+                className="flex items-center"
+              >
+                <Plus size={14} className="mr-1" />
+                Add Visitor
+              </Button>
+            </div>
+          </div>
+          {visitors.length === 0 ? (
+            <p className="text-sm text-neutral-500 mb-6">No visitors recorded.</p>
+          ) : (
+            <div className="space-y-2 mb-6">
+              {visitors.map((visitor, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center">
+                  <input
+                    value={visitor.name}
+                    onChange={(e) => updateVisitor(index, 'name', e.target.value)}
+                    placeholder="Name"
+                    aria-label="Visitor name"
+                    className={`${inputClassName} md:col-span-4`}
+                  />
+                  <input
+                    value={visitor.rank}
+                    onChange={(e) => updateVisitor(index, 'rank', e.target.value)}
+                    placeholder="Rank"
+                    aria-label="Visitor rank"
+                    className={`${inputClassName} md:col-span-2`}
+                  />
+                  <input
+                    value={visitor.lodge_name}
+                    onChange={(e) => updateVisitor(index, 'lodge_name', e.target.value)}
+                    placeholder="Lodge"
+                    aria-label="Visitor lodge name"
+                    className={`${inputClassName} md:col-span-4`}
+                  />
+                  <input
+                    value={visitor.lodge_number}
+                    onChange={(e) => updateVisitor(index, 'lodge_number', e.target.value)}
+                    placeholder="No."
+                    aria-label="Visitor lodge number"
+                    className={`${inputClassName} md:col-span-1`}
+                  />
+                  <button
+                    type="button"
+                    className="p-2 text-neutral-500 hover:text-red-500 transition-colors md:col-span-1"
+                    onClick={() => setVisitors(prev => prev.filter((_, i) => i !== index))}
+                    title="Remove visitor"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-4">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Register'}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AttendanceRegister;
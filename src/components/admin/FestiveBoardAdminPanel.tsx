@@ -0,0 +1,385 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Plus, Pencil, Trash2, Download, Printer, UtensilsCrossed, Users } from 'lucide-react';
+import { api } from '../../lib/api';
+import { cmsApi } from '../../lib/cmsApi';
+import { CMSEvent, FestiveBoard, FestiveBoardBooking } from '../../types';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import ConfirmDialog from '../ConfirmDialog';
+import FestiveBoardForm from '../FestiveBoardForm';
+import { LodgeMeeting, getUpcomingLodgeMeetings, loadMeetingSchedule } from '../../utils/lodgeMeetings';
+import { Diner, countMenuChoices, getDiners, isDiningOpen } from '../../utils/dining';
+import { downloadCsv } from '../../utils/csv';
+
+interface FestiveBoardAdminPanelProps {
+  usingDemoData: boolean;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Printable dining list for the caterer
+const buildPrintableDiningList = (board: FestiveBoard, diners: Diner[]) => {
+  const totals = countMenuChoices(board, diners)
+    .map(({ choice, count }) => `<li>${escapeHtml(choice || 'No choice')}: <strong>${count}</strong></li>`)
+    .join('');
+  const rows = diners
+    .map((diner, index) => `
+      <tr>
+        <td>${index + 1}</td>
+        <td>${escapeHtml(diner.name)}</td>
+        <td>${diner.guestOf ? escapeHtml(diner.guestOf) : ''}</td>
+        <td>${escapeHtml(diner.menuChoice)}</td>
+        <td>${escapeHtml(diner.dietaryRequirements)}</td>
+      </tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>${escapeHtml(board.title)}</title>
+  <style>
+    body { font-family: Georgia, serif; margin: 2rem; color: #111; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    table { width: 100%; border-collapse: collapse; margin-top: 1rem; }
+    th, td { border: 1px solid #999; padding: 0.4rem 0.6rem; text-align: left; font-size: 0.9rem; }
+    th { background: #eee; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(board.title)}</h1>
+  <p>${format(new Date(board.dining_date), 'EEEE d MMMM yyyy, HH:mm')} &middot; ${diners.length} diners</p>
+  <ul>${totals}</ul>
+  <table>
+    <thead><tr><th>#</th><th>Name</th><th>Guest of</th><th>Menu</th><th>Dietary Requirements</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</body>
+</html>`;
+};
+
+const FestiveBoardAdminPanel: React.FC<FestiveBoardAdminPanelProps> = ({ usingDemoData, onSuccess, onError }) => {
+  const [festiveBoards, setFestiveBoards] = useState<FestiveBoard[]>([]);
+  const [bookings, setBookings] = useState<FestiveBoardBooking[]>([]);
+  const [meetings, setMeetings] = useState<LodgeMeeting[]>([]);
+  const [events, setEvents] = useState<CMSEvent[]>([]);
+  const [selectedBoardId, setSelectedBoardId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingBoard, setEditingBoard] = useState<FestiveBoard | null>(null);
+  const [deletingBoard, setDeletingBoard] = useState<FestiveBoard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingBookings, setLoadingBookings] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadFestiveBoards = async () => {
+      try {
+        const schedule = await loadMeetingSchedule();
+        setMeetings(getUpcomingLodgeMeetings(12, schedule));
+
+        if (usingDemoData) {
+          setFestiveBoards([]);
+          setEvents([]);
+          return;
+        }
+
+        const [boardsData, eventsData] = await Promise.all([
+          api.getFestiveBoards(),
+          cmsApi.getEvents()
+        ]);
+        setFestiveBoards(boardsData);
+        setEvents(eventsData.filter(event => new Date(event.event_date) >= new Date()));
+      } catch (err) {
+        console.error('Error loading festive boards:', err);
+        setLoadError('Failed to load Festive Boards');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadFestiveBoards();
+  }, [usingDemoData]);
+
+  const loadBookings = useCallback(async (festiveBoardId: string) => {
+    if (usingDemoData) {
+      setBookings([]);
+      return;
+    }
+
+    try {
+      setLoadingBookings(true);
+      setLoadError(null);
+      setBookings(await api.getFestiveBoardBookings(festiveBoardId));
+    } catch (err) {
+      console.error('Error loading dining bookings:', err);
+      setLoadError('Failed to load the dining list');
+    } finally {
+      setLoadingBookings(false);
+    }
+  }, [usingDemoData]);
+
+  useEffect(() => {
+    if (selectedBoardId) {
+      loadBookings(selectedBoardId);
+    }
+  }, [selectedBoardId, loadBookings]);
+
+  const selectedBoard = festiveBoards.find(board => board.id === selectedBoardId) || null;
+  const diners = useMemo(() => getDiners(bookings), [bookings]);
+
+  const handleSubmit = async (data: Omit<FestiveBoard, 'id' | 'created_at' | 'updated_at'>) => {
+    try {
+      if (usingDemoData) {
+        const now = new Date().toISOString();
+        if (editingBoard) {
+          setFestiveBoards(prev => prev.map(board => board.id === editingBoard.id ? { ...board, ...data, updated_at: now } : board));
+        } else {
+          setFestiveBoards(prev => [...prev, { ...data, id: `demo-${Date.now()}`, created_at: now, updated_at: now }]);
+        }
+        onSuccess(`Festive Board ${editingBoard ? 'updated' : 'created'} successfully (demo mode)`);
+      } else if (editingBoard) {
+        const updated = await api.updateFestiveBoard(editingBoard.id, data);
+        setFestiveBoards(prev => prev.map(board => board.id === updated.id ? updated : board));
+        onSuccess('Festive Board updated successfully');
+      } else {
+        const created = await api.createFestiveBoard(data);
+        setFestiveBoards(prev => [...prev, created].sort((a, b) => a.dining_date.localeCompare(b.dining_date)));
+        onSuccess('Festive Board created successfully');
+      }
+      setShowForm(false);
+      setEditingBoard(null);
+    } catch (err) {
+      console.error('Error saving festive board:', err);
+      onError('Failed to save Festive Board');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingBoard) return;
+
+    try {
+      if (!usingDemoData) {
+        await api.deleteFestiveBoard(deletingBoard.id);
+      }
+      setFestiveBoards(prev => prev.filter(board => board.id !== deletingBoard.id));
+      if (selectedBoardId === deletingBoard.id) {
+        setSelectedBoardId(null);
+      }
+      onSuccess(usingDemoData ? 'Festive Board deleted (demo mode)' : 'Festive Board deleted');
+    } catch (err) {
+      console.error('Error deleting festive board:', err);
+      onError('Failed to delete Festive Board');
+    } finally {
+      setDeletingBoard(null);
+    }
+  };
+
+  const handleExportCsv = () => {
+    if (!selectedBoard) return;
+
+    downloadCsv(
+      `dining-list-${format(new Date(selectedBoard.dining_date), 'yyyy-MM-dd')}`,
+      ['Name', 'Guest Of', 'Menu Choice', 'Dietary Requirements'],
+      diners.map(diner => [diner.name, diner.guestOf, diner.menuChoice, diner.dietaryRequirements])
+    );
+  };
+
+  const handlePrint = () => {
+    if (!selectedBoard) return;
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      onError('Please allow pop-ups to print the dining list');
+      return;
+    }
+    printWindow.document.write(buildPrintableDiningList(selectedBoard, diners));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-heading font-semibold text-primary-600">
+          Festive Boards ({festiveBoards.length})
+        </h2>
+        <Button
+          onClick={() => {
+            setEditingBoard(null);
+            setShowForm(true);
+          }}
+          className="flex items-center"
+        >
+          <Plus size={18} className="mr-2" />
+          Add Festive Board
+        </Button>
+      </div>
+
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 p-4 rounded-lg mb-8">
+          {loadError}
+        </div>
+      )}
+
+      {showForm && (
+        <div className="bg-neutral-50 rounded-lg p-6 mb-8">
+          <h3 className="text-lg font-semibold text-primary-600 mb-4">
+            {editingBoard ? 'Edit Festive Board' : 'Add New Festive Board'}
+          </h3>
+          <FestiveBoardForm
+            onSubmit={handleSubmit}
+            onCancel={() => {
+              setShowForm(false);
+              setEditingBoard(null);
+            }}
+            initialData={editingBoard || undefined}
+            meetings={meetings}
+            events={events}
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-8" />
+      ) : festiveBoards.length === 0 ? (
+        <div className="text-center py-8 bg-neutral-50 rounded-lg">
+          <p className="text-neutral-600">No Festive Boards found.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4">
+          {festiveBoards.map(board => (
+            <div
+              key={board.id}
+              className={`bg-white rounded-lg border p-4 hover:shadow-soft transition-shadow ${
+                selectedBoardId === board.id ? 'border-secondary-500' : 'border-neutral-200'
+              }`}
+            >
+              <div className="flex justify-between items-start">
+                <div>
+                  <h3 className="font-medium text-primary-600">{board.title}</h3>
+                  <p className="text-sm text-neutral-500 mt-1">
+                    {format(new Date(board.dining_date), 'd MMMM yyyy, HH:mm')}
+                    {' • '}
+                    {isDiningOpen(board)
+                      ? `Open until ${format(new Date(board.cutoff_date), 'd MMMM, HH:mm')}`
+                      : 'Closed'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    className="p-2 text-neutral-500 hover:text-primary-600 transition-colors"
+                    onClick={() => setSelectedBoardId(selectedBoardId === board.id ? null : board.id)}
+                    title="View dining list"
+                  >
+                    <Users size={18} />
+                  </button>
+                  <button
+                    className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
+                    onClick={() => {
+                      setEditingBoard(board);
+                      setShowForm(true);
+                    }}
+                    title="Edit Festive Board"
+                  >
+                    <Pencil size={18} />
+                  </button>
+                  <button
+                    className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                    onClick={() => setDeletingBoard(board)}
+                    title="Delete Festive Board"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+
+              {selectedBoardId === board.id && (
+                <div className="mt-4 border-t border-neutral-200 pt-4">
+                  <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                    <div className="flex flex-wrap gap-2 text-sm">
+                      <span className="bg-primary-50 text-primary-700 px-3 py-1 rounded-full font-medium">
+                        {diners.length} diners
+                      </span>
+                      {countMenuChoices(board, diners).map(({ choice, count }) => (
+                        <span key={choice} className="bg-neutral-100 text-neutral-700 px-3 py-1 rounded-full">
+                          {choice || 'No choice'}: {count}
+                        </span>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={handleExportCsv} disabled={diners.length === 0} className="flex items-center">
+                        <Download size={14} className="mr-2" />
+                        Export CSV
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={handlePrint} disabled={diners.length === 0} className="flex items-center">
+                        <Printer size={14} className="mr-2" />
+                        Print
+                      </Button>
+                    </div>
+                  </div>
+
+                  {loadingBookings ? (
+                    <LoadingSpinner subtle={true} className="py-4" />
+                  ) : diners.length === 0 ? (
+                    <div className="text-center py-6 bg-neutral-50 rounded-lg">
+                      <UtensilsCrossed className="w-8 h-8 mx-auto mb-2 text-neutral-300" />
+                      <p className="text-neutral-600 text-sm">No bookings yet.</p>
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-neutral-500 border-b border-neutral-200">
+                            <th className="py-2 pr-4 font-medium">Name</th>
+                            <th className="py-2 pr-4 font-medium">Guest Of</th>
+                            <th className="py-2 pr-4 font-medium">Menu</th>
+                            <th className="py-2 font-medium">Dietary Requirements</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {diners.map((diner, index) => (
+                            <tr key={index} className="border-b border-neutral-100">
+                              <td className="py-2 pr-4 text-neutral-800">{diner.name}</td>
+                              <td className="py-2 pr-4 text-neutral-600">{diner.guestOf}</td>
+                              <td className="py-2 pr-4 text-neutral-600">{diner.menuChoice}</td>
+                              <td className="py-2 text-neutral-600">{diner.dietaryRequirements}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {bookings.some(booking => booking.notes) && (
+                    <div className="mt-4 text-sm text-neutral-600">
+                      <h4 className="font-medium text-neutral-700 mb-1">Notes</h4>
+                      {bookings.filter(booking => booking.notes).map(booking => (
+                        <p key={booking.id}>{booking.member_name}: {booking.notes}</p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={deletingBoard !== null}
+        title="Delete Festive Board"
+        message={`Are you sure you want to delete "${deletingBoard?.title}"? All dining bookings for it will also be deleted.`}
+        onConfirm={handleDelete}
+        onCancel={() => setDeletingBoard(null)}
+        type="danger"
+        confirmText="Delete"
+      />
+    </div>
+  );
+};
+
+export default FestiveBoardAdminPanel;
@@ -0,0 +1,283 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, Upload, X } from 'lucide-react';
+import { api } from '../../lib/api';
+import { MemberImportResult } from '../../types';
+import Button from '../Button';
+import ConfirmDialog from '../ConfirmDialog';
+import { parseCsv } from '../../utils/csv';
+import { IMPORT_FIELDS, ImportColumnMapping, ImportField, guessColumnMapping, validateImportRows } from '../../utils/memberImport';
+
+interface MemberImportPanelProps {
+  existingEmails: string[];
+  usingDemoData: boolean;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+const resultStyles: Record<MemberImportResult['status'], string> = {
+  created: 'bg-green-100 text-green-700',
+  would_create: 'bg-blue-100 text-blue-700',
+  duplicate: 'bg-neutral-200 text-neutral-700',
+  error: 'bg-red-100 text-red-700'
+};
+
+const resultLabels: Record<MemberImportResult['status'], string> = {
+  created: 'Created',
+  would_create: 'Will be created',
+  duplicate: 'Already a member',
+  error: 'Failed'
+};
+
+const selectClassName = 'mt-1 block w-full rounded-md border border-neutral-300 px-2 py-1 text-sm focus:border-secondary-500 focus:ring-secondary-500';
+
+const MemberImportPanel: React.FC<MemberImportPanelProps> = ({
+  existingEmails,
+  usingDemoData,
+  onSuccess,
+  onError,
+  onImported,
+  onClose
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [results, setResults] = useState<{ dryRun: boolean; rows: MemberImportResult[] } | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [confirmingImport, setConfirmingImport] = useState(false);
+
+  const validated = useMemo(
+    () => validateImportRows(dataRows, mapping, existingEmails),
+    [dataRows, mapping, existingEmails]
+  );
+  const ready = validated.filter(row => row.errors.length === 0 && !row.duplicate);
+  const duplicates = validated.filter(row => row.errors.length === 0 && row.duplicate);
+  const invalid = validated.filter(row => row.errors.length > 0);
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      onError('The file needs a header row and at least one member');
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(rows[0].map(header => header.trim()));
+    setDataRows(rows.slice(1));
+    setMapping(guessColumnMapping(rows[0]));
+    setResults(null);
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+    setResults(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    setIsRunning(true);
+    try {
+      const members = ready.map(row => row.member);
+
+      if (usingDemoData) {
+        // Nothing is created in demo mode, so report what would happen
+        setResults({
+          dryRun,
+          rows: members.map(member => ({
+            row: member.row,
+            email: member.email,
+            status: dryRun ? 'would_create' : 'created',
+            invited: true
+          }))
+        });
+        if (!dryRun) onSuccess(`Imported ${members.length} members (demo mode - not saved)`);
+        return;
+      }
+
+      const rows = await api.importMembers(members, { dryRun });
+      setResults({ dryRun, rows });
+
+      if (!dryRun) {
+        const created = rows.filter(row => row.status === 'created').length;
+        const failed = rows.filter(row => row.status === 'error').length;
+        if (failed > 0) {
+          onError(`Imported ${created} members; ${failed} could not be imported`);
+        } else {
+          onSuccess(`Imported ${created} member${created === 1 ? '' : 's'}`);
+        }
+        if (created > 0) onImported();
+      }
+    } catch (err) {
+      console.error('Error importing members:', err);
+      onError(err instanceof Error ? err.message : 'Failed to import members');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-neutral-50 rounded-lg p-6 mb-8">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-primary-600">Import Members from CSV</h3>
+          <p className="text-sm text-neutral-600 mt-1">
+            Upload a CSV with a header row. Each new member gets a login for their email address and is asked
+            to choose a password when they first sign in. Members whose email is already on a profile are skipped.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-neutral-400 hover:text-neutral-600 transition-colors"
+          title="Close import"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <label className="inline-flex items-center cursor-pointer px-4 py-2 rounded-md border border-primary-600 text-primary-600 text-sm font-medium hover:bg-primary-50 transition-colors">
+        <Upload size={16} className="mr-2" />
+        {fileName ? 'Choose Another File' : 'Choose CSV File'}
+        <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="sr-only" />
+      </label>
+      {fileName && (
+        <span className="ml-3 text-sm text-neutral-600">{fileName} ({dataRows.length} rows)</span>
+      )}
+
+      {headers.length > 0 && (
+        <>
+          <h4 className="font-medium text-primary-600 mt-6 mb-2">Column Mapping</h4>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field}>
+                <label htmlFor={`import_${field}`} className="block text-xs font-medium text-neutral-700">
+                  {label}{required && ' *'}
+                </label>
+                <select
+                  id={`import_${field}`}
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => updateMapping(field, e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Not imported</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {missingRequired.length > 0 ? (
+            <p className="text-sm text-red-600 mt-4">
+              Choose a column for {missingRequired.map(f => f.label.toLowerCase()).join(' and ')}.
+            </p>
+          ) : (
+            <>
+              <h4 className="font-medium text-primary-600 mt-6 mb-2">Validation Report</h4>
+              <p className="text-sm text-neutral-600 mb-3">
+                {ready.length} ready to import, {duplicates.length} already member{duplicates.length === 1 ? '' : 's'},{' '}
+                {invalid.length} with problems.
+              </p>
+              <div className="max-h-80 overflow-y-auto bg-white rounded-md border border-neutral-200">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-white">
+                    <tr className="text-left text-neutral-500 border-b border-neutral-200">
+                      <th className="py-2 px-3 font-medium">Row</th>
+                      <th className="py-2 px-3 font-medium">Name</th>
+                      <th className="py-2 px-3 font-medium">Email</th>
+                      <th className="py-2 px-3 font-medium">Check</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {validated.map(({ member, errors, duplicate }) => (
+                      <tr key={member.row} className="border-b border-neutral-100 align-top">
+                        <td className="py-2 px-3 text-neutral-500">{member.row}</td>
+                        <td className="py-2 px-3">{member.full_name}</td>
+                        <td className="py-2 px-3 break-all">{member.email}</td>
+                        <td className="py-2 px-3">
+                          {errors.length > 0 ? (
+                            <span className="text-red-600 flex items-start">
+                              <AlertTriangle size={14} className="mr-1 mt-0.5 flex-shrink-0" />
+                              {errors.join('; ')}
+                            </span>
+                          ) : duplicate ? (
+                            <span className="text-neutral-500">Already a member - skipped</span>
+                          ) : (
+                            <span className="text-green-700 flex items-center">
+                              <CheckCircle size={14} className="mr-1" />
+                              Ready
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <p className="text-sm text-neutral-600 mt-4">
+                Each new member is emailed an invitation to choose a password and sign in.
+              </p>
+
+              <div className="flex flex-wrap justify-end gap-3 mt-4">
+                <Button variant="outline" onClick={() => runImport(true)} disabled={isRunning || ready.length === 0}>
+                  {isRunning ? 'Checking...' : 'Dry Run'}
+                </Button>
+                <Button onClick={() => setConfirmingImport(true)} disabled={isRunning || ready.length === 0}>
+                  Import {ready.length} Member{ready.length === 1 ? '' : 's'}
+                </Button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      {results && (
+        <>
+          <h4 className="font-medium text-primary-600 mt-6 mb-2">
+            {results.dryRun ? 'Dry Run - Nothing Has Been Created' : 'Import Results'}
+          </h4>
+          <ul className="divide-y divide-neutral-100 bg-white rounded-md border border-neutral-200 max-h-80 overflow-y-auto">
+            {results.rows.map(result => (
+              <li key={result.row} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-sm">
+                <span>
+                  <span className="text-neutral-500">Row {result.row}:</span> {result.email}
+                  {result.message && <span className="text-neutral-500"> - {result.message}</span>}
+                </span>
+                <span className={`text-xs font-medium px-2 py-1 rounded ${resultStyles[result.status]}`}>
+                  {resultLabels[result.status]}
+                  {result.invited && (result.status === 'created' || result.status === 'would_create') && ', invited'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirmingImport}
+        title="Import Members"
+        message={`Create logins and profiles for ${ready.length} member${ready.length === 1 ? '' : 's'} and email each of them an invitation?`}
+        onConfirm={() => { setConfirmingImport(false); runImport(false); }}
+        onCancel={() => setConfirmingImport(false)}
+        confirmText="Import"
+      />
+    </div>
+  );
+};
+
+export default MemberImportPanel;
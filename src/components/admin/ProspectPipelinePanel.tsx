@@ -0,0 +1,621 @@
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { format } from 'date-fns';
+import { ArrowRight, ChevronDown, ChevronUp, Mail, Pencil, Phone, Plus, RotateCcw, Trash2, UserX } from 'lucide-react';
+import { api } from '../../lib/api';
+import { MemberProfile, MembershipApplication, Prospect, ProspectStage, ProspectStageKey } from '../../types';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import ConfirmDialog from '../ConfirmDialog';
+import ProspectStageForm, { ProspectStageFormData } from './ProspectStageForm';
+import ApplicationSummary from './ApplicationSummary';
+import {
+  ENDORSED_STAGES,
+  PROSPECT_STAGES,
+  PROSPECT_STATUS_LABELS,
+  findStage,
+  getNextStage,
+  getStageLabel,
+  isAwaitingEndorsement
+} from '../../utils/prospects';
+
+interface ProspectPipelinePanelProps {
+  members: MemberProfile[];
+  usingDemoData: boolean;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+type StatusFilter = Prospect['status'] | 'all';
+
+interface ProspectFields {
+  name: string;
+  email: string;
+  phone: string;
+  notes: string;
+}
+
+type StageData = Omit<ProspectStage, 'id' | 'created_at' | 'updated_at'>;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Demo data for when database is not connected
+const demoStage = (prospectId: string, stage: ProspectStageKey, startedOn: string, completedOn?: string): ProspectStage => ({
+  id: `${prospectId}-${stage}`, prospect_id: prospectId, stage, started_on: startedOn, completed_on: completedOn || null,
+  officer_id: 'demo-user-1', created_at: `${startedOn}T10:00:00Z`, updated_at: `${startedOn}T10:00:00Z`
+});
+
+const demoProspects: Prospect[] = [
+  {
+    id: 'demo-prospect-1',
+    name: 'Mark Taylor',
+    email: 'mark.taylor@example.com',
+    phone: '07700 900123',
+    enquiry_subject: 'Becoming a member',
+    enquiry_message: 'My grandfather was a member of the Lodge and I would like to find out more.',
+    source: 'enquiry',
+    current_stage: 'lodge_visit',
+    status: 'active',
+    stages: [
+      demoStage('demo-prospect-1', 'initial_contact', '2025-09-01', '2025-09-15'),
+      demoStage('demo-prospect-1', 'lodge_visit', '2025-09-15')
+    ],
+    created_at: '2025-09-01T10:00:00Z',
+    updated_at: '2025-09-15T10:00:00Z'
+  },
+  {
+    id: 'demo-prospect-2',
+    name: 'Simon Clarke',
+    email: 'simon.clarke@example.com',
+    source: 'manual',
+    current_stage: 'initial_contact',
+    status: 'active',
+    notes: 'Introduced by Bro. David Jones.',
+    stages: [demoStage('demo-prospect-2', 'initial_contact', '2025-10-02')],
+    created_at: '2025-10-02T10:00:00Z',
+    updated_at: '2025-10-02T10:00:00Z'
+  },
+  {
+    id: 'demo-prospect-3',
+    name: 'Thomas Green',
+    email: 'thomas.green@example.com',
+    source: 'application',
+    current_stage: 'application',
+    status: 'active',
+    stages: [
+      demoStage('demo-prospect-3', 'initial_contact', '2025-08-10', '2025-08-20'),
+      demoStage('demo-prospect-3', 'lodge_visit', '2025-08-20', '2025-10-06'),
+      demoStage('demo-prospect-3', 'application', '2025-10-06')
+    ],
+    applications: [{
+      id: 'demo-application-1',
+      prospect_id: 'demo-prospect-3',
+      full_name: 'Thomas Green',
+      email: 'thomas.green@example.com',
+      answers: {
+        occupation: 'Civil engineer',
+        proposer_name: 'W.Bro. John Smith',
+        proposer_known_years: '12',
+        seconder_name: 'Bro. David Jones',
+        seconder_known_years: '5',
+        reasons: 'I have known several members of the lodge for many years and admire the charitable work they do in Radlett.'
+      },
+      attachments: [],
+      status: 'submitted',
+      submitted_at: '2025-10-06T10:00:00Z',
+      proposer_id: 'demo-user-1',
+      seconder_id: 'demo-user-2',
+      proposer_endorsed_at: '2025-10-07T19:30:00Z',
+      seconder_endorsed_at: null,
+      sponsors_notified_at: '2025-10-06T10:00:00Z',
+      created_at: '2025-10-01T10:00:00Z',
+      updated_at: '2025-10-07T19:30:00Z'
+    }],
+    created_at: '2025-08-10T10:00:00Z',
+    updated_at: '2025-10-07T19:30:00Z'
+  }
+];
+
+const statusStyles: Record<Prospect['status'], string> = {
+  active: 'bg-yellow-100 text-yellow-800',
+  initiated: 'bg-green-100 text-green-700',
+  withdrawn: 'bg-neutral-200 text-neutral-700'
+};
+
+const inputClassName = 'mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500';
+
+const ProspectPipelinePanel: React.FC<ProspectPipelinePanelProps> = ({ members, usingDemoData, onSuccess, onError }) => {
+  const [prospects, setProspects] = useState<Prospect[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [stageFilter, setStageFilter] = useState<ProspectStageKey | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingStage, setEditingStage] = useState<{ prospectId: string; stage: ProspectStageKey } | null>(null);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [advancingId, setAdvancingId] = useState<string | null>(null);
+  const [deletingProspect, setDeletingProspect] = useState<Prospect | null>(null);
+  const { register, handleSubmit, reset, formState: { errors, isSubmitting } } = useForm<ProspectFields>({
+    defaultValues: { name: '', email: '', phone: '', notes: '' }
+  });
+
+  useEffect(() => {
+    const loadProspects = async () => {
+      if (usingDemoData) {
+        setProspects(demoProspects);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoadError(null);
+        setProspects(await api.getProspects());
+      } catch (err) {
+        console.error('Error loading prospects:', err);
+        setLoadError('Failed to load prospects');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadProspects();
+  }, [usingDemoData]);
+
+  const officers = members.filter(member => member.status === 'active');
+  const officerName = (userId?: string | null) =>
+    members.find(member => member.user_id === userId)?.full_name || 'Unknown member';
+  const countFor = (status: StatusFilter) =>
+    status === 'all' ? prospects.length : prospects.filter(prospect => prospect.status === status).length;
+  const filteredProspects = prospects.filter(prospect =>
+    (statusFilter === 'all' || prospect.status === statusFilter) &&
+    (!stageFilter || prospect.current_stage === stageFilter)
+  );
+
+  const storeStage = async (stage: StageData): Promise<ProspectStage> => {
+    if (usingDemoData) {
+      const now = new Date().toISOString();
+      return { ...stage, id: `${stage.prospect_id}-${stage.stage}`, created_at: now, updated_at: now };
+    }
+    return api.saveProspectStage(stage);
+  };
+
+  const applyChanges = (prospectId: string, changes: Partial<Prospect>, savedStages: ProspectStage[] = []) => {
+    setProspects(prev => prev.map(prospect => prospect.id !== prospectId ? prospect : {
+      ...prospect,
+      ...changes,
+      stages: [
+        ...prospect.stages.filter(stage => !savedStages.some(saved => saved.stage === stage.stage)),
+        ...savedStages
+      ]
+    }));
+  };
+
+  const applyApplication = (application: MembershipApplication) => {
+    setProspects(prev => prev.map(prospect => prospect.id !== application.prospect_id ? prospect : {
+      ...prospect,
+      applications: prospect.applications?.map(a => (a.id === application.id ? application : a))
+    }));
+  };
+
+  const onAddSubmit = async (data: ProspectFields) => {
+    try {
+      const details = {
+        name: data.name.trim(),
+        email: data.email.trim().toLowerCase(),
+        phone: data.phone.trim() || null,
+        notes: data.notes.trim() || null
+      };
+      let prospect: Prospect;
+
+      if (usingDemoData) {
+        const id = `demo-prospect-${Date.now()}`;
+        const now = new Date().toISOString();
+        prospect = {
+          ...details, id, source: 'manual', current_stage: 'initial_contact', status: 'active',
+          stages: [{ id: `${id}-initial_contact`, prospect_id: id, stage: 'initial_contact', started_on: today(), created_at: now, updated_at: now }],
+          created_at: now, updated_at: now
+        };
+      } else {
+        prospect = await api.createProspect(details);
+      }
+
+      setProspects(prev => [prospect, ...prev]);
+      setShowAddForm(false);
+      reset();
+      onSuccess(`${prospect.name} added to the pipeline${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error creating prospect:', err);
+      onError('Failed to add prospect');
+    }
+  };
+
+  const handleSaveStage = async (prospect: Prospect, stageKey: ProspectStageKey, data: ProspectStageFormData) => {
+    try {
+      const saved = await storeStage({ prospect_id: prospect.id, stage: stageKey, ...data });
+      applyChanges(prospect.id, {}, [saved]);
+      setEditingStage(null);
+      onSuccess(`${getStageLabel(stageKey)} updated${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error saving prospect stage:', err);
+      onError(err instanceof Error ? err.message : 'Failed to save stage');
+    }
+  };
+
+  // Completes the current stage and opens the next; completing Initiation
+  // marks the prospect as initiated
+  const handleAdvance = async (prospect: Prospect) => {
+    const current = findStage(prospect, prospect.current_stage);
+    const nextKey = getNextStage(prospect.current_stage);
+    const next = nextKey ? findStage(prospect, nextKey) : undefined;
+
+    setAdvancingId(prospect.id);
+    try {
+      let changes: Partial<Prospect> = nextKey ? { current_stage: nextKey } : { status: 'initiated' };
+      let savedStages: ProspectStage[];
+
+      if (usingDemoData) {
+        const stages: StageData[] = [{
+          prospect_id: prospect.id,
+          stage: prospect.current_stage,
+          started_on: current?.started_on || today(),
+          completed_on: current?.completed_on || today(),
+          officer_id: current?.officer_id || null,
+          notes: current?.notes || null
+        }];
+        if (nextKey) {
+          stages.push({
+            prospect_id: prospect.id,
+            stage: nextKey,
+            started_on: next?.started_on || today(),
+            completed_on: next?.completed_on || null,
+            officer_id: next?.officer_id || null,
+            notes: next?.notes || null
+          });
+        }
+        savedStages = await Promise.all(stages.map(storeStage));
+      } else {
+        // The stages and the prospect are saved together, so a refused move changes nothing
+        const { stages, ...advanced } = await api.advanceProspect(prospect.id);
+        changes = advanced;
+        savedStages = stages;
+      }
+
+      applyChanges(prospect.id, changes, savedStages);
+      onSuccess(nextKey
+        ? `${prospect.name} moved to ${getStageLabel(nextKey)}${usingDemoData ? ' (demo mode)' : ''}`
+        : `${prospect.name} marked as initiated${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error advancing prospect:', err);
+      onError(err instanceof Error ? err.message : 'Failed to move prospect to the next stage');
+    } finally {
+      setAdvancingId(null);
+    }
+  };
+
+  const handleSetStatus = async (prospect: Prospect, status: Prospect['status']) => {
+    try {
+      if (!usingDemoData) {
+        await api.updateProspect(prospect.id, { status });
+      }
+      applyChanges(prospect.id, { status });
+      onSuccess(`${prospect.name} ${status === 'withdrawn' ? 'withdrawn' : 'returned to the pipeline'}${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error updating prospect:', err);
+      onError('Failed to update prospect');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingProspect) return;
+
+    try {
+      if (!usingDemoData) {
+        await api.deleteProspect(deletingProspect.id);
+      }
+      setProspects(prev => prev.filter(p => p.id !== deletingProspect.id));
+      onSuccess(usingDemoData ? 'Prospect deleted (demo mode)' : 'Prospect deleted');
+    } catch (err) {
+      console.error('Error deleting prospect:', err);
+      onError('Failed to delete prospect');
+    } finally {
+      setDeletingProspect(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-xl font-heading font-semibold text-primary-600">
+          Prospects ({filteredProspects.length})
+        </h2>
+        <div className="flex flex-wrap gap-2">
+          {(['active', 'initiated', 'withdrawn', 'all'] as StatusFilter[]).map(status => (
+            <Button
+              key={status}
+              size="sm"
+              variant={statusFilter === status ? 'primary' : 'outline'}
+              onClick={() => setStatusFilter(status)}
+            >
+              {status === 'all' ? 'All' : PROSPECT_STATUS_LABELS[status]} ({countFor(status)})
+            </Button>
+          ))}
+          {!showAddForm && (
+            <Button size="sm" onClick={() => setShowAddForm(true)} className="flex items-center">
+              <Plus size={14} className="mr-2" />
+              Add Prospect
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Where active prospects are on the path to membership */}
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 mb-6">
+        {PROSPECT_STAGES.map(({ key, label }) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => setStageFilter(stageFilter === key ? null : key)}
+            className={`rounded-lg border px-3 py-2 text-left transition-colors ${
+              stageFilter === key ? 'border-secondary-500 bg-secondary-50' : 'border-neutral-200 bg-white hover:bg-neutral-50'
+            }`}
+          >
+            <span className="block text-xs text-neutral-500">{label}</span>
+            <span className="block text-lg font-semibold text-primary-600">
+              {prospects.filter(p => p.status === 'active' && p.current_stage === key).length}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {showAddForm && (
+        <form onSubmit={handleSubmit(onAddSubmit)} className="bg-neutral-50 rounded-lg p-6 mb-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="prospect_name" className="block text-sm font-medium text-primary-600">Name</label>
+              <input id="prospect_name" {...register('name', { required: 'Name is required' })} className={inputClassName} />
+              {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+            </div>
+            <div>
+              <label htmlFor="prospect_email" className="block text-sm font-medium text-primary-600">Email</label>
+              <input
+                id="prospect_email"
+                type="email"
+                {...register('email', { required: 'Email is required' })}
+                className={inputClassName}
+              />
+              {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+            </div>
+            <div>
+              <label htmlFor="prospect_phone" className="block text-sm font-medium text-primary-600">Phone</label>
+              <input id="prospect_phone" type="tel" {...register('phone')} className={inputClassName} />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="prospect_notes" className="block text-sm font-medium text-primary-600">Notes</label>
+            <textarea id="prospect_notes" rows={2} {...register('notes')} className={inputClassName} />
+          </div>
+          <div className="flex justify-end space-x-4">
+            <Button type="button" variant="outline" onClick={() => { setShowAddForm(false); reset(); }}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Adding...' : 'Add Prospect'}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 p-4 rounded-lg mb-8">
+          {loadError}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-8" />
+      ) : filteredProspects.length === 0 ? (
+        <div className="text-center py-8 bg-neutral-50 rounded-lg">
+          <p className="text-neutral-600">No prospects found.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4">
+          {filteredProspects.map(prospect => {
+            const currentIndex = PROSPECT_STAGES.findIndex(stage => stage.key === prospect.current_stage);
+            const nextKey = getNextStage(prospect.current_stage);
+            const isExpanded = expandedId === prospect.id;
+            const awaitingEndorsement = (!nextKey || ENDORSED_STAGES.includes(nextKey)) && isAwaitingEndorsement(prospect);
+
+            return (
+              <div
+                key={prospect.id}
+                className="bg-white rounded-lg border border-neutral-200 p-4 hover:shadow-soft transition-shadow"
+              >
+                <div className="flex justify-between items-start">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-medium text-primary-600">{prospect.name}</h3>
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${statusStyles[prospect.status]}`}>
+                        {PROSPECT_STATUS_LABELS[prospect.status]}
+                      </span>
+                      {prospect.source !== 'manual' && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-700">
+                          {prospect.source === 'enquiry' ? 'Website enquiry' : 'Online application'}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-4 mt-2 text-sm text-neutral-500">
+                      <a href={`mailto:${prospect.email}`} className="flex items-center hover:text-primary-600">
+                        <Mail size={14} className="mr-1" />
+                        {prospect.email}
+                      </a>
+                      {prospect.phone && (
+                        <span className="flex items-center">
+                          <Phone size={14} className="mr-1" />
+                          {prospect.phone}
+                        </span>
+                      )}
+                      <span>Added {format(new Date(prospect.created_at), 'd MMMM yyyy')}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      className="p-2 text-neutral-500 hover:text-primary-600 transition-colors"
+                      onClick={() => setExpandedId(isExpanded ? null : prospect.id)}
+                      title={isExpanded ? 'Hide stages' : 'Show stages'}
+                    >
+                      {isExpanded ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+                    </button>
+                    {prospect.status === 'active' ? (
+                      <button
+                        className="p-2 text-neutral-500 hover:text-yellow-600 transition-colors"
+                        onClick={() => handleSetStatus(prospect, 'withdrawn')}
+                        title="Mark as withdrawn"
+                      >
+                        <UserX size={18} />
+                      </button>
+                    ) : prospect.status === 'withdrawn' && (
+                      <button
+                        className="p-2 text-neutral-500 hover:text-green-600 transition-colors"
+                        onClick={() => handleSetStatus(prospect, 'active')}
+                        title="Return to the pipeline"
+                      >
+                        <RotateCcw size={18} />
+                      </button>
+                    )}
+                    <button
+                      className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                      onClick={() => setDeletingProspect(prospect)}
+                      title="Delete prospect"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Progress along the six stages */}
+                <ol className="grid grid-cols-3 md:grid-cols-6 gap-1 mt-4">
+                  {PROSPECT_STAGES.map(({ key, label }, index) => {
+                    const done = index < currentIndex || (index === currentIndex && prospect.status === 'initiated');
+                    const current = index === currentIndex && prospect.status === 'active';
+                    return (
+                      <li
+                        key={key}
+                        className={`text-xs text-center rounded px-1 py-1 ${
+                          done ? 'bg-green-100 text-green-700' : current ? 'bg-secondary-100 text-secondary-800 font-medium' : 'bg-neutral-100 text-neutral-400'
+                        }`}
+                      >
+                        {label}
+                      </li>
+                    );
+                  })}
+                </ol>
+
+                {isExpanded && (
+                  <div className="mt-4 space-y-4">
+                    {(prospect.enquiry_message || prospect.notes) && (
+                      <div className="text-sm text-neutral-600 space-y-2">
+                        {prospect.enquiry_message && (
+                          <p className="whitespace-pre-wrap">
+                            <span className="font-medium text-primary-600">Enquiry{prospect.enquiry_subject && `: ${prospect.enquiry_subject}`}</span>
+                            {'\n'}{prospect.enquiry_message}
+                          </p>
+                        )}
+                        {prospect.notes && <p className="whitespace-pre-wrap">{prospect.notes}</p>}
+                      </div>
+                    )}
+
+                    {prospect.applications?.map(application => (
+                      <ApplicationSummary
+                        key={application.id}
+                        application={application}
+                        members={officers}
+                        usingDemoData={usingDemoData}
+                        onUpdate={applyApplication}
+                        onSuccess={onSuccess}
+                        onError={onError}
+                      />
+                    ))}
+
+                    {PROSPECT_STAGES.slice(0, currentIndex + 1).map(({ key, label }) => {
+                      const stage = findStage(prospect, key);
+                      const isEditing = editingStage?.prospectId === prospect.id && editingStage.stage === key;
+
+                      return (
+                        <div key={key} className="bg-neutral-50 rounded-lg p-4">
+                          <div className="flex justify-between items-start">
+                            <div>
+                              <h4 className="font-medium text-primary-600 text-sm">{label}</h4>
+                              <p className="text-xs text-neutral-500 mt-1">
+                                {stage?.started_on ? `Started ${format(new Date(stage.started_on), 'd MMM yyyy')}` : 'Not started'}
+                                {stage?.completed_on && ` • Completed ${format(new Date(stage.completed_on), 'd MMM yyyy')}`}
+                                {' • '}
+                                {stage?.officer_id ? officerName(stage.officer_id) : 'No officer assigned'}
+                              </p>
+                              {stage?.notes && !isEditing && (
+                                <p className="mt-2 text-sm text-neutral-600 whitespace-pre-wrap">{stage.notes}</p>
+                              )}
+                            </div>
+                            {!isEditing && (
+                              <button
+                                className="p-2 text-neutral-500 hover:text-primary-600 transition-colors"
+                                onClick={() => setEditingStage({ prospectId: prospect.id, stage: key })}
+                                title={`Edit ${label}`}
+                              >
+                                <Pencil size={16} />
+                              </button>
+                            )}
+                          </div>
+                          {isEditing && (
+                            <div className="mt-4">
+                              <ProspectStageForm
+                                stageKey={key}
+                                stage={stage}
+                                members={officers}
+                                onSubmit={(data) => handleSaveStage(prospect, key, data)}
+                                onCancel={() => setEditingStage(null)}
+                              />
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+
+                    {prospect.status === 'active' && (
+                      <div className="flex items-center justify-end gap-4">
+                        {awaitingEndorsement && (
+                          <span className="text-sm text-neutral-500">Awaiting proposer and seconder endorsement</span>
+                        )}
+                        <Button
+                          onClick={() => handleAdvance(prospect)}
+                          disabled={advancingId === prospect.id || awaitingEndorsement}
+                          className="flex items-center"
+                        >
+                          <ArrowRight size={16} className="mr-2" />
+                          {advancingId === prospect.id
+                            ? 'Saving...'
+                            : nextKey ? `Move to ${getStageLabel(nextKey)}` : 'Mark as Initiated'}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={deletingProspect !== null}
+        title="Delete Prospect"
+        message={`Are you sure you want to delete ${deletingProspect?.name} and their stage history? This cannot be undone.`}
+        onConfirm={handleDelete}
+        onCancel={() => setDeletingProspect(null)}
+        type="danger"
+        confirmText="Delete"
+      />
+    </div>
+  );
+};
+
+export default ProspectPipelinePanel;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { MemberProfile, ProspectStage, ProspectStageKey } from '../../types';
+import Button from '../Button';
+
+export type ProspectStageFormData = Pick<ProspectStage, 'started_on' | 'completed_on' | 'officer_id' | 'notes'>;
+
+interface ProspectStageFormProps {
+  stageKey: ProspectStageKey;
+  stage?: ProspectStage;
+  members: MemberProfile[];
+  onSubmit: (data: ProspectStageFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface ProspectStageFields {
+  started_on: string;
+  completed_on: string;
+  officer_id: string;
+  notes: string;
+}
+
+const inputClassName = 'mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500';
+
+const ProspectStageForm: React.FC<ProspectStageFormProps> = ({ stageKey, stage, members, onSubmit, onCancel }) => {
+  const { register, handleSubmit, formState: { isSubmitting } } = useForm<ProspectStageFields>({
+    defaultValues: {
+      started_on: stage?.started_on || '',
+      completed_on: stage?.completed_on || '',
+      officer_id: stage?.officer_id || '',
+      notes: stage?.notes || ''
+    }
+  });
+
+  const onFormSubmit = async (data: ProspectStageFields) => {
+    await onSubmit({
+      started_on: data.started_on || null,
+      completed_on: data.completed_on || null,
+      officer_id: data.officer_id || null,
+      notes: data.notes.trim() || null
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor={`${stageKey}-started_on`} className="block text-sm font-medium text-primary-600">
+            Started
+          </label>
+          <input id={`${stageKey}-started_on`} type="date" {...register('started_on')} className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor={`${stageKey}-completed_on`} className="block text-sm font-medium text-primary-600">
+            Completed
+          </label>
+          <input id={`${stageKey}-completed_on`} type="date" {...register('completed_on')} className={inputClassName} />
+        </div>
+        <div>
+          <label htmlFor={`${stageKey}-officer_id`} className="block text-sm font-medium text-primary-600">
+            Responsible Officer
+          </label>
+          <select id={`${stageKey}-officer_id`} {...register('officer_id')} className={inputClassName}>
+            <option value="">Not assigned</option>
+            {members.map(member => (
+              <option key={member.id} value={member.user_id}>{member.full_name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div>
+        <label htmlFor={`${stageKey}-notes`} className="block text-sm font-medium text-primary-600">
+          Notes
+        </label>
+        <textarea id={`${stageKey}-notes`} rows={3} {...register('notes')} className={inputClassName} />
+      </div>
+      <div className="flex justify-end space-x-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Save Stage'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ProspectStageForm;
@@ -0,0 +1,328 @@
+import React, { useEffect, useState } from 'react';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { format } from 'date-fns';
+import { Eye, EyeOff, Plus, Trash2 } from 'lucide-react';
+import { api } from '../../lib/api';
+import { optimizedApi } from '../../lib/optimizedApi';
+import { CMSOfficer, FestiveBoard, LodgeDocument, Summons, SummonsCandidate } from '../../types';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import SummonsDocument from '../SummonsDocument';
+import { LodgeMeeting, getUpcomingLodgeMeetings, loadMeetingSchedule, toMeetingDateKey } from '../../utils/lodgeMeetings';
+import { CEREMONY_LABELS, DEFAULT_SUMMONS_AGENDA } from '../../utils/summons';
+
+interface SummonsGeneratorProps {
+  usingDemoData: boolean;
+  onGenerated: (document: LodgeDocument) => void;
+  onCancel: () => void;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+interface SummonsFormData {
+  meeting_key: string;
+  agenda: { text: string }[];
+  candidates: SummonsCandidate[];
+  include_dining: boolean;
+  notes: string;
+}
+
+const emptyCandidate: SummonsCandidate = { name: '', ceremony: 'initiation', proposer: '', seconder: '' };
+
+const inputClassName = 'block w-full rounded-md border border-neutral-300 px-3 py-2 text-sm focus:border-secondary-500 focus:ring-secondary-500';
+
+const meetingKey = (meeting: LodgeMeeting) => toMeetingDateKey(meeting.originalDate || meeting.date);
+
+const SummonsGenerator: React.FC<SummonsGeneratorProps> = ({
+  usingDemoData,
+  onGenerated,
+  onCancel,
+  onSuccess,
+  onError
+}) => {
+  const [meetings, setMeetings] = useState<LodgeMeeting[]>([]);
+  const [officers, setOfficers] = useState<CMSOfficer[]>([]);
+  const [festiveBoards, setFestiveBoards] = useState<FestiveBoard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+
+  const { register, control, handleSubmit, watch, setValue, formState: { errors, isSubmitting } } = useForm<SummonsFormData>({
+    defaultValues: {
+      meeting_key: '',
+      agenda: DEFAULT_SUMMONS_AGENDA.map(text => ({ text })),
+      candidates: [],
+      include_dining: true,
+      notes: 'Dress: dark suit, white shirt, black tie and white gloves.'
+    }
+  });
+  const agendaFields = useFieldArray({ control, name: 'agenda' });
+  const candidateFields = useFieldArray({ control, name: 'candidates' });
+
+  useEffect(() => {
+    const loadSources = async () => {
+      try {
+        setLoadError(null);
+        const schedule = await loadMeetingSchedule();
+        const upcoming = getUpcomingLodgeMeetings(6, schedule);
+        setMeetings(upcoming);
+        if (upcoming.length > 0) {
+          setValue('meeting_key', meetingKey(upcoming[0]));
+        }
+
+        if (usingDemoData) {
+          setOfficers([]);
+          setFestiveBoards([]);
+          return;
+        }
+
+        const [officersData, boardsData] = await Promise.all([
+          optimizedApi.getOfficers(),
+          api.getFestiveBoards()
+        ]);
+        setOfficers(officersData);
+        setFestiveBoards(boardsData);
+      } catch (err) {
+        console.error('Error loading summons details:', err);
+        setLoadError('Failed to load officers and dining details. The summons can still be generated without them.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSources();
+  }, [usingDemoData, setValue]);
+
+  const values = watch();
+  const meeting = meetings.find(m => meetingKey(m) === values.meeting_key);
+  const festiveBoard = festiveBoards.find(board => board.meeting_date === values.meeting_key);
+
+  const buildSummons = (data: SummonsFormData): Omit<Summons, 'id' | 'document_id' | 'created_at' | 'updated_at'> | null => {
+    if (!meeting) return null;
+
+    return {
+      meeting_date: meetingKey(meeting),
+      meeting_title: meeting.title,
+      meeting_start: meeting.date.toISOString(),
+      location: meeting.location,
+      agenda: data.agenda.map(item => item.text.trim()).filter(Boolean),
+      candidates: data.candidates
+        .filter(candidate => candidate.name.trim())
+        .map(candidate => ({
+          name: candidate.name.trim(),
+          ceremony: candidate.ceremony,
+          proposer: candidate.proposer?.trim() || undefined,
+          seconder: candidate.seconder?.trim() || undefined
+        })),
+      officers: officers.map(officer => ({ position: officer.position, full_name: officer.full_name })),
+      dining: data.include_dining && festiveBoard
+        ? {
+            dining_date: festiveBoard.dining_date,
+            price: festiveBoard.price,
+            menu_options: festiveBoard.menu_options,
+            cutoff_date: festiveBoard.cutoff_date,
+            notes: festiveBoard.notes
+          }
+        : null,
+      notes: data.notes.trim() || undefined
+    };
+  };
+
+  const onFormSubmit = async (data: SummonsFormData) => {
+    const summons = buildSummons(data);
+    if (!summons) return;
+
+    try {
+      const { document } = await optimizedApi.generateSummons(summons);
+      onGenerated(document);
+      onSuccess(`Summons generated and added to documents${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error generating summons:', err);
+      onError(err instanceof Error ? err.message : 'Failed to generate summons');
+    }
+  };
+
+  const preview = buildSummons(values);
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-soft mb-6">
+      <h3 className="text-xl font-semibold text-primary-600 mb-2">Generate Summons</h3>
+      <p className="text-sm text-neutral-500 mb-6">
+        Officers are taken from the current officers list and dining from the meeting's Festive Board.
+        The summons is added to the documents list as a page members can print or save as a PDF.
+      </p>
+
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 p-3 rounded-lg mb-4 text-sm">
+          {loadError}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-4" />
+      ) : (
+        <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-6">
+          <div>
+            <label htmlFor="meeting_key" className="block text-sm font-medium text-primary-600">
+              Meeting
+            </label>
+            <select
+              id="meeting_key"
+              {...register('meeting_key', { required: 'Choose a meeting' })}
+              className={`mt-1 ${inputClassName}`}
+            >
+              {meetings.map(m => (
+                <option key={meetingKey(m)} value={meetingKey(m)}>
+                  {format(m.date, 'EEEE d MMMM yyyy, h:mm a')} - {m.title}
+                </option>
+              ))}
+            </select>
+            {meeting && <p className="mt-1 text-xs text-neutral-500">{meeting.location}</p>}
+            {errors.meeting_key && (
+              <p className="mt-1 text-sm text-red-600">{errors.meeting_key.message}</p>
+            )}
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-sm font-medium text-primary-600">Agenda</span>
+              <Button type="button" size="sm" variant="outline" onClick={() => agendaFields.append({ text: '' })} className="flex items-center">
+                <Plus size={14} className="mr-1" />
+                Add Item
+              </Button>
+            </div>
+            <div className="space-y-2">
+              {agendaFields.fields.map((field, index) => (
+                <div key={field.id} className="flex items-center gap-2">
+                  <span className="text-sm text-neutral-500 w-6 text-right">{index + 1}.</span>
+                  <input
+                    {...register(`agenda.${index}.text` as const)}
+                    aria-label={`Agenda item ${index + 1}`}
+                    className={inputClassName}
+                  />
+                  <button
+                    type="button"
+                    className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                    onClick={() => agendaFields.remove(index)}
+                    title="Remove item"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-sm font-medium text-primary-600">Candidates</span>
+              <Button type="button" size="sm" variant="outline" onClick={() => candidateFields.append(emptyCandidate)} className="flex items-center">
+                <Plus size={14} className="mr-1" />
+                Add Candidate
+              </Button>
+            </div>
+            {candidateFields.fields.length === 0 ? (
+              <p className="text-sm text-neutral-500">No candidates at this meeting.</p>
+            ) : (
+              <div className="space-y-2">
+                {candidateFields.fields.map((field, index) => (
+                  <div key={field.id} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center">
+                    <input
+                      {...register(`candidates.${index}.name` as const)}
+                      placeholder="Name"
+                      aria-label="Candidate name"
+                      className={`${inputClassName} md:col-span-3`}
+                    />
+                    <select
+                      {...register(`candidates.${index}.ceremony` as const)}
+                      aria-label="Ceremony"
+                      className={`${inputClassName} md:col-span-2`}
+                    >
+                      {Object.entries(CEREMONY_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <input
+                      {...register(`candidates.${index}.proposer` as const)}
+                      placeholder="Proposer"
+                      aria-label="Proposer"
+                      className={`${inputClassName} md:col-span-3`}
+                    />
+                    <input
+                      {...register(`candidates.${index}.seconder` as const)}
+                      placeholder="Seconder"
+                      aria-label="Seconder"
+                      className={`${inputClassName} md:col-span-3`}
+                    />
+                    <button
+                      type="button"
+                      className="p-2 text-neutral-500 hover:text-red-500 transition-colors md:col-span-1"
+                      onClick={() => candidateFields.remove(index)}
+                      title="Remove candidate"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center">
+            <input
+              id="include_dining"
+              type="checkbox"
+              {...register('include_dining')}
+              disabled={!festiveBoard}
+              className="h-4 w-4 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
+            />
+            <label htmlFor="include_dining" className="ml-2 block text-sm text-neutral-700">
+              {festiveBoard
+                ? `Include Festive Board details (${format(new Date(festiveBoard.dining_date), 'h:mm a')}${festiveBoard.price ? `, £${festiveBoard.price}` : ''})`
+                : 'No Festive Board has been set up for this meeting'}
+            </label>
+          </div>
+
+          <div>
+            <label htmlFor="summons_notes" className="block text-sm font-medium text-primary-600">
+              Notes
+            </label>
+            <textarea
+              id="summons_notes"
+              {...register('notes')}
+              rows={2}
+              className={`mt-1 ${inputClassName}`}
+            />
+          </div>
+
+          <p className="text-sm text-neutral-500">
+            {officers.length > 0
+              ? `${officers.length} officers will be listed on the summons.`
+              : 'No officers found. Add them in the CMS to list them on the summons.'}
+          </p>
+
+          <div className="flex flex-wrap justify-end gap-4">
+            <Button type="button" variant="outline" onClick={() => setShowPreview(prev => !prev)} className="flex items-center">
+              {showPreview ? <EyeOff size={16} className="mr-2" /> : <Eye size={16} className="mr-2" />}
+              {showPreview ? 'Hide Preview' : 'Preview'}
+            </Button>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !meeting}>
+              {isSubmitting ? 'Generating...' : 'Generate Summons'}
+            </Button>
+          </div>
+
+          {showPreview && preview && (
+            <div className="border border-neutral-200 rounded-lg bg-neutral-50 p-4">
+              <SummonsDocument summons={preview} />
+            </div>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default SummonsGenerator;
@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Check, X, Trash2, Mail, Phone, UserCheck } from 'lucide-react';
+import { api } from '../../lib/api';
+import { VisitorRequest } from '../../types';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import ConfirmDialog from '../ConfirmDialog';
+
+interface VisitorRequestsPanelProps {
+  usingDemoData: boolean;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+type StatusFilter = VisitorRequest['status'] | 'all';
+
+// Demo data for when database is not connected
+const demoVisitorRequests: VisitorRequest[] = [
+  {
+    id: 'demo-visitor-1',
+    meeting_date: '2025-12-13',
+    meeting_title: 'Installation Meeting',
+    name: 'W.Bro. Peter Davies',
+    email: 'peter.davies@example.com',
+    lodge_name: 'St Albans Lodge',
+    lodge_number: '1234',
+    rank: 'PPrJGW',
+    guest_of: 'Bro. John Smith',
+    notes: 'Will be dining.',
+    status: 'pending',
+    created_at: '2025-11-20T10:00:00Z',
+    updated_at: '2025-11-20T10:00:00Z'
+  }
+];
+
+const statusStyles: Record<VisitorRequest['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-700',
+  declined: 'bg-neutral-200 text-neutral-700'
+};
+
+const VisitorRequestsPanel: React.FC<VisitorRequestsPanelProps> = ({ usingDemoData, onSuccess, onError }) => {
+  const [requests, setRequests] = useState<VisitorRequest[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('pending');
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [responding, setResponding] = useState<{ request: VisitorRequest; status: 'approved' | 'declined' } | null>(null);
+  const [responseMessage, setResponseMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [deletingRequest, setDeletingRequest] = useState<VisitorRequest | null>(null);
+
+  useEffect(() => {
+    const loadRequests = async () => {
+      if (usingDemoData) {
+        setRequests(demoVisitorRequests);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoadError(null);
+        setRequests(await api.getVisitorRequests());
+      } catch (err) {
+        console.error('Error loading visitor requests:', err);
+        setLoadError('Failed to load visitor requests');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRequests();
+  }, [usingDemoData]);
+
+  const filteredRequests = statusFilter === 'all'
+    ? requests
+    : requests.filter(request => request.status === statusFilter);
+  const countFor = (status: StatusFilter) =>
+    status === 'all' ? requests.length : requests.filter(request => request.status === status).length;
+
+  const handleRespond = async () => {
+    if (!responding) return;
+
+    try {
+      setIsSending(true);
+      const { request, status } = responding;
+      let updated: VisitorRequest;
+
+      if (usingDemoData) {
+        updated = { ...request, status, response_message: responseMessage || undefined, responded_at: new Date().toISOString() };
+      } else {
+        updated = await api.respondToVisitorRequest(request.id, status, responseMessage || undefined);
+      }
+
+      setRequests(prev => prev.map(r => r.id === updated.id ? updated : r));
+      onSuccess(`Visit ${status === 'approved' ? 'approved' : 'declined'} and ${request.name} has been emailed${usingDemoData ? ' (demo mode)' : ''}`);
+      setResponding(null);
+      setResponseMessage('');
+    } catch (err) {
+      console.error('Error responding to visitor request:', err);
+      onError(err instanceof Error ? err.message : 'Failed to respond to visitor request');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingRequest) return;
+
+    try {
+      if (!usingDemoData) {
+        await api.deleteVisitorRequest(deletingRequest.id);
+      }
+      setRequests(prev => prev.filter(r => r.id !== deletingRequest.id));
+      onSuccess(usingDemoData ? 'Visitor request deleted (demo mode)' : 'Visitor request deleted');
+    } catch (err) {
+      console.error('Error deleting visitor request:', err);
+      onError('Failed to delete visitor request');
+    } finally {
+      setDeletingRequest(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-xl font-heading font-semibold text-primary-600">
+          Visitor Requests ({filteredRequests.length})
+        </h2>
+        <div className="flex flex-wrap gap-2">
+          {(['pending', 'approved', 'declined', 'all'] as StatusFilter[]).map(status => (
+            <Button
+              key={status}
+              size="sm"
+              variant={statusFilter === status ? 'primary' : 'outline'}
+              onClick={() => setStatusFilter(status)}
+            >
+              {status.charAt(0).toUpperCase() + status.slice(1)} ({countFor(status)})
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 p-4 rounded-lg mb-8">
+          {loadError}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-8" />
+      ) : filteredRequests.length === 0 ? (
+        <div className="text-center py-8 bg-neutral-50 rounded-lg">
+          <p className="text-neutral-600">
+            {statusFilter === 'all' ? 'No visitor requests found.' : `No ${statusFilter} visitor requests.`}
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-4">
+          {filteredRequests.map(request => (
+            <div
+              key={request.id}
+              className="bg-white rounded-lg border border-neutral-200 p-4 hover:shadow-soft transition-shadow"
+            >
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-medium text-primary-600">{request.name}</h3>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${statusStyles[request.status]}`}>
+                      {request.status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-neutral-700 mt-1">
+                    {request.rank} &middot; {request.lodge_name} No. {request.lodge_number}
+                  </p>
+                  <p className="text-sm text-neutral-500 mt-1">
+                    {request.meeting_title}, {format(new Date(request.meeting_date), 'd MMMM yyyy')}
+                    {request.guest_of && ` • Guest of ${request.guest_of}`}
+                  </p>
+                  <div className="flex flex-wrap gap-4 mt-2 text-sm text-neutral-500">
+                    <a href={`mailto:${request.email}`} className="flex items-center hover:text-primary-600">
+                      <Mail size={14} className="mr-1" />
+                      {request.email}
+                    </a>
+                    {request.phone && (
+                      <span className="flex items-center">
+                        <Phone size={14} className="mr-1" />
+                        {request.phone}
+                      </span>
+                    )}
+                  </div>
+                  {request.notes && (
+                    <p className="mt-2 text-sm text-neutral-600 whitespace-pre-wrap">{request.notes}</p>
+                  )}
+                  {request.responded_at && (
+                    <p className="mt-2 text-xs text-neutral-400">
+                      {request.status === 'approved' ? 'Approved' : 'Declined'} {format(new Date(request.responded_at), 'd MMMM yyyy')}
+                      {request.response_message && ` - "${request.response_message}"`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  {request.status === 'pending' && (
+                    <>
+                      <button
+                        className="p-2 text-neutral-500 hover:text-green-600 transition-colors"
+                        onClick={() => setResponding({ request, status: 'approved' })}
+                        title="Approve visit"
+                      >
+                        <Check size={18} />
+                      </button>
+                      <button
+                        className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                        onClick={() => setResponding({ request, status: 'declined' })}
+                        title="Decline visit"
+                      >
+                        <X size={18} />
+                      </button>
+                    </>
+                  )}
+                  <button
+                    className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                    onClick={() => setDeletingRequest(request)}
+                    title="Delete request"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+
+              {responding?.request.id === request.id && (
+                <div className="mt-4 bg-neutral-50 rounded-lg p-4">
+                  <label htmlFor={`response-${request.id}`} className="block text-sm font-medium text-primary-600">
+                    {responding.status === 'approved' ? 'Message with the confirmation' : 'Reason for declining'} (optional)
+                  </label>
+                  <textarea
+                    id={`response-${request.id}`}
+                    value={responseMessage}
+                    onChange={(e) => setResponseMessage(e.target.value)}
+                    rows={3}
+                    className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                    placeholder={responding.status === 'approved'
+                      ? 'e.g., Please arrive by 5.30pm. Dark suit and Provincial regalia.'
+                      : 'e.g., The Installation Meeting is fully subscribed.'}
+                  />
+                  <div className="flex justify-end space-x-4 mt-4">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => {
+                        setResponding(null);
+                        setResponseMessage('');
+                      }}
+                    >
+                      Cancel
+                    </Button>
+                    <Button type="button" onClick={handleRespond} disabled={isSending} className="flex items-center">
+                      <UserCheck size={16} className="mr-2" />
+                      {isSending
+                        ? 'Sending...'
+                        : responding.status === 'approved' ? 'Approve & Email' : 'Decline & Email'}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={deletingRequest !== null}
+        title="Delete Visitor Request"
+        message={`Are you sure you want to delete the request from ${deletingRequest?.name}? No email will be sent.`}
+        onConfirm={handleDelete}
+        onCancel={() => setDeletingRequest(null)}
+        type="danger"
+        confirmText="Delete"
+      />
+    </div>
+  );
+};
+
+export default VisitorRequestsPanel;
@@ -1,30 +1,108 @@
 import React from 'react';
-import { useForm } from 'react-hook-form';
-import { CMSEvent } from '../../types';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { Plus, Trash2 } from 'lucide-react';
+import { CMSEvent, EventOccurrenceException, EventRecurrence } from '../../types';
 import Button from '../Button';
+import { WEEK_OF_MONTH_NAMES, describeRecurrence, getWeekOfMonth } from '../../utils/eventRecurrence';
 
 interface EventFormProps {
-  onSubmit: (data: Omit<CMSEvent, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
+  onSubmit: (data: Omit<CMSEvent, 'id' | 'created_at' | 'updated_at' | 'is_past_event'>) => Promise<void>;
   onCancel: () => void;
   initialData?: Partial<CMSEvent>;
 }
 
+interface EventFormData {
+  title: string;
+  description: string;
+  event_date: string;
+  location: string;
+  is_members_only: boolean;
+  repeats: 'none' | 'weekly' | 'monthly';
+  interval: string;
+  week_of_month: string;
+  ends: 'never' | 'until' | 'count';
+  until: string;
+  count: string;
+  capacity: string;
+  signup_deadline: string;
+  exceptions: Array<{
+    date: string;
+    is_cancelled: boolean;
+    event_date: string;
+    title: string;
+    location: string;
+  }>;
+}
+
+const toInputDateTime = (value?: string) => value ? new Date(value).toISOString().slice(0, 16) : '';
+
 const EventForm: React.FC<EventFormProps> = ({ onSubmit, onCancel, initialData }) => {
-  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm({
+  const recurrence = initialData?.recurrence;
+  const { register, control, handleSubmit, watch, formState: { errors, isSubmitting } } = useForm<EventFormData>({
     defaultValues: {
       title: initialData?.title || '',
       description: initialData?.description || '',
-      event_date: initialData?.event_date ? new Date(initialData.event_date).toISOString().slice(0, 16) : '',
+      event_date: toInputDateTime(initialData?.event_date),
       location: initialData?.location || '',
       is_members_only: initialData?.is_members_only || false,
-      is_past_event: initialData?.is_past_event || false
+      repeats: recurrence?.frequency || 'none',
+      interval: String(recurrence?.interval || 1),
+      week_of_month: recurrence?.week_of_month ? String(recurrence.week_of_month) : '',
+      ends: recurrence?.until ? 'until' : recurrence?.count ? 'count' : 'never',
+      until: recurrence?.until || '',
+      count: recurrence?.count ? String(recurrence.count) : '',
+      capacity: initialData?.capacity ? String(initialData.capacity) : '',
+      signup_deadline: toInputDateTime(initialData?.signup_deadline || undefined),
+      exceptions: (initialData?.recurrence_exceptions || []).map(exception => ({
+        date: exception.date,
+        is_cancelled: exception.is_cancelled,
+        event_date: toInputDateTime(exception.event_date),
+        title: exception.title || '',
+        location: exception.location || ''
+      }))
     }
   });
 
-  const onFormSubmit = async (data: any) => {
+  const { fields, append, remove } = useFieldArray({ control, name: 'exceptions' });
+  const [repeats, ends, eventDate, interval, weekOfMonth, until, count] =
+    watch(['repeats', 'ends', 'event_date', 'interval', 'week_of_month', 'until', 'count']);
+  const startDate = eventDate ? new Date(eventDate) : null;
+
+  const buildRecurrence = (
+    data: Pick<EventFormData, 'repeats' | 'interval' | 'week_of_month' | 'ends' | 'until' | 'count'>
+  ): EventRecurrence | null =>
+    data.repeats === 'none' ? null : {
+      frequency: data.repeats,
+      interval: Math.max(1, parseInt(data.interval, 10) || 1),
+      week_of_month: data.repeats === 'monthly' && data.week_of_month ? parseInt(data.week_of_month, 10) : undefined,
+      until: data.ends === 'until' && data.until ? data.until : undefined,
+      count: data.ends === 'count' && data.count ? parseInt(data.count, 10) : undefined
+    };
+  const previewRecurrence = buildRecurrence({ repeats, interval, week_of_month: weekOfMonth, ends, until, count });
+
+  const onFormSubmit = async (data: EventFormData) => {
+    const recurrence = buildRecurrence(data);
+    const exceptions: EventOccurrenceException[] = recurrence
+      ? data.exceptions.filter(exception => exception.date).map(exception => ({
+          date: exception.date,
+          is_cancelled: exception.is_cancelled,
+          event_date: !exception.is_cancelled && exception.event_date ? new Date(exception.event_date).toISOString() : undefined,
+          title: exception.title || undefined,
+          location: exception.location || undefined
+        }))
+      : [];
+
     await onSubmit({
-      ...data,
-      event_date: new Date(data.event_date).toISOString()
+      title: data.title,
+      description: data.description,
+      event_date: new Date(data.event_date).toISOString(),
+      location: data.location,
+      is_members_only: data.is_members_only,
+      recurrence,
+      recurrence_exceptions: exceptions,
+      // Registrations are only taken for one-off events
+      capacity: !recurrence && data.capacity ? parseInt(data.capacity, 10) : null,
+      signup_deadline: !recurrence && data.signup_deadline ? new Date(data.signup_deadline).toISOString() : null
     });
   };
 
@@ -40,7 +118,7 @@ const EventForm: React.FC<EventFormProps> = ({ onSubmit, onCancel, initialData }
           className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
         />
         {errors.title && (
-          <p className="mt-1 text-sm text-red-600">{errors.title.message as string}</p>
+          <p className="mt-1 text-sm text-red-600">{errors.title.message}</p>
         )}
       </div>
 
@@ -55,7 +133,7 @@ const EventForm: React.FC<EventFormProps> = ({ onSubmit, onCancel, initialData }
           className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
         />
         {errors.description && (
-          <p className="mt-1 text-sm text-red-600">{errors.description.message as string}</p>
+          <p className="mt-1 text-sm text-red-600">{errors.description.message}</p>
         )}
       </div>
 
@@ -70,7 +148,7 @@ const EventForm: React.FC<EventFormProps> = ({ onSubmit, onCancel, initialData }
           className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
         />
         {errors.event_date && (
-          <p className="mt-1 text-sm text-red-600">{errors.event_date.message as string}</p>
+          <p className="mt-1 text-sm text-red-600">{errors.event_date.message}</p>
         )}
       </div>
 
@@ -84,10 +162,266 @@ const EventForm: React.FC<EventFormProps> = ({ onSubmit, onCancel, initialData }
           className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
         />
         {errors.location && (
-          <p className="mt-1 text-sm text-red-600">{errors.location.message as string}</p>
+          <p className="mt-1 text-sm text-red-600">{errors.location.message}</p>
         )}
       </div>
 
+      <div className="border border-neutral-200 rounded-lg p-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="repeats" className="block text-sm font-medium text-primary-600">
+              Repeats
+            </label>
+            <select
+              id="repeats"
+              {...register('repeats')}
+              className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+            >
+              <option value="none">Does not repeat</option>
+              <option value="weekly">Weekly</option>
+              <option value="monthly">Monthly</option>
+            </select>
+          </div>
+
+          {repeats !== 'none' && (
+            <div>
+              <label htmlFor="interval" className="block text-sm font-medium text-primary-600">
+                Every
+              </label>
+              <div className="mt-1 flex items-center gap-2">
+                <input
+                  id="interval"
+                  type="number"
+                  min="1"
+                  {...register('interval', { required: 'Interval is required' })}
+                  className="block w-20 rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                />
+                <span className="text-sm text-neutral-600">{repeats === 'weekly' ? 'week(s)' : 'month(s)'}</span>
+              </div>
+            </div>
+          )}
+
+          {repeats === 'monthly' && (
+            <div>
+              <label htmlFor="week_of_month" className="block text-sm font-medium text-primary-600">
+                On the
+              </label>
+              <select
+                id="week_of_month"
+                {...register('week_of_month')}
+                className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+              >
+                <option value="">
+                  Same as the first event{startDate ? ` (${WEEK_OF_MONTH_NAMES[getWeekOfMonth(startDate)] || 'fifth'})` : ''}
+                </option>
+                {[1, 2, 3, 4, -1].map(week => (
+                  <option key={week} value={week}>{WEEK_OF_MONTH_NAMES[week]} weekday of the month</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {repeats !== 'none' && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="ends" className="block text-sm font-medium text-primary-600">
+                  Ends
+                </label>
+                <select
+                  id="ends"
+                  {...register('ends')}
+                  className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                >
+                  <option value="never">Never</option>
+                  <option value="until">On date</option>
+                  <option value="count">After a number of occurrences</option>
+                </select>
+              </div>
+
+              {ends === 'until' && (
+                <div>
+                  <label htmlFor="until" className="block text-sm font-medium text-primary-600">
+                    Last Date
+                  </label>
+                  <input
+                    id="until"
+                    type="date"
+                    {...register('until', { required: 'End date is required' })}
+                    className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                  />
+                  {errors.until && (
+                    <p className="mt-1 text-sm text-red-600">{errors.until.message}</p>
+                  )}
+                </div>
+              )}
+
+              {ends === 'count' && (
+                <div>
+                  <label htmlFor="count" className="block text-sm font-medium text-primary-600">
+                    Occurrences
+                  </label>
+                  <input
+                    id="count"
+                    type="number"
+                    min="1"
+                    {...register('count', { required: 'Number of occurrences is required' })}
+                    className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                  />
+                  {errors.count && (
+                    <p className="mt-1 text-sm text-red-600">{errors.count.message}</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {previewRecurrence && startDate && !isNaN(startDate.getTime()) && (
+              <p className="text-sm text-secondary-700">
+                {describeRecurrence(previewRecurrence, startDate)}
+              </p>
+            )}
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-primary-600">Exceptions ({fields.length})</h4>
+                <button
+                  type="button"
+                  onClick={() => append({ date: '', is_cancelled: true, event_date: '', title: '', location: '' })}
+                  className="flex items-center text-sm text-secondary-600 hover:text-secondary-700"
+                >
+                  <Plus size={16} className="mr-1" />
+                  Add Exception
+                </button>
+              </div>
+
+              {fields.length === 0 ? (
+                <p className="text-sm text-neutral-500">Cancel or move individual dates without changing the rest of the series.</p>
+              ) : (
+                <div className="space-y-3">
+                  {fields.map((field, index) => {
+                    const isCancelled = watch(`exceptions.${index}.is_cancelled`);
+                    return (
+                      <div key={field.id} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end bg-white border border-neutral-200 rounded-md p-3">
+                        <div className="md:col-span-3">
+                          <label htmlFor={`exceptions.${index}.date`} className="block text-xs font-medium text-neutral-600">
+                            Scheduled Date
+                          </label>
+                          <input
+                            id={`exceptions.${index}.date`}
+                            type="date"
+                            {...register(`exceptions.${index}.date`, { required: true })}
+                            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                          />
+                        </div>
+                        <div className="md:col-span-2 flex items-center pb-2">
+                          <input
+                            id={`exceptions.${index}.is_cancelled`}
+                            type="checkbox"
+                            {...register(`exceptions.${index}.is_cancelled`)}
+                            className="h-4 w-4 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
+                          />
+                          <label htmlFor={`exceptions.${index}.is_cancelled`} className="ml-2 text-sm text-neutral-700">
+                            Cancelled
+                          </label>
+                        </div>
+                        {!isCancelled && (
+                          <>
+                            <div className="md:col-span-3">
+                              <label htmlFor={`exceptions.${index}.event_date`} className="block text-xs font-medium text-neutral-600">
+                                Moved To
+                              </label>
+                              <input
+                                id={`exceptions.${index}.event_date`}
+                                type="datetime-local"
+                                {...register(`exceptions.${index}.event_date`)}
+                                className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                              />
+                            </div>
+                            <div className="md:col-span-3">
+                              <label htmlFor={`exceptions.${index}.location`} className="block text-xs font-medium text-neutral-600">
+                                Location
+                              </label>
+                              <input
+                                id={`exceptions.${index}.location`}
+                                {...register(`exceptions.${index}.location`)}
+                                className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                                placeholder="Unchanged"
+                              />
+                            </div>
+                          </>
+                        )}
+                        <div className={`${isCancelled ? 'md:col-span-7' : 'md:col-span-1'} flex md:justify-end`}>
+                          <button
+                            type="button"
+                            onClick={() => remove(index)}
+                            className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                            title="Remove exception"
+                          >
+                            <Trash2 size={18} />
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {repeats === 'none' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="capacity" className="block text-sm font-medium text-primary-600">
+              Capacity
+            </label>
+            <input
+              id="capacity"
+              type="number"
+              min="1"
+              {...register('capacity', {
+                validate: value => !value || parseInt(value, 10) > 0 || 'Capacity must be at least 1'
+              })}
+              className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+              placeholder="Leave blank for no registration limit"
+            />
+            {errors.capacity && (
+              <p className="mt-1 text-sm text-red-600">{errors.capacity.message}</p>
+            )}
+            <p className="mt-1 text-xs text-neutral-500">
+              Members and guests can register once a capacity is set. Registrations over the limit join a waitlist.
+            </p>
+          </div>
+          <div>
+            <label htmlFor="signup_deadline" className="block text-sm font-medium text-primary-600">
+              Sign-up Deadline
+            </label>
+            <input
+              id="signup_deadline"
+              type="datetime-local"
+              {...register('signup_deadline', {
+                validate: (value, formValues) =>
+                  !value || !formValues.event_date || new Date(value) <= new Date(formValues.event_date) ||
+                  'Deadline must be before the event'
+              })}
+              className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+            />
+            {errors.signup_deadline && (
+              <p className="mt-1 text-sm text-red-600">{errors.signup_deadline.message}</p>
+            )}
+            <p className="mt-1 text-xs text-neutral-500">
+              Optional - registrations otherwise close when the event starts.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-neutral-500">
+          Registration and waitlists are available for one-off events only.
+        </p>
+      )}
+
       <div className="flex items-center space-x-6">
         <div className="flex items-center">
           <input
@@ -100,20 +434,12 @@ const EventForm: React.FC<EventFormProps> = ({ onSubmit, onCancel, initialData }
             Members Only Event
           </label>
         </div>
-
-        <div className="flex items-center">
-          <input
-            id="is_past_event"
-            type="checkbox"
-            {...register('is_past_event')}
-            className="h-4 w-4 text-secondary-600 focus:ring-secondary-500 border-neutral-300 rounded"
-          />
-          <label htmlFor="is_past_event" className="ml-2 block text-sm text-neutral-700">
-            Past Event
-          </label>
-        </div>
       </div>
 
+      <p className="text-sm text-neutral-500">
+        Events move to the archive automatically once their date has passed.
+      </p>
+
       <div className="flex justify-end space-x-4">
         <Button type="button" variant="outline" onClick={onCancel}>
           Cancel
@@ -0,0 +1,248 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Mail, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { api } from '../../lib/api';
+import { CMSEvent, EventRegistration } from '../../types';
+import { downloadCsv } from '../../utils/csv';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import ConfirmDialog from '../ConfirmDialog';
+
+interface EventRosterProps {
+  event: CMSEvent;
+  usingDemoData: boolean;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+// Demo data for when database is not connected
+const demoRegistrations = (eventId: string): EventRegistration[] => [
+  {
+    id: 'demo-registration-1',
+    event_id: eventId,
+    name: 'Bro. John Smith',
+    email: 'john.smith@example.com',
+    seats: 2,
+    notes: 'Mrs Smith is vegetarian.',
+    status: 'confirmed',
+    created_at: '2025-11-01T10:00:00Z',
+    updated_at: '2025-11-01T10:00:00Z'
+  },
+  {
+    id: 'demo-registration-2',
+    event_id: eventId,
+    name: 'Mr David Jones',
+    email: 'david.jones@example.com',
+    seats: 1,
+    status: 'waitlisted',
+    created_at: '2025-11-03T18:30:00Z',
+    updated_at: '2025-11-03T18:30:00Z'
+  }
+];
+
+const EventRoster: React.FC<EventRosterProps> = ({ event, usingDemoData, onSuccess, onError }) => {
+  const [registrations, setRegistrations] = useState<EventRegistration[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState<EventRegistration | null>(null);
+  const [isNotifying, setIsNotifying] = useState(false);
+
+  const loadRegistrations = useCallback(async () => {
+    if (usingDemoData) {
+      setRegistrations(demoRegistrations(event.id));
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoadError(null);
+      setRegistrations(await api.getEventRegistrations(event.id));
+    } catch (err) {
+      console.error('Error loading event registrations:', err);
+      setLoadError('Failed to load registrations');
+    } finally {
+      setLoading(false);
+    }
+  }, [event.id, usingDemoData]);
+
+  useEffect(() => {
+    loadRegistrations();
+  }, [loadRegistrations]);
+
+  // Keep the roster live while it is open
+  useEffect(() => {
+    if (usingDemoData) return;
+
+    const channel = supabase
+      .channel(`event-registrations-${event.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'event_registrations', filter: `event_id=eq.${event.id}` },
+        () => loadRegistrations()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [event.id, usingDemoData, loadRegistrations]);
+
+  const confirmed = registrations.filter(r => r.status === 'confirmed');
+  const waitlisted = registrations.filter(r => r.status === 'waitlisted');
+  const cancelledCount = registrations.filter(r => r.status === 'cancelled').length;
+  const confirmedSeats = confirmed.reduce((total, r) => total + r.seats, 0);
+  const awaitingEmail = confirmed.filter(r => r.promoted_at && !r.promotion_notified_at);
+
+  const handleCancel = async () => {
+    if (!cancelling) return;
+
+    try {
+      if (usingDemoData) {
+        setRegistrations(prev => prev.map(r => r.id === cancelling.id ? { ...r, status: 'cancelled' } : r));
+        onSuccess(`Registration for ${cancelling.name} cancelled (demo mode)`);
+      } else {
+        const { promoted } = await api.cancelEventRegistration({ registration_id: cancelling.id });
+        await loadRegistrations();
+        onSuccess(promoted > 0
+          ? `Registration cancelled and ${promoted} promoted from the waitlist`
+          : 'Registration cancelled');
+      }
+    } catch (err) {
+      console.error('Error cancelling registration:', err);
+      onError(err instanceof Error ? err.message : 'Failed to cancel registration');
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  const handleNotify = async () => {
+    try {
+      setIsNotifying(true);
+      const notified = await api.notifyEventPromotions(event.id);
+      await loadRegistrations();
+      onSuccess(`${notified} promotion email${notified === 1 ? '' : 's'} sent`);
+    } catch (err) {
+      console.error('Error sending promotion emails:', err);
+      onError(err instanceof Error ? err.message : 'Failed to send promotion emails');
+    } finally {
+      setIsNotifying(false);
+    }
+  };
+
+  const handleExport = () => {
+    downloadCsv(
+      `${event.title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-roster`,
+      ['Status', 'Name', 'Email', 'Phone', 'Places', 'Notes', 'Registered'],
+      [...confirmed, ...waitlisted].map(r => [
+        r.status === 'confirmed' ? 'Confirmed' : 'Waitlist',
+        r.name,
+        r.email,
+        r.phone,
+        r.seats,
+        r.notes,
+        format(new Date(r.created_at), 'dd/MM/yyyy HH:mm')
+      ])
+    );
+  };
+
+  const renderRow = (registration: EventRegistration, position?: number) => (
+    <tr key={registration.id} className="border-t border-neutral-100">
+      <td className="py-2 pr-4 text-neutral-500">{position ?? ''}</td>
+      <td className="py-2 pr-4">
+        <div className="font-medium text-primary-600">{registration.name}</div>
+        <div className="text-xs text-neutral-500">
+          {registration.email}{registration.phone && ` • ${registration.phone}`}
+        </div>
+        {registration.notes && <div className="text-xs text-neutral-600 mt-1">{registration.notes}</div>}
+      </td>
+      <td className="py-2 pr-4 text-center">{registration.seats}</td>
+      <td className="py-2 pr-4 text-xs text-neutral-500">
+        {format(new Date(registration.created_at), 'd MMM yyyy, HH:mm')}
+        {registration.promoted_at && (
+          <span className="ml-2 bg-green-100 text-green-700 px-1.5 py-0.5 rounded">Promoted</span>
+        )}
+      </td>
+      <td className="py-2 text-right">
+        <button
+          className="p-1 text-neutral-500 hover:text-red-500 transition-colors"
+          onClick={() => setCancelling(registration)}
+          title="Cancel registration"
+        >
+          <X size={16} />
+        </button>
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="mt-4 border-t border-neutral-200 pt-4">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="text-sm text-neutral-700">
+          <span className="font-medium">{confirmedSeats} of {event.capacity}</span> places taken
+          {' • '}{waitlisted.length} on the waitlist
+          {cancelledCount > 0 && <span className="text-neutral-500">{' • '}{cancelledCount} cancelled</span>}
+        </div>
+        <div className="flex gap-2">
+          {!usingDemoData && awaitingEmail.length > 0 && (
+            <Button size="sm" variant="outline" onClick={handleNotify} disabled={isNotifying} className="flex items-center">
+              <Mail size={14} className="mr-1" />
+              {isNotifying ? 'Sending...' : `Email Promoted (${awaitingEmail.length})`}
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={handleExport} disabled={registrations.length === 0} className="flex items-center">
+            <Download size={14} className="mr-1" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 p-3 rounded-lg mb-4 text-sm">
+          {loadError}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-4" />
+      ) : confirmed.length === 0 && waitlisted.length === 0 ? (
+        <p className="text-sm text-neutral-500">No registrations yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase text-neutral-500">
+              <th className="pb-2 pr-4 w-8"></th>
+              <th className="pb-2 pr-4">Attendee</th>
+              <th className="pb-2 pr-4 text-center">Places</th>
+              <th className="pb-2 pr-4">Registered</th>
+              <th className="pb-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {confirmed.map(registration => renderRow(registration))}
+            {waitlisted.length > 0 && (
+              <tr>
+                <td colSpan={5} className="pt-4 pb-1 text-xs font-medium uppercase text-yellow-800">
+                  Waitlist
+                </td>
+              </tr>
+            )}
+            {waitlisted.map((registration, index) => renderRow(registration, index + 1))}
+          </tbody>
+        </table>
+      )}
+
+      <ConfirmDialog
+        isOpen={cancelling !== null}
+        title="Cancel Registration"
+        message={`Cancel the registration for ${cancelling?.name}? ${cancelling?.status === 'confirmed' ? 'Their places will go to the waitlist.' : ''}`}
+        onConfirm={handleCancel}
+        onCancel={() => setCancelling(null)}
+        type="danger"
+        confirmText="Cancel Registration"
+      />
+    </div>
+  );
+};
+
+export default EventRoster;
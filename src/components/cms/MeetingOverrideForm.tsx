@@ -0,0 +1,186 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { format } from 'date-fns';
+import { LodgeMeetingOverride } from '../../types';
+import Button from '../Button';
+import { MeetingScheduleRule, getScheduledMeetingsForYear, toMeetingDateKey } from '../../utils/lodgeMeetings';
+
+interface MeetingOverrideFormProps {
+  onSubmit: (data: Omit<LodgeMeetingOverride, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
+  onCancel: () => void;
+  initialData?: Partial<LodgeMeetingOverride>;
+  rules: MeetingScheduleRule[];
+}
+
+interface MeetingOverrideFormData {
+  override_type: LodgeMeetingOverride['override_type'];
+  original_date: string;
+  new_date: string;
+  title: string;
+  description: string;
+  location: string;
+  reason: string;
+}
+
+const MeetingOverrideForm: React.FC<MeetingOverrideFormProps> = ({ onSubmit, onCancel, initialData, rules }) => {
+  const { register, handleSubmit, watch, formState: { errors, isSubmitting } } = useForm<MeetingOverrideFormData>({
+    defaultValues: {
+      override_type: initialData?.override_type || 'cancelled',
+      original_date: initialData?.original_date || '',
+      new_date: initialData?.new_date ? format(new Date(initialData.new_date), "yyyy-MM-dd'T'HH:mm") : '',
+      title: initialData?.title || '',
+      description: initialData?.description || '',
+      location: initialData?.location || '',
+      reason: initialData?.reason || ''
+    }
+  });
+
+  const overrideType = watch('override_type');
+
+  // Offer the scheduled meetings from this year and next as the dates that can be overridden
+  const currentYear = new Date().getFullYear();
+  const scheduledMeetings = [
+    ...getScheduledMeetingsForYear(currentYear, rules),
+    ...getScheduledMeetingsForYear(currentYear + 1, rules)
+  ];
+
+  const onFormSubmit = async (data: MeetingOverrideFormData) => {
+    await onSubmit({
+      override_type: data.override_type,
+      original_date: data.override_type !== 'added' ? data.original_date : undefined,
+      new_date: data.override_type !== 'cancelled' ? new Date(data.new_date).toISOString() : undefined,
+      title: data.title || undefined,
+      description: data.description || undefined,
+      location: data.location || undefined,
+      reason: data.reason || undefined
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-6">
+      <div>
+        <label htmlFor="override_type" className="block text-sm font-medium text-primary-600">
+          Change
+        </label>
+        <select
+          id="override_type"
+          {...register('override_type')}
+          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+        >
+          <option value="cancelled">Cancel a scheduled meeting</option>
+          <option value="moved">Move a scheduled meeting</option>
+          <option value="added">Add an emergency meeting</option>
+        </select>
+      </div>
+
+      {overrideType !== 'added' && (
+        <div>
+          <label htmlFor="original_date" className="block text-sm font-medium text-primary-600">
+            Scheduled Meeting
+          </label>
+          <select
+            id="original_date"
+            {...register('original_date', { required: 'Please choose the meeting to change' })}
+            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          >
+            <option value="">Select a meeting</option>
+            {initialData?.original_date && !scheduledMeetings.some(m => toMeetingDateKey(m.date) === initialData.original_date) && (
+              <option value={initialData.original_date}>{initialData.original_date}</option>
+            )}
+            {scheduledMeetings.map(meeting => (
+              <option key={meeting.date.toISOString()} value={toMeetingDateKey(meeting.date)}>
+                {format(meeting.date, 'EEEE d MMMM yyyy')} - {meeting.title}
+              </option>
+            ))}
+          </select>
+          {errors.original_date && (
+            <p className="mt-1 text-sm text-red-600">{errors.original_date.message}</p>
+          )}
+        </div>
+      )}
+
+      {overrideType !== 'cancelled' && (
+        <div>
+          <label htmlFor="new_date" className="block text-sm font-medium text-primary-600">
+            {overrideType === 'moved' ? 'New Date & Time' : 'Date & Time'}
+          </label>
+          <input
+            id="new_date"
+            type="datetime-local"
+            {...register('new_date', { required: 'Date and time are required' })}
+            className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          />
+          {errors.new_date && (
+            <p className="mt-1 text-sm text-red-600">{errors.new_date.message}</p>
+          )}
+        </div>
+      )}
+
+      {overrideType !== 'cancelled' && (
+        <>
+          <div>
+            <label htmlFor="title" className="block text-sm font-medium text-primary-600">
+              Title
+            </label>
+            <input
+              id="title"
+              {...register('title')}
+              className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+              placeholder={overrideType === 'added' ? 'Emergency Meeting' : 'Leave blank to keep the scheduled title'}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="description" className="block text-sm font-medium text-primary-600">
+              Description
+            </label>
+            <textarea
+              id="description"
+              {...register('description')}
+              rows={2}
+              className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="location" className="block text-sm font-medium text-primary-600">
+              Location
+            </label>
+            <input
+              id="location"
+              {...register('location')}
+              className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+              placeholder="Leave blank for Radlett Masonic Centre"
+            />
+          </div>
+        </>
+      )}
+
+      <div>
+        <label htmlFor="reason" className="block text-sm font-medium text-primary-600">
+          Reason
+        </label>
+        <input
+          id="reason"
+          {...register('reason', { required: overrideType !== 'added' ? 'Please give a reason for the change' : false })}
+          className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+          placeholder="e.g., Postponed due to venue refurbishment"
+        />
+        {errors.reason && (
+          <p className="mt-1 text-sm text-red-600">{errors.reason.message}</p>
+        )}
+      </div>
+
+      <div className="flex justify-end space-x-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Save Change'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default MeetingOverrideForm;
@@ -0,0 +1,302 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { History, Plus, Trash2 } from 'lucide-react';
+import { cmsApi } from '../../lib/cmsApi';
+import { CMSOfficer, OfficerAppointment } from '../../types';
+import Button from '../Button';
+import LoadingSpinner from '../LoadingSpinner';
+import ConfirmDialog from '../ConfirmDialog';
+import ProgressionPlanner from './ProgressionPlanner';
+import { loadMeetingSchedule } from '../../utils/lodgeMeetings';
+import {
+  BoardPosition,
+  OFFICER_POSITION_ORDER,
+  formatMasonicYear,
+  getMasonicYear,
+  groupBoardsByYear,
+  positionRank
+} from '../../utils/officerProgression';
+
+interface OfficerHistoryPanelProps {
+  officers: CMSOfficer[];
+  usingDemoData: boolean;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+interface AppointmentFormData {
+  masonic_year: number;
+  position: string;
+  full_name: string;
+}
+
+const toAppointments = (masonicYear: number, board: BoardPosition[]) => board.map((officer, index) => ({
+  masonic_year: masonicYear,
+  position: officer.position,
+  full_name: officer.full_name,
+  sort_order: index + 1
+}));
+
+const OfficerHistoryPanel: React.FC<OfficerHistoryPanelProps> = ({ officers, usingDemoData, onSuccess, onError }) => {
+  const [appointments, setAppointments] = useState<OfficerAppointment[]>([]);
+  const [currentYear, setCurrentYear] = useState(() => getMasonicYear(new Date()));
+  const [loading, setLoading] = useState(true);
+  const [deleting, setDeleting] = useState<OfficerAppointment | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const { register, handleSubmit, reset, formState: { errors, isSubmitting } } = useForm<AppointmentFormData>({
+    defaultValues: { masonic_year: currentYear, position: '', full_name: '' }
+  });
+
+  const loadAppointments = useCallback(async () => {
+    if (usingDemoData) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setAppointments(await cmsApi.getOfficerAppointments());
+    } catch (err) {
+      console.error('Error loading officer history:', err);
+      onError('Failed to load officer history');
+    } finally {
+      setLoading(false);
+    }
+  }, [usingDemoData, onError]);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [loadAppointments]);
+
+  // The Installation date decides which Masonic year we are in
+  useEffect(() => {
+    loadMeetingSchedule().then(schedule => setCurrentYear(getMasonicYear(new Date(), schedule)));
+  }, []);
+
+  const saveBoard = async (rows: Omit<OfficerAppointment, 'id' | 'created_at' | 'updated_at'>[]) => {
+    if (usingDemoData) {
+      const now = new Date().toISOString();
+      const saved = rows.map((row, index) => ({ ...row, id: `demo-${Date.now()}-${index}`, created_at: now, updated_at: now }));
+      setAppointments(prev => [
+        ...prev.filter(a => !rows.some(row => row.masonic_year === a.masonic_year && row.position === a.position)),
+        ...saved
+      ]);
+      return;
+    }
+
+    await cmsApi.saveOfficerBoard(rows);
+    setAppointments(await cmsApi.getOfficerAppointments());
+  };
+
+  const handleRecordCurrentOfficers = async () => {
+    const active = officers
+      .filter(officer => officer.is_active)
+      .sort((a, b) => a.sort_order - b.sort_order);
+
+    try {
+      await saveBoard(toAppointments(currentYear, active));
+      onSuccess(`Recorded the ${formatMasonicYear(currentYear)} board${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error recording officer board:', err);
+      onError('Failed to record officer board');
+    }
+  };
+
+  const handleRecordProjectedBoard = async (masonicYear: number, board: BoardPosition[]) => {
+    try {
+      await saveBoard(toAppointments(masonicYear, board));
+      onSuccess(`Recorded the ${formatMasonicYear(masonicYear)} board${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error recording projected officer board:', err);
+      onError('Failed to record officer board');
+    }
+  };
+
+  const onSubmitAppointment = async (data: AppointmentFormData) => {
+    const masonicYear = Number(data.masonic_year);
+    const existing = appointments.filter(a => a.masonic_year === masonicYear);
+
+    try {
+      await saveBoard([{
+        masonic_year: masonicYear,
+        position: data.position.trim(),
+        full_name: data.full_name.trim(),
+        sort_order: existing.find(a => a.position === data.position.trim())?.sort_order
+          ?? positionRank(data.position.trim()) + 1
+      }]);
+      onSuccess(`Appointment saved${usingDemoData ? ' (demo mode)' : ''}`);
+      reset({ masonic_year: masonicYear, position: '', full_name: '' });
+    } catch (err) {
+      console.error('Error saving officer appointment:', err);
+      onError('Failed to save appointment');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      if (!usingDemoData) {
+        await cmsApi.deleteOfficerAppointment(deleting.id);
+      }
+      setAppointments(prev => prev.filter(a => a.id !== deleting.id));
+      onSuccess(`Appointment removed${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error deleting officer appointment:', err);
+      onError('Failed to remove appointment');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const boards = groupBoardsByYear(appointments);
+  // Plan from the latest recorded board, or the current officers before any are recorded
+  const latestBoard = boards.find(board => board.masonicYear <= currentYear);
+  const planFrom: BoardPosition[] = latestBoard
+    ? latestBoard.officers
+    : officers.filter(officer => officer.is_active);
+
+  return (
+    <div className="mt-12">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-xl font-heading font-semibold text-primary-600 flex items-center">
+            <History size={20} className="mr-2" />
+            Officer History
+          </h2>
+          <p className="text-sm text-neutral-500 mt-1">
+            Boards by Masonic year, Installation to Installation. Past boards are shown on the About page.
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Button variant="outline" onClick={() => setShowForm(!showForm)} className="flex items-center">
+            <Plus size={18} className="mr-2" />
+            Add Appointment
+          </Button>
+          <Button onClick={handleRecordCurrentOfficers} className="flex items-center">
+            Record Current Officers as {formatMasonicYear(currentYear)}
+          </Button>
+        </div>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit(onSubmitAppointment)} className="bg-neutral-50 rounded-lg p-6 mb-8">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label htmlFor="appointment_year" className="block text-sm font-medium text-primary-600">
+                Installation Year
+              </label>
+              <input
+                id="appointment_year"
+                type="number"
+                {...register('masonic_year', { required: true, min: 1940, max: 2200 })}
+                className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="appointment_position" className="block text-sm font-medium text-primary-600">
+                Office
+              </label>
+              <input
+                id="appointment_position"
+                list="officer-positions"
+                {...register('position', { required: 'Office is required' })}
+                className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+              />
+              <datalist id="officer-positions">
+                {OFFICER_POSITION_ORDER.map(position => <option key={position} value={position} />)}
+              </datalist>
+            </div>
+            <div>
+              <label htmlFor="appointment_name" className="block text-sm font-medium text-primary-600">
+                Full Name
+              </label>
+              <input
+                id="appointment_name"
+                {...register('full_name', { required: 'Name is required' })}
+                className="mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+              />
+            </div>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save Appointment'}
+            </Button>
+          </div>
+          {(errors.position || errors.full_name || errors.masonic_year) && (
+            <p className="mt-2 text-sm text-red-600">Enter a year, an office and a name</p>
+          )}
+          <p className="mt-2 text-xs text-neutral-500">
+            Saving an office that is already recorded for the year replaces its holder.
+          </p>
+        </form>
+      )}
+
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-8" />
+      ) : boards.length === 0 ? (
+        <div className="text-center py-8 bg-neutral-50 rounded-lg">
+          <History className="w-12 h-12 mx-auto mb-3 text-neutral-300" />
+          <p className="text-neutral-600">No officer boards recorded yet.</p>
+          <p className="text-sm text-neutral-500 mt-2">Record the current officers to start the history.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {boards.map(board => (
+            <div key={board.masonicYear} className="bg-white rounded-lg border border-neutral-200 p-4">
+              <h3 className="font-medium text-primary-600 mb-3">
+                {formatMasonicYear(board.masonicYear)}
+                {board.masonicYear === currentYear && (
+                  <span className="ml-2 text-xs font-medium bg-secondary-100 text-secondary-700 px-2 py-1 rounded">
+                    Current
+                  </span>
+                )}
+                {board.masonicYear > currentYear && (
+                  <span className="ml-2 text-xs font-medium bg-blue-100 text-blue-700 px-2 py-1 rounded">
+                    Planned
+                  </span>
+                )}
+              </h3>
+              <ul className="text-sm divide-y divide-neutral-100">
+                {board.officers.map(officer => (
+                  <li key={officer.id} className="flex items-center justify-between py-1.5">
+                    <span>
+                      <span className="text-neutral-500">{officer.position}:</span>{' '}
+                      <span className="text-neutral-800">{officer.full_name}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setDeleting(officer)}
+                      className="p-1 text-neutral-400 hover:text-red-500 transition-colors"
+                      title="Remove appointment"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {planFrom.length > 0 && (
+        <ProgressionPlanner
+          board={planFrom}
+          fromYear={latestBoard ? latestBoard.masonicYear : currentYear}
+          onRecordBoard={handleRecordProjectedBoard}
+        />
+      )}
+
+      <ConfirmDialog
+        isOpen={deleting !== null}
+        title="Remove Appointment"
+        message={`Remove ${deleting?.full_name || 'this officer'} as ${deleting?.position || 'officer'} for ${deleting ? formatMasonicYear(deleting.masonic_year) : 'this year'}?`}
+        onConfirm={handleDelete}
+        onCancel={() => setDeleting(null)}
+        type="danger"
+        confirmText="Remove"
+      />
+    </div>
+  );
+};
+
+export default OfficerHistoryPanel;
@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Save, TrendingUp } from 'lucide-react';
+import Button from '../Button';
+import { BoardPosition, formatMasonicYear, projectProgression } from '../../utils/officerProgression';
+
+interface ProgressionPlannerProps {
+  board: BoardPosition[];
+  fromYear: number;
+  onRecordBoard: (masonicYear: number, board: BoardPosition[]) => Promise<void>;
+}
+
+const PROJECTED_YEARS = 4;
+
+const ProgressionPlanner: React.FC<ProgressionPlannerProps> = ({ board, fromYear, onRecordBoard }) => {
+  // Names the Secretary has pencilled in, by Masonic year then office
+  const [planned, setPlanned] = useState<Record<number, Record<string, string>>>({});
+  const [isRecording, setIsRecording] = useState(false);
+
+  const projections = useMemo(
+    () => projectProgression(board, fromYear, PROJECTED_YEARS, planned),
+    [board, fromYear, planned]
+  );
+
+  const positions = projections[0]?.positions.map(p => p.position) || [];
+  const nextBoard = projections[0];
+
+  const setPlannedName = (masonicYear: number, position: string, name: string) => {
+    setPlanned(prev => ({ ...prev, [masonicYear]: { ...prev[masonicYear], [position]: name } }));
+  };
+
+  const duplicatesIn = (masonicYear: number) => {
+    const names = projections.find(p => p.masonicYear === masonicYear)?.positions
+      .map(p => p.full_name)
+      .filter(Boolean) || [];
+    const keys = names.map(name => name.toLowerCase());
+    return [...new Set(names.filter((_, index) => keys.indexOf(keys[index]) !== index))];
+  };
+
+  const handleRecordNextBoard = async () => {
+    if (!nextBoard) return;
+
+    setIsRecording(true);
+    try {
+      await onRecordBoard(nextBoard.masonicYear, nextBoard.positions.filter(p => p.full_name));
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const currentHolder = (position: string) => board.find(officer => officer.position === position)?.full_name || '';
+
+  return (
+    <div className="bg-white rounded-lg border border-neutral-200 p-6 mt-8">
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-heading font-semibold text-primary-600 flex items-center">
+            <TrendingUp size={20} className="mr-2 text-secondary-500" />
+            Progression Planner
+          </h3>
+          <p className="text-sm text-neutral-500 mt-1">
+            Projected from the {formatMasonicYear(fromYear)} board. Each Installation moves officers up the ladder;
+            type a name to plan an office for a year, or fill a vacancy.
+          </p>
+        </div>
+        {nextBoard && (
+          <Button size="sm" onClick={handleRecordNextBoard} disabled={isRecording} className="flex items-center">
+            <Save size={14} className="mr-2" />
+            {isRecording ? 'Recording...' : `Record ${formatMasonicYear(nextBoard.masonicYear)} Board`}
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-neutral-500">
+              <th className="py-2 pr-4 font-medium">Office</th>
+              <th className="py-2 pr-4 font-medium whitespace-nowrap">{formatMasonicYear(fromYear)}</th>
+              {projections.map(projection => (
+                <th key={projection.masonicYear} className="py-2 pr-4 font-medium whitespace-nowrap">
+                  {formatMasonicYear(projection.masonicYear)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {positions.map(position => (
+              <tr key={position} className="border-t border-neutral-100">
+                <td className="py-2 pr-4 font-medium text-neutral-700 whitespace-nowrap">{position}</td>
+                <td className="py-2 pr-4 text-neutral-600 whitespace-nowrap">{currentHolder(position) || '-'}</td>
+                {projections.map(projection => {
+                  const projected = projection.positions.find(p => p.position === position);
+                  const plannedName = planned[projection.masonicYear]?.[position] || '';
+
+                  return (
+                    <td key={projection.masonicYear} className="py-1 pr-4">
+                      <input
+                        value={plannedName}
+                        onChange={(e) => setPlannedName(projection.masonicYear, position, e.target.value)}
+                        placeholder={projected?.full_name && !projected.planned ? projected.full_name : 'Vacant'}
+                        aria-label={`${position} ${formatMasonicYear(projection.masonicYear)}`}
+                        className={`w-full min-w-[9rem] rounded-md border px-2 py-1 focus:border-secondary-500 focus:ring-secondary-500 ${
+                          plannedName
+                            ? 'border-secondary-300 font-medium text-neutral-900'
+                            : projected?.full_name
+                              ? 'border-neutral-200 placeholder-neutral-700'
+                              : 'border-yellow-300 bg-yellow-50 placeholder-yellow-700'
+                        }`}
+                      />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {projections.map(projection => {
+        const duplicates = duplicatesIn(projection.masonicYear);
+        return duplicates.length > 0 && (
+          <p key={projection.masonicYear} className="flex items-start text-sm text-yellow-700 mt-3">
+            <AlertTriangle size={14} className="mr-1.5 mt-0.5 flex-shrink-0" />
+            {formatMasonicYear(projection.masonicYear)}: {duplicates.join(', ')} would hold more than one office
+          </p>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ProgressionPlanner;
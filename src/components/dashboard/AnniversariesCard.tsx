@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { addDays, format, subYears } from 'date-fns';
+import { Cake, PartyPopper } from 'lucide-react';
+import { api } from '../../lib/api';
+import { AnniversarySource, describeAnniversary, getUpcomingAnniversaries } from '../../utils/anniversaries';
+import DashboardCard from '../DashboardCard';
+import LoadingSpinner from '../LoadingSpinner';
+
+const DAYS_AHEAD = 60;
+
+// Demo members with anniversaries in the coming weeks
+const buildDemoMembers = (today: Date): AnniversarySource[] => [
+  { user_id: 'demo-user-1', full_name: 'W.Bro. John Smith', initiated_date: format(subYears(addDays(today, 12), 50), 'yyyy-MM-dd') },
+  { user_id: 'demo-user-2', full_name: 'Bro. David Jones', birthday: format(subYears(addDays(today, 20), 80), 'yyyy-MM-dd') },
+  { user_id: 'demo-user-3', full_name: 'W.Bro. Michael Brown', installed_date: format(subYears(addDays(today, 35), 25), 'yyyy-MM-dd') }
+];
+
+const AnniversariesCard: React.FC = () => {
+  const [members, setMembers] = useState<AnniversarySource[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadMembers = async () => {
+      try {
+        const directory = await api.getMemberDirectory();
+        setMembers(directory.filter(member => member.status === 'active'));
+      } catch (err) {
+        console.warn('Database not connected, using demo anniversaries:', err);
+        setMembers(buildDemoMembers(new Date()));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMembers();
+  }, []);
+
+  const today = new Date();
+  const anniversaries = getUpcomingAnniversaries(members, today, addDays(today, DAYS_AHEAD));
+
+  return (
+    <DashboardCard title="Anniversaries & Birthdays" icon={PartyPopper}>
+      {loading ? (
+        <LoadingSpinner subtle={true} className="py-4" />
+      ) : anniversaries.length > 0 ? (
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {anniversaries.map(anniversary => (
+            <li
+              key={`${anniversary.userId}-${anniversary.kind}-${anniversary.years}`}
+              className="p-3 bg-neutral-50 rounded-lg border border-neutral-200 flex items-start"
+            >
+              {anniversary.kind === 'birthday' ? (
+                <Cake className="w-4 h-4 text-secondary-500 mr-2 mt-0.5 flex-shrink-0" />
+              ) : (
+                <PartyPopper className="w-4 h-4 text-secondary-500 mr-2 mt-0.5 flex-shrink-0" />
+              )}
+              <div>
+                <p className="font-medium text-primary-600 text-sm">{anniversary.fullName}</p>
+                <p className={`text-xs mt-1 ${anniversary.isMilestone ? 'text-secondary-700 font-medium' : 'text-neutral-500'}`}>
+                  {/* The age is only named for milestone birthdays */}
+                  {anniversary.kind === 'birthday' && !anniversary.isMilestone ? 'Birthday' : describeAnniversary(anniversary)}
+                  {' - '}
+                  {format(anniversary.date, 'EEE d MMMM')}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-center py-4">
+          <PartyPopper className="w-8 h-8 mx-auto mb-2 text-neutral-300" />
+          <p className="text-neutral-500 text-sm">No anniversaries or birthdays in the next {DAYS_AHEAD} days</p>
+        </div>
+      )}
+    </DashboardCard>
+  );
+};
+
+export default AnniversariesCard;
@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { PenLine } from 'lucide-react';
+import { api } from '../../lib/api';
+import { EndorsementRequest } from '../../types';
+import DashboardCard from '../DashboardCard';
+
+interface EndorsementRequestsCardProps {
+  className?: string;
+}
+
+// Shown only while the member has applications awaiting their endorsement
+const EndorsementRequestsCard: React.FC<EndorsementRequestsCardProps> = ({ className = '' }) => {
+  const [pending, setPending] = useState<EndorsementRequest[]>([]);
+
+  useEffect(() => {
+    const loadRequests = async () => {
+      try {
+        const requests = await api.getEndorsementRequests();
+        setPending(requests.filter(request => !request.endorsed_at));
+      } catch (err) {
+        console.warn('Could not load endorsement requests:', err);
+      }
+    };
+
+    loadRequests();
+  }, []);
+
+  if (pending.length === 0) return null;
+
+  return (
+    <DashboardCard
+      title="Applications Awaiting Your Endorsement"
+      icon={PenLine}
+      className={`border-l-4 border-secondary-500 ${className}`}
+    >
+      <ul className="space-y-2">
+        {pending.map(request => (
+          <li key={request.id} className="text-sm text-neutral-700">
+            <span className="font-medium text-primary-600">{request.full_name}</span> has named you as their{' '}
+            {request.sponsor_role} - applied {format(new Date(request.submitted_at), 'd MMMM yyyy')}
+          </li>
+        ))}
+      </ul>
+      <Link
+        to="/members/endorsements"
+        className="inline-block mt-4 text-sm font-medium text-primary-600 hover:text-secondary-600"
+      >
+        Review and endorse
+      </Link>
+    </DashboardCard>
+  );
+};
+
+export default EndorsementRequestsCard;
@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
-import { MemberProfile } from '../types';
+import { LodgePermission, MemberProfile } from '../types';
 import { optimizedApi as api } from '../lib/optimizedApi';
 
 interface AuthContextType {
@@ -10,6 +10,7 @@ interface AuthContextType {
   loading: boolean;
   signOut: () => Promise<void>;
   isAdmin: boolean;
+  hasPermission: (permission: LodgePermission) => boolean;
   error: string | null;
   refreshProfile: () => Promise<void>;
   needsPasswordReset: boolean;
@@ -21,6 +22,7 @@ const AuthContext = createContext<AuthContextType>({
   loading: true,
   signOut: async () => {},
   isAdmin: false,
+  hasPermission: () => false,
   error: null,
   refreshProfile: async () => {},
   needsPasswordReset: false,
@@ -38,6 +40,7 @@ const createDemoProfile = (user: User): MemberProfile => ({
   full_name: user.email === 'demo@radlettlodge.org' ? 'Demo Admin' : 'New Member',
   position: user.email === 'demo@radlettlodge.org' ? 'Worshipful Master' : undefined,
   role: user.email === 'demo@radlettlodge.org' ? 'admin' : 'member',
+  permissions: user.email === 'demo@radlettlodge.org' ? ['treasurer', 'mentor', 'almoner'] : [],
   join_date: '2020-03-15',
   created_at: '2020-03-15T00:00:00Z',
   updated_at: '2024-01-01T00:00:00Z',
@@ -158,6 +161,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const isAdmin = profile?.role === 'admin';
 
+  // Office-holder permissions only count once the member is active
+  const hasPermission = (permission: LodgePermission) =>
+    profile?.status === 'active' && (profile.permissions || []).includes(permission);
+
   const needsPasswordReset = profile?.needs_password_reset === true;
 
   const contextValue = { 
@@ -166,6 +173,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     loading, 
     signOut, 
     isAdmin, 
+    hasPermission,
     error,
     refreshProfile,
     needsPasswordReset
@@ -1,5 +1,36 @@
 import { supabase } from './supabase';
-import { MemberProfile, LodgeDocument, MeetingMinutes } from '../types';
+import {
+  MemberProfile,
+  DirectoryEntry,
+  LodgeDocument,
+  MeetingMinutes,
+  CalendarFeedToken,
+  ReminderPreferences,
+  DegreeCeremony,
+  DuesEntry,
+  MentoringMember,
+  MentoringAssignment,
+  MentoringModuleCompletion,
+  MentoringMeeting,
+  WelfareCase,
+  WelfareContact,
+  WelfareAccessLogEntry,
+  MemberImportRow,
+  MemberImportResult,
+  FestiveBoard,
+  FestiveBoardBooking,
+  VisitorRequest,
+  Prospect,
+  ProspectStage,
+  MembershipApplication,
+  EndorsementRequest,
+  EventRegistration,
+  EventRegistrationSummary
+} from '../types';
+
+// Membership application columns other than the applicant's resume token
+const APPLICATION_COLUMNS = 'id, prospect_id, full_name, email, phone, answers, attachments, status, submitted_at, ' +
+  'proposer_id, seconder_id, proposer_endorsed_at, seconder_endorsed_at, sponsors_notified_at, created_at, updated_at';
 
 // Helper function to add timeout to promises - increased timeout values
 const withTimeout = <T>(promise: Promise<T>, timeoutMs: number = 90000): Promise<T> => {
@@ -145,6 +176,33 @@ export const api = {
     }
   },
 
+  // Directory entries with private fields hidden server-side
+  getMemberDirectory: async (): Promise<DirectoryEntry[]> => {
+    try {
+      // Check if we're in demo mode first
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('member_directory')
+        .select('*')
+        .order('full_name', { ascending: true });
+      
+      const { data, error } = await withTimeout(query, 90000);
+      
+      if (error) {
+        console.error('Error fetching member directory:', error);
+        throw new Error(`Failed to fetch directory: ${error.message}`);
+      }
+      
+      return data as DirectoryEntry[];
+    } catch (error) {
+      console.error('API Error - getMemberDirectory:', error);
+      throw error;
+    }
+  },
+
   updateMemberProfile: async (userId: string, profile: Partial<MemberProfile>): Promise<MemberProfile> => {
     try {
       const query = supabase
@@ -216,6 +274,40 @@ export const api = {
     }
   },
 
+  // Bulk member import via Edge Function. A dry run reports what would be
+  // created without creating anything
+  importMembers: async (
+    members: MemberImportRow[],
+    options: { dryRun: boolean }
+  ): Promise<MemberImportResult[]> => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/import-members`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ members, dry_run: options.dryRun }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to import members');
+      }
+
+      return result.results as MemberImportResult[];
+    } catch (error) {
+      console.error('API Error - importMembers:', error);
+      throw error;
+    }
+  },
+
   // Lodge Documents
   getLodgeDocuments: async (category?: string): Promise<LodgeDocument[]> => {
     try {
@@ -319,5 +411,1379 @@ export const api = {
       console.error('API Error - createMinutes:', error);
       throw error;
     }
+  },
+
+  // Calendar Feed Tokens
+  getCalendarFeedToken: async (userId: string): Promise<CalendarFeedToken | null> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('calendar_feed_tokens')
+        .select('*')
+        .eq('user_id', userId)
+        .limit(1);
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching calendar feed token:', error);
+        throw new Error(`Failed to fetch calendar feed token: ${error.message}`);
+      }
+      
+      return data && data.length > 0 ? data[0] as CalendarFeedToken : null;
+    } catch (error) {
+      console.error('API Error - getCalendarFeedToken:', error);
+      throw error;
+    }
+  },
+
+  // Replaces any existing token, so the previous feed URL stops working
+  regenerateCalendarFeedToken: async (userId: string): Promise<CalendarFeedToken> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const { error: deleteError } = await withTimeout(
+        supabase.from('calendar_feed_tokens').delete().eq('user_id', userId),
+        60000
+      );
+      
+      if (deleteError) {
+        console.error('Error revoking calendar feed token:', deleteError);
+        throw new Error(`Failed to revoke calendar feed token: ${deleteError.message}`);
+      }
+      
+      const query = supabase
+        .from('calendar_feed_tokens')
+        .insert({ user_id: userId })
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error creating calendar feed token:', error);
+        throw new Error(`Failed to create calendar feed token: ${error.message}`);
+      }
+      
+      return data as CalendarFeedToken;
+    } catch (error) {
+      console.error('API Error - regenerateCalendarFeedToken:', error);
+      throw error;
+    }
+  },
+
+  // Reminder email preferences
+  getReminderPreferences: async (userId: string): Promise<ReminderPreferences | null> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('reminder_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching reminder preferences:', error);
+        throw new Error(`Failed to fetch reminder preferences: ${error.message}`);
+      }
+      
+      return data as ReminderPreferences | null;
+    } catch (error) {
+      console.error('API Error - getReminderPreferences:', error);
+      throw error;
+    }
+  },
+
+  saveReminderPreferences: async (
+    userId: string,
+    preferences: Pick<ReminderPreferences, 'meeting_reminders' | 'event_reminders' | 'days_before'>
+  ): Promise<ReminderPreferences> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('reminder_preferences')
+        .upsert({ ...preferences, user_id: userId }, { onConflict: 'user_id' })
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error saving reminder preferences:', error);
+        throw new Error(`Failed to save reminder preferences: ${error.message}`);
+      }
+      
+      return data as ReminderPreferences;
+    } catch (error) {
+      console.error('API Error - saveReminderPreferences:', error);
+      throw error;
+    }
+  },
+
+  // Degree Ceremonies
+  getDegreeCeremonies: async (): Promise<DegreeCeremony[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('degree_ceremonies')
+        .select('*')
+        .order('meeting_date', { ascending: true });
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching degree ceremonies:', error);
+        throw new Error(`Failed to fetch degree ceremonies: ${error.message}`);
+      }
+      
+      return data as DegreeCeremony[];
+    } catch (error) {
+      console.error('API Error - getDegreeCeremonies:', error);
+      throw error;
+    }
+  },
+
+  createDegreeCeremony: async (ceremony: Omit<DegreeCeremony, 'id' | 'created_at' | 'updated_at'>): Promise<DegreeCeremony> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('degree_ceremonies')
+        .insert(ceremony)
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error creating degree ceremony:', error);
+        throw new Error(`Failed to create degree ceremony: ${error.message}`);
+      }
+      
+      return data as DegreeCeremony;
+    } catch (error) {
+      console.error('API Error - createDegreeCeremony:', error);
+      throw error;
+    }
+  },
+
+  updateDegreeCeremony: async (id: string, ceremony: Partial<DegreeCeremony>): Promise<DegreeCeremony> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('degree_ceremonies')
+        .update(ceremony)
+        .eq('id', id)
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error updating degree ceremony:', error);
+        throw new Error(`Failed to update degree ceremony: ${error.message}`);
+      }
+      
+      return data as DegreeCeremony;
+    } catch (error) {
+      console.error('API Error - updateDegreeCeremony:', error);
+      throw error;
+    }
+  },
+
+  deleteDegreeCeremony: async (id: string): Promise<void> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const { error } = await withTimeout(
+        supabase.from('degree_ceremonies').delete().eq('id', id),
+        60000
+      );
+      
+      if (error) {
+        console.error('Error deleting degree ceremony:', error);
+        throw new Error(`Failed to delete degree ceremony: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - deleteDegreeCeremony:', error);
+      throw error;
+    }
+  },
+
+  // Subscriptions ledger - members see their own entries, the Treasurer sees all
+  getDuesEntries: async (userId?: string): Promise<DuesEntry[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      let query = supabase
+        .from('dues_entries')
+        .select('*')
+        .order('entry_date', { ascending: true })
+        .order('created_at', { ascending: true });
+      
+      if (userId) {
+        query = query.eq('user_id', userId);
+      }
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching dues entries:', error);
+        throw new Error(`Failed to fetch dues entries: ${error.message}`);
+      }
+      
+      return data as DuesEntry[];
+    } catch (error) {
+      console.error('API Error - getDuesEntries:', error);
+      throw error;
+    }
+  },
+
+  // Takes several entries so a year's subscriptions can be invoiced in one go
+  createDuesEntries: async (entries: Omit<DuesEntry, 'id' | 'created_at' | 'updated_at'>[]): Promise<DuesEntry[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('dues_entries')
+        .insert(entries)
+        .select();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error creating dues entries:', error);
+        throw new Error(`Failed to record dues entries: ${error.message}`);
+      }
+      
+      return data as DuesEntry[];
+    } catch (error) {
+      console.error('API Error - createDuesEntries:', error);
+      throw error;
+    }
+  },
+
+  deleteDuesEntry: async (id: string): Promise<void> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const { error } = await withTimeout(
+        supabase.from('dues_entries').delete().eq('id', id),
+        60000
+      );
+      
+      if (error) {
+        console.error('Error deleting dues entry:', error);
+        throw new Error(`Failed to delete dues entry: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - deleteDuesEntry:', error);
+      throw error;
+    }
+  },
+
+  // Mentoring scheme
+  // Members with their degree dates, for the Lodge Mentor
+  getMentoringMembers: async (): Promise<MentoringMember[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase.rpc('get_mentoring_members');
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching mentoring members:', error);
+        throw new Error(`Failed to fetch mentoring members: ${error.message}`);
+      }
+      
+      return (data || []) as MentoringMember[];
+    } catch (error) {
+      console.error('API Error - getMentoringMembers:', error);
+      throw error;
+    }
+  },
+
+  getMentoringAssignments: async (menteeId?: string): Promise<MentoringAssignment[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      let query = supabase
+        .from('mentoring_assignments')
+        .select('*')
+        .order('started_on', { ascending: true });
+      
+      if (menteeId) {
+        query = query.eq('mentee_id', menteeId);
+      }
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching mentoring assignments:', error);
+        throw new Error(`Failed to fetch mentoring assignments: ${error.message}`);
+      }
+      
+      return data as MentoringAssignment[];
+    } catch (error) {
+      console.error('API Error - getMentoringAssignments:', error);
+      throw error;
+    }
+  },
+
+  // One assignment per member, so assigning a new mentor replaces the old one
+  saveMentoringAssignment: async (
+    assignment: Omit<MentoringAssignment, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<MentoringAssignment> => {
+    try {
+      const query = supabase
+        .from('mentoring_assignments')
+        .upsert(assignment, { onConflict: 'mentee_id' })
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error saving mentoring assignment:', error);
+        throw new Error(`Failed to save mentoring assignment: ${error.message}`);
+      }
+      
+      return data as MentoringAssignment;
+    } catch (error) {
+      console.error('API Error - saveMentoringAssignment:', error);
+      throw error;
+    }
+  },
+
+  deleteMentoringAssignment: async (id: string): Promise<void> => {
+    try {
+      const query = supabase
+        .from('mentoring_assignments')
+        .delete()
+        .eq('id', id);
+      
+      const { error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error deleting mentoring assignment:', error);
+        throw new Error(`Failed to delete mentoring assignment: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - deleteMentoringAssignment:', error);
+      throw error;
+    }
+  },
+
+  getMentoringModules: async (menteeId?: string): Promise<MentoringModuleCompletion[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      let query = supabase
+        .from('mentoring_modules_completed')
+        .select('*')
+        .order('completed_on', { ascending: true });
+      
+      if (menteeId) {
+        query = query.eq('mentee_id', menteeId);
+      }
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching mentoring modules:', error);
+        throw new Error(`Failed to fetch mentoring modules: ${error.message}`);
+      }
+      
+      return data as MentoringModuleCompletion[];
+    } catch (error) {
+      console.error('API Error - getMentoringModules:', error);
+      throw error;
+    }
+  },
+
+  completeMentoringModule: async (
+    completion: Omit<MentoringModuleCompletion, 'id' | 'created_at'>
+  ): Promise<MentoringModuleCompletion> => {
+    try {
+      const query = supabase
+        .from('mentoring_modules_completed')
+        .upsert(completion, { onConflict: 'mentee_id,module_key' })
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error recording mentoring module:', error);
+        throw new Error(`Failed to record module: ${error.message}`);
+      }
+      
+      return data as MentoringModuleCompletion;
+    } catch (error) {
+      console.error('API Error - completeMentoringModule:', error);
+      throw error;
+    }
+  },
+
+  deleteMentoringModule: async (id: string): Promise<void> => {
+    try {
+      const query = supabase
+        .from('mentoring_modules_completed')
+        .delete()
+        .eq('id', id);
+      
+      const { error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error deleting mentoring module:', error);
+        throw new Error(`Failed to delete mentoring module: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - deleteMentoringModule:', error);
+      throw error;
+    }
+  },
+
+  getMentoringMeetings: async (menteeId?: string): Promise<MentoringMeeting[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      let query = supabase
+        .from('mentoring_meetings')
+        .select('*')
+        .order('meeting_date', { ascending: false });
+      
+      if (menteeId) {
+        query = query.eq('mentee_id', menteeId);
+      }
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching mentoring meetings:', error);
+        throw new Error(`Failed to fetch mentoring meetings: ${error.message}`);
+      }
+      
+      return data as MentoringMeeting[];
+    } catch (error) {
+      console.error('API Error - getMentoringMeetings:', error);
+      throw error;
+    }
+  },
+
+  createMentoringMeeting: async (
+    meeting: Omit<MentoringMeeting, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<MentoringMeeting> => {
+    try {
+      const query = supabase
+        .from('mentoring_meetings')
+        .insert(meeting)
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error recording mentoring meeting:', error);
+        throw new Error(`Failed to record meeting: ${error.message}`);
+      }
+      
+      return data as MentoringMeeting;
+    } catch (error) {
+      console.error('API Error - createMentoringMeeting:', error);
+      throw error;
+    }
+  },
+
+  deleteMentoringMeeting: async (id: string): Promise<void> => {
+    try {
+      const query = supabase
+        .from('mentoring_meetings')
+        .delete()
+        .eq('id', id);
+      
+      const { error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error deleting mentoring meeting:', error);
+        throw new Error(`Failed to delete mentoring meeting: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - deleteMentoringMeeting:', error);
+      throw error;
+    }
+  },
+
+  // Almoner's welfare register. The tables cannot be read directly: the
+  // register comes from a database function that records each read in the
+  // access log, so saves do not return the saved row
+  getWelfareRegister: async (): Promise<WelfareCase[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase.rpc('get_welfare_register');
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching welfare register:', error);
+        throw new Error(`Failed to fetch welfare register: ${error.message}`);
+      }
+      
+      return (data || []) as WelfareCase[];
+    } catch (error) {
+      console.error('API Error - getWelfareRegister:', error);
+      throw error;
+    }
+  },
+
+  saveWelfareCase: async (
+    welfareCase: Omit<WelfareCase, 'id' | 'contacts' | 'created_at' | 'updated_at'>,
+    id?: string
+  ): Promise<void> => {
+    try {
+      const query = id
+        ? supabase.from('welfare_cases').update(welfareCase).eq('id', id)
+        : supabase.from('welfare_cases').insert(welfareCase);
+      
+      const { error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error saving welfare case:', error);
+        throw new Error(`Failed to save welfare case: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - saveWelfareCase:', error);
+      throw error;
+    }
+  },
+
+  deleteWelfareCase: async (id: string): Promise<void> => {
+    try {
+      const query = supabase
+        .from('welfare_cases')
+        .delete()
+        .eq('id', id);
+      
+      const { error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error deleting welfare case:', error);
+        throw new Error(`Failed to delete welfare case: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - deleteWelfareCase:', error);
+      throw error;
+    }
+  },
+
+  createWelfareContact: async (
+    contact: Omit<WelfareContact, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<void> => {
+    try {
+      const query = supabase
+        .from('welfare_contacts')
+        .insert(contact);
+      
+      const { error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error recording welfare contact:', error);
+        throw new Error(`Failed to record visit or call: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - createWelfareContact:', error);
+      throw error;
+    }
+  },
+
+  deleteWelfareContact: async (id: string): Promise<void> => {
+    try {
+      const query = supabase
+        .from('welfare_contacts')
+        .delete()
+        .eq('id', id);
+      
+      const { error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error deleting welfare contact:', error);
+        throw new Error(`Failed to delete visit or call: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - deleteWelfareContact:', error);
+      throw error;
+    }
+  },
+
+  getWelfareAccessLog: async (limit: number = 200): Promise<WelfareAccessLogEntry[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('welfare_access_log')
+        .select('*')
+        .order('accessed_at', { ascending: false })
+        .limit(limit);
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching welfare access log:', error);
+        throw new Error(`Failed to fetch access log: ${error.message}`);
+      }
+      
+      return data as WelfareAccessLogEntry[];
+    } catch (error) {
+      console.error('API Error - getWelfareAccessLog:', error);
+      throw error;
+    }
+  },
+
+  // Festive Boards
+  getFestiveBoards: async (): Promise<FestiveBoard[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('festive_boards')
+        .select('*')
+        .order('dining_date', { ascending: true });
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching festive boards:', error);
+        throw new Error(`Failed to fetch festive boards: ${error.message}`);
+      }
+      
+      return data as FestiveBoard[];
+    } catch (error) {
+      console.error('API Error - getFestiveBoards:', error);
+      throw error;
+    }
+  },
+
+  createFestiveBoard: async (festiveBoard: Omit<FestiveBoard, 'id' | 'created_at' | 'updated_at'>): Promise<FestiveBoard> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('festive_boards')
+        .insert(festiveBoard)
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error creating festive board:', error);
+        throw new Error(`Failed to create festive board: ${error.message}`);
+      }
+      
+      return data as FestiveBoard;
+    } catch (error) {
+      console.error('API Error - createFestiveBoard:', error);
+      throw error;
+    }
+  },
+
+  updateFestiveBoard: async (id: string, festiveBoard: Partial<FestiveBoard>): Promise<FestiveBoard> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('festive_boards')
+        .update(festiveBoard)
+        .eq('id', id)
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error updating festive board:', error);
+        throw new Error(`Failed to update festive board: ${error.message}`);
+      }
+      
+      return data as FestiveBoard;
+    } catch (error) {
+      console.error('API Error - updateFestiveBoard:', error);
+      throw error;
+    }
+  },
+
+  deleteFestiveBoard: async (id: string): Promise<void> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('festive_boards')
+        .delete()
+        .eq('id', id);
+      
+      const { error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error deleting festive board:', error);
+        throw new Error(`Failed to delete festive board: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - deleteFestiveBoard:', error);
+      throw error;
+    }
+  },
+
+  // Festive Board Bookings
+  // RLS limits members to their own bookings; admins see every booking
+  getFestiveBoardBookings: async (festiveBoardId?: string): Promise<FestiveBoardBooking[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      let query = supabase
+        .from('festive_board_bookings')
+        .select('*')
+        .order('member_name', { ascending: true });
+      
+      if (festiveBoardId) {
+        query = query.eq('festive_board_id', festiveBoardId);
+      }
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching dining bookings:', error);
+        throw new Error(`Failed to fetch dining bookings: ${error.message}`);
+      }
+      
+      return data as FestiveBoardBooking[];
+    } catch (error) {
+      console.error('API Error - getFestiveBoardBookings:', error);
+      throw error;
+    }
+  },
+
+  // Creates or replaces the member's booking for a festive board
+  saveFestiveBoardBooking: async (booking: Omit<FestiveBoardBooking, 'id' | 'created_at' | 'updated_at'>): Promise<FestiveBoardBooking> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('festive_board_bookings')
+        .upsert(booking, { onConflict: 'festive_board_id,user_id' })
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error saving dining booking:', error);
+        throw new Error(`Failed to save dining booking: ${error.message}`);
+      }
+      
+      return data as FestiveBoardBooking;
+    } catch (error) {
+      console.error('API Error - saveFestiveBoardBooking:', error);
+      throw error;
+    }
+  },
+
+  deleteFestiveBoardBooking: async (id: string): Promise<void> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('festive_board_bookings')
+        .delete()
+        .eq('id', id);
+      
+      const { error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error cancelling dining booking:', error);
+        throw new Error(`Failed to cancel dining booking: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - deleteFestiveBoardBooking:', error);
+      throw error;
+    }
+  },
+
+  // Visitor Requests
+  getVisitorRequests: async (status?: VisitorRequest['status']): Promise<VisitorRequest[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      let query = supabase
+        .from('visitor_requests')
+        .select('*')
+        .order('meeting_date', { ascending: true })
+        .order('created_at', { ascending: true });
+      
+      if (status) {
+        query = query.eq('status', status);
+      }
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching visitor requests:', error);
+        throw new Error(`Failed to fetch visitor requests: ${error.message}`);
+      }
+      
+      return data as VisitorRequest[];
+    } catch (error) {
+      console.error('API Error - getVisitorRequests:', error);
+      throw error;
+    }
+  },
+
+  // Approve or decline via Edge Function, which emails the visitor
+  respondToVisitorRequest: async (
+    id: string,
+    status: 'approved' | 'declined',
+    responseMessage?: string
+  ): Promise<VisitorRequest> => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/send-visitor-email`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'respond',
+          request_id: id,
+          status,
+          response_message: responseMessage
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to respond to visitor request');
+      }
+
+      return result.request as VisitorRequest;
+    } catch (error) {
+      console.error('API Error - respondToVisitorRequest:', error);
+      throw error;
+    }
+  },
+
+  deleteVisitorRequest: async (id: string): Promise<void> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('visitor_requests')
+        .delete()
+        .eq('id', id);
+      
+      const { error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error deleting visitor request:', error);
+        throw new Error(`Failed to delete visitor request: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - deleteVisitorRequest:', error);
+      throw error;
+    }
+  },
+
+  // Prospect pipeline
+  getProspects: async (): Promise<Prospect[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('prospects')
+        .select(`*, stages:prospect_stages(*), applications:membership_applications(${APPLICATION_COLUMNS})`)
+        .order('created_at', { ascending: false });
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching prospects:', error);
+        throw new Error(`Failed to fetch prospects: ${error.message}`);
+      }
+      
+      return data as Prospect[];
+    } catch (error) {
+      console.error('API Error - getProspects:', error);
+      throw error;
+    }
+  },
+
+  // The Initial Contact stage is added by a database trigger
+  createProspect: async (
+    prospect: Pick<Prospect, 'name' | 'email' | 'phone' | 'notes'>
+  ): Promise<Prospect> => {
+    try {
+      const insertQuery = supabase
+        .from('prospects')
+        .insert({ ...prospect, email: prospect.email.trim().toLowerCase(), source: 'manual' })
+        .select('id')
+        .single();
+      
+      const { data: inserted, error: insertError } = await withTimeout(insertQuery, 60000);
+      
+      if (insertError) {
+        console.error('Error creating prospect:', insertError);
+        throw new Error(`Failed to create prospect: ${insertError.message}`);
+      }
+      
+      // Read back separately, as the insert cannot see the trigger's stage
+      const query = supabase
+        .from('prospects')
+        .select('*, stages:prospect_stages(*)')
+        .eq('id', inserted.id)
+        .single();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching new prospect:', error);
+        throw new Error(`Failed to fetch new prospect: ${error.message}`);
+      }
+      
+      return data as Prospect;
+    } catch (error) {
+      console.error('API Error - createProspect:', error);
+      throw error;
+    }
+  },
+
+  updateProspect: async (
+    id: string,
+    updates: Partial<Pick<Prospect, 'name' | 'email' | 'phone' | 'notes' | 'current_stage' | 'status'>>
+  ): Promise<void> => {
+    try {
+      const query = supabase
+        .from('prospects')
+        .update(updates)
+        .eq('id', id);
+      
+      const { error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error updating prospect:', error);
+        throw new Error(`Failed to update prospect: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - updateProspect:', error);
+      throw error;
+    }
+  },
+
+  // Completes the current stage and opens the next, or marks the prospect
+  // initiated, in one transaction. Refused until a submitted application is endorsed
+  advanceProspect: async (
+    id: string
+  ): Promise<Pick<Prospect, 'current_stage' | 'status' | 'stages'>> => {
+    try {
+      const query = supabase.rpc('advance_prospect', { prospect: id });
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error advancing prospect:', error);
+        throw new Error(`Failed to advance prospect: ${error.message}`);
+      }
+      
+      return data as Pick<Prospect, 'current_stage' | 'status' | 'stages'>;
+    } catch (error) {
+      console.error('API Error - advanceProspect:', error);
+      throw error;
+    }
+  },
+
+  // Short-lived link to a file attached to a membership application
+  getApplicationAttachmentUrl: async (path: string): Promise<string> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const { data, error } = await supabase.storage
+        .from('membership-applications')
+        .createSignedUrl(path, 300);
+      
+      if (error) {
+        console.error('Error creating attachment link:', error);
+        throw new Error(`Failed to open attachment: ${error.message}`);
+      }
+      
+      return data.signedUrl;
+    } catch (error) {
+      console.error('API Error - getApplicationAttachmentUrl:', error);
+      throw error;
+    }
+  },
+
+  // Admin choice of the members who must endorse an application; changing
+  // either clears their endorsement
+  setApplicationSponsors: async (
+    id: string,
+    sponsors: Pick<MembershipApplication, 'proposer_id' | 'seconder_id'>
+  ): Promise<MembershipApplication> => {
+    try {
+      const query = supabase
+        .from('membership_applications')
+        .update(sponsors)
+        .eq('id', id)
+        .select(APPLICATION_COLUMNS)
+        .single();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error updating application sponsors:', error);
+        throw new Error(`Failed to update proposer and seconder: ${error.message}`);
+      }
+      
+      return data as unknown as MembershipApplication;
+    } catch (error) {
+      console.error('API Error - setApplicationSponsors:', error);
+      throw error;
+    }
+  },
+
+  // Emails the proposer and seconder who have not yet endorsed; returns how many were sent
+  notifyApplicationSponsors: async (id: string): Promise<number> => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/membership-application`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'notify_sponsors',
+          application_id: id
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to notify proposer and seconder');
+      }
+
+      return result.sent as number;
+    } catch (error) {
+      console.error('API Error - notifyApplicationSponsors:', error);
+      throw error;
+    }
+  },
+
+  // Applications the signed-in member is named on as proposer or seconder
+  getEndorsementRequests: async (): Promise<EndorsementRequest[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('endorsement_requests')
+        .select('*')
+        .order('submitted_at', { ascending: false });
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error fetching endorsement requests:', error);
+        throw new Error(`Failed to fetch endorsement requests: ${error.message}`);
+      }
+      
+      return data as EndorsementRequest[];
+    } catch (error) {
+      console.error('API Error - getEndorsementRequests:', error);
+      throw error;
+    }
+  },
+
+  // Returns when the endorsement was recorded
+  endorseApplication: async (id: string): Promise<string> => {
+    try {
+      const query = supabase.rpc('endorse_membership_application', { application_id: id });
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error endorsing application:', error);
+        throw new Error(`Failed to record endorsement: ${error.message}`);
+      }
+      
+      return data as string;
+    } catch (error) {
+      console.error('API Error - endorseApplication:', error);
+      throw error;
+    }
+  },
+
+  deleteProspect: async (id: string): Promise<void> => {
+    try {
+      const query = supabase
+        .from('prospects')
+        .delete()
+        .eq('id', id);
+      
+      const { error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error deleting prospect:', error);
+        throw new Error(`Failed to delete prospect: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('API Error - deleteProspect:', error);
+      throw error;
+    }
+  },
+
+  saveProspectStage: async (
+    stage: Omit<ProspectStage, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<ProspectStage> => {
+    try {
+      const query = supabase
+        .from('prospect_stages')
+        .upsert(stage, { onConflict: 'prospect_id,stage' })
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query, 60000);
+      
+      if (error) {
+        console.error('Error saving prospect stage:', error);
+        throw new Error(`Failed to save prospect stage: ${error.message}`);
+      }
+      
+      return data as ProspectStage;
+    } catch (error) {
+      console.error('API Error - saveProspectStage:', error);
+      throw error;
+    }
+  },
+
+  // Event registration methods
+  getEventRegistrationSummaries: async (): Promise<EventRegistrationSummary[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+
+      const query = supabase
+        .from('event_registration_summary')
+        .select('*');
+
+      const { data, error } = await withTimeout(query, 60000);
+
+      if (error) {
+        console.error('Error fetching event registration summaries:', error);
+        throw new Error(`Failed to fetch event registration summaries: ${error.message}`);
+      }
+
+      return data as EventRegistrationSummary[];
+    } catch (error) {
+      console.error('API Error - getEventRegistrationSummaries:', error);
+      throw error;
+    }
+  },
+
+  // Admins see every registration for the event; members only see their own
+  getEventRegistrations: async (eventId?: string): Promise<EventRegistration[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+
+      let query = supabase
+        .from('event_registrations')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (eventId) {
+        query = query.eq('event_id', eventId);
+      }
+
+      const { data, error } = await withTimeout(query, 60000);
+
+      if (error) {
+        console.error('Error fetching event registrations:', error);
+        throw new Error(`Failed to fetch event registrations: ${error.message}`);
+      }
+
+      return data as EventRegistration[];
+    } catch (error) {
+      console.error('API Error - getEventRegistrations:', error);
+      throw error;
+    }
+  },
+
+  // Signed-in members register under their own account; guests use the anon key
+  registerForEvent: async (registration: {
+    event_id: string;
+    name: string;
+    email: string;
+    phone?: string;
+    seats: number;
+    notes?: string;
+  }): Promise<{ id: string; status: EventRegistration['status'] }> => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/event-registration`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'register', ...registration }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to register for event');
+      }
+
+      return { id: result.id, status: result.status };
+    } catch (error) {
+      console.error('API Error - registerForEvent:', error);
+      throw error;
+    }
+  },
+
+  // Cancel by id (own registration, or any as an admin) or by the token from the confirmation email
+  cancelEventRegistration: async (
+    target: { registration_id: string } | { cancel_token: string }
+  ): Promise<{ registration: EventRegistration; promoted: number }> => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/event-registration`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session?.access_token || import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'cancel', ...target }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to cancel registration');
+      }
+
+      return { registration: result.registration as EventRegistration, promoted: result.promoted };
+    } catch (error) {
+      console.error('API Error - cancelEventRegistration:', error);
+      throw error;
+    }
+  },
+
+  // Email anyone promoted from the waitlist who has not been told, e.g. after raising the capacity
+  notifyEventPromotions: async (eventId: string): Promise<number> => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Not authenticated');
+      }
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/event-registration`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action: 'notify', event_id: eventId }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send promotion emails');
+      }
+
+      return result.promoted;
+    } catch (error) {
+      console.error('API Error - notifyEventPromotions:', error);
+      throw error;
+    }
   }
 };
\ No newline at end of file
@@ -3,11 +3,15 @@ import {
   CMSEvent, 
   CMSNewsArticle, 
   CMSOfficer, 
+  OfficerAppointment,
   CMSTestimonial, 
   CMSFAQItem, 
   CMSSiteSetting, 
-  CMSPageContent 
+  CMSPageContent,
+  LodgeMeetingRule,
+  LodgeMeetingOverride
 } from '../types';
+import { expandEvents } from '../utils/eventRecurrence';
 
 // Helper function to add timeout to promises
 const withTimeout = <T>(promise: Promise<T>, timeoutMs: number = 60000): Promise<T> => {
@@ -24,16 +28,26 @@ const shouldUseDemoMode = () => {
   return !import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_ANON_KEY;
 };
 
+// Status and occurrence fields are derived when reading, so never write them back
+const toEventRow = (event: Partial<CMSEvent>) => {
+  const row = { ...event };
+  delete row.is_past_event;
+  delete row.series_id;
+  delete row.occurrence_date;
+  return row;
+};
+
 export const cmsApi = {
   // Events
-  getEvents: async (): Promise<CMSEvent[]> => {
+  // Recurring events are expanded into their occurrences unless the raw rows are needed for editing
+  getEvents: async (expandRecurrences: boolean = true): Promise<CMSEvent[]> => {
     try {
       if (shouldUseDemoMode()) {
         throw new Error('Demo mode - no database connection');
       }
       
       const query = supabase
-        .from('events')
+        .from('events_with_status')
         .select('*')
         .order('event_date', { ascending: true });
       
@@ -44,7 +58,7 @@ export const cmsApi = {
         throw new Error(`Failed to fetch events: ${error.message}`);
       }
       
-      return data as CMSEvent[];
+      return expandRecurrences ? expandEvents(data as CMSEvent[]) : data as CMSEvent[];
     } catch (error) {
       console.error('CMS API Error - getEvents:', error);
       throw error;
@@ -57,30 +71,44 @@ export const cmsApi = {
         throw new Error('Demo mode - no database connection');
       }
       
-      const now = new Date().toISOString();
-      const query = supabase
-        .from('events')
+      const now = new Date();
+      // The next one-off event, plus every recurring series since those may have started in the past
+      const singleQuery = supabase
+        .from('events_with_status')
         .select('*')
         .eq('is_past_event', false)
-        .gte('event_date', now)
+        .is('recurrence', null)
+        .gte('event_date', now.toISOString())
         .order('event_date', { ascending: true })
         .limit(1);
+      const recurringQuery = supabase
+        .from('events_with_status')
+        .select('*')
+        .eq('is_past_event', false)
+        .not('recurrence', 'is', null);
       
-      const { data, error } = await withTimeout(query);
+      const [
+        { data: singleData, error: singleError },
+        { data: recurringData, error: recurringError }
+      ] = await Promise.all([withTimeout(singleQuery), withTimeout(recurringQuery)]);
+      const error = singleError || recurringError;
       
       if (error) {
         console.error('Error fetching next upcoming event:', error);
         throw new Error(`Failed to fetch next upcoming event: ${error.message}`);
       }
       
-      return data && data.length > 0 ? data[0] as CMSEvent : null;
+      const upcoming = expandEvents([...(singleData || []), ...(recurringData || [])] as CMSEvent[])
+        .filter(event => new Date(event.event_date) >= now);
+      
+      return upcoming.length > 0 ? upcoming[0] : null;
     } catch (error) {
       console.error('CMS API Error - getNextUpcomingEvent:', error);
       throw error;
     }
   },
 
-  createEvent: async (event: Omit<CMSEvent, 'id' | 'created_at' | 'updated_at'>): Promise<CMSEvent> => {
+  createEvent: async (event: Omit<CMSEvent, 'id' | 'created_at' | 'updated_at' | 'is_past_event'>): Promise<CMSEvent> => {
     try {
       if (shouldUseDemoMode()) {
         throw new Error('Demo mode - no database connection');
@@ -88,7 +116,7 @@ export const cmsApi = {
       
       const query = supabase
         .from('events')
-        .insert(event)
+        .insert(toEventRow(event))
         .select()
         .single();
       
@@ -114,7 +142,7 @@ export const cmsApi = {
       
       const query = supabase
         .from('events')
-        .update(event)
+        .update(toEventRow(event))
         .eq('id', id)
         .select()
         .single();
@@ -156,6 +184,217 @@ export const cmsApi = {
     }
   },
 
+  // Lodge Meeting Rules
+  getLodgeMeetingRules: async (includeInactive: boolean = false): Promise<LodgeMeetingRule[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      let query = supabase
+        .from('lodge_meeting_rules')
+        .select('*');
+      
+      if (!includeInactive) {
+        query = query.eq('is_active', true);
+      }
+      
+      query = query
+        .order('month', { ascending: true })
+        .order('sort_order', { ascending: true });
+      
+      const { data, error } = await withTimeout(query);
+      
+      if (error) {
+        console.error('Error fetching meeting rules:', error);
+        throw new Error(`Failed to fetch meeting rules: ${error.message}`);
+      }
+      
+      return data as LodgeMeetingRule[];
+    } catch (error) {
+      console.error('CMS API Error - getLodgeMeetingRules:', error);
+      throw error;
+    }
+  },
+
+  createLodgeMeetingRule: async (rule: Omit<LodgeMeetingRule, 'id' | 'created_at' | 'updated_at'>): Promise<LodgeMeetingRule> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('lodge_meeting_rules')
+        .insert(rule)
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query);
+      
+      if (error) {
+        console.error('Error creating meeting rule:', error);
+        throw new Error(`Failed to create meeting rule: ${error.message}`);
+      }
+      
+      return data as LodgeMeetingRule;
+    } catch (error) {
+      console.error('CMS API Error - createLodgeMeetingRule:', error);
+      throw error;
+    }
+  },
+
+  updateLodgeMeetingRule: async (id: string, rule: Partial<LodgeMeetingRule>): Promise<LodgeMeetingRule> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('lodge_meeting_rules')
+        .update(rule)
+        .eq('id', id)
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query);
+      
+      if (error) {
+        console.error('Error updating meeting rule:', error);
+        throw new Error(`Failed to update meeting rule: ${error.message}`);
+      }
+      
+      return data as LodgeMeetingRule;
+    } catch (error) {
+      console.error('CMS API Error - updateLodgeMeetingRule:', error);
+      throw error;
+    }
+  },
+
+  deleteLodgeMeetingRule: async (id: string): Promise<void> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('lodge_meeting_rules')
+        .delete()
+        .eq('id', id);
+      
+      const { error } = await withTimeout(query);
+      
+      if (error) {
+        console.error('Error deleting meeting rule:', error);
+        throw new Error(`Failed to delete meeting rule: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('CMS API Error - deleteLodgeMeetingRule:', error);
+      throw error;
+    }
+  },
+
+  // Lodge Meeting Overrides
+  getLodgeMeetingOverrides: async (): Promise<LodgeMeetingOverride[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('lodge_meeting_overrides')
+        .select('*')
+        .order('created_at', { ascending: true });
+      
+      const { data, error } = await withTimeout(query);
+      
+      if (error) {
+        console.error('Error fetching meeting overrides:', error);
+        throw new Error(`Failed to fetch meeting overrides: ${error.message}`);
+      }
+      
+      return data as LodgeMeetingOverride[];
+    } catch (error) {
+      console.error('CMS API Error - getLodgeMeetingOverrides:', error);
+      throw error;
+    }
+  },
+
+  createLodgeMeetingOverride: async (override: Omit<LodgeMeetingOverride, 'id' | 'created_at' | 'updated_at'>): Promise<LodgeMeetingOverride> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('lodge_meeting_overrides')
+        .insert(override)
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query);
+      
+      if (error) {
+        console.error('Error creating meeting override:', error);
+        throw new Error(`Failed to create meeting override: ${error.message}`);
+      }
+      
+      return data as LodgeMeetingOverride;
+    } catch (error) {
+      console.error('CMS API Error - createLodgeMeetingOverride:', error);
+      throw error;
+    }
+  },
+
+  updateLodgeMeetingOverride: async (id: string, override: Partial<LodgeMeetingOverride>): Promise<LodgeMeetingOverride> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('lodge_meeting_overrides')
+        .update(override)
+        .eq('id', id)
+        .select()
+        .single();
+      
+      const { data, error } = await withTimeout(query);
+      
+      if (error) {
+        console.error('Error updating meeting override:', error);
+        throw new Error(`Failed to update meeting override: ${error.message}`);
+      }
+      
+      return data as LodgeMeetingOverride;
+    } catch (error) {
+      console.error('CMS API Error - updateLodgeMeetingOverride:', error);
+      throw error;
+    }
+  },
+
+  deleteLodgeMeetingOverride: async (id: string): Promise<void> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('lodge_meeting_overrides')
+        .delete()
+        .eq('id', id);
+      
+      const { error } = await withTimeout(query);
+      
+      if (error) {
+        console.error('Error deleting meeting override:', error);
+        throw new Error(`Failed to delete meeting override: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('CMS API Error - deleteLodgeMeetingOverride:', error);
+      throw error;
+    }
+  },
+
   // News Articles
   getNewsArticles: async (): Promise<CMSNewsArticle[]> => {
     try {
@@ -367,6 +606,82 @@ export const cmsApi = {
     }
   },
 
+  // Officer history
+  getOfficerAppointments: async (): Promise<OfficerAppointment[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('officer_appointments')
+        .select('*')
+        .order('masonic_year', { ascending: false })
+        .order('sort_order', { ascending: true });
+      
+      const { data, error } = await withTimeout(query);
+      
+      if (error) {
+        console.error('Error fetching officer appointments:', error);
+        throw new Error(`Failed to fetch officer appointments: ${error.message}`);
+      }
+      
+      return data as OfficerAppointment[];
+    } catch (error) {
+      console.error('CMS API Error - getOfficerAppointments:', error);
+      throw error;
+    }
+  },
+
+  // Records a whole board, replacing any holder already recorded for an office that year
+  saveOfficerBoard: async (appointments: Omit<OfficerAppointment, 'id' | 'created_at' | 'updated_at'>[]): Promise<OfficerAppointment[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('officer_appointments')
+        .upsert(appointments, { onConflict: 'masonic_year,position' })
+        .select();
+      
+      const { data, error } = await withTimeout(query);
+      
+      if (error) {
+        console.error('Error saving officer board:', error);
+        throw new Error(`Failed to save officer board: ${error.message}`);
+      }
+      
+      return data as OfficerAppointment[];
+    } catch (error) {
+      console.error('CMS API Error - saveOfficerBoard:', error);
+      throw error;
+    }
+  },
+
+  deleteOfficerAppointment: async (id: string): Promise<void> => {
+    try {
+      if (shouldUseDemoMode()) {
+        throw new Error('Demo mode - no database connection');
+      }
+      
+      const query = supabase
+        .from('officer_appointments')
+        .delete()
+        .eq('id', id);
+      
+      const { error } = await withTimeout(query);
+      
+      if (error) {
+        console.error('Error deleting officer appointment:', error);
+        throw new Error(`Failed to delete officer appointment: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('CMS API Error - deleteOfficerAppointment:', error);
+      throw error;
+    }
+  },
+
   // Testimonials
   getTestimonials: async (): Promise<CMSTestimonial[]> => {
     try {
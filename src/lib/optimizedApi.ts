@@ -1,6 +1,8 @@
 import { supabase } from './supabase';
 import { dataCache, deduplicateRequest, CACHE_KEYS } from './dataCache';
-import { MemberProfile, LodgeDocument, MeetingMinutes, CMSEvent, CMSBlogPost, CMSOfficer, CMSTestimonial, CMSFAQItem, CMSSiteSetting, CMSPageContent } from '../types';
+import { MemberProfile, LodgeDocument, MeetingMinutes, MeetingAttendance, Summons, CMSEvent, CMSBlogPost, CMSOfficer, CMSTestimonial, CMSFAQItem, CMSSiteSetting, CMSPageContent } from '../types';
+import { expandEvents } from '../utils/eventRecurrence';
+import { getSummonsUrl, summonsDocumentTitle } from '../utils/summons';
 
 // Demo data for when database is not connected
 const demoDocuments: LodgeDocument[] = [
@@ -559,15 +561,187 @@ export const optimizedApi = {
       throw error;
     }
   },
+
+  // Attendance register for a meeting
+  getMeetingAttendance: async (minutesId: string): Promise<MeetingAttendance[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        console.log('Using demo mode for getMeetingAttendance');
+        return Promise.resolve([]);
+      }
+
+      const query = supabase
+        .from('meeting_attendance')
+        .select('*')
+        .eq('minutes_id', minutesId)
+        .order('name', { ascending: true });
+
+      const { data, error } = await withTimeout(query, 30000);
+
+      if (error) {
+        console.error('Error fetching meeting attendance:', error);
+        throw new Error(`Failed to fetch meeting attendance: ${error.message}`);
+      }
+
+      return data as MeetingAttendance[];
+    } catch (error) {
+      console.error('API Error - getMeetingAttendance:', error);
+      throw error;
+    }
+  },
+
+  // Replace the attendance register for a meeting and mark it as recorded
+  saveMeetingAttendance: async (
+    minutesId: string,
+    entries: Omit<MeetingAttendance, 'id' | 'minutes_id' | 'created_at' | 'updated_at'>[]
+  ): Promise<MeetingAttendance[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        console.log('Using demo mode for saveMeetingAttendance');
+        return Promise.resolve(entries.map((entry, index) => ({
+          ...entry,
+          id: `demo-attendance-${index}`,
+          minutes_id: minutesId,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })));
+      }
+
+      // The database function clears and rewrites the register in one transaction
+      const { data, error } = await supabase.rpc('save_meeting_attendance', {
+        meeting: minutesId,
+        entries
+      });
+
+      if (error) {
+        console.error('Error saving meeting attendance:', error);
+        throw new Error(`Failed to save meeting attendance: ${error.message}`);
+      }
+      const saved = (data || []) as MeetingAttendance[];
+
+      // Invalidate cache
+      optimizedApi.invalidateCache.meetingMinutes();
+
+      return saved;
+    } catch (error) {
+      console.error('API Error - saveMeetingAttendance:', error);
+      throw error;
+    }
+  },
+
+  // A member's own attendance across all recorded meetings
+  getMemberAttendance: async (userId: string): Promise<MeetingAttendance[]> => {
+    try {
+      if (shouldUseDemoMode()) {
+        console.log('Using demo mode for getMemberAttendance');
+        return Promise.resolve([]);
+      }
+
+      const query = supabase
+        .from('meeting_attendance')
+        .select('*')
+        .eq('user_id', userId);
+
+      const { data, error } = await withTimeout(query, 30000);
+
+      if (error) {
+        console.error('Error fetching member attendance:', error);
+        throw new Error(`Failed to fetch member attendance: ${error.message}`);
+      }
+
+      return data as MeetingAttendance[];
+    } catch (error) {
+      console.error('API Error - getMemberAttendance:', error);
+      throw error;
+    }
+  },
+
+  // Generated summons
+  getSummons: async (id: string): Promise<Summons | null> => {
+    try {
+      if (shouldUseDemoMode()) {
+        console.log('Using demo mode for getSummons');
+        return Promise.resolve(null);
+      }
+
+      const query = supabase
+        .from('lodge_summons')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      const { data, error } = await withTimeout(query, 30000);
+
+      if (error) {
+        console.error('Error fetching summons:', error);
+        throw new Error(`Failed to fetch summons: ${error.message}`);
+      }
+
+      return data as Summons | null;
+    } catch (error) {
+      console.error('API Error - getSummons:', error);
+      throw error;
+    }
+  },
+
+  // Save a summons and file it under the summons document category, linking the two
+  generateSummons: async (
+    summons: Omit<Summons, 'id' | 'document_id' | 'created_at' | 'updated_at'>
+  ): Promise<{ summons: Summons; document: LodgeDocument }> => {
+    try {
+      if (shouldUseDemoMode()) {
+        console.log('Using demo mode for generateSummons');
+        const id = `demo-summons-${Date.now()}`;
+        const document = await optimizedApi.createDocument({
+          title: summonsDocumentTitle(summons),
+          description: summons.meeting_title,
+          url: getSummonsUrl(id),
+          category: 'summons'
+        });
+        return {
+          summons: {
+            ...summons,
+            id,
+            document_id: document.id,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString()
+          },
+          document
+        };
+      }
+
+      // The summons and its document are saved together, so neither is left without the other.
+      // The id is made in the database, so the function is given the address it goes on the end of
+      const { data, error } = await supabase.rpc('generate_summons', {
+        summons,
+        document_title: summonsDocumentTitle(summons),
+        summons_url: getSummonsUrl('')
+      });
+
+      if (error) {
+        console.error('Error generating summons:', error);
+        throw new Error(`Failed to generate summons: ${error.message}`);
+      }
+
+      optimizedApi.invalidateCache.documents('summons');
+
+      return data as { summons: Summons; document: LodgeDocument };
+    } catch (error) {
+      console.error('API Error - generateSummons:', error);
+      throw error;
+    }
+  },
+
   // Events
-  getEvents: async (): Promise<CMSEvent[]> => {
+  // Recurring events are expanded into their occurrences unless the raw rows are needed for editing
+  getEvents: async (expandRecurrences: boolean = true): Promise<CMSEvent[]> => {
     try {
       if (shouldUseDemoMode()) {
         throw new Error('Demo mode - no database connection');
       }
       
       const query = supabase
-        .from('events')
+        .from('events_with_status')
         .select('*')
         .order('event_date', { ascending: true });
       
@@ -578,7 +752,7 @@ export const optimizedApi = {
         throw new Error(`Failed to fetch events: ${error.message}`);
       }
       
-      return data as CMSEvent[];
+      return expandRecurrences ? expandEvents(data as CMSEvent[]) : data as CMSEvent[];
     } catch (error) {
       console.error('Optimized API Error - getEvents:', error);
       throw error;
@@ -591,23 +765,37 @@ export const optimizedApi = {
         throw new Error('Demo mode - no database connection');
       }
       
-      const now = new Date().toISOString();
-      const query = supabase
-        .from('events')
+      const now = new Date();
+      // The next one-off event, plus every recurring series since those may have started in the past
+      const singleQuery = supabase
+        .from('events_with_status')
         .select('*')
         .eq('is_past_event', false)
-        .gte('event_date', now)
+        .is('recurrence', null)
+        .gte('event_date', now.toISOString())
         .order('event_date', { ascending: true })
         .limit(1);
+      const recurringQuery = supabase
+        .from('events_with_status')
+        .select('*')
+        .eq('is_past_event', false)
+        .not('recurrence', 'is', null);
       
-      const { data, error } = await withTimeout(query);
+      const [
+        { data: singleData, error: singleError },
+        { data: recurringData, error: recurringError }
+      ] = await Promise.all([withTimeout(singleQuery), withTimeout(recurringQuery)]);
+      const error = singleError || recurringError;
       
       if (error) {
         console.error('Error fetching next upcoming event:', error);
         throw new Error(`Failed to fetch next upcoming event: ${error.message}`);
       }
       
-      return data && data.length > 0 ? data[0] as CMSEvent : null;
+      const upcoming = expandEvents([...(singleData || []), ...(recurringData || [])] as CMSEvent[])
+        .filter(event => new Date(event.event_date) >= now);
+      
+      return upcoming.length > 0 ? upcoming[0] : null;
     } catch (error) {
       console.error('Optimized API Error - getNextUpcomingEvent:', error);
       throw error;
@@ -862,6 +1050,10 @@ export const optimizedApi = {
       dataCache.invalidate(`member_profile:${userId}`);
       dataCache.invalidate(CACHE_KEYS.MEMBERS);
     },
+
+    members: () => {
+      dataCache.invalidate(CACHE_KEYS.MEMBERS);
+    },
     
     documents: (category?: string) => {
       if (category) {
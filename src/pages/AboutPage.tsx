@@ -4,6 +4,7 @@ import HeroSection from '../components/HeroSection';
 import SectionHeading from '../components/SectionHeading';
 import Button from '../components/Button'; 
 import OfficerCard from '../components/OfficerCard';
+import PastOfficerBoards from '../components/PastOfficerBoards';
 import LoadingSpinner from '../components/LoadingSpinner';
 import { cmsApi } from '../lib/cmsApi';
 import { CMSOfficer } from '../types';
@@ -220,6 +221,8 @@ dedicated to making good men better."
               <p className="text-sm text-neutral-500 mt-2">Check back soon for updates!</p>
             </div>
           )}
+
+          <PastOfficerBoards />
         </div>
       </section>
 
@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { optimizedApi as api } from '../lib/optimizedApi';
 import { dataCache } from '../lib/dataCache';
-import { LodgeDocument, MeetingMinutes, MemberProfile } from '../types';
+import { LodgeDocument, LodgePermission, MasonicCareerFields, MeetingMinutes, MemberProfile } from '../types';
 import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
 import ConfirmDialog from '../components/ConfirmDialog';
@@ -12,12 +12,18 @@ import { useToast } from '../hooks/useToast';
 import { usePagination } from '../hooks/usePagination';
 import PaginationControls from '../components/PaginationControls';
 import VirtualizedList from '../components/VirtualizedList';
-import { Plus, FileText, Clock, Pencil, Trash2, ExternalLink, Building2, Landmark, Users, AlertTriangle, BookOpen, ScrollText, Archive, LogOut } from 'lucide-react';
+import { Plus, FileText, Clock, Pencil, Trash2, ExternalLink, Building2, Landmark, Users, AlertTriangle, BookOpen, ScrollText, Archive, LogOut, UtensilsCrossed, UserCheck, ClipboardList, Upload, UserPlus } from 'lucide-react';
 import DocumentForm from '../components/DocumentForm';
 import MinutesForm from '../components/MinutesForm';
 import MemberProfileAdminForm from '../components/MemberProfileAdminForm';
+import FestiveBoardAdminPanel from '../components/admin/FestiveBoardAdminPanel';
+import VisitorRequestsPanel from '../components/admin/VisitorRequestsPanel';
+import AttendanceRegister from '../components/admin/AttendanceRegister';
+import SummonsGenerator from '../components/admin/SummonsGenerator';
+import MemberImportPanel from '../components/admin/MemberImportPanel';
+import ProspectPipelinePanel from '../components/admin/ProspectPipelinePanel';
 
-type TabType = 'members' | 'documents' | 'grand_lodge' | 'provincial' | 'summons' | 'lodge_instruction' | 'resources' | 'minutes' | 'gpc_minutes';
+type TabType = 'members' | 'documents' | 'grand_lodge' | 'provincial' | 'summons' | 'lodge_instruction' | 'resources' | 'minutes' | 'gpc_minutes' | 'visitors' | 'prospects' | 'dining';
 
 // Demo data for when database is not connected
 const demoDocuments: LodgeDocument[] = [
@@ -238,8 +244,11 @@ const AdminPage: React.FC = () => {
   const [showDocumentForm, setShowDocumentForm] = useState(false);
   const [showMinutesForm, setShowMinutesForm] = useState(false);
   const [showMemberForm, setShowMemberForm] = useState(false);
+  const [showMemberImport, setShowMemberImport] = useState(false);
+  const [showSummonsGenerator, setShowSummonsGenerator] = useState(false);
   const [editingDocument, setEditingDocument] = useState<LodgeDocument | null>(null);
   const [editingMinute, setEditingMinute] = useState<MeetingMinutes | null>(null);
+  const [attendanceMinuteId, setAttendanceMinuteId] = useState<string | null>(null);
   const [editingMember, setEditingMember] = useState<MemberProfile | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
@@ -281,7 +290,7 @@ const AdminPage: React.FC = () => {
 
   // Load paginated documents when tab or pagination changes
   const loadPaginatedDocuments = useCallback(async () => {
-    if (activeTab === 'members' || activeTab === 'minutes') return;
+    if (activeTab === 'members' || activeTab === 'minutes' || activeTab === 'visitors' || activeTab === 'prospects' || activeTab === 'dining') return;
     
     try {
       setLoading(true);
@@ -353,6 +362,12 @@ const AdminPage: React.FC = () => {
     return counts;
   }, [allDocuments.length, minutes.length, members.length]);
 
+  // Emails the CSV import checks for duplicates
+  const existingMemberEmails = useMemo(
+    () => members.map(member => member.contact_email).filter((email): email is string => Boolean(email)),
+    [members]
+  );
+
   // Handle navigation for non-admin users
   useEffect(() => {
     if (!authLoading && (!user || !isAdmin)) {
@@ -497,6 +512,16 @@ const AdminPage: React.FC = () => {
     }
   };
 
+  // A generated summons arrives with its document already created
+  const handleSummonsGenerated = (document: LodgeDocument) => {
+    if (usingDemoData) {
+      setAllDocuments(prev => [document, ...prev]);
+    }
+    api.invalidateCache.documents(document.category);
+    loadPaginatedDocuments();
+    setShowSummonsGenerator(false);
+  };
+
   const handleMinutesSubmit = async (minutes: Omit<MeetingMinutes, 'id' | 'created_at' | 'updated_at'>) => {
     try {
       if (usingDemoData) {
@@ -539,12 +564,23 @@ const AdminPage: React.FC = () => {
     }
   };
 
+  const handleMembersImported = async () => {
+    try {
+      api.invalidateCache.members();
+      const updatedMembers = await api.getAllMembers();
+      setMembers(updatedMembers);
+    } catch (err) {
+      console.error('Error reloading members after import:', err);
+    }
+  };
+
   const handleMemberSubmit = async (data: {
     user_id: string;
     full_name: string;
     position?: string;
     role: 'member' | 'admin';
-  }) => {
+    permissions?: LodgePermission[];
+  } & MasonicCareerFields) => {
     try {
       if (usingDemoData) {
         // Simulate adding/updating demo data
@@ -988,6 +1024,30 @@ const AdminPage: React.FC = () => {
             <Clock size={18} className="mr-2" />
             GPC Minutes ({documentCounts.gpc_minutes})
           </Button>
+          <Button
+            variant={activeTab === 'visitors' ? 'primary' : 'outline'}
+            onClick={() => setActiveTab('visitors')}
+            className="flex items-center"
+          >
+            <UserCheck size={18} className="mr-2" />
+            Visitors
+          </Button>
+          <Button
+            variant={activeTab === 'prospects' ? 'primary' : 'outline'}
+            onClick={() => setActiveTab('prospects')}
+            className="flex items-center"
+          >
+            <UserPlus size={18} className="mr-2" />
+            Prospects
+          </Button>
+          <Button
+            variant={activeTab === 'dining' ? 'primary' : 'outline'}
+            onClick={() => setActiveTab('dining')}
+            className="flex items-center"
+          >
+            <UtensilsCrossed size={18} className="mr-2" />
+            Dining
+          </Button>
         </div>
 
         {activeTab === 'members' ? (
@@ -996,15 +1056,36 @@ const AdminPage: React.FC = () => {
               <h2 className="text-xl font-heading font-semibold text-primary-600">
                 Member Profiles ({members.length})
               </h2>
-              <Button
-                onClick={() => setShowMemberForm(true)}
-                className="flex items-center"
-              >
-                <Plus size={18} className="mr-2" />
-                Add Member
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setShowMemberImport(true)}
+                  className="flex items-center"
+                >
+                  <Upload size={18} className="mr-2" />
+                  Import CSV
+                </Button>
+                <Button
+                  onClick={() => setShowMemberForm(true)}
+                  className="flex items-center"
+                >
+                  <Plus size={18} className="mr-2" />
+                  Add Member
+                </Button>
+              </div>
             </div>
 
+            {showMemberImport && (
+              <MemberImportPanel
+                existingEmails={existingMemberEmails}
+                usingDemoData={usingDemoData}
+                onSuccess={success}
+                onError={showError}
+                onImported={handleMembersImported}
+                onClose={() => setShowMemberImport(false)}
+              />
+            )}
+
             {showMemberForm && (
               <div className="bg-neutral-50 rounded-lg p-6 mb-8">
                 <h3 className="text-lg font-semibold text-primary-600 mb-4">
@@ -1127,6 +1208,25 @@ const AdminPage: React.FC = () => {
               </div>
             )}
           </div>
+        ) : activeTab === 'visitors' ? (
+          <VisitorRequestsPanel
+            usingDemoData={usingDemoData}
+            onSuccess={success}
+            onError={showError}
+          />
+        ) : activeTab === 'prospects' ? (
+          <ProspectPipelinePanel
+            members={members}
+            usingDemoData={usingDemoData}
+            onSuccess={success}
+            onError={showError}
+          />
+        ) : activeTab === 'dining' ? (
+          <FestiveBoardAdminPanel
+            usingDemoData={usingDemoData}
+            onSuccess={success}
+            onError={showError}
+          />
         ) : activeTab !== 'minutes' ? (
           <div>
             <div className="flex justify-between items-center mb-6">
@@ -1139,15 +1239,37 @@ const AdminPage: React.FC = () => {
                 {activeTab === 'resources' && `Resources (${filteredDocuments.length})`}
                 {activeTab === 'gpc_minutes' && `GPC Minutes (${filteredDocuments.length})`}
               </h2>
-              <Button
-                onClick={() => setShowDocumentForm(true)}
-                className="flex items-center"
-              >
-                <Plus size={18} className="mr-2" />
-                Add Document
-              </Button>
+              <div className="flex gap-2">
+                {activeTab === 'summons' && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowSummonsGenerator(prev => !prev)}
+                    className="flex items-center"
+                  >
+                    <ScrollText size={18} className="mr-2" />
+                    Generate Summons
+                  </Button>
+                )}
+                <Button
+                  onClick={() => setShowDocumentForm(true)}
+                  className="flex items-center"
+                >
+                  <Plus size={18} className="mr-2" />
+                  Add Document
+                </Button>
+              </div>
             </div>
 
+            {activeTab === 'summons' && showSummonsGenerator && (
+              <SummonsGenerator
+                usingDemoData={usingDemoData}
+                onGenerated={handleSummonsGenerated}
+                onCancel={() => setShowSummonsGenerator(false)}
+                onSuccess={success}
+                onError={showError}
+              />
+            )}
+
             {showDocumentForm && (
               <div className="bg-neutral-50 rounded-lg p-6 mb-8">
                 <h3 className="text-lg font-semibold text-primary-600 mb-4">
@@ -1247,9 +1369,21 @@ const AdminPage: React.FC = () => {
                         <h3 className="font-medium text-primary-600">{minute.title}</h3>
                         <p className="text-sm text-neutral-500 mt-1">
                           {new Date(minute.meeting_date).toLocaleDateString('en-GB')}
+                          {minute.attendance_recorded_at && (
+                            <span className="ml-2 text-xs font-medium bg-green-100 text-green-700 px-2 py-0.5 rounded">
+                              Attendance recorded
+                            </span>
+                          )}
                         </p>
                       </div>
                       <div className="flex items-center space-x-2">
+                        <button
+                          className={`p-2 transition-colors ${attendanceMinuteId === minute.id ? 'text-secondary-600' : 'text-neutral-500 hover:text-secondary-500'}`}
+                          onClick={() => setAttendanceMinuteId(prev => prev === minute.id ? null : minute.id)}
+                          title="Attendance register"
+                        >
+                          <ClipboardList size={18} />
+                        </button>
                         {minute.document_url && (
                           <a
                             href={minute.document_url}
@@ -1277,6 +1411,19 @@ const AdminPage: React.FC = () => {
                         </button>
                       </div>
                     </div>
+                    {attendanceMinuteId === minute.id && (
+                      <AttendanceRegister
+                        minutes={minute}
+                        members={members}
+                        usingDemoData={usingDemoData}
+                        onSaved={(minutesId) => setMinutes(prev => prev.map(m =>
+                          m.id === minutesId ? { ...m, attendance_recorded_at: new Date().toISOString() } : m
+                        ))}
+                        onClose={() => setAttendanceMinuteId(null)}
+                        onSuccess={success}
+                        onError={showError}
+                      />
+                    )}
                     <div className="mt-4 text-neutral-600 whitespace-pre-wrap">
                       {minute.content}
                     </div>
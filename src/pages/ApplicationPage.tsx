@@ -0,0 +1,610 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { AlertTriangle, CheckCircle, FileText, Mail, Paperclip, Trash2, Upload } from 'lucide-react';
+import HeroSection from '../components/HeroSection';
+import SectionHeading from '../components/SectionHeading';
+import Button from '../components/Button';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { supabase } from '../lib/supabase';
+import { ApplicationAnswers, ApplicationAttachment, ApplicationDeclarationKey, MembershipApplication } from '../types';
+import {
+  APPLICATION_DECLARATIONS,
+  APPLICATION_STEPS,
+  ATTACHMENT_TYPES,
+  ApplicationDraft,
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_BYTES,
+  getApplicationErrors,
+  getStepErrors
+} from '../utils/membershipApplication';
+
+const ATTACHMENTS_BUCKET = 'membership-applications';
+
+const emptyDraft: ApplicationDraft = { full_name: '', email: '', phone: '', answers: {} };
+
+const inputClassName = 'w-full px-4 py-2 border border-neutral-300 rounded-md focus:ring-2 focus:ring-secondary-500 focus:border-secondary-500 disabled:bg-neutral-100 disabled:cursor-not-allowed';
+
+// Calls the membership-application edge function, which identifies the draft by its resume token
+const callApplicationFunction = async (body: Record<string, unknown>) => {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+
+  if (!supabaseUrl) {
+    throw new Error('Supabase URL not configured. Please set up your environment variables.');
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/membership-application`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    const error = new Error(result.error || `Server error: ${response.status}`) as Error & { details?: string[] };
+    error.details = result.details;
+    throw error;
+  }
+
+  return result;
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const ApplicationPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  // The link the page was opened with; later saves add the token to the address
+  const [resumeToken] = useState(token);
+  const [draft, setDraft] = useState<ApplicationDraft>(emptyDraft);
+  const [attachments, setAttachments] = useState<ApplicationAttachment[]>([]);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [loading, setLoading] = useState(!!resumeToken);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadApplication = async () => {
+      if (!resumeToken) return;
+
+      try {
+        const { application } = await callApplicationFunction({ action: 'load', token: resumeToken });
+        const saved = application as MembershipApplication;
+        setDraft({ full_name: saved.full_name, email: saved.email, phone: saved.phone || '', answers: saved.answers || {} });
+        setAttachments(saved.attachments || []);
+        setSubmitted(saved.status === 'submitted');
+      } catch (err) {
+        console.error('Error loading application:', err);
+        setLoadError(err instanceof Error ? err.message : 'Failed to load your application');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadApplication();
+  }, [resumeToken]);
+
+  const step = APPLICATION_STEPS[stepIndex];
+
+  const updateDraft = (field: 'full_name' | 'email' | 'phone', value: string) =>
+    setDraft(prev => ({ ...prev, [field]: value }));
+  const updateAnswer = (field: Exclude<keyof ApplicationAnswers, 'declarations'>, value: string) =>
+    setDraft(prev => ({ ...prev, answers: { ...prev.answers, [field]: value } }));
+  const updateDeclaration = (key: ApplicationDeclarationKey, value: boolean) =>
+    setDraft(prev => ({ ...prev, answers: { ...prev.answers, declarations: { ...prev.answers.declarations, [key]: value } } }));
+
+  // Saves the draft, creating it (and emailing the resume link) the first time
+  const saveDraft = async (options: { sendLink?: boolean; nextAttachments?: ApplicationAttachment[] } = {}) => {
+    const result = await callApplicationFunction({
+      action: 'save',
+      token,
+      draft,
+      attachments: options.nextAttachments ?? attachments,
+      send_link: options.sendLink
+    });
+
+    if (!token) {
+      setSearchParams({ token: result.token }, { replace: true });
+      setNotice(`Your application has been saved. We have emailed a link to ${draft.email} so you can come back to it.`);
+    }
+    setAttachments((result.application as MembershipApplication).attachments || []);
+    return result;
+  };
+
+  const handleNext = async () => {
+    const stepErrors = getStepErrors(step.key, draft);
+    setErrors(stepErrors);
+    if (stepErrors.length > 0) return;
+
+    setIsSaving(true);
+    try {
+      await saveDraft();
+      setStepIndex(index => Math.min(index + 1, APPLICATION_STEPS.length - 1));
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    } catch (err) {
+      console.error('Error saving application:', err);
+      setErrors([err instanceof Error ? err.message : 'Failed to save your application']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveForLater = async () => {
+    setIsSaving(true);
+    setErrors([]);
+    try {
+      const wasNew = !token;
+      const result = await saveDraft({ sendLink: !wasNew });
+      if (!wasNew) {
+        setNotice(result.link_sent
+          ? `Your application has been saved and a link to it has been emailed to ${draft.email}.`
+          : 'Your application has been saved. A link to it was emailed within the last hour, so another has not been sent.');
+      }
+    } catch (err) {
+      console.error('Error saving application:', err);
+      setErrors([err instanceof Error ? err.message : 'Failed to save your application']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!token || files.length === 0) return;
+
+    setIsUploading(true);
+    setErrors([]);
+    let nextAttachments = attachments;
+
+    try {
+      for (const file of files) {
+        if (nextAttachments.length >= MAX_ATTACHMENTS) {
+          throw new Error(`No more than ${MAX_ATTACHMENTS} attachments can be added`);
+        }
+        if (!ATTACHMENT_TYPES.includes(file.type)) {
+          throw new Error(`${file.name} is not a PDF, JPEG or PNG`);
+        }
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+          throw new Error(`${file.name} is larger than ${formatSize(MAX_ATTACHMENT_BYTES)}`);
+        }
+
+        const { path, upload_token: uploadToken } = await callApplicationFunction({
+          action: 'upload_url',
+          token,
+          file_name: file.name,
+          content_type: file.type,
+          size: file.size
+        });
+        const { error: uploadError } = await supabase.storage
+          .from(ATTACHMENTS_BUCKET)
+          .uploadToSignedUrl(path, uploadToken, file, { contentType: file.type });
+        if (uploadError) {
+          throw new Error(`Failed to upload ${file.name}: ${uploadError.message}`);
+        }
+
+        nextAttachments = [...nextAttachments, { path, name: file.name, size: file.size, content_type: file.type }];
+        // Saved after each file, so the upload limit is checked against what is stored
+        await saveDraft({ nextAttachments });
+      }
+    } catch (err) {
+      console.error('Error uploading attachment:', err);
+      setErrors([err instanceof Error ? err.message : 'Failed to upload attachment']);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemoveAttachment = async (attachment: ApplicationAttachment) => {
+    setIsUploading(true);
+    setErrors([]);
+    try {
+      await saveDraft({ nextAttachments: attachments.filter(a => a.path !== attachment.path) });
+    } catch (err) {
+      console.error('Error removing attachment:', err);
+      setErrors([err instanceof Error ? err.message : 'Failed to remove attachment']);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const applicationErrors = getApplicationErrors(draft);
+    setErrors(applicationErrors);
+    if (applicationErrors.length > 0 || !token) return;
+
+    setIsSaving(true);
+    try {
+      await callApplicationFunction({ action: 'submit', token, draft, attachments });
+      setSubmitted(true);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    } catch (err) {
+      console.error('Error submitting application:', err);
+      const details = (err as { details?: string[] }).details;
+      setErrors(details && details.length > 0 ? details : [err instanceof Error ? err.message : 'Failed to submit your application']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const { answers } = draft;
+  const busy = isSaving || isUploading;
+
+  const renderStep = () => {
+    switch (step.key) {
+      case 'about':
+        return (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="application_full_name" className="block mb-2 text-sm font-medium text-primary-600">
+                  Full Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  id="application_full_name"
+                  type="text"
+                  value={draft.full_name}
+                  onChange={(e) => updateDraft('full_name', e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="application_date_of_birth" className="block mb-2 text-sm font-medium text-primary-600">
+                  Date of Birth <span className="text-red-500">*</span>
+                </label>
+                <input
+                  id="application_date_of_birth"
+                  type="date"
+                  value={answers.date_of_birth || ''}
+                  onChange={(e) => updateAnswer('date_of_birth', e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label htmlFor="application_email" className="block mb-2 text-sm font-medium text-primary-600">
+                  Email <span className="text-red-500">*</span>
+                </label>
+                <input
+                  id="application_email"
+                  type="email"
+                  value={draft.email}
+                  onChange={(e) => updateDraft('email', e.target.value)}
+                  disabled={!!token}
+                  className={inputClassName}
+                />
+                {token && (
+                  <p className="mt-1 text-xs text-neutral-500">Contact the Secretary if your email address has changed.</p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="application_phone" className="block mb-2 text-sm font-medium text-primary-600">
+                  Phone
+                </label>
+                <input
+                  id="application_phone"
+                  type="tel"
+                  value={draft.phone || ''}
+                  onChange={(e) => updateDraft('phone', e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="application_address" className="block mb-2 text-sm font-medium text-primary-600">
+                Home Address <span className="text-red-500">*</span>
+              </label>
+              <textarea
+                id="application_address"
+                rows={3}
+                value={answers.address || ''}
+                onChange={(e) => updateAnswer('address', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="application_occupation" className="block mb-2 text-sm font-medium text-primary-600">
+                Occupation <span className="text-red-500">*</span>
+              </label>
+              <input
+                id="application_occupation"
+                type="text"
+                value={answers.occupation || ''}
+                onChange={(e) => updateAnswer('occupation', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        );
+
+      case 'sponsors':
+        return (
+          <div className="space-y-6">
+            <p className="text-neutral-600">
+              Your application must be proposed and seconded by two members of Radlett Lodge. If you do not yet know
+              two members, please <Link to="/contact" className="text-secondary-600 hover:text-secondary-700 underline">contact us</Link> first.
+            </p>
+            {(['proposer', 'seconder'] as const).map(role => (
+              <div key={role} className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="md:col-span-2">
+                  <label htmlFor={`application_${role}_name`} className="block mb-2 text-sm font-medium text-primary-600">
+                    {role === 'proposer' ? 'Proposer' : 'Seconder'} <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    id={`application_${role}_name`}
+                    type="text"
+                    value={answers[`${role}_name`] || ''}
+                    onChange={(e) => updateAnswer(`${role}_name`, e.target.value)}
+                    placeholder="Name of the Lodge member"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor={`application_${role}_known_years`} className="block mb-2 text-sm font-medium text-primary-600">
+                    Known for (years)
+                  </label>
+                  <input
+                    id={`application_${role}_known_years`}
+                    type="number"
+                    min="0"
+                    value={answers[`${role}_known_years`] || ''}
+                    onChange={(e) => updateAnswer(`${role}_known_years`, e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        );
+
+      case 'declarations':
+        return (
+          <div className="space-y-6">
+            <div>
+              <label htmlFor="application_reasons" className="block mb-2 text-sm font-medium text-primary-600">
+                Why do you wish to become a Freemason? <span className="text-red-500">*</span>
+              </label>
+              <textarea
+                id="application_reasons"
+                rows={4}
+                value={answers.reasons || ''}
+                onChange={(e) => updateAnswer('reasons', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="application_previous_membership" className="block mb-2 text-sm font-medium text-primary-600">
+                Have you previously applied to, or been a member of, any Masonic lodge? If so, give details.
+              </label>
+              <textarea
+                id="application_previous_membership"
+                rows={2}
+                value={answers.previous_membership || ''}
+                onChange={(e) => updateAnswer('previous_membership', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <fieldset className="space-y-3">
+              <legend className="mb-2 text-sm font-medium text-primary-600">
+                Declarations <span className="text-red-500">*</span>
+              </legend>
+              {APPLICATION_DECLARATIONS.map(({ key, label }) => (
+                <label key={key} className="flex items-start text-sm text-neutral-700">
+                  <input
+                    type="checkbox"
+                    checked={!!answers.declarations?.[key]}
+                    onChange={(e) => updateDeclaration(key, e.target.checked)}
+                    className="mt-1 mr-3 h-4 w-4 text-secondary-500 focus:ring-secondary-500 border-neutral-300 rounded"
+                  />
+                  {label}
+                </label>
+              ))}
+            </fieldset>
+            <div>
+              <label htmlFor="application_conduct_details" className="block mb-2 text-sm font-medium text-primary-600">
+                Convictions or pending proceedings to disclose
+              </label>
+              <textarea
+                id="application_conduct_details"
+                rows={2}
+                value={answers.conduct_details || ''}
+                onChange={(e) => updateAnswer('conduct_details', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        );
+
+      case 'attachments':
+        return (
+          <div className="space-y-6">
+            <p className="text-neutral-600">
+              Please attach a recent passport-style photograph and proof of identity. You may also add any supporting
+              documents. PDFs, JPEGs and PNGs up to {formatSize(MAX_ATTACHMENT_BYTES)}, and no more than {MAX_ATTACHMENTS} files.
+            </p>
+            {attachments.length > 0 && (
+              <ul className="divide-y divide-neutral-100 border border-neutral-200 rounded-md">
+                {attachments.map(attachment => (
+                  <li key={attachment.path} className="flex items-center justify-between px-4 py-2 text-sm">
+                    <span className="flex items-center text-neutral-700">
+                      <Paperclip size={14} className="mr-2 text-neutral-400" />
+                      {attachment.name}
+                      <span className="text-neutral-400 ml-2">{formatSize(attachment.size)}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveAttachment(attachment)}
+                      disabled={busy}
+                      className="p-1 text-neutral-400 hover:text-red-500 transition-colors"
+                      title="Remove attachment"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {attachments.length < MAX_ATTACHMENTS && (
+              <label className={`inline-flex items-center px-4 py-2 border border-primary-600 text-primary-600 rounded-md ${busy ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-primary-50'}`}>
+                <Upload size={16} className="mr-2" />
+                {isUploading ? 'Uploading...' : 'Add Files'}
+                <input
+                  type="file"
+                  multiple
+                  accept={ATTACHMENT_TYPES.join(',')}
+                  onChange={handleFiles}
+                  disabled={busy}
+                  className="sr-only"
+                />
+              </label>
+            )}
+          </div>
+        );
+
+      case 'review':
+        return (
+          <div className="space-y-4 text-sm">
+            <dl className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-3">
+              {[
+                ['Name', draft.full_name],
+                ['Email', draft.email],
+                ['Phone', draft.phone || 'Not provided'],
+                ['Date of Birth', answers.date_of_birth],
+                ['Address', answers.address],
+                ['Occupation', answers.occupation],
+                ['Proposer', answers.proposer_name],
+                ['Seconder', answers.seconder_name],
+                ['Attachments', attachments.length > 0 ? attachments.map(a => a.name).join(', ') : 'None']
+              ].map(([label, value]) => (
+                <div key={label} className="md:col-span-1">
+                  <dt className="font-medium text-primary-600">{label}</dt>
+                  <dd className="text-neutral-700 whitespace-pre-wrap">{value || 'Not given'}</dd>
+                </div>
+              ))}
+            </dl>
+            <div>
+              <p className="font-medium text-primary-600">Why you wish to become a Freemason</p>
+              <p className="text-neutral-700 whitespace-pre-wrap">{answers.reasons || 'Not given'}</p>
+            </div>
+            <p className="text-neutral-600">
+              {APPLICATION_DECLARATIONS.every(({ key }) => answers.declarations?.[key])
+                ? 'You have made all of the declarations.'
+                : 'Some declarations have not been made yet.'}
+            </p>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <>
+      <HeroSection
+        title="Apply to Join Radlett Lodge"
+        subtitle="Complete your membership application online, saving your progress as you go"
+        backgroundImage="https://images.pexels.com/photos/6146929/pexels-photo-6146929.jpeg?auto=compress&cs=tinysrgb&w=1260&h=750&dpr=1"
+      />
+
+      <section className="py-20 bg-white">
+        <div className="container mx-auto px-4 md:px-6 max-w-3xl">
+          <SectionHeading
+            title="Membership Application"
+            subtitle="Your answers are saved at each step. We will email you a link so you can finish later."
+          />
+
+          {loading ? (
+            <LoadingSpinner subtle={true} className="py-8" />
+          ) : loadError ? (
+            <div className="bg-red-50 border border-red-200 text-red-700 p-4 rounded-lg">
+              <p>{loadError}</p>
+              <Link to="/apply" className="mt-2 inline-block text-sm underline">Start a new application</Link>
+            </div>
+          ) : submitted ? (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-6 text-center animate-fadeIn">
+              <CheckCircle className="w-10 h-10 mx-auto mb-3 text-green-600" />
+              <p className="text-green-700 font-medium">
+                Thank you, {draft.full_name}. Your application has been sent to the Secretary, who will be in touch about the next steps.
+              </p>
+            </div>
+          ) : (
+            <div className="bg-neutral-50 rounded-lg p-6 md:p-8">
+              <ol className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-8">
+                {APPLICATION_STEPS.map(({ key, label }, index) => (
+                  <li
+                    key={key}
+                    className={`text-xs text-center rounded px-2 py-2 ${
+                      index === stepIndex
+                        ? 'bg-secondary-100 text-secondary-800 font-medium'
+                        : index < stepIndex ? 'bg-green-100 text-green-700' : 'bg-white text-neutral-400'
+                    }`}
+                  >
+                    {index + 1}. {label}
+                  </li>
+                ))}
+              </ol>
+
+              {notice && (
+                <div className="flex items-start bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6 text-sm text-blue-700">
+                  <Mail className="w-5 h-5 text-blue-500 mr-2 flex-shrink-0" />
+                  {notice}
+                </div>
+              )}
+
+              {errors.length > 0 && (
+                <div className="flex items-start bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-sm text-red-700">
+                  <AlertTriangle className="w-5 h-5 text-red-500 mr-2 flex-shrink-0" />
+                  <ul className="space-y-1">
+                    {errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              <h3 className="text-xl font-heading font-semibold text-primary-600 mb-6 flex items-center">
+                <FileText className="w-5 h-5 mr-2 text-secondary-500" />
+                {step.label}
+              </h3>
+
+              {renderStep()}
+
+              <div className="flex flex-wrap justify-between gap-4 mt-8">
+                <Button
+                  variant="outline"
+                  onClick={() => { setErrors([]); setStepIndex(index => index - 1); }}
+                  disabled={stepIndex === 0 || busy}
+                >
+                  Back
+                </Button>
+                <div className="flex flex-wrap gap-4">
+                  {(token || (draft.full_name && draft.email)) && (
+                    <Button variant="outline" onClick={handleSaveForLater} disabled={busy}>
+                      Save &amp; Finish Later
+                    </Button>
+                  )}
+                  {step.key === 'review' ? (
+                    <Button onClick={handleSubmit} disabled={busy}>
+                      {isSaving ? 'Submitting...' : 'Submit Application'}
+                    </Button>
+                  ) : (
+                    <Button onClick={handleNext} disabled={busy}>
+                      {isSaving ? 'Saving...' : 'Save & Continue'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </section>
+    </>
+  );
+};
+
+export default ApplicationPage;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
 import { useAuth } from '../contexts/AuthContext';
 import { cmsApi } from '../lib/cmsApi';
 import { 
@@ -9,7 +10,9 @@ import {
   CMSTestimonial, 
   CMSFAQItem, 
   CMSSiteSetting,
-  CMSPageContent
+  CMSPageContent,
+  LodgeMeetingRule,
+  LodgeMeetingOverride
 } from '../types';
 import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
@@ -35,7 +38,10 @@ import {
   CheckSquare,
   Square,
   LogOut,
-  BookOpen
+  BookOpen,
+  CalendarClock,
+  CalendarX,
+  Repeat
 } from 'lucide-react';
 
 // Import all the forms
@@ -51,8 +57,14 @@ import BulkActions from '../components/cms/BulkActions';
 import ContentPreview from '../components/cms/ContentPreview';
 import MediaManager from '../components/cms/MediaManager';
 import ContentScheduler from '../components/cms/ContentScheduler';
+import MeetingRuleForm from '../components/cms/MeetingRuleForm';
+import MeetingOverrideForm from '../components/cms/MeetingOverrideForm';
+import EventRoster from '../components/cms/EventRoster';
+import OfficerHistoryPanel from '../components/cms/OfficerHistoryPanel';
+import { DEFAULT_MEETING_RULES, describeMeetingRule } from '../utils/lodgeMeetings';
+import { describeRecurrence } from '../utils/eventRecurrence';
 
-type TabType = 'events' | 'news' | 'blog' | 'officers' | 'testimonials' | 'faq' | 'settings' | 'pages' | 'media';
+type TabType = 'events' | 'meetings' | 'news' | 'blog' | 'officers' | 'testimonials' | 'faq' | 'settings' | 'pages' | 'media';
 
 // Demo data for when database is not connected
 const demoEvents: CMSEvent[] = [
@@ -80,6 +92,15 @@ const demoEvents: CMSEvent[] = [
   }
 ];
 
+const demoMeetingRules: LodgeMeetingRule[] = DEFAULT_MEETING_RULES.map((rule, index) => ({
+  ...rule,
+  id: `${index + 1}`,
+  is_active: true,
+  sort_order: index + 1,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z'
+}));
+
 const demoNews: CMSNewsArticle[] = [
   {
     id: '1',
@@ -221,6 +242,8 @@ const CMSAdminPage: React.FC = () => {
   
   // Data states
   const [events, setEvents] = useState<CMSEvent[]>([]);
+  const [meetingRules, setMeetingRules] = useState<LodgeMeetingRule[]>([]);
+  const [meetingOverrides, setMeetingOverrides] = useState<LodgeMeetingOverride[]>([]);
   const [news, setNews] = useState<CMSNewsArticle[]>([]);
   const [officers, setOfficers] = useState<CMSOfficer[]>([]);
   const [testimonials, setTestimonials] = useState<CMSTestimonial[]>([]);
@@ -230,6 +253,8 @@ const CMSAdminPage: React.FC = () => {
   
   // Form states
   const [showEventForm, setShowEventForm] = useState(false);
+  const [showMeetingRuleForm, setShowMeetingRuleForm] = useState(false);
+  const [showMeetingOverrideForm, setShowMeetingOverrideForm] = useState(false);
   const [showNewsForm, setShowNewsForm] = useState(false);
   const [showBlogForm, setShowBlogForm] = useState(false);
   const [showOfficerForm, setShowOfficerForm] = useState(false);
@@ -242,6 +267,9 @@ const CMSAdminPage: React.FC = () => {
   
   // Editing states
   const [editingEvent, setEditingEvent] = useState<CMSEvent | null>(null);
+  const [rosterEventId, setRosterEventId] = useState<string | null>(null);
+  const [editingMeetingRule, setEditingMeetingRule] = useState<LodgeMeetingRule | null>(null);
+  const [editingMeetingOverride, setEditingMeetingOverride] = useState<LodgeMeetingOverride | null>(null);
   const [editingNews, setEditingNews] = useState<CMSNewsArticle | null>(null);
   const [editingOfficer, setEditingOfficer] = useState<CMSOfficer | null>(null);
   const [editingTestimonial, setEditingTestimonial] = useState<CMSTestimonial | null>(null);
@@ -279,12 +307,13 @@ const CMSAdminPage: React.FC = () => {
   // Memoize counts to prevent recalculation
   const counts = useMemo(() => ({
     events: events.length,
+    meetings: meetingRules.length,
     news: news.length,
     officers: officers.length,
     testimonials: testimonials.length,
     faq: faqItems.length,
     pages: pageContent.length
-  }), [events.length, news.length, officers.length, testimonials.length, faqItems.length, pageContent.length]);
+  }), [events.length, meetingRules.length, news.length, officers.length, testimonials.length, faqItems.length, pageContent.length]);
 
   // Handle navigation for non-admin users
   useEffect(() => {
@@ -306,11 +335,12 @@ const CMSAdminPage: React.FC = () => {
   }, [signOut, showError]);
 
   // Event handlers with useCallback
-  const handleEventSubmit = useCallback(async (eventData: Omit<CMSEvent, 'id' | 'created_at' | 'updated_at'>) => {
+  const handleEventSubmit = useCallback(async (eventData: Omit<CMSEvent, 'id' | 'created_at' | 'updated_at' | 'is_past_event'>) => {
     try {
       if (usingDemoData) {
         const newEvent: CMSEvent = {
           ...eventData,
+          is_past_event: new Date(eventData.event_date) < new Date(),
           id: `demo-${Date.now()}`,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
@@ -332,7 +362,7 @@ const CMSAdminPage: React.FC = () => {
           success('Event created successfully');
         }
         
-        const updatedEvents = await cmsApi.getEvents();
+        const updatedEvents = await cmsApi.getEvents(false);
         setEvents(updatedEvents);
       }
       
@@ -356,7 +386,7 @@ const CMSAdminPage: React.FC = () => {
             success('Event deleted successfully (demo mode)');
           } else {
             await cmsApi.deleteEvent(id);
-            const updatedEvents = await cmsApi.getEvents();
+            const updatedEvents = await cmsApi.getEvents(false);
             setEvents(updatedEvents);
             success('Event deleted successfully');
           }
@@ -368,6 +398,134 @@ const CMSAdminPage: React.FC = () => {
       }
     });
   }, [usingDemoData, success, showError]);
+  // Meeting schedule rule handlers with useCallback
+  const handleMeetingRuleSubmit = useCallback(async (ruleData: Omit<LodgeMeetingRule, 'id' | 'created_at' | 'updated_at'>) => {
+    try {
+      if (usingDemoData) {
+        const newRule: LodgeMeetingRule = {
+          ...ruleData,
+          id: `demo-${Date.now()}`,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        };
+        
+        if (editingMeetingRule) {
+          setMeetingRules(prev => prev.map(r => r.id === editingMeetingRule.id ? { ...newRule, id: editingMeetingRule.id } : r));
+          success('Meeting rule updated successfully (demo mode)');
+        } else {
+          setMeetingRules(prev => [...prev, newRule].sort((a, b) => a.month - b.month));
+          success('Meeting rule created successfully (demo mode)');
+        }
+      } else {
+        if (editingMeetingRule) {
+          await cmsApi.updateLodgeMeetingRule(editingMeetingRule.id, ruleData);
+          success('Meeting rule updated successfully');
+        } else {
+          await cmsApi.createLodgeMeetingRule(ruleData);
+          success('Meeting rule created successfully');
+        }
+        
+        const updatedRules = await cmsApi.getLodgeMeetingRules(true);
+        setMeetingRules(updatedRules);
+      }
+      
+      setShowMeetingRuleForm(false);
+      setEditingMeetingRule(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      showError('Failed to save meeting rule');
+    }
+  }, [usingDemoData, editingMeetingRule, success, showError]);
+
+  const handleDeleteMeetingRule = useCallback(async (id: string) => {
+    setConfirmDialog({
+      isOpen: true,
+      title: 'Delete Meeting Rule',
+      message: 'Are you sure you want to delete this meeting from the schedule? This action cannot be undone.',
+      onConfirm: async () => {
+        try {
+          if (usingDemoData) {
+            setMeetingRules(prev => prev.filter(r => r.id !== id));
+            success('Meeting rule deleted successfully (demo mode)');
+          } else {
+            await cmsApi.deleteLodgeMeetingRule(id);
+            const updatedRules = await cmsApi.getLodgeMeetingRules(true);
+            setMeetingRules(updatedRules);
+            success('Meeting rule deleted successfully');
+          }
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'An error occurred');
+          showError('Failed to delete meeting rule');
+        }
+        setConfirmDialog(prev => ({ ...prev, isOpen: false }));
+      }
+    });
+  }, [usingDemoData, success, showError]);
+
+  // Meeting override handlers with useCallback
+  const handleMeetingOverrideSubmit = useCallback(async (overrideData: Omit<LodgeMeetingOverride, 'id' | 'created_at' | 'updated_at'>) => {
+    try {
+      if (usingDemoData) {
+        const newOverride: LodgeMeetingOverride = {
+          ...overrideData,
+          id: `demo-${Date.now()}`,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        };
+        
+        if (editingMeetingOverride) {
+          setMeetingOverrides(prev => prev.map(o => o.id === editingMeetingOverride.id ? { ...newOverride, id: editingMeetingOverride.id } : o));
+          success('Meeting change updated successfully (demo mode)');
+        } else {
+          setMeetingOverrides(prev => [...prev, newOverride]);
+          success('Meeting change created successfully (demo mode)');
+        }
+      } else {
+        if (editingMeetingOverride) {
+          await cmsApi.updateLodgeMeetingOverride(editingMeetingOverride.id, overrideData);
+          success('Meeting change updated successfully');
+        } else {
+          await cmsApi.createLodgeMeetingOverride(overrideData);
+          success('Meeting change created successfully');
+        }
+        
+        const updatedOverrides = await cmsApi.getLodgeMeetingOverrides();
+        setMeetingOverrides(updatedOverrides);
+      }
+      
+      setShowMeetingOverrideForm(false);
+      setEditingMeetingOverride(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      showError('Failed to save meeting change');
+    }
+  }, [usingDemoData, editingMeetingOverride, success, showError]);
+
+  const handleDeleteMeetingOverride = useCallback(async (id: string) => {
+    setConfirmDialog({
+      isOpen: true,
+      title: 'Remove Meeting Change',
+      message: 'Are you sure you want to remove this change? The meeting will revert to its scheduled date.',
+      onConfirm: async () => {
+        try {
+          if (usingDemoData) {
+            setMeetingOverrides(prev => prev.filter(o => o.id !== id));
+            success('Meeting change removed successfully (demo mode)');
+          } else {
+            await cmsApi.deleteLodgeMeetingOverride(id);
+            const updatedOverrides = await cmsApi.getLodgeMeetingOverrides();
+            setMeetingOverrides(updatedOverrides);
+            success('Meeting change removed successfully');
+          }
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'An error occurred');
+          showError('Failed to remove meeting change');
+        }
+        setConfirmDialog(prev => ({ ...prev, isOpen: false }));
+      }
+    });
+  }, [usingDemoData, success, showError]);
+
   const handleNewsSubmit = useCallback(async (newsData: Omit<CMSNewsArticle, 'id' | 'created_at' | 'updated_at'>) => {
     try {
       if (usingDemoData) {
@@ -648,6 +806,8 @@ const CMSAdminPage: React.FC = () => {
       try {
         const [
           eventsData, 
+          meetingRulesData,
+          meetingOverridesData,
           newsData, 
           officersData, 
           testimonialsData, 
@@ -655,7 +815,9 @@ const CMSAdminPage: React.FC = () => {
           settingsData,
           pageContentData
         ] = await Promise.all([
-          cmsApi.getEvents(),
+          cmsApi.getEvents(false),
+          cmsApi.getLodgeMeetingRules(true),
+          cmsApi.getLodgeMeetingOverrides(),
           cmsApi.getNewsArticles(),
           cmsApi.getOfficers(),
           cmsApi.getTestimonials(),
@@ -665,6 +827,8 @@ const CMSAdminPage: React.FC = () => {
         ]);
 
         setEvents(eventsData);
+        setMeetingRules(meetingRulesData);
+        setMeetingOverrides(meetingOverridesData);
         setNews(newsData);
         setOfficers(officersData);
         setTestimonials(testimonialsData);
@@ -678,6 +842,9 @@ const CMSAdminPage: React.FC = () => {
         
         // Fall back to demo data
         setEvents(demoEvents);
+        setMeetingRules(demoMeetingRules);
+      setMeetingOverrides([]);
+        setMeetingOverrides([]);
         setNews(demoNews);
         setOfficers(demoOfficers);
         setTestimonials(demoTestimonials);
@@ -696,6 +863,8 @@ const CMSAdminPage: React.FC = () => {
       
       // Still show demo data even if there's an error
       setEvents(demoEvents);
+      setMeetingRules(demoMeetingRules);
+      setMeetingOverrides([]);
       setNews(demoNews);
       setOfficers(demoOfficers);
       setTestimonials(demoTestimonials);
@@ -984,6 +1153,14 @@ const CMSAdminPage: React.FC = () => {
             <Calendar size={18} className="mr-2" />
             Events ({counts.events})
           </Button>
+          <Button
+            variant={activeTab === 'meetings' ? 'primary' : 'outline'}
+            onClick={() => setActiveTab('meetings')}
+            className="flex items-center"
+          >
+            <CalendarClock size={18} className="mr-2" />
+            Meeting Schedule ({counts.meetings})
+          </Button>
           <Button
             variant={activeTab === 'news' ? 'primary' : 'outline'}
             onClick={() => setActiveTab('news')}
@@ -1190,6 +1367,13 @@ const CMSAdminPage: React.FC = () => {
                 ))}
               </div>
             )}
+
+            <OfficerHistoryPanel
+              officers={officers}
+              usingDemoData={usingDemoData}
+              onSuccess={success}
+              onError={showError}
+            />
           </div>
         )}
 
@@ -1286,16 +1470,41 @@ const CMSAdminPage: React.FC = () => {
                                 Past Event
                               </span>
                             )}
+                            {event.capacity && (
+                              <span className="text-xs font-medium bg-secondary-100 text-secondary-700 px-2 py-1 rounded">
+                                {event.capacity} places
+                              </span>
+                            )}
                           </div>
                           <div className="flex items-center text-xs text-neutral-500 mb-2">
                             <span>Date: {new Date(event.event_date).toLocaleString()}</span>
                             <span className="mx-2">•</span>
                             <span>Location: {event.location}</span>
                           </div>
+                          {event.recurrence && (
+                            <div className="flex items-center text-xs text-secondary-700 mb-2">
+                              <Repeat size={14} className="mr-1" />
+                              <span>{describeRecurrence(event.recurrence, new Date(event.event_date))}</span>
+                              {(event.recurrence_exceptions || []).length > 0 && (
+                                <span className="ml-2 text-neutral-500">
+                                  ({event.recurrence_exceptions?.length} exception{event.recurrence_exceptions?.length === 1 ? '' : 's'})
+                                </span>
+                              )}
+                            </div>
+                          )}
                           <p className="text-sm text-neutral-600 line-clamp-2">{event.description}</p>
                         </div>
                       </div>
                       <div className="flex items-center space-x-2 ml-4">
+                        {event.capacity && (
+                          <button
+                            className={`p-2 transition-colors ${rosterEventId === event.id ? 'text-secondary-600' : 'text-neutral-500 hover:text-secondary-500'}`}
+                            onClick={() => setRosterEventId(prev => prev === event.id ? null : event.id)}
+                            title="Attendee roster"
+                          >
+                            <Users size={18} />
+                          </button>
+                        )}
                         <button 
                           className="p-2 text-neutral-500 hover:text-blue-500 transition-colors"
                           onClick={() => handlePreview(event, 'event')}
@@ -1330,6 +1539,227 @@ const CMSAdminPage: React.FC = () => {
                         </button>
                       </div>
                     </div>
+                    {rosterEventId === event.id && event.capacity && (
+                      <EventRoster
+                        event={event}
+                        usingDemoData={usingDemoData}
+                        onSuccess={success}
+                        onError={showError}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Meeting Schedule Tab */}
+        {activeTab === 'meetings' && (
+          <div>
+            <div className="flex justify-between items-center mb-6">
+              <div>
+                <h2 className="text-xl font-heading font-semibold text-primary-600">
+                  Meeting Schedule ({meetingRules.length})
+                </h2>
+                <p className="text-sm text-neutral-500 mt-1">
+                  Regular meeting dates are calculated from these rules for the home page countdown and events calendar.
+                </p>
+              </div>
+              <Button
+                onClick={() => setShowMeetingRuleForm(true)}
+                className="flex items-center"
+              >
+                <Plus size={18} className="mr-2" />
+                Add Meeting
+              </Button>
+            </div>
+
+            {showMeetingRuleForm && (
+              <div className="bg-neutral-50 rounded-lg p-6 mb-8">
+                <h3 className="text-lg font-semibold text-primary-600 mb-4">
+                  {editingMeetingRule ? 'Edit Meeting Rule' : 'Add New Meeting Rule'}
+                </h3>
+                <MeetingRuleForm
+                  onSubmit={handleMeetingRuleSubmit}
+                  onCancel={() => {
+                    setShowMeetingRuleForm(false);
+                    setEditingMeetingRule(null);
+                  }}
+                  initialData={editingMeetingRule || undefined}
+                />
+              </div>
+            )}
+
+            {meetingRules.length === 0 ? (
+              <div className="text-center py-8 bg-neutral-50 rounded-lg">
+                <CalendarClock className="w-12 h-12 mx-auto mb-3 text-neutral-300" />
+                <p className="text-neutral-600">No meeting rules found.</p>
+                <p className="text-sm text-neutral-500 mt-2">The default by-law schedule will be used until rules are added.</p>
+              </div>
+            ) : (
+              <div className="grid gap-4">
+                {meetingRules.map((rule) => (
+                  <div
+                    key={rule.id}
+                    className="bg-white rounded-lg border border-neutral-200 p-4 hover:shadow-soft transition-shadow"
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex-grow">
+                        <div className="flex items-center gap-3 mb-2">
+                          <h3 className="font-medium text-primary-600">{rule.title}</h3>
+                          {rule.is_installation && (
+                            <span className="text-xs font-medium bg-secondary-100 text-secondary-700 px-2 py-1 rounded">
+                              Installation
+                            </span>
+                          )}
+                          {!rule.is_active && (
+                            <span className="text-xs font-medium bg-neutral-100 text-neutral-600 px-2 py-1 rounded">
+                              Inactive
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center text-xs text-neutral-500 mb-2">
+                          <span>{describeMeetingRule(rule)}</span>
+                          <span className="mx-2">•</span>
+                          <span>Location: {rule.location}</span>
+                        </div>
+                        {rule.description && (
+                          <p className="text-sm text-neutral-600 line-clamp-2">{rule.description}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2 ml-4">
+                        <button 
+                          className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
+                          onClick={() => {
+                            setEditingMeetingRule({...rule});
+                            setShowMeetingRuleForm(true);
+                          }}
+                          title="Edit meeting rule"
+                        >
+                          <Pencil size={18} />
+                        </button>
+                        <button
+                          className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                          onClick={() => handleDeleteMeetingRule(rule.id)}
+                          title="Delete meeting rule"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-between items-center mt-12 mb-6">
+              <div>
+                <h2 className="text-xl font-heading font-semibold text-primary-600">
+                  Cancellations &amp; Changes ({meetingOverrides.length})
+                </h2>
+                <p className="text-sm text-neutral-500 mt-1">
+                  Cancel or move a single scheduled meeting, or add an emergency meeting.
+                </p>
+              </div>
+              <Button
+                onClick={() => setShowMeetingOverrideForm(true)}
+                className="flex items-center"
+              >
+                <Plus size={18} className="mr-2" />
+                Add Change
+              </Button>
+            </div>
+
+            {showMeetingOverrideForm && (
+              <div className="bg-neutral-50 rounded-lg p-6 mb-8">
+                <h3 className="text-lg font-semibold text-primary-600 mb-4">
+                  {editingMeetingOverride ? 'Edit Meeting Change' : 'Add Meeting Change'}
+                </h3>
+                <MeetingOverrideForm
+                  onSubmit={handleMeetingOverrideSubmit}
+                  onCancel={() => {
+                    setShowMeetingOverrideForm(false);
+                    setEditingMeetingOverride(null);
+                  }}
+                  initialData={editingMeetingOverride || undefined}
+                  rules={meetingRules.filter(rule => rule.is_active)}
+                />
+              </div>
+            )}
+
+            {meetingOverrides.length === 0 ? (
+              <div className="text-center py-8 bg-neutral-50 rounded-lg">
+                <CalendarX className="w-12 h-12 mx-auto mb-3 text-neutral-300" />
+                <p className="text-neutral-600">No cancellations or changes.</p>
+              </div>
+            ) : (
+              <div className="grid gap-4">
+                {meetingOverrides.map((override) => (
+                  <div
+                    key={override.id}
+                    className="bg-white rounded-lg border border-neutral-200 p-4 hover:shadow-soft transition-shadow"
+                  >
+                    <div className="flex items-start justify-between">
+                      <div className="flex-grow">
+                        <div className="flex items-center gap-3 mb-2">
+                          <h3 className="font-medium text-primary-600">
+                            {override.override_type === 'added'
+                              ? override.title || 'Emergency Meeting'
+                              : `Meeting of ${format(new Date(`${override.original_date}T00:00:00`), 'd MMMM yyyy')}`}
+                          </h3>
+                          {override.override_type === 'cancelled' && (
+                            <span className="text-xs font-medium bg-red-100 text-red-700 px-2 py-1 rounded">
+                              Cancelled
+                            </span>
+                          )}
+                          {override.override_type === 'moved' && (
+                            <span className="text-xs font-medium bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
+                              Moved
+                            </span>
+                          )}
+                          {override.override_type === 'added' && (
+                            <span className="text-xs font-medium bg-secondary-100 text-secondary-700 px-2 py-1 rounded">
+                              Emergency
+                            </span>
+                          )}
+                        </div>
+                        {override.new_date && (
+                          <div className="flex items-center text-xs text-neutral-500 mb-2">
+                            <Clock size={12} className="mr-1" />
+                            <span>{format(new Date(override.new_date), 'EEEE d MMMM yyyy, HH:mm')}</span>
+                            {override.location && (
+                              <>
+                                <span className="mx-2">•</span>
+                                <span>Location: {override.location}</span>
+                              </>
+                            )}
+                          </div>
+                        )}
+                        {override.reason && (
+                          <p className="text-sm text-neutral-600 line-clamp-2">{override.reason}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2 ml-4">
+                        <button 
+                          className="p-2 text-neutral-500 hover:text-secondary-500 transition-colors"
+                          onClick={() => {
+                            setEditingMeetingOverride({...override});
+                            setShowMeetingOverrideForm(true);
+                          }}
+                          title="Edit meeting change"
+                        >
+                          <Pencil size={18} />
+                        </button>
+                        <button
+                          className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                          onClick={() => handleDeleteMeetingOverride(override.id)}
+                          title="Remove meeting change"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      </div>
+                    </div>
                   </div>
                 ))}
               </div>
@@ -2012,6 +2442,7 @@ const CMSAdminPage: React.FC = () => {
         {/* Placeholder for any remaining tabs */}
         {activeTab !== 'officers' && 
          activeTab !== 'events' && 
+         activeTab !== 'meetings' && 
          activeTab !== 'news' && 
          activeTab !== 'blog' && 
          activeTab !== 'testimonials' && 
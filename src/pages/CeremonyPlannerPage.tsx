@@ -0,0 +1,407 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AlertTriangle, Calendar, MapPin, Pencil, Plus, ScrollText, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../lib/api';
+import { DegreeCeremony } from '../types';
+import SectionHeading from '../components/SectionHeading';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Button from '../components/Button';
+import ConfirmDialog from '../components/ConfirmDialog';
+import Toast from '../components/Toast';
+import DegreeCeremonyForm from '../components/DegreeCeremonyForm';
+import { useToast } from '../hooks/useToast';
+import {
+  DEFAULT_MEETING_SCHEDULE,
+  LodgeMeeting,
+  MeetingSchedule,
+  getLodgeMeetingsForYear,
+  getUpcomingLodgeMeetings,
+  loadMeetingSchedule,
+  toMeetingDateKey
+} from '../utils/lodgeMeetings';
+import { DEGREE_LABELS, DEGREE_ORDER, countUnassignedParts, defaultRitualParts, getCeremonyWarnings } from '../utils/ceremonies';
+
+const UPCOMING_MEETING_COUNT = 8;
+
+const DEGREE_BADGE_STYLES: Record<DegreeCeremony['degree'], string> = {
+  first: 'bg-primary-100 text-primary-700',
+  second: 'bg-secondary-100 text-secondary-700',
+  third: 'bg-purple-100 text-purple-700'
+};
+
+const meetingKey = (meeting: LodgeMeeting) => toMeetingDateKey(meeting.originalDate || meeting.date);
+
+// Demo initiation at the next scheduled meeting when the database is not connected
+const buildDemoCeremonies = (): DegreeCeremony[] => {
+  const [meeting] = getUpcomingLodgeMeetings(1);
+  if (!meeting) return [];
+
+  const ritualParts = defaultRitualParts('first');
+  ritualParts[0].performer = 'Worshipful Master';
+  ritualParts[3].performer = 'W Bro Demo Member';
+
+  return [{
+    id: 'demo-ceremony',
+    meeting_date: meetingKey(meeting),
+    degree: 'first',
+    candidate_name: 'Mr Demo Candidate',
+    ritual_parts: ritualParts,
+    notes: 'Rehearsal at the Lodge of Instruction the week before.',
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString()
+  }];
+};
+
+interface CeremonyEditorState {
+  meetingDate: string;
+  ceremony?: DegreeCeremony;
+}
+
+const CeremonyPlannerPage: React.FC = () => {
+  const { user, isAdmin, needsPasswordReset } = useAuth();
+  const { toasts, removeToast, success, error: showError } = useToast();
+  const [ceremonies, setCeremonies] = useState<DegreeCeremony[]>([]);
+  const [schedule, setSchedule] = useState<MeetingSchedule>(DEFAULT_MEETING_SCHEDULE);
+  const [memberNames, setMemberNames] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [usingDemoData, setUsingDemoData] = useState(false);
+  const [editor, setEditor] = useState<CeremonyEditorState | null>(null);
+  const [deletingCeremony, setDeletingCeremony] = useState<DegreeCeremony | null>(null);
+
+  useEffect(() => {
+    const loadPlanner = async () => {
+      if (!user) return;
+
+      setSchedule(await loadMeetingSchedule());
+
+      try {
+        const [ceremoniesData, membersData] = await Promise.all([
+          api.getDegreeCeremonies(),
+          api.getMemberDirectory()
+        ]);
+
+        setCeremonies(ceremoniesData);
+        setMemberNames([...new Set(membersData.map(member => member.full_name).filter(Boolean))].sort());
+        setUsingDemoData(false);
+      } catch (err) {
+        console.warn('Database not connected, using demo ceremony data:', err);
+        setCeremonies(buildDemoCeremonies());
+        setMemberNames([]);
+        setUsingDemoData(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPlanner();
+  }, [user]);
+
+  const upcomingMeetings = useMemo(
+    () => getUpcomingLodgeMeetings(UPCOMING_MEETING_COUNT, schedule, true),
+    [schedule]
+  );
+
+  // Earlier degrees count towards the interval checks, so look back a year as well
+  const warnings = useMemo(() => {
+    const year = new Date().getFullYear();
+    const meetings = [year - 1, year, year + 1].flatMap(y => getLodgeMeetingsForYear(y, schedule));
+    return getCeremonyWarnings(ceremonies, meetings);
+  }, [ceremonies, schedule]);
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  // Redirect to password reset if needed
+  if (needsPasswordReset) {
+    return <Navigate to="/password-reset" replace />;
+  }
+
+  const todayKey = toMeetingDateKey(new Date());
+  const upcomingKeys = new Set(upcomingMeetings.map(meetingKey));
+  const ceremoniesFor = (key: string) => ceremonies
+    .filter(ceremony => ceremony.meeting_date === key)
+    .sort((a, b) => DEGREE_ORDER.indexOf(a.degree) - DEGREE_ORDER.indexOf(b.degree));
+  // Planned further ahead than the meetings shown, or on a date that is no longer a meeting
+  const otherCeremonies = ceremonies
+    .filter(ceremony => ceremony.meeting_date >= todayKey && !upcomingKeys.has(ceremony.meeting_date))
+    .sort((a, b) => a.meeting_date.localeCompare(b.meeting_date));
+  const warningsFor = (ceremony: DegreeCeremony) => warnings.filter(warning => warning.ceremonyIds.includes(ceremony.id));
+  const visibleWarnings = warnings.filter(warning => warning.meetingDate >= todayKey);
+
+  const handleSubmit = async (data: Omit<DegreeCeremony, 'id' | 'created_at' | 'updated_at'>) => {
+    if (!editor) return;
+
+    try {
+      if (usingDemoData) {
+        const saved: DegreeCeremony = {
+          ...data,
+          id: editor.ceremony?.id || `demo-${Date.now()}`,
+          created_at: editor.ceremony?.created_at || new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        };
+        setCeremonies(prev => [...prev.filter(c => c.id !== saved.id), saved]);
+        success('Ceremony saved (demo mode)');
+      } else if (editor.ceremony) {
+        const saved = await api.updateDegreeCeremony(editor.ceremony.id, data);
+        setCeremonies(prev => prev.map(c => (c.id === saved.id ? saved : c)));
+        success('Ceremony updated successfully');
+      } else {
+        const saved = await api.createDegreeCeremony(data);
+        setCeremonies(prev => [...prev, saved]);
+        success('Ceremony planned successfully');
+      }
+      setEditor(null);
+    } catch (err) {
+      console.error('Error saving degree ceremony:', err);
+      showError('Failed to save ceremony');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingCeremony) return;
+
+    try {
+      if (!usingDemoData) {
+        await api.deleteDegreeCeremony(deletingCeremony.id);
+      }
+      setCeremonies(prev => prev.filter(c => c.id !== deletingCeremony.id));
+      success(usingDemoData ? 'Ceremony removed (demo mode)' : 'Ceremony removed');
+    } catch (err) {
+      console.error('Error deleting degree ceremony:', err);
+      showError('Failed to remove ceremony');
+    } finally {
+      setDeletingCeremony(null);
+    }
+  };
+
+  const renderEditor = (meetingDate: string) => editor?.meetingDate === meetingDate && (
+    <div className="bg-neutral-50 rounded-lg p-6 mt-4">
+      <DegreeCeremonyForm
+        key={editor.ceremony?.id || 'new'}
+        onSubmit={handleSubmit}
+        onCancel={() => setEditor(null)}
+        initialData={editor.ceremony}
+        defaultMeetingDate={meetingDate}
+        meetings={upcomingMeetings}
+        memberNames={memberNames}
+      />
+    </div>
+  );
+
+  const renderCeremony = (ceremony: DegreeCeremony) => {
+    const unassigned = countUnassignedParts(ceremony);
+    const ceremonyWarnings = warningsFor(ceremony);
+
+    return (
+      <div key={ceremony.id} className="border border-neutral-200 rounded-md p-4">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`text-xs font-medium px-2 py-1 rounded ${DEGREE_BADGE_STYLES[ceremony.degree]}`}>
+              {DEGREE_LABELS[ceremony.degree]}
+            </span>
+            <span className="font-medium text-neutral-800">{ceremony.candidate_name}</span>
+            {unassigned > 0 ? (
+              <span className="text-xs font-medium bg-yellow-100 text-yellow-800 px-2 py-1 rounded">
+                {unassigned} part{unassigned === 1 ? '' : 's'} unassigned
+              </span>
+            ) : ceremony.ritual_parts.length > 0 && (
+              <span className="text-xs font-medium bg-green-100 text-green-700 px-2 py-1 rounded">
+                All parts assigned
+              </span>
+            )}
+          </div>
+          {isAdmin && (
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => setEditor({ meetingDate: ceremony.meeting_date, ceremony })}
+                className="p-2 text-neutral-500 hover:text-secondary-600 transition-colors"
+                title="Edit ceremony"
+              >
+                <Pencil size={16} />
+              </button>
+              <button
+                type="button"
+                onClick={() => setDeletingCeremony(ceremony)}
+                className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                title="Remove ceremony"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {ceremonyWarnings.map((warning, index) => (
+          <p key={index} className="flex items-start text-sm text-yellow-700 mt-2">
+            <AlertTriangle size={14} className="mr-1.5 mt-0.5 flex-shrink-0" />
+            {warning.message}
+          </p>
+        ))}
+
+        {ceremony.ritual_parts.length > 0 && (
+          <table className="w-full text-sm mt-3">
+            <tbody>
+              {ceremony.ritual_parts.map((part, index) => (
+                <tr key={index} className="border-t border-neutral-100">
+                  <td className="py-1.5 pr-4 text-neutral-700">{part.part}</td>
+                  <td className={`py-1.5 text-right ${part.performer ? 'text-neutral-800' : 'text-neutral-400 italic'}`}>
+                    {part.performer || 'To be assigned'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {ceremony.notes && (
+          <p className="text-sm text-neutral-600 mt-3">{ceremony.notes}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen pb-20 bg-neutral-50">
+      <div className="container mx-auto px-4 md:px-6">
+        <SectionHeading
+          title="Ceremony Planner"
+          subtitle="Candidates, degrees and ritual parts for forthcoming Lodge meetings"
+        />
+
+        {usingDemoData && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+            <div className="flex items-start">
+              <AlertTriangle className="w-5 h-5 text-blue-500 mr-2 mt-0.5 flex-shrink-0" />
+              <div className="text-sm">
+                <h3 className="font-medium text-blue-800 mb-1">Demo Mode</h3>
+                <p className="text-blue-700">Database not connected - changes will not be saved.</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <LoadingSpinner subtle={true} className="py-8" />
+        ) : (
+          <div className="space-y-6 max-w-4xl mx-auto">
+            {visibleWarnings.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                <div className="flex items-start">
+                  <AlertTriangle className="w-5 h-5 text-yellow-500 mr-2 mt-0.5 flex-shrink-0" />
+                  <div className="text-sm">
+                    <h3 className="font-medium text-yellow-800 mb-1">Planning Conflicts</h3>
+                    <ul className="list-disc list-inside text-yellow-700 space-y-1">
+                      {visibleWarnings.map((warning, index) => (
+                        <li key={index}>{warning.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {upcomingMeetings.map(meeting => {
+              const key = meetingKey(meeting);
+              const planned = ceremoniesFor(key);
+
+              return (
+                <div key={key} className={`bg-white rounded-lg p-6 shadow-soft ${meeting.isCancelled ? 'opacity-75' : ''}`}>
+                  <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <h3 className={`text-xl font-heading font-semibold ${meeting.isCancelled ? 'text-neutral-500 line-through' : 'text-primary-600'}`}>
+                          {meeting.title}
+                        </h3>
+                        {meeting.isCancelled && (
+                          <span className="text-xs font-medium bg-red-100 text-red-700 px-2 py-1 rounded">
+                            Cancelled
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-4 mt-2 text-sm text-neutral-500">
+                        <span className="flex items-center">
+                          <Calendar size={16} className="mr-1.5 text-secondary-500" />
+                          {format(meeting.date, 'EEEE d MMMM yyyy, HH:mm')}
+                        </span>
+                        <span className="flex items-center">
+                          <MapPin size={16} className="mr-1.5 text-secondary-500" />
+                          {meeting.location}
+                        </span>
+                      </div>
+                    </div>
+                    {isAdmin && !meeting.isCancelled && editor?.meetingDate !== key && (
+                      <Button size="sm" variant="outline" onClick={() => setEditor({ meetingDate: key })} className="flex items-center">
+                        <Plus size={14} className="mr-2" />
+                        Plan Ceremony
+                      </Button>
+                    )}
+                  </div>
+
+                  {planned.length > 0 ? (
+                    <div className="space-y-3 mt-4">
+                      {planned.map(renderCeremony)}
+                    </div>
+                  ) : editor?.meetingDate !== key && (
+                    <p className="text-sm text-neutral-500 mt-4">No ceremonies planned.</p>
+                  )}
+
+                  {renderEditor(key)}
+                </div>
+              );
+            })}
+
+            {otherCeremonies.length > 0 && (
+              <div className="bg-white rounded-lg p-6 shadow-soft">
+                <h3 className="text-xl font-heading font-semibold text-primary-600 mb-4">Later Ceremonies</h3>
+                <div className="space-y-3">
+                  {otherCeremonies.map(ceremony => (
+                    <div key={ceremony.id}>
+                      <p className="text-sm font-medium text-neutral-500 mb-1">
+                        {format(new Date(`${ceremony.meeting_date}T00:00:00`), 'EEEE d MMMM yyyy')}
+                      </p>
+                      {renderCeremony(ceremony)}
+                      {renderEditor(ceremony.meeting_date)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {upcomingMeetings.length === 0 && otherCeremonies.length === 0 && (
+              <div className="bg-white rounded-lg p-8 shadow-soft text-center">
+                <ScrollText className="w-12 h-12 mx-auto mb-3 text-neutral-300" />
+                <p className="text-neutral-600">No forthcoming Lodge meetings are scheduled.</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={deletingCeremony !== null}
+        title="Remove Ceremony"
+        message={`Are you sure you want to remove ${deletingCeremony?.candidate_name || 'this candidate'}'s ceremony from the plan?`}
+        onConfirm={handleDelete}
+        onCancel={() => setDeletingCeremony(null)}
+        type="danger"
+        confirmText="Remove"
+      />
+
+      {/* Toast Notifications */}
+      {toasts.map((toast) => (
+        <Toast
+          key={toast.id}
+          type={toast.type}
+          message={toast.message}
+          onClose={() => removeToast(toast.id)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default CeremonyPlannerPage;
@@ -0,0 +1,279 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { format, subDays } from 'date-fns';
+import { UtensilsCrossed, Calendar, Clock, Users, AlertTriangle, Pencil, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../lib/api';
+import { FestiveBoard, FestiveBoardBooking } from '../types';
+import SectionHeading from '../components/SectionHeading';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Button from '../components/Button';
+import ConfirmDialog from '../components/ConfirmDialog';
+import Toast from '../components/Toast';
+import DiningBookingForm from '../components/DiningBookingForm';
+import { useToast } from '../hooks/useToast';
+import { getNextLodgeMeeting, toMeetingDateKey } from '../utils/lodgeMeetings';
+import { isDiningOpen } from '../utils/dining';
+
+// Demo festive board for the next scheduled meeting when the database is not connected
+const buildDemoFestiveBoards = (): FestiveBoard[] => {
+  const meeting = getNextLodgeMeeting();
+  if (!meeting) return [];
+
+  return [{
+    id: 'demo-festive-board',
+    title: `Festive Board - ${meeting.title}`,
+    meeting_date: toMeetingDateKey(meeting.date),
+    dining_date: new Date(meeting.date.getTime() + 2 * 60 * 60 * 1000).toISOString(),
+    menu_options: ['Roast Beef', 'Pan-fried Salmon', 'Vegetarian Wellington'],
+    price: 38,
+    cutoff_date: subDays(meeting.date, 7).toISOString(),
+    notes: 'Payment to the Treasurer on the night.',
+    is_open: true,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString()
+  }];
+};
+
+const DiningPage: React.FC = () => {
+  const { user, profile, needsPasswordReset } = useAuth();
+  const { toasts, removeToast, success, error: showError } = useToast();
+  const [festiveBoards, setFestiveBoards] = useState<FestiveBoard[]>([]);
+  const [bookings, setBookings] = useState<FestiveBoardBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [usingDemoData, setUsingDemoData] = useState(false);
+  const [bookingFor, setBookingFor] = useState<FestiveBoard | null>(null);
+  const [cancellingBooking, setCancellingBooking] = useState<FestiveBoardBooking | null>(null);
+
+  useEffect(() => {
+    const loadDining = async () => {
+      if (!user) return;
+
+      try {
+        const [boardsData, bookingsData] = await Promise.all([
+          api.getFestiveBoards(),
+          api.getFestiveBoardBookings()
+        ]);
+
+        setFestiveBoards(boardsData);
+        // Admins can read every booking, so keep only the member's own here
+        setBookings(bookingsData.filter(booking => booking.user_id === user.id));
+        setUsingDemoData(false);
+      } catch (err) {
+        console.warn('Database not connected, using demo dining data:', err);
+        setFestiveBoards(buildDemoFestiveBoards());
+        setBookings([]);
+        setUsingDemoData(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDining();
+  }, [user]);
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  // Redirect to password reset if needed
+  if (needsPasswordReset) {
+    return <Navigate to="/password-reset" replace />;
+  }
+
+  const startOfToday = new Date().setHours(0, 0, 0, 0);
+  const upcomingBoards = festiveBoards.filter(board => new Date(board.dining_date).getTime() >= startOfToday);
+  const findBooking = (board: FestiveBoard) => bookings.find(booking => booking.festive_board_id === board.id);
+
+  const handleBookingSubmit = async (data: Pick<FestiveBoardBooking, 'menu_choice' | 'dietary_requirements' | 'guests' | 'notes'>) => {
+    if (!bookingFor) return;
+
+    const booking = {
+      ...data,
+      festive_board_id: bookingFor.id,
+      user_id: user.id,
+      member_name: profile?.full_name || user.email || 'Member'
+    };
+
+    try {
+      if (usingDemoData) {
+        const existing = findBooking(bookingFor);
+        const saved: FestiveBoardBooking = {
+          ...booking,
+          id: existing?.id || `demo-${Date.now()}`,
+          created_at: existing?.created_at || new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        };
+        setBookings(prev => [...prev.filter(b => b.festive_board_id !== bookingFor.id), saved]);
+        success('Dining booked successfully (demo mode)');
+      } else {
+        const saved = await api.saveFestiveBoardBooking(booking);
+        setBookings(prev => [...prev.filter(b => b.festive_board_id !== bookingFor.id), saved]);
+        success('Dining booked successfully');
+      }
+      setBookingFor(null);
+    } catch (err) {
+      console.error('Error saving dining booking:', err);
+      showError('Failed to save your booking. The cut-off may have passed.');
+    }
+  };
+
+  const handleCancelBooking = async () => {
+    if (!cancellingBooking) return;
+
+    try {
+      if (!usingDemoData) {
+        await api.deleteFestiveBoardBooking(cancellingBooking.id);
+      }
+      setBookings(prev => prev.filter(b => b.id !== cancellingBooking.id));
+      success(usingDemoData ? 'Booking cancelled (demo mode)' : 'Booking cancelled');
+    } catch (err) {
+      console.error('Error cancelling dining booking:', err);
+      showError('Failed to cancel your booking');
+    } finally {
+      setCancellingBooking(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen pb-20 bg-neutral-50">
+      <div className="container mx-auto px-4 md:px-6">
+        <SectionHeading
+          title="Festive Board"
+          subtitle="Book dining after Lodge meetings and events, for yourself and your guests"
+        />
+
+        {usingDemoData && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+            <div className="flex items-start">
+              <AlertTriangle className="w-5 h-5 text-blue-500 mr-2 mt-0.5 flex-shrink-0" />
+              <div className="text-sm">
+                <h3 className="font-medium text-blue-800 mb-1">Demo Mode</h3>
+                <p className="text-blue-700">Database not connected - bookings will not be saved.</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <LoadingSpinner subtle={true} className="py-8" />
+        ) : upcomingBoards.length === 0 ? (
+          <div className="bg-white rounded-lg p-8 shadow-soft text-center max-w-2xl mx-auto">
+            <UtensilsCrossed className="w-12 h-12 mx-auto mb-3 text-neutral-300" />
+            <p className="text-neutral-600">No Festive Boards are open for booking at the moment.</p>
+          </div>
+        ) : (
+          <div className="space-y-6 max-w-4xl mx-auto">
+            {upcomingBoards.map(board => {
+              const booking = findBooking(board);
+              const open = isDiningOpen(board);
+
+              return (
+                <div key={board.id} className="bg-white rounded-lg p-6 shadow-soft">
+                  <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div>
+                      <h3 className="text-xl font-heading font-semibold text-primary-600">{board.title}</h3>
+                      <div className="flex flex-wrap items-center gap-4 mt-2 text-sm text-neutral-500">
+                        <span className="flex items-center">
+                          <Calendar size={16} className="mr-1.5 text-secondary-500" />
+                          {format(new Date(board.dining_date), 'EEEE d MMMM yyyy, HH:mm')}
+                        </span>
+                        <span className="flex items-center">
+                          <Clock size={16} className="mr-1.5 text-secondary-500" />
+                          {open
+                            ? `Book by ${format(new Date(board.cutoff_date), 'd MMMM, HH:mm')}`
+                            : 'Bookings closed'}
+                        </span>
+                        {board.price !== undefined && board.price !== null && (
+                          <span>£{Number(board.price).toFixed(2)} per head</span>
+                        )}
+                      </div>
+                    </div>
+                    {booking ? (
+                      <span className="text-xs font-medium bg-green-100 text-green-700 px-3 py-1 rounded-full">
+                        Booked{booking.guests.length > 0 && ` + ${booking.guests.length} guest${booking.guests.length === 1 ? '' : 's'}`}
+                      </span>
+                    ) : !open && (
+                      <span className="text-xs font-medium bg-neutral-100 text-neutral-600 px-3 py-1 rounded-full">
+                        Closed
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="mt-4 text-sm text-neutral-600">
+                    <span className="font-medium text-neutral-700">Menu: </span>
+                    {board.menu_options.join(' • ')}
+                  </div>
+                  {board.notes && (
+                    <p className="mt-2 text-sm text-neutral-600">{board.notes}</p>
+                  )}
+
+                  {booking && bookingFor?.id !== board.id && (
+                    <div className="mt-4 bg-neutral-50 rounded-md p-4 text-sm text-neutral-700">
+                      <p><span className="font-medium">Your choice:</span> {booking.menu_choice}
+                        {booking.dietary_requirements && ` (${booking.dietary_requirements})`}
+                      </p>
+                      {booking.guests.map((guest, index) => (
+                        <p key={index} className="flex items-center mt-1">
+                          <Users size={14} className="mr-1.5 text-neutral-400" />
+                          {guest.name} - {guest.menu_choice}
+                          {guest.dietary_requirements && ` (${guest.dietary_requirements})`}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  {bookingFor?.id === board.id ? (
+                    <div className="bg-neutral-50 rounded-lg p-6 mt-6">
+                      <DiningBookingForm
+                        festiveBoard={board}
+                        onSubmit={handleBookingSubmit}
+                        onCancel={() => setBookingFor(null)}
+                        initialData={booking}
+                      />
+                    </div>
+                  ) : open && (
+                    <div className="mt-4 flex items-center gap-3">
+                      <Button size="sm" onClick={() => setBookingFor(board)} className="flex items-center">
+                        {booking ? <Pencil size={14} className="mr-2" /> : <UtensilsCrossed size={14} className="mr-2" />}
+                        {booking ? 'Change Booking' : 'Book Dining'}
+                      </Button>
+                      {booking && (
+                        <Button size="sm" variant="outline" onClick={() => setCancellingBooking(booking)} className="flex items-center">
+                          <Trash2 size={14} className="mr-2" />
+                          Cancel Booking
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={cancellingBooking !== null}
+        title="Cancel Dining Booking"
+        message="Are you sure you want to cancel your dining booking, including any guests?"
+        onConfirm={handleCancelBooking}
+        onCancel={() => setCancellingBooking(null)}
+        type="danger"
+        confirmText="Cancel Booking"
+      />
+
+      {/* Toast Notifications */}
+      {toasts.map((toast) => (
+        <Toast
+          key={toast.id}
+          type={toast.type}
+          message={toast.message}
+          onClose={() => removeToast(toast.id)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default DiningPage;
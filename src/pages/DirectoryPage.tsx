@@ -1,14 +1,19 @@
 import React, { useEffect, useState } from 'react';
 import { Navigate } from 'react-router-dom';
+import { format } from 'date-fns';
 import { useAuth } from '../contexts/AuthContext';
 import { api } from '../lib/api';
-import { MemberProfile } from '../types';
+import { DirectoryEntry } from '../types';
 import SectionHeading from '../components/SectionHeading';
-import { Search } from 'lucide-react';
+import MasonicCareer from '../components/MasonicCareer';
+import Button from '../components/Button';
+import { downloadCsv } from '../utils/csv';
+import { DIRECTORY_CSV_HEADERS, directoryCsvRows, downloadVCards } from '../utils/directoryExport';
+import { Award, Contact, Download, Mail, Phone, Search } from 'lucide-react';
 
 const DirectoryPage: React.FC = () => {
   const { user, needsPasswordReset } = useAuth();
-  const [members, setMembers] = useState<MemberProfile[]>([]);
+  const [members, setMembers] = useState<DirectoryEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -16,7 +21,7 @@ const DirectoryPage: React.FC = () => {
   useEffect(() => {
     const loadMembers = async () => {
       try {
-        const data = await api.getAllMembers();
+        const data = await api.getMemberDirectory();
         setMembers(data);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred');
@@ -39,9 +44,13 @@ const DirectoryPage: React.FC = () => {
 
   const filteredMembers = members.filter(member =>
     member.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (member.position && member.position.toLowerCase().includes(searchTerm.toLowerCase()))
+    (member.position && member.position.toLowerCase().includes(searchTerm.toLowerCase())) ||
+    (member.masonic_appointments || []).some(a => a.title.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
+  // Exports cover the members matching the current search
+  const exportFilename = `radlett-lodge-directory-${format(new Date(), 'yyyy-MM-dd')}`;
+
   return (
     <div className="min-h-screen pb-20 bg-white">
       <div className="container mx-auto px-4 md:px-6">
@@ -57,7 +66,7 @@ const DirectoryPage: React.FC = () => {
         )}
 
         <div className="max-w-4xl mx-auto">
-          <div className="mb-8 relative">
+          <div className="mb-4 relative">
             <input
               type="text"
               placeholder="Search members..."
@@ -68,6 +77,32 @@ const DirectoryPage: React.FC = () => {
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-neutral-400" size={20} />
           </div>
 
+          <div className="mb-8 flex flex-wrap items-center justify-end gap-2">
+            <span className="text-sm text-neutral-500 mr-auto">
+              {filteredMembers.length} member{filteredMembers.length === 1 ? '' : 's'}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => downloadVCards(exportFilename, filteredMembers)}
+              disabled={loading || filteredMembers.length === 0}
+              className="flex items-center"
+            >
+              <Contact size={14} className="mr-2" />
+              Export vCard
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => downloadCsv(exportFilename, DIRECTORY_CSV_HEADERS, directoryCsvRows(filteredMembers))}
+              disabled={loading || filteredMembers.length === 0}
+              className="flex items-center"
+            >
+              <Download size={14} className="mr-2" />
+              Export CSV
+            </Button>
+          </div>
+
           {loading ? (
             <p className="text-center">Loading...</p>
           ) : (
@@ -80,9 +115,30 @@ const DirectoryPage: React.FC = () => {
                   {member.position && (
                     <p className="text-neutral-600 mt-1">{member.position}</p>
                   )}
-                  <p className="text-sm text-neutral-500 mt-2">
-                    Member since {new Date(member.join_date).getFullYear()}
-                  </p>
+                  {member.join_date && (
+                    <p className="text-sm text-neutral-500 mt-2">
+                      Member since {new Date(member.join_date).getFullYear()}
+                    </p>
+                  )}
+                  {(member.masonic_provincial_rank || member.grand_lodge_rank) && (
+                    <p className="text-sm text-neutral-600 mt-2 flex items-start">
+                      <Award size={14} className="mr-2 mt-0.5 text-secondary-500 flex-shrink-0" />
+                      {[member.grand_lodge_rank, member.masonic_provincial_rank].filter(Boolean).join(', ')}
+                    </p>
+                  )}
+                  {member.contact_email && (
+                    <a href={`mailto:${member.contact_email}`} className="text-sm text-primary-600 hover:text-secondary-600 mt-2 flex items-center break-all">
+                      <Mail size={14} className="mr-2 flex-shrink-0" />
+                      {member.contact_email}
+                    </a>
+                  )}
+                  {member.contact_phone && (
+                    <a href={`tel:${member.contact_phone}`} className="text-sm text-primary-600 hover:text-secondary-600 mt-1 flex items-center">
+                      <Phone size={14} className="mr-2 flex-shrink-0" />
+                      {member.contact_phone}
+                    </a>
+                  )}
+                  <MasonicCareer career={member} compact />
                 </div>
               ))}
             </div>
@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { format, subDays } from 'date-fns';
+import { AlertTriangle, CheckCircle, PenLine } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../lib/api';
+import { EndorsementRequest } from '../types';
+import SectionHeading from '../components/SectionHeading';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Button from '../components/Button';
+import ConfirmDialog from '../components/ConfirmDialog';
+import Toast from '../components/Toast';
+import { useToast } from '../hooks/useToast';
+
+// Demo requests when the database is not connected
+const buildDemoRequests = (today: Date): EndorsementRequest[] => [
+  {
+    id: 'demo-application-1',
+    full_name: 'Thomas Green',
+    occupation: 'Civil engineer',
+    reasons: 'I have known several members of the lodge for many years and admire the charitable work they do in Radlett.',
+    submitted_at: subDays(today, 3).toISOString(),
+    sponsor_role: 'proposer',
+    endorsed_at: null,
+    other_sponsor_name: 'Bro. David Jones'
+  },
+  {
+    id: 'demo-application-2',
+    full_name: 'Andrew Hall',
+    occupation: 'Teacher',
+    submitted_at: subDays(today, 40).toISOString(),
+    sponsor_role: 'seconder',
+    endorsed_at: subDays(today, 38).toISOString(),
+    other_sponsor_name: 'W.Bro. Michael Brown'
+  }
+];
+
+const EndorsementsPage: React.FC = () => {
+  const { user, loading: authLoading, needsPasswordReset } = useAuth();
+  const { toasts, removeToast, success, error: showError } = useToast();
+  const [requests, setRequests] = useState<EndorsementRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [usingDemoData, setUsingDemoData] = useState(false);
+  const [endorsing, setEndorsing] = useState<EndorsementRequest | null>(null);
+
+  useEffect(() => {
+    const loadRequests = async () => {
+      if (!user) return;
+
+      try {
+        setRequests(await api.getEndorsementRequests());
+        setUsingDemoData(false);
+      } catch (err) {
+        console.warn('Database not connected, using demo endorsement requests:', err);
+        setRequests(buildDemoRequests(new Date()));
+        setUsingDemoData(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRequests();
+  }, [user]);
+
+  if (authLoading) {
+    return <LoadingSpinner subtle={true} className="py-8" />;
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  // Redirect to password reset if needed
+  if (needsPasswordReset) {
+    return <Navigate to="/password-reset" replace />;
+  }
+
+  const handleEndorse = async () => {
+    if (!endorsing) return;
+
+    const request = endorsing;
+    setEndorsing(null);
+    try {
+      const endorsedAt = usingDemoData ? new Date().toISOString() : await api.endorseApplication(request.id);
+      setRequests(prev => prev.map(r => (r.id === request.id ? { ...r, endorsed_at: endorsedAt } : r)));
+      success(`Endorsement of ${request.full_name} recorded${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error endorsing application:', err);
+      showError(err instanceof Error ? err.message : 'Failed to record endorsement');
+    }
+  };
+
+  const pending = requests.filter(request => !request.endorsed_at);
+  const endorsed = requests.filter(request => request.endorsed_at);
+
+  const renderRequest = (request: EndorsementRequest) => (
+    <div key={request.id} className="bg-white rounded-lg p-6 shadow-soft">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-heading font-semibold text-primary-600">{request.full_name}</h3>
+          <p className="text-sm text-neutral-500">
+            Applied {format(new Date(request.submitted_at), 'd MMMM yyyy')}
+            {request.occupation && ` - ${request.occupation}`}
+          </p>
+          <p className="text-sm text-neutral-700 mt-2">
+            You are named as <span className="font-medium">{request.sponsor_role}</span>
+            {request.other_sponsor_name && (
+              <>, with {request.other_sponsor_name} as {request.sponsor_role === 'proposer' ? 'seconder' : 'proposer'}</>
+            )}
+            .
+          </p>
+        </div>
+
+        {request.endorsed_at ? (
+          <div className="flex items-center text-sm text-green-700">
+            <CheckCircle className="w-4 h-4 mr-2" />
+            Endorsed {format(new Date(request.endorsed_at), 'd MMM yyyy, HH:mm')}
+          </div>
+        ) : (
+          <Button size="sm" onClick={() => setEndorsing(request)}>
+            Endorse Application
+          </Button>
+        )}
+      </div>
+
+      {request.reasons && (
+        <div className="mt-4">
+          <p className="text-xs text-neutral-500">Why they wish to become a Freemason</p>
+          <p className="text-sm text-neutral-700 whitespace-pre-wrap">{request.reasons}</p>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen pb-20 bg-neutral-50">
+      <div className="container mx-auto px-4 md:px-6">
+        <SectionHeading
+          title="Application Endorsements"
+          subtitle="Membership applications that name you as proposer or seconder"
+        />
+
+        {usingDemoData && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+            <div className="flex items-start">
+              <AlertTriangle className="w-5 h-5 text-blue-500 mr-2 mt-0.5 flex-shrink-0" />
+              <div className="text-sm">
+                <h3 className="font-medium text-blue-800 mb-1">Demo Mode</h3>
+                <p className="text-blue-700">Database not connected - changes will not be saved.</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <LoadingSpinner subtle={true} className="py-8" />
+        ) : requests.length === 0 ? (
+          <div className="bg-white rounded-lg p-8 shadow-soft text-center">
+            <PenLine className="w-10 h-10 mx-auto mb-3 text-neutral-300" />
+            <p className="text-neutral-500">No applications have named you as proposer or seconder.</p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <section>
+              <h2 className="text-xl font-heading font-semibold text-primary-600 mb-2">Awaiting Your Endorsement</h2>
+              <p className="text-sm text-neutral-500 mb-4">
+                An application cannot progress to interview until both its proposer and seconder have endorsed it.
+              </p>
+              {pending.length > 0 ? (
+                <div className="space-y-4">{pending.map(renderRequest)}</div>
+              ) : (
+                <p className="text-sm text-neutral-500">You have endorsed every application that names you.</p>
+              )}
+            </section>
+
+            {endorsed.length > 0 && (
+              <section>
+                <h2 className="text-xl font-heading font-semibold text-primary-600 mb-4">Endorsed</h2>
+                <div className="space-y-4">{endorsed.map(renderRequest)}</div>
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={endorsing !== null}
+        title="Endorse Application"
+        message={`I confirm that I know ${endorsing?.full_name} and support their application to join Radlett Lodge as their ${endorsing?.sponsor_role}.`}
+        onConfirm={handleEndorse}
+        onCancel={() => setEndorsing(null)}
+        confirmText="Endorse"
+      />
+
+      {/* Toast Notifications */}
+      {toasts.map((toast) => (
+        <Toast
+          key={toast.id}
+          type={toast.type}
+          message={toast.message}
+          onClose={() => removeToast(toast.id)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default EndorsementsPage;
@@ -1,13 +1,38 @@
-import React, { useState, useEffect } from 'react';
-import { Calendar as CalendarIcon, Filter } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Calendar as CalendarIcon, Filter, CalendarPlus, Rss } from 'lucide-react';
 import Calendar from 'react-calendar';
+import { format } from 'date-fns';
 import HeroSection from '../components/HeroSection';
 import SectionHeading from '../components/SectionHeading';
 import EventCard from '../components/EventCard';
 import Button from '../components/Button';
 import LoadingSpinner from '../components/LoadingSpinner';
+import VisitorRequestForm from '../components/VisitorRequestForm';
+import EventArchive from '../components/EventArchive';
+import EventRegistration from '../components/EventRegistration';
+import EventsCalendar from '../components/EventsCalendar';
+import LodgeMeetingCard from '../components/LodgeMeetingCard';
+import { useAuth } from '../contexts/AuthContext';
 import { optimizedApi as cmsApi } from '../lib/optimizedApi';
-import { CMSEvent } from '../types';
+import { api } from '../lib/api';
+import { CMSEvent, EventRegistration as Registration, EventRegistrationSummary } from '../types';
+import {
+  MeetingSchedule,
+  DEFAULT_MEETING_SCHEDULE,
+  loadMeetingSchedule,
+  getLodgeMeetingsForYear,
+  getUpcomingLodgeMeetings,
+  isLodgeMeetingDay
+} from '../utils/lodgeMeetings';
+import { getCalendarFeedUrl, getWebcalUrl } from '../utils/icalendar';
+import {
+  CALENDAR_VIEWS,
+  CalendarView,
+  formatCalendarDate,
+  parseCalendarDate,
+  parseCalendarView
+} from '../utils/eventCalendar';
 import 'react-calendar/dist/Calendar.css';
 
 type ValuePiece = Date | null;
@@ -19,6 +44,80 @@ const EventsPage: React.FC = () => {
   const [events, setEvents] = useState<CMSEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [meetingSchedule, setMeetingSchedule] = useState<MeetingSchedule>(DEFAULT_MEETING_SCHEDULE);
+  const [registrationSummaries, setRegistrationSummaries] = useState<EventRegistrationSummary[]>([]);
+  const [myRegistrations, setMyRegistrations] = useState<Registration[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [cancelStatus, setCancelStatus] = useState<'idle' | 'cancelling' | 'cancelled' | 'error'>('idle');
+  const { user } = useAuth();
+  const cancelToken = searchParams.get('cancel_registration');
+  const view = parseCalendarView(searchParams.get('view'));
+  const dateParam = searchParams.get('date');
+  const calendarDate = useMemo(() => parseCalendarDate(dateParam), [dateParam]);
+  
+  useEffect(() => {
+    loadMeetingSchedule().then(setMeetingSchedule);
+  }, []);
+
+  // Places left for every event, plus the signed-in member's own registrations
+  const loadRegistrations = useCallback(async () => {
+    const [summaries, registrations] = await Promise.all([
+      api.getEventRegistrationSummaries().catch(() => []),
+      user ? api.getEventRegistrations().catch(() => []) : Promise.resolve([])
+    ]);
+    setRegistrationSummaries(summaries);
+    setMyRegistrations(registrations.filter(registration => registration.status !== 'cancelled'));
+  }, [user]);
+
+  useEffect(() => {
+    loadRegistrations();
+  }, [loadRegistrations]);
+
+  // Guests cancel from the link in their confirmation email
+  const handleCancelFromLink = async () => {
+    if (!cancelToken) return;
+
+    try {
+      setCancelStatus('cancelling');
+      await api.cancelEventRegistration({ cancel_token: cancelToken });
+      setCancelStatus('cancelled');
+      loadRegistrations();
+    } catch (err) {
+      console.error('Error cancelling registration:', err);
+      setCancelStatus('error');
+    }
+  };
+
+  // Calendar views are kept in the URL so they can be linked to, e.g. ?view=month&date=2026-12
+  const navigateCalendar = (date: Date, nextView: CalendarView = view, options?: { replace?: boolean }) => {
+    setSearchParams(params => {
+      if (nextView === 'list') {
+        params.delete('view');
+        params.delete('date');
+      } else {
+        params.set('view', nextView);
+        params.set('date', formatCalendarDate(date, nextView));
+      }
+      return params;
+    }, options);
+  };
+
+  const renderEventRegistration = (event: CMSEvent) => !event.is_past_event && (
+    <EventRegistration
+      event={event}
+      summary={registrationSummaries.find(summary => summary.event_id === event.id)}
+      registration={myRegistrations.find(registration => registration.event_id === event.id)}
+      onChange={loadRegistrations}
+    />
+  );
+
+  const dismissCancelBanner = () => {
+    setCancelStatus('idle');
+    setSearchParams(params => {
+      params.delete('cancel_registration');
+      return params;
+    });
+  };
   
   useEffect(() => {
     const loadEvents = async () => {
@@ -72,21 +171,22 @@ const EventsPage: React.FC = () => {
     new Date(a.event_date).getTime() - new Date(b.event_date).getTime()
   );
   
-  const futureEvents = sortedEvents.filter(event => 
-    new Date(event.event_date).getTime() >= new Date().setHours(0, 0, 0, 0)
-  );
-  
-  const pastEventsFiltered = sortedEvents
-    .filter(event => 
-      new Date(event.event_date).getTime() < new Date().setHours(0, 0, 0, 0)
-    )
-    .sort((a, b) => 
-      new Date(b.event_date).getTime() - new Date(a.event_date).getTime()
-    );
+  // Past events move to the archive; a selected date shows everything on that day
+  const futureEvents = selectedDate
+    ? sortedEvents
+    : sortedEvents.filter(event => !event.is_past_event);
   
   // Get dates that have events for highlighting in calendar
   const eventDates = events.map(event => new Date(event.event_date));
   
+  // Lodge meetings from the schedule, including cancellations so members can see them
+  const lodgeMeetings = selectedDate instanceof Date
+    ? getLodgeMeetingsForYear(selectedDate.getFullYear(), meetingSchedule).filter(meeting =>
+        meeting.date.getDate() === selectedDate.getDate() &&
+        meeting.date.getMonth() === selectedDate.getMonth()
+      )
+    : getUpcomingLodgeMeetings(3, meetingSchedule, true);
+  
   return (
     <>
       <HeroSection
@@ -108,104 +208,220 @@ const EventsPage: React.FC = () => {
               <p className="text-red-600">{error}</p>
             </div>
           )}
-          
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-            <div className="lg:col-span-1">
-              <div className="bg-neutral-50 rounded-lg p-6 shadow-soft">
-                <div className="mb-6">
-                  <h3 className="text-xl font-heading font-semibold text-primary-600 mb-4 flex items-center">
-                    <Filter size={20} className="mr-2 text-secondary-500" />
-                    Filters
-                  </h3>
-                  <div className="flex items-center mb-2">
-                    <input
-                      type="checkbox"
-                      id="public-only"
-                      checked={showPublicOnly}
-                      onChange={(e) => setShowPublicOnly(e.target.checked)}
-                      className="mr-2"
-                    />
-                    <label htmlFor="public-only" className="text-neutral-600">
-                      Show public events only
-                    </label>
+
+          {cancelToken && (
+            <div className="bg-neutral-50 border border-neutral-200 rounded-lg p-4 mb-8 flex flex-wrap items-center justify-between gap-4">
+              <p className={cancelStatus === 'error' ? 'text-red-600' : 'text-neutral-700'}>
+                {cancelStatus === 'cancelled'
+                  ? 'Your registration has been cancelled. Thank you for letting us know.'
+                  : cancelStatus === 'error'
+                    ? 'We could not cancel your registration. Please contact the Secretary.'
+                    : 'Do you want to cancel your event registration?'}
+              </p>
+              <div className="flex space-x-2">
+                {cancelStatus !== 'cancelled' && cancelStatus !== 'error' && (
+                  <Button size="sm" onClick={handleCancelFromLink} disabled={cancelStatus === 'cancelling'}>
+                    {cancelStatus === 'cancelling' ? 'Cancelling...' : 'Cancel Registration'}
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" onClick={dismissCancelBanner}>
+                  {cancelStatus === 'cancelled' || cancelStatus === 'error' ? 'Close' : 'Keep My Place'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+            <div className="inline-flex rounded-md border border-neutral-200 overflow-hidden" role="group" aria-label="Calendar view">
+              {CALENDAR_VIEWS.map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  aria-pressed={view === option.id}
+                  onClick={() => navigateCalendar(calendarDate, option.id)}
+                  className={`px-4 py-2 text-sm font-medium border-l border-neutral-200 first:border-l-0 transition-colors ${
+                    view === option.id ? 'bg-primary-600 text-white' : 'bg-white text-neutral-600 hover:bg-neutral-50'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {view !== 'list' && (
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="calendar-public-only"
+                  checked={showPublicOnly}
+                  onChange={(e) => setShowPublicOnly(e.target.checked)}
+                  className="mr-2"
+                />
+                <label htmlFor="calendar-public-only" className="text-neutral-600">
+                  Show public events only
+                </label>
+              </div>
+            )}
+          </div>
+
+          {view !== 'list' ? (
+            loading ? (
+              <LoadingSpinner subtle={true} className="py-4" />
+            ) : (
+              <EventsCalendar
+                view={view}
+                date={calendarDate}
+                events={showPublicOnly ? events.filter(event => !event.is_members_only) : events}
+                meetingSchedule={meetingSchedule}
+                onNavigate={(date, options) => navigateCalendar(date, view, options)}
+                renderEventActions={renderEventRegistration}
+              />
+            )
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              <div className="lg:col-span-1">
+                <div className="bg-neutral-50 rounded-lg p-6 shadow-soft">
+                  <div className="mb-6">
+                    <h3 className="text-xl font-heading font-semibold text-primary-600 mb-4 flex items-center">
+                      <Filter size={20} className="mr-2 text-secondary-500" />
+                      Filters
+                    </h3>
+                    <div className="flex items-center mb-2">
+                      <input
+                        type="checkbox"
+                        id="public-only"
+                        checked={showPublicOnly}
+                        onChange={(e) => setShowPublicOnly(e.target.checked)}
+                        className="mr-2"
+                      />
+                      <label htmlFor="public-only" className="text-neutral-600">
+                        Show public events only
+                      </label>
+                    </div>
+                    {selectedDate && (
+                      <div className="mt-4">
+                        <Button 
+                          variant="outline" 
+                          size="sm" 
+                          onClick={() => setSelectedDate(null)}
+                        >
+                          Clear Date Filter
+                        </Button>
+                      </div>
+                    )}
                   </div>
-                  {selectedDate && (
-                    <div className="mt-4">
-                      <Button 
-                        variant="outline" 
-                        size="sm" 
-                        onClick={() => setSelectedDate(null)}
-                      >
-                        Clear Date Filter
-                      </Button>
+                
+                  <div>
+                    <h3 className="text-xl font-heading font-semibold text-primary-600 mb-4 flex items-center">
+                      <CalendarIcon size={20} className="mr-2 text-secondary-500" />
+                      Calendar
+                    </h3>
+                    <div className="calendar-container">
+                      <Calendar
+                        onChange={setSelectedDate}
+                        value={selectedDate}
+                        tileClassName={({ date }) => [
+                          eventDates.some(eventDate => 
+                            date.getDate() === eventDate.getDate() &&
+                            date.getMonth() === eventDate.getMonth() &&
+                            date.getFullYear() === eventDate.getFullYear()
+                          ) ? 'has-event' : '',
+                          isLodgeMeetingDay(date, meetingSchedule) ? 'has-meeting' : ''
+                        ].filter(Boolean).join(' ') || null}
+                        className="border-0 shadow-none"
+                      />
                     </div>
-                  )}
+                  </div>
                 </div>
-                
-                <div>
+              
+                <div className="bg-neutral-50 rounded-lg p-6 shadow-soft mt-6">
                   <h3 className="text-xl font-heading font-semibold text-primary-600 mb-4 flex items-center">
-                    <CalendarIcon size={20} className="mr-2 text-secondary-500" />
-                    Calendar
+                    <Rss size={20} className="mr-2 text-secondary-500" />
+                    Subscribe
                   </h3>
-                  <div className="calendar-container">
-                    <Calendar
-                      onChange={setSelectedDate}
-                      value={selectedDate}
-                      tileClassName={({ date }) => 
-                        eventDates.some(eventDate => 
-                          date.getDate() === eventDate.getDate() &&
-                          date.getMonth() === eventDate.getMonth() &&
-                          date.getFullYear() === eventDate.getFullYear()
-                        ) ? 'has-event' : null
-                      }
-                      className="border-0 shadow-none"
-                    />
-                  </div>
+                  <p className="text-sm text-neutral-600 mb-4">
+                    Add Lodge meetings and public events to your phone or computer calendar. 
+                    Changes and cancellations will appear automatically.
+                  </p>
+                  <a
+                    href={getWebcalUrl(getCalendarFeedUrl())}
+                    className="inline-flex items-center text-sm font-medium text-secondary-600 hover:text-secondary-700"
+                  >
+                    <CalendarPlus size={16} className="mr-1.5" />
+                    Subscribe to Calendar
+                  </a>
+                  <p className="text-xs text-neutral-500 mt-3">
+                    Members can get a personal feed including members-only events from their Profile page.
+                  </p>
                 </div>
               </div>
-            </div>
             
-            <div className="lg:col-span-2">
-              {loading ? (
-                <LoadingSpinner subtle={true} className="py-4" />
-              ) : (
-                <>
-                  <div className="mb-8">
-                    <h3 className="text-2xl font-heading font-semibold text-primary-600 mb-6">
-                      {selectedDate
-                        ? `Events on ${selectedDate instanceof Date ? format(selectedDate, 'dd/MM/yyyy') : ''}`
-                        : 'Upcoming Events'}
-                    </h3>
-                    {futureEvents.length > 0 ? (
-                      <div className="space-y-6">
-                        {futureEvents.map(event => (
-                          <EventCard key={event.id} event={convertEventData(event)} detailed />
-                        ))}
-                      </div>
-                    ) : (
-                      <div className="bg-neutral-50 p-6 rounded-lg text-center">
-                        <CalendarIcon className="w-12 h-12 mx-auto mb-3 text-neutral-300" />
-                        <p className="text-neutral-600">No upcoming events found for the selected filters.</p>
-                        <p className="text-sm text-neutral-500 mt-2">Check back soon for new events!</p>
+              <div className="lg:col-span-2">
+                {loading ? (
+                  <LoadingSpinner subtle={true} className="py-4" />
+                ) : (
+                  <>
+                    {lodgeMeetings.length > 0 && (
+                      <div className="mb-8">
+                        <h3 className="text-2xl font-heading font-semibold text-primary-600 mb-6">
+                          Lodge Meetings
+                        </h3>
+                        <div className="space-y-4">
+                          {lodgeMeetings.map(meeting => (
+                            <LodgeMeetingCard key={`${meeting.date.toISOString()}-${meeting.title}`} meeting={meeting} />
+                          ))}
+                        </div>
                       </div>
                     )}
-                  </div>
                   
-                  {pastEventsFiltered.length > 0 && (
                     <div>
                       <h3 className="text-2xl font-heading font-semibold text-primary-600 mb-6">
-                        Past Events
+                        {selectedDate
+                          ? `Events on ${selectedDate instanceof Date ? format(selectedDate, 'dd/MM/yyyy') : ''}`
+                          : 'Upcoming Events'}
                       </h3>
-                      <div className="space-y-6">
-                        {pastEventsFiltered.map(event => (
-                          <EventCard key={event.id} event={convertEventData(event)} detailed />
-                        ))}
-                      </div>
+                      {futureEvents.length > 0 ? (
+                        <div className="space-y-6">
+                          {futureEvents.map(event => (
+                            <div key={event.id}>
+                              <EventCard event={convertEventData(event)} detailed />
+                              {renderEventRegistration(event)}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="bg-neutral-50 p-6 rounded-lg text-center">
+                          <CalendarIcon className="w-12 h-12 mx-auto mb-3 text-neutral-300" />
+                          <p className="text-neutral-600">No upcoming events found for the selected filters.</p>
+                          <p className="text-sm text-neutral-500 mt-2">Check back soon for new events!</p>
+                        </div>
+                      )}
                     </div>
-                  )}
-                </>
-              )}
+                  </>
+                )}
+              </div>
             </div>
+          )}
+        </div>
+      </section>
+
+      {/* Event Archive */}
+      <section id="archive" className="py-20 bg-neutral-50">
+        <div className="container mx-auto px-4 md:px-6">
+          <div className="max-w-4xl mx-auto">
+            <EventArchive events={events} meetingSchedule={meetingSchedule} showPublicOnly={showPublicOnly} />
+          </div>
+        </div>
+      </section>
+
+      {/* Visiting Brethren */}
+      <section id="visiting" className="py-20 bg-white">
+        <div className="container mx-auto px-4 md:px-6">
+          <SectionHeading
+            title="Visiting Brethren"
+            subtitle="Brethren from other lodges are always welcome. Let us know which meeting you would like to attend and the Secretary will confirm your visit."
+          />
+          <div className="max-w-3xl mx-auto bg-white rounded-lg shadow-soft p-8">
+            <VisitorRequestForm meetings={getUpcomingLodgeMeetings(4, meetingSchedule)} />
           </div>
         </div>
       </section>
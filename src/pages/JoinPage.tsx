@@ -161,12 +161,17 @@ const JoinPage: React.FC = () => {
             </div>
           </div>
           
-          <div className="text-center mt-12">
+          <div className="flex flex-wrap justify-center gap-4 mt-12">
             <Link to="/contact">
               <Button variant="primary" size="lg">
                 Inquire About Membership
               </Button>
             </Link>
+            <Link to="/apply">
+              <Button variant="outline" size="lg">
+                Apply Online
+              </Button>
+            </Link>
           </div>
         </div>
       </section>
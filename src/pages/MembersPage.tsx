@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { optimizedApi as api } from '../lib/optimizedApi';
 import { LodgeDocument, MeetingMinutes, MemberProfile } from '../types';
@@ -12,6 +12,8 @@ import ProfileSummaryCard from '../components/dashboard/ProfileSummaryCard';
 import RecentUpdatesCard from '../components/dashboard/RecentUpdatesCard';
 import RecentDocumentsCard from '../components/dashboard/RecentDocumentsCard';
 import QuickActionsCard from '../components/dashboard/QuickActionsCard';
+import AnniversariesCard from '../components/dashboard/AnniversariesCard';
+import EndorsementRequestsCard from '../components/dashboard/EndorsementRequestsCard';
 import { FileText, Clock, Users, AlertTriangle, BookOpen, ScrollText, Archive, LogOut, Search, Filter, X, ExternalLink } from 'lucide-react';
 
 const demoDocuments: LodgeDocument[] = [
@@ -167,8 +169,12 @@ const MembersPage: React.FC = () => {
   const [pageContent, setPageContent] = useState<Record<string, string>>({});
   const [dataLoaded, setDataLoaded] = useState(false);
   
-  // Document filtering state
-  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  // Document filtering state - ?category= preselects a category, e.g. from the events archive
+  const [searchParams] = useSearchParams();
+  const [selectedCategories, setSelectedCategories] = useState<string[]>(() => {
+    const category = searchParams.get('category');
+    return category && DOCUMENT_CATEGORIES.some(c => c.key === category) ? [category] : [];
+  });
   const [searchTerm, setSearchTerm] = useState('');
   
   // Simple pagination state (no external hook)
@@ -584,6 +590,9 @@ const MembersPage: React.FC = () => {
                 onViewAllDocuments={() => setSelectedCategories(['grand_lodge', 'provincial', 'summons', 'resources'])}
               />
               
+              {/* Membership applications naming this member as proposer or seconder */}
+              <EndorsementRequestsCard className="md:col-span-2 lg:col-span-3" />
+
               {/* Quick Actions Card - spans full width on mobile, single column on larger screens */}
               <div className="md:col-span-2 lg:col-span-3">
                 <QuickActionsCard 
@@ -591,6 +600,11 @@ const MembersPage: React.FC = () => {
                   onSelectMinutes={() => setSelectedCategories(['minutes'])}
                 />
               </div>
+
+              {/* Upcoming Masonic anniversaries and birthdays */}
+              <div className="md:col-span-2 lg:col-span-3">
+                <AnniversariesCard />
+              </div>
             </div>
 
             {/* Document Browser Section */}
@@ -0,0 +1,609 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { format, subDays } from 'date-fns';
+import { AlertTriangle, BookOpen, CheckCircle, Plus, Trash2, Users } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../lib/api';
+import { MentoringAssignment, MentoringMeeting, MentoringMember, MentoringModuleCompletion } from '../types';
+import SectionHeading from '../components/SectionHeading';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Button from '../components/Button';
+import ConfirmDialog from '../components/ConfirmDialog';
+import Toast from '../components/Toast';
+import MentoringModuleChecklist from '../components/MentoringModuleChecklist';
+import { useToast } from '../hooks/useToast';
+import { MentoringModule, getMenteeStatuses } from '../utils/mentoring';
+
+type MenteeFilter = 'attention' | 'current' | 'completed';
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Demo scheme when the database is not connected
+const buildDemoData = (today: Date) => {
+  const member = (id: string, name: string, initiated: number, passed?: number, raised?: number): MentoringMember => ({
+    id: `demo-${id}`, user_id: `demo-user-${id}`, full_name: name, status: 'active',
+    initiated_date: toDateString(subDays(today, initiated)),
+    passed_date: passed ? toDateString(subDays(today, passed)) : null,
+    raised_date: raised ? toDateString(subDays(today, raised)) : null
+  });
+
+  const members = [
+    member('1', 'W.Bro. John Smith', 9000),
+    member('2', 'Bro. David Jones', 400, 250, 120),
+    member('3', 'Bro. Michael Brown', 150),
+    member('4', 'Bro. Peter Wilson', 30)
+  ];
+  const assignments: MentoringAssignment[] = [
+    { id: 'demo-a2', mentee_id: 'demo-user-2', mentor_id: 'demo-user-1', started_on: toDateString(subDays(today, 400)), created_at: '', updated_at: '' },
+    { id: 'demo-a3', mentee_id: 'demo-user-3', mentor_id: 'demo-user-1', started_on: toDateString(subDays(today, 150)), created_at: '', updated_at: '' }
+  ];
+  const completions: MentoringModuleCompletion[] = [
+    'preparing_for_initiation', 'first_degree_ceremony', 'first_degree_tracing_board', 'lodge_organisation', 'second_degree_ceremony'
+  ].map((key, index) => ({
+    id: `demo-c${index}`, mentee_id: 'demo-user-2', module_key: key, completed_on: toDateString(subDays(today, 380 - index * 50)), created_at: ''
+  }));
+  const meetings: MentoringMeeting[] = [
+    { id: 'demo-m1', mentee_id: 'demo-user-2', mentor_id: 'demo-user-1', meeting_date: toDateString(subDays(today, 21)), notes: 'Talked through the Third Degree ceremony', created_at: '', updated_at: '' },
+    { id: 'demo-m2', mentee_id: 'demo-user-3', mentor_id: 'demo-user-1', meeting_date: toDateString(subDays(today, 140)), created_at: '', updated_at: '' }
+  ];
+
+  return { members, assignments, completions, meetings };
+};
+
+const MentoringPage: React.FC = () => {
+  const { user, isAdmin, loading: authLoading, hasPermission, needsPasswordReset } = useAuth();
+  const { toasts, removeToast, success, error: showError } = useToast();
+  const [members, setMembers] = useState<MentoringMember[]>([]);
+  const [assignments, setAssignments] = useState<MentoringAssignment[]>([]);
+  const [completions, setCompletions] = useState<MentoringModuleCompletion[]>([]);
+  const [meetings, setMeetings] = useState<MentoringMeeting[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [usingDemoData, setUsingDemoData] = useState(false);
+  const [filter, setFilter] = useState<MenteeFilter>('attention');
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [mentorId, setMentorId] = useState('');
+  const [startedOn, setStartedOn] = useState('');
+  const [assignmentNotes, setAssignmentNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [meetingDate, setMeetingDate] = useState('');
+  const [meetingNotes, setMeetingNotes] = useState('');
+  const [removingAssignment, setRemovingAssignment] = useState(false);
+  const [deletingMeeting, setDeletingMeeting] = useState<MentoringMeeting | null>(null);
+
+  const isLodgeMentor = hasPermission('mentor') || isAdmin;
+
+  useEffect(() => {
+    const loadScheme = async () => {
+      if (!user || !isLodgeMentor) return;
+
+      try {
+        const [membersData, assignmentsData, completionsData, meetingsData] = await Promise.all([
+          api.getMentoringMembers(),
+          api.getMentoringAssignments(),
+          api.getMentoringModules(),
+          api.getMentoringMeetings()
+        ]);
+
+        setMembers(membersData);
+        setAssignments(assignmentsData);
+        setCompletions(completionsData);
+        setMeetings(meetingsData);
+        setUsingDemoData(false);
+      } catch (err) {
+        console.warn('Database not connected, using demo mentoring data:', err);
+        const demo = buildDemoData(new Date());
+        setMembers(demo.members);
+        setAssignments(demo.assignments);
+        setCompletions(demo.completions);
+        setMeetings(demo.meetings);
+        setUsingDemoData(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadScheme();
+  }, [user, isLodgeMentor]);
+
+  const statuses = useMemo(
+    () => getMenteeStatuses(members, assignments, completions, meetings),
+    [members, assignments, completions, meetings]
+  );
+
+  const selectedMember = members.find(member => member.user_id === selectedUserId);
+  const selectedAssignment = assignments.find(assignment => assignment.mentee_id === selectedUserId);
+
+  // Reset the forms when a different mentee is selected
+  useEffect(() => {
+    setMentorId(selectedAssignment?.mentor_id || '');
+    setStartedOn(selectedAssignment?.started_on || toDateString(new Date()));
+    setAssignmentNotes(selectedAssignment?.notes || '');
+    setMeetingDate(toDateString(new Date()));
+    setMeetingNotes('');
+  }, [selectedUserId, selectedAssignment]);
+
+  if (authLoading) {
+    return <LoadingSpinner subtle={true} className="py-8" />;
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  // Redirect to password reset if needed
+  if (needsPasswordReset) {
+    return <Navigate to="/password-reset" replace />;
+  }
+
+  if (!isLodgeMentor) {
+    return <Navigate to="/members" replace />;
+  }
+
+  const memberName = (userId?: string | null) =>
+    members.find(member => member.user_id === userId)?.full_name || 'Unknown member';
+  const inScheme = new Set(assignments.map(assignment => assignment.mentee_id).concat(statuses.map(s => s.member.user_id)));
+  const otherActiveMembers = members.filter(member => member.status === 'active' && !inScheme.has(member.user_id));
+  const completedAssignments = assignments
+    .filter(assignment => assignment.completed_on)
+    .sort((a, b) => (b.completed_on || '').localeCompare(a.completed_on || ''));
+  const visibleStatuses = filter === 'attention' ? statuses.filter(status => status.concerns.length > 0) : statuses;
+  const needingAttention = statuses.filter(status => status.concerns.length > 0).length;
+  const menteeCompletions = completions.filter(c => c.mentee_id === selectedUserId);
+  const menteeMeetings = meetings
+    .filter(m => m.mentee_id === selectedUserId)
+    .sort((a, b) => b.meeting_date.localeCompare(a.meeting_date));
+
+  const storeAssignment = async (assignment: Omit<MentoringAssignment, 'id' | 'created_at' | 'updated_at'>) => {
+    const now = new Date().toISOString();
+    const saved = usingDemoData
+      ? { ...selectedAssignment, ...assignment, id: selectedAssignment?.id || `demo-a${Date.now()}`, created_at: selectedAssignment?.created_at || now, updated_at: now }
+      : await api.saveMentoringAssignment(assignment);
+    setAssignments(prev => [...prev.filter(a => a.mentee_id !== saved.mentee_id), saved]);
+  };
+
+  const handleSaveAssignment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedMember || !mentorId) return;
+
+    setIsSaving(true);
+    try {
+      await storeAssignment({
+        mentee_id: selectedMember.user_id,
+        mentor_id: mentorId,
+        started_on: startedOn,
+        completed_on: selectedAssignment?.completed_on || null,
+        notes: assignmentNotes || undefined
+      });
+      success(`Mentor ${selectedAssignment ? 'updated' : 'assigned'}${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error saving mentoring assignment:', err);
+      showError('Failed to save mentor');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleComplete = async () => {
+    if (!selectedAssignment) return;
+
+    try {
+      const completedOn = selectedAssignment.completed_on ? null : toDateString(new Date());
+      await storeAssignment({
+        mentee_id: selectedAssignment.mentee_id,
+        mentor_id: selectedAssignment.mentor_id,
+        started_on: selectedAssignment.started_on,
+        completed_on: completedOn,
+        notes: selectedAssignment.notes
+      });
+      success(`${completedOn ? 'Mentoring marked complete' : 'Mentoring reopened'}${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error updating mentoring assignment:', err);
+      showError('Failed to update mentoring');
+    }
+  };
+
+  const handleRemoveAssignment = async () => {
+    if (!selectedAssignment) return;
+
+    try {
+      if (!usingDemoData) {
+        await api.deleteMentoringAssignment(selectedAssignment.id);
+      }
+      setAssignments(prev => prev.filter(a => a.id !== selectedAssignment.id));
+      success(usingDemoData ? 'Mentor removed (demo mode)' : 'Mentor removed');
+    } catch (err) {
+      console.error('Error removing mentoring assignment:', err);
+      showError('Failed to remove mentor');
+    } finally {
+      setRemovingAssignment(false);
+    }
+  };
+
+  const handleToggleModule = async (module: MentoringModule, completion?: MentoringModuleCompletion) => {
+    if (!selectedMember) return;
+
+    try {
+      if (completion) {
+        if (!usingDemoData) {
+          await api.deleteMentoringModule(completion.id);
+        }
+        setCompletions(prev => prev.filter(c => c.id !== completion.id));
+      } else {
+        const newCompletion = {
+          mentee_id: selectedMember.user_id,
+          module_key: module.key,
+          completed_on: toDateString(new Date()),
+          recorded_by: user.id
+        };
+        const saved = usingDemoData
+          ? { ...newCompletion, id: `demo-c${Date.now()}`, created_at: new Date().toISOString() }
+          : await api.completeMentoringModule(newCompletion);
+        setCompletions(prev => [...prev, saved]);
+      }
+    } catch (err) {
+      console.error('Error updating mentoring module:', err);
+      showError('Failed to update module');
+    }
+  };
+
+  const handleAddMeeting = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedMember || !meetingDate) return;
+
+    try {
+      const newMeeting = {
+        mentee_id: selectedMember.user_id,
+        mentor_id: selectedAssignment?.mentor_id || null,
+        meeting_date: meetingDate,
+        notes: meetingNotes || undefined,
+        recorded_by: user.id
+      };
+      const now = new Date().toISOString();
+      const saved = usingDemoData
+        ? { ...newMeeting, id: `demo-m${Date.now()}`, created_at: now, updated_at: now }
+        : await api.createMentoringMeeting(newMeeting);
+      setMeetings(prev => [...prev, saved]);
+      setMeetingNotes('');
+      success(usingDemoData ? 'Meeting recorded (demo mode)' : 'Meeting recorded');
+    } catch (err) {
+      console.error('Error recording mentoring meeting:', err);
+      showError('Failed to record meeting');
+    }
+  };
+
+  const handleDeleteMeeting = async () => {
+    if (!deletingMeeting) return;
+
+    try {
+      if (!usingDemoData) {
+        await api.deleteMentoringMeeting(deletingMeeting.id);
+      }
+      setMeetings(prev => prev.filter(m => m.id !== deletingMeeting.id));
+      success(usingDemoData ? 'Meeting removed (demo mode)' : 'Meeting removed');
+    } catch (err) {
+      console.error('Error deleting mentoring meeting:', err);
+      showError('Failed to remove meeting');
+    } finally {
+      setDeletingMeeting(null);
+    }
+  };
+
+  const inputClass = 'mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500';
+
+  return (
+    <div className="min-h-screen pb-20 bg-neutral-50">
+      <div className="container mx-auto px-4 md:px-6">
+        <SectionHeading
+          title="Mentoring"
+          subtitle="Personal mentors, learning modules and mentoring meetings for new members"
+        />
+
+        {usingDemoData && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+            <div className="flex items-start">
+              <AlertTriangle className="w-5 h-5 text-blue-500 mr-2 mt-0.5 flex-shrink-0" />
+              <div className="text-sm">
+                <h3 className="font-medium text-blue-800 mb-1">Demo Mode</h3>
+                <p className="text-blue-700">Database not connected - changes will not be saved.</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={filter === 'attention' ? 'primary' : 'outline'}
+              onClick={() => setFilter('attention')}
+              className="flex items-center"
+            >
+              <AlertTriangle size={16} className="mr-2" />
+              Falling Behind ({needingAttention})
+            </Button>
+            <Button
+              variant={filter === 'current' ? 'primary' : 'outline'}
+              onClick={() => setFilter('current')}
+              className="flex items-center"
+            >
+              <Users size={16} className="mr-2" />
+              All Mentees ({statuses.length})
+            </Button>
+            <Button
+              variant={filter === 'completed' ? 'primary' : 'outline'}
+              onClick={() => setFilter('completed')}
+              className="flex items-center"
+            >
+              <CheckCircle size={16} className="mr-2" />
+              Completed ({completedAssignments.length})
+            </Button>
+          </div>
+          <Link
+            to="/members?category=solomon"
+            className="inline-flex items-center text-sm text-primary-600 hover:text-secondary-600"
+          >
+            <BookOpen size={16} className="mr-2" />
+            Solomon learning resources
+          </Link>
+        </div>
+
+        {loading ? (
+          <LoadingSpinner subtle={true} className="py-8" />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="bg-white rounded-lg p-4 shadow-soft">
+              {filter === 'completed' ? (
+                completedAssignments.length === 0 ? (
+                  <p className="text-sm text-neutral-600 p-2">No members have completed the scheme yet.</p>
+                ) : (
+                  <ul className="divide-y divide-neutral-100 max-h-[32rem] overflow-y-auto">
+                    {completedAssignments.map(assignment => (
+                      <li key={assignment.id}>
+                        <button
+                          type="button"
+                          onClick={() => setSelectedUserId(assignment.mentee_id)}
+                          className={`w-full px-3 py-2 text-sm text-left rounded-md transition-colors ${
+                            assignment.mentee_id === selectedUserId ? 'bg-primary-50 text-primary-700' : 'hover:bg-neutral-50 text-neutral-700'
+                          }`}
+                        >
+                          {memberName(assignment.mentee_id)}
+                          <span className="block text-xs text-neutral-500">
+                            Completed {format(new Date(assignment.completed_on as string), 'd MMM yyyy')}
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )
+              ) : visibleStatuses.length === 0 ? (
+                <p className="text-sm text-neutral-600 p-2">
+                  {filter === 'attention' ? 'No new members are falling behind.' : 'No members are currently being mentored.'}
+                </p>
+              ) : (
+                <ul className="divide-y divide-neutral-100 max-h-[32rem] overflow-y-auto">
+                  {visibleStatuses.map(status => (
+                    <li key={status.member.id}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedUserId(status.member.user_id)}
+                        className={`w-full px-3 py-2 text-sm text-left rounded-md transition-colors ${
+                          status.member.user_id === selectedUserId ? 'bg-primary-50 text-primary-700' : 'hover:bg-neutral-50 text-neutral-700'
+                        }`}
+                      >
+                        <span className="flex items-center justify-between">
+                          <span className="font-medium">{status.member.full_name}</span>
+                          <span className="text-xs text-neutral-500">
+                            {status.expectedModules.filter(m => status.completedKeys.includes(m.key)).length}/{status.expectedModules.length} modules
+                          </span>
+                        </span>
+                        <span className="block text-xs text-neutral-500">
+                          {status.assignment ? `Mentor: ${memberName(status.assignment.mentor_id)}` : 'No mentor'}
+                          {status.lastMeeting && ` - last met ${format(new Date(status.lastMeeting.meeting_date), 'd MMM yyyy')}`}
+                        </span>
+                        {status.concerns.map(concern => (
+                          <span key={concern} className="block text-xs text-yellow-700">{concern}</span>
+                        ))}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {otherActiveMembers.length > 0 && (
+                <div className="border-t border-neutral-200 mt-4 pt-4">
+                  <label htmlFor="add_mentee" className="block text-sm font-medium text-primary-600">
+                    Add another member to the scheme
+                  </label>
+                  <select
+                    id="add_mentee"
+                    value=""
+                    onChange={(e) => e.target.value && setSelectedUserId(e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Select a member...</option>
+                    {otherActiveMembers.map(member => (
+                      <option key={member.id} value={member.user_id}>{member.full_name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            <div className="lg:col-span-2 bg-white rounded-lg p-6 shadow-soft">
+              {!selectedMember ? (
+                <p className="text-neutral-600 text-center py-12">Select a member to see their mentoring record.</p>
+              ) : (
+                <div className="space-y-8">
+                  <div>
+                    <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                      <div>
+                        <h3 className="text-xl font-heading font-semibold text-primary-600">{selectedMember.full_name}</h3>
+                        <p className="text-sm text-neutral-500 mt-1">
+                          {selectedMember.initiated_date
+                            ? `Initiated ${format(new Date(selectedMember.initiated_date), 'd MMM yyyy')}`
+                            : 'Initiation date not recorded'}
+                          {selectedAssignment?.completed_on && ` - completed mentoring ${format(new Date(selectedAssignment.completed_on), 'd MMM yyyy')}`}
+                        </p>
+                      </div>
+                      {selectedAssignment && (
+                        <div className="flex flex-wrap gap-2">
+                          <Button size="sm" variant="outline" onClick={handleToggleComplete}>
+                            {selectedAssignment.completed_on ? 'Reopen' : 'Mark Complete'}
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setRemovingAssignment(true)}>
+                            Remove Mentor
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+
+                    <form onSubmit={handleSaveAssignment} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="mentor_id" className="block text-sm font-medium text-primary-600">Personal Mentor</label>
+                        <select
+                          id="mentor_id"
+                          value={mentorId}
+                          onChange={(e) => setMentorId(e.target.value)}
+                          className={inputClass}
+                          required
+                        >
+                          <option value="">Select a mentor...</option>
+                          {members
+                            .filter(member => member.status === 'active' && member.user_id !== selectedMember.user_id)
+                            .map(member => (
+                              <option key={member.id} value={member.user_id}>{member.full_name}</option>
+                            ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="started_on" className="block text-sm font-medium text-primary-600">Started</label>
+                        <input
+                          id="started_on"
+                          type="date"
+                          value={startedOn}
+                          onChange={(e) => setStartedOn(e.target.value)}
+                          className={inputClass}
+                          required
+                        />
+                      </div>
+                      <div className="md:col-span-2">
+                        <label htmlFor="assignment_notes" className="block text-sm font-medium text-primary-600">Notes</label>
+                        <textarea
+                          id="assignment_notes"
+                          rows={2}
+                          value={assignmentNotes}
+                          onChange={(e) => setAssignmentNotes(e.target.value)}
+                          className={inputClass}
+                        />
+                      </div>
+                      <div className="md:col-span-2">
+                        <Button type="submit" size="sm" disabled={isSaving || !mentorId}>
+                          {isSaving ? 'Saving...' : selectedAssignment ? 'Update Mentor' : 'Assign Mentor'}
+                        </Button>
+                      </div>
+                    </form>
+                  </div>
+
+                  <div>
+                    <h4 className="text-lg font-heading font-semibold text-primary-600 mb-3">Learning Modules</h4>
+                    <MentoringModuleChecklist
+                      career={selectedMember}
+                      completions={menteeCompletions}
+                      onToggle={handleToggleModule}
+                    />
+                  </div>
+
+                  <div>
+                    <h4 className="text-lg font-heading font-semibold text-primary-600 mb-3">Mentoring Meetings</h4>
+                    <form onSubmit={handleAddMeeting} className="flex flex-wrap items-end gap-4 mb-4">
+                      <div>
+                        <label htmlFor="meeting_date" className="block text-sm font-medium text-primary-600">Date</label>
+                        <input
+                          id="meeting_date"
+                          type="date"
+                          value={meetingDate}
+                          onChange={(e) => setMeetingDate(e.target.value)}
+                          className={inputClass}
+                          required
+                        />
+                      </div>
+                      <div className="flex-1 min-w-[12rem]">
+                        <label htmlFor="meeting_notes" className="block text-sm font-medium text-primary-600">Notes</label>
+                        <input
+                          id="meeting_notes"
+                          type="text"
+                          value={meetingNotes}
+                          onChange={(e) => setMeetingNotes(e.target.value)}
+                          className={inputClass}
+                        />
+                      </div>
+                      <Button type="submit" size="sm" className="flex items-center">
+                        <Plus size={14} className="mr-2" />
+                        Record Meeting
+                      </Button>
+                    </form>
+
+                    {menteeMeetings.length === 0 ? (
+                      <p className="text-sm text-neutral-600">No mentoring meetings recorded.</p>
+                    ) : (
+                      <ul className="divide-y divide-neutral-100">
+                        {menteeMeetings.map(meeting => (
+                          <li key={meeting.id} className="flex items-start justify-between py-2 text-sm">
+                            <span className="text-neutral-700">
+                              {format(new Date(meeting.meeting_date), 'd MMM yyyy')}
+                              {meeting.mentor_id && <span className="text-neutral-500"> with {memberName(meeting.mentor_id)}</span>}
+                              {meeting.notes && <span className="block text-xs text-neutral-500">{meeting.notes}</span>}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => setDeletingMeeting(meeting)}
+                              className="p-1 text-neutral-400 hover:text-red-500 transition-colors"
+                              title="Remove meeting"
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={removingAssignment}
+        title="Remove Mentor"
+        message="Are you sure you want to remove this member's mentor? Their modules and meetings are kept."
+        onConfirm={handleRemoveAssignment}
+        onCancel={() => setRemovingAssignment(false)}
+        type="danger"
+        confirmText="Remove"
+      />
+
+      <ConfirmDialog
+        isOpen={deletingMeeting !== null}
+        title="Remove Meeting"
+        message="Are you sure you want to remove this mentoring meeting?"
+        onConfirm={handleDeleteMeeting}
+        onCancel={() => setDeletingMeeting(null)}
+        type="danger"
+        confirmText="Remove"
+      />
+
+      {/* Toast Notifications */}
+      {toasts.map((toast) => (
+        <Toast
+          key={toast.id}
+          type={toast.type}
+          message={toast.message}
+          onClose={() => removeToast(toast.id)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default MentoringPage;
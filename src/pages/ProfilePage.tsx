@@ -4,8 +4,15 @@ import { useAuth } from '../contexts/AuthContext';
 import { api } from '../lib/api';
 import { MemberProfile } from '../types';
 import ProfileForm from '../components/ProfileForm';
+import MasonicCareer from '../components/MasonicCareer';
+import DuesBalance from '../components/DuesBalance';
+import MentoringProgress from '../components/MentoringProgress';
+import DirectoryPrivacyForm from '../components/DirectoryPrivacyForm';
 import SectionHeading from '../components/SectionHeading';
 import LoadingSpinner from '../components/LoadingSpinner';
+import CalendarSubscription from '../components/CalendarSubscription';
+import AttendanceHistory from '../components/AttendanceHistory';
+import ReminderPreferencesForm from '../components/ReminderPreferencesForm';
 import { User, Shield, Calendar, Award, AlertTriangle } from 'lucide-react';
 
 const ProfilePage: React.FC = () => {
@@ -201,8 +208,9 @@ const ProfilePage: React.FC = () => {
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mt-6">
               <h4 className="font-medium text-blue-800 mb-2">Profile Information</h4>
               <p className="text-sm text-blue-700">
-                Your profile information is visible to other Lodge members. The position field 
-                should reflect your current Masonic rank or office within the Lodge.
+                Your profile information is visible to other Lodge members, subject to your directory 
+                privacy settings. The position field should reflect your current Masonic rank or office 
+                within the Lodge.
               </p>
             </div>
           </div>
@@ -223,6 +231,33 @@ const ProfilePage: React.FC = () => {
               )}
             </div>
 
+            {/* Who can see contact details in the directory */}
+            {profile && (
+              <DirectoryPrivacyForm
+                privacy={profile.directory_privacy}
+                onSave={(directory_privacy) => handleUpdateProfile({ directory_privacy })}
+                isUpdating={updating}
+              />
+            )}
+
+            {/* Career record maintained by the Secretary */}
+            {profile && <MasonicCareer career={profile} />}
+
+            {/* Mentor, learning modules and meetings for new members */}
+            {profile && <MentoringProgress userId={user.id} career={profile} />}
+
+            {/* Own balance from the Treasurer's ledger */}
+            <DuesBalance userId={user.id} />
+
+            {/* Personal calendar feed */}
+            <CalendarSubscription userId={user.id} />
+
+            {/* Opt-in reminder emails */}
+            <ReminderPreferencesForm userId={user.id} />
+
+            {/* Attendance from the meeting registers */}
+            <AttendanceHistory userId={user.id} joinDate={profile?.join_date} />
+
             {/* Masonic Positions Reference */}
             <div className="bg-white rounded-lg p-6 shadow-soft mt-6">
               <h4 className="text-lg font-heading font-semibold text-primary-600 mb-4">
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { optimizedApi as api } from '../lib/optimizedApi';
+import { Summons } from '../types';
+import SummonsDocument from '../components/SummonsDocument';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Button from '../components/Button';
+
+const SummonsPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, needsPasswordReset } = useAuth();
+  const [summons, setSummons] = useState<Summons | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSummons = async () => {
+      if (!user || !id) return;
+
+      try {
+        setError(null);
+        const data = await api.getSummons(id);
+        setSummons(data);
+        if (!data) {
+          setError('This summons could not be found. It may have been removed.');
+        }
+      } catch (err) {
+        console.error('Error loading summons:', err);
+        setError('The summons is not available at the moment. Please try again later.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSummons();
+  }, [user, id]);
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  // Redirect to password reset if needed
+  if (needsPasswordReset) {
+    return <Navigate to="/password-reset" replace />;
+  }
+
+  return (
+    <div className="min-h-screen pb-20 bg-neutral-50 print:bg-white print:pb-0">
+      <div className="container mx-auto px-4 md:px-6 pt-8 print:p-0">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-6 print:hidden">
+          <Link
+            to="/members?category=summons"
+            className="inline-flex items-center text-sm text-secondary-600 hover:text-secondary-700"
+          >
+            <ArrowLeft size={16} className="mr-1" />
+            Back to Summons
+          </Link>
+          {summons && (
+            <Button type="button" onClick={() => window.print()} className="flex items-center">
+              <Printer size={16} className="mr-2" />
+              Print / Save as PDF
+            </Button>
+          )}
+        </div>
+
+        {loading ? (
+          <LoadingSpinner />
+        ) : error || !summons ? (
+          <div className="bg-white rounded-lg p-6 shadow-soft text-neutral-600">{error}</div>
+        ) : (
+          <SummonsDocument summons={summons} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SummonsPage;
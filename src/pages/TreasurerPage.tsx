@@ -0,0 +1,476 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AlertTriangle, Download, FileText, PoundSterling, Plus, Search, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../lib/api';
+import { DirectoryMember, DuesEntry } from '../types';
+import SectionHeading from '../components/SectionHeading';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Button from '../components/Button';
+import ConfirmDialog from '../components/ConfirmDialog';
+import Toast from '../components/Toast';
+import DuesEntryForm, { DuesEntryFormData } from '../components/DuesEntryForm';
+import { useToast } from '../hooks/useToast';
+import { downloadCsv } from '../utils/csv';
+import {
+  ARREARS_CSV_HEADERS,
+  DUES_ENTRY_LABELS,
+  PAYMENT_METHOD_LABELS,
+  arrearsCsvRows,
+  buildArrearsReport,
+  formatCurrency,
+  getDuesBalance,
+  withRunningBalance
+} from '../utils/dues';
+import { loadMeetingSchedule } from '../utils/lodgeMeetings';
+import { formatMasonicYear, getMasonicYear } from '../utils/officerProgression';
+
+type TreasurerTab = 'ledger' | 'arrears';
+
+// Demo ledger when the database is not connected
+const demoMembers: DirectoryMember[] = [
+  { id: 'demo-1', user_id: 'demo-user-1', full_name: 'John Smith', status: 'active', contact_email: null, contact_phone: null },
+  { id: 'demo-2', user_id: 'demo-user-2', full_name: 'David Jones', status: 'active', contact_email: null, contact_phone: null }
+];
+
+const buildDemoEntries = (year: number): DuesEntry[] => {
+  const entry = (id: string, userId: string, type: DuesEntry['entry_type'], amount: number, date: string, subscriptionYear: number, method?: DuesEntry['method']): DuesEntry => ({
+    id, user_id: userId, entry_type: type, amount, entry_date: date, subscription_year: subscriptionYear, method,
+    created_at: `${date}T09:00:00Z`, updated_at: `${date}T09:00:00Z`
+  });
+
+  return [
+    entry('demo-e1', 'demo-user-1', 'invoice', 185, `${year}-12-14`, year),
+    entry('demo-e2', 'demo-user-1', 'payment', 185, `${year}-12-20`, year, 'bank_transfer'),
+    entry('demo-e3', 'demo-user-2', 'invoice', 185, `${year - 1}-12-09`, year - 1),
+    entry('demo-e4', 'demo-user-2', 'invoice', 185, `${year}-12-14`, year)
+  ];
+};
+
+const TreasurerPage: React.FC = () => {
+  const { user, loading: authLoading, hasPermission, needsPasswordReset } = useAuth();
+  const { toasts, removeToast, success, error: showError } = useToast();
+  const [members, setMembers] = useState<DirectoryMember[]>([]);
+  const [entries, setEntries] = useState<DuesEntry[]>([]);
+  const [currentYear, setCurrentYear] = useState(() => getMasonicYear(new Date()));
+  const [loading, setLoading] = useState(true);
+  const [usingDemoData, setUsingDemoData] = useState(false);
+  const [activeTab, setActiveTab] = useState<TreasurerTab>('ledger');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [showEntryForm, setShowEntryForm] = useState(false);
+  const [deletingEntry, setDeletingEntry] = useState<DuesEntry | null>(null);
+  const [invoiceAmount, setInvoiceAmount] = useState('');
+  const [isInvoicing, setIsInvoicing] = useState(false);
+
+  const isTreasurer = hasPermission('treasurer');
+
+  useEffect(() => {
+    const loadLedger = async () => {
+      if (!user || !isTreasurer) return;
+
+      const schedule = await loadMeetingSchedule();
+      const year = getMasonicYear(new Date(), schedule);
+      setCurrentYear(year);
+
+      try {
+        const [membersData, entriesData] = await Promise.all([
+          api.getMemberDirectory(),
+          api.getDuesEntries()
+        ]);
+
+        setMembers(membersData);
+        setEntries(entriesData);
+        setUsingDemoData(false);
+      } catch (err) {
+        console.warn('Database not connected, using demo subscriptions data:', err);
+        setMembers(demoMembers);
+        setEntries(buildDemoEntries(year));
+        setUsingDemoData(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLedger();
+  }, [user, isTreasurer]);
+
+  const arrears = useMemo(() => buildArrearsReport(members, entries), [members, entries]);
+
+  if (authLoading) {
+    return <LoadingSpinner subtle={true} className="py-8" />;
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  // Redirect to password reset if needed
+  if (needsPasswordReset) {
+    return <Navigate to="/password-reset" replace />;
+  }
+
+  if (!isTreasurer) {
+    return <Navigate to="/members" replace />;
+  }
+
+  const entriesFor = (userId: string) => entries.filter(entry => entry.user_id === userId);
+  const filteredMembers = members.filter(member =>
+    member.full_name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+  const selectedMember = members.find(member => member.user_id === selectedUserId);
+  const totalArrears = arrears.reduce((total, row) => total + row.balance, 0);
+  // Active members not yet invoiced for the current year
+  const uninvoiced = members.filter(member =>
+    member.status === 'active' &&
+    !entries.some(entry => entry.user_id === member.user_id && entry.entry_type === 'invoice' && entry.subscription_year === currentYear)
+  );
+
+  const recordEntries = async (newEntries: Omit<DuesEntry, 'id' | 'created_at' | 'updated_at'>[]) => {
+    if (usingDemoData) {
+      const now = new Date().toISOString();
+      setEntries(prev => [...prev, ...newEntries.map((entry, index) => ({ ...entry, id: `demo-${Date.now()}-${index}`, created_at: now, updated_at: now }))]);
+      return;
+    }
+
+    const saved = await api.createDuesEntries(newEntries);
+    setEntries(prev => [...prev, ...saved]);
+  };
+
+  const handleEntrySubmit = async (data: DuesEntryFormData) => {
+    if (!selectedMember) return;
+
+    try {
+      await recordEntries([{ ...data, user_id: selectedMember.user_id, recorded_by: user.id }]);
+      success(`${DUES_ENTRY_LABELS[data.entry_type]} recorded${usingDemoData ? ' (demo mode)' : ''}`);
+      setShowEntryForm(false);
+    } catch (err) {
+      console.error('Error recording dues entry:', err);
+      showError('Failed to record entry');
+    }
+  };
+
+  const handleInvoiceYear = async () => {
+    const amount = Number(invoiceAmount);
+    if (!amount || amount <= 0 || uninvoiced.length === 0) return;
+
+    setIsInvoicing(true);
+    try {
+      const entryDate = new Date().toISOString().split('T')[0];
+      await recordEntries(uninvoiced.map(member => ({
+        user_id: member.user_id,
+        entry_type: 'invoice' as const,
+        amount,
+        entry_date: entryDate,
+        subscription_year: currentYear,
+        recorded_by: user.id
+      })));
+      success(`Invoiced ${uninvoiced.length} member${uninvoiced.length === 1 ? '' : 's'} for ${formatMasonicYear(currentYear)}${usingDemoData ? ' (demo mode)' : ''}`);
+      setInvoiceAmount('');
+    } catch (err) {
+      console.error('Error invoicing subscriptions:', err);
+      showError('Failed to invoice subscriptions');
+    } finally {
+      setIsInvoicing(false);
+    }
+  };
+
+  const handleDeleteEntry = async () => {
+    if (!deletingEntry) return;
+
+    try {
+      if (!usingDemoData) {
+        await api.deleteDuesEntry(deletingEntry.id);
+      }
+      setEntries(prev => prev.filter(entry => entry.id !== deletingEntry.id));
+      success(usingDemoData ? 'Entry removed (demo mode)' : 'Entry removed');
+    } catch (err) {
+      console.error('Error deleting dues entry:', err);
+      showError('Failed to remove entry');
+    } finally {
+      setDeletingEntry(null);
+    }
+  };
+
+  const handleExportArrears = () => {
+    downloadCsv(`arrears-${format(new Date(), 'yyyy-MM-dd')}`, ARREARS_CSV_HEADERS, arrearsCsvRows(arrears));
+  };
+
+  return (
+    <div className="min-h-screen pb-20 bg-neutral-50">
+      <div className="container mx-auto px-4 md:px-6">
+        <SectionHeading
+          title="Subscriptions Ledger"
+          subtitle="Dues invoiced, payments received and arrears for the Treasurer"
+        />
+
+        {usingDemoData && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+            <div className="flex items-start">
+              <AlertTriangle className="w-5 h-5 text-blue-500 mr-2 mt-0.5 flex-shrink-0" />
+              <div className="text-sm">
+                <h3 className="font-medium text-blue-800 mb-1">Demo Mode</h3>
+                <p className="text-blue-700">Database not connected - entries will not be saved.</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          <Button
+            variant={activeTab === 'ledger' ? 'primary' : 'outline'}
+            onClick={() => setActiveTab('ledger')}
+            className="flex items-center"
+          >
+            <PoundSterling size={16} className="mr-2" />
+            Ledger
+          </Button>
+          <Button
+            variant={activeTab === 'arrears' ? 'primary' : 'outline'}
+            onClick={() => setActiveTab('arrears')}
+            className="flex items-center"
+          >
+            <FileText size={16} className="mr-2" />
+            Arrears ({arrears.length})
+          </Button>
+        </div>
+
+        {loading ? (
+          <LoadingSpinner subtle={true} className="py-8" />
+        ) : activeTab === 'ledger' ? (
+          <div className="space-y-6">
+            <div className="bg-white rounded-lg p-6 shadow-soft">
+              <h3 className="text-lg font-heading font-semibold text-primary-600 mb-2">
+                Invoice {formatMasonicYear(currentYear)} Subscriptions
+              </h3>
+              {uninvoiced.length === 0 ? (
+                <p className="text-sm text-neutral-600">Every active member has been invoiced for {formatMasonicYear(currentYear)}.</p>
+              ) : (
+                <div className="flex flex-wrap items-end gap-4">
+                  <div>
+                    <label htmlFor="invoice_amount" className="block text-sm font-medium text-primary-600">
+                      Subscription (£)
+                    </label>
+                    <input
+                      id="invoice_amount"
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      value={invoiceAmount}
+                      onChange={(e) => setInvoiceAmount(e.target.value)}
+                      className="mt-1 block w-40 rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500"
+                    />
+                  </div>
+                  <Button onClick={handleInvoiceYear} disabled={isInvoicing || !(Number(invoiceAmount) > 0)}>
+                    {isInvoicing ? 'Invoicing...' : `Invoice ${uninvoiced.length} Active Member${uninvoiced.length === 1 ? '' : 's'}`}
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="bg-white rounded-lg p-4 shadow-soft">
+                <div className="relative mb-4">
+                  <input
+                    type="text"
+                    placeholder="Search members..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="w-full px-4 py-2 pl-10 border border-neutral-300 rounded-md focus:ring-2 focus:ring-secondary-500 focus:border-secondary-500"
+                  />
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-neutral-400" size={18} />
+                </div>
+                <ul className="divide-y divide-neutral-100 max-h-[32rem] overflow-y-auto">
+                  {filteredMembers.map(member => {
+                    const balance = getDuesBalance(entriesFor(member.user_id));
+                    return (
+                      <li key={member.id}>
+                        <button
+                          type="button"
+                          onClick={() => { setSelectedUserId(member.user_id); setShowEntryForm(false); }}
+                          className={`w-full flex items-center justify-between px-3 py-2 text-sm text-left rounded-md transition-colors ${
+                            member.user_id === selectedUserId ? 'bg-primary-50 text-primary-700' : 'hover:bg-neutral-50 text-neutral-700'
+                          }`}
+                        >
+                          <span>
+                            {member.full_name}
+                            {member.status !== 'active' && (
+                              <span className="text-xs text-neutral-400"> ({member.status || 'pending'})</span>
+                            )}
+                          </span>
+                          <span className={balance > 0 ? 'font-medium text-yellow-700' : 'text-neutral-500'}>
+                            {formatCurrency(balance)}
+                          </span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+
+              <div className="lg:col-span-2 bg-white rounded-lg p-6 shadow-soft">
+                {!selectedMember ? (
+                  <p className="text-neutral-600 text-center py-12">Select a member to see their ledger.</p>
+                ) : (
+                  <>
+                    <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                      <div>
+                        <h3 className="text-xl font-heading font-semibold text-primary-600">{selectedMember.full_name}</h3>
+                        <p className="text-sm text-neutral-500 mt-1">
+                          Balance {formatCurrency(getDuesBalance(entriesFor(selectedMember.user_id)))}
+                        </p>
+                      </div>
+                      {!showEntryForm && (
+                        <Button size="sm" onClick={() => setShowEntryForm(true)} className="flex items-center">
+                          <Plus size={14} className="mr-2" />
+                          Record Entry
+                        </Button>
+                      )}
+                    </div>
+
+                    {showEntryForm && (
+                      <div className="bg-neutral-50 rounded-lg p-6 mb-6">
+                        <DuesEntryForm
+                          onSubmit={handleEntrySubmit}
+                          onCancel={() => setShowEntryForm(false)}
+                          defaultYear={currentYear}
+                        />
+                      </div>
+                    )}
+
+                    {entriesFor(selectedMember.user_id).length === 0 ? (
+                      <p className="text-sm text-neutral-600">No entries recorded for this member.</p>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-neutral-500 border-b border-neutral-200">
+                              <th className="py-2 pr-4 font-medium">Date</th>
+                              <th className="py-2 pr-4 font-medium">Entry</th>
+                              <th className="py-2 pr-4 font-medium">Year</th>
+                              <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                              <th className="py-2 pr-4 font-medium text-right">Balance</th>
+                              <th className="py-2"><span className="sr-only">Actions</span></th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {withRunningBalance(entriesFor(selectedMember.user_id)).map(({ entry, balance }) => (
+                              <tr key={entry.id} className="border-b border-neutral-100">
+                                <td className="py-2 pr-4 whitespace-nowrap">{format(new Date(entry.entry_date), 'd MMM yyyy')}</td>
+                                <td className="py-2 pr-4">
+                                  {DUES_ENTRY_LABELS[entry.entry_type]}
+                                  {entry.method && <span className="text-neutral-500">, {PAYMENT_METHOD_LABELS[entry.method]}</span>}
+                                  {entry.reference && <span className="block text-xs text-neutral-500">{entry.reference}</span>}
+                                  {entry.notes && <span className="block text-xs text-neutral-500">{entry.notes}</span>}
+                                </td>
+                                <td className="py-2 pr-4 whitespace-nowrap">{formatMasonicYear(entry.subscription_year)}</td>
+                                <td className={`py-2 pr-4 text-right whitespace-nowrap ${entry.entry_type === 'invoice' ? '' : 'text-green-700'}`}>
+                                  {entry.entry_type === 'invoice' ? '' : '-'}{formatCurrency(Number(entry.amount))}
+                                </td>
+                                <td className="py-2 pr-4 text-right whitespace-nowrap font-medium">{formatCurrency(balance)}</td>
+                                <td className="py-2 text-right">
+                                  <button
+                                    type="button"
+                                    onClick={() => setDeletingEntry(entry)}
+                                    className="p-1 text-neutral-400 hover:text-red-500 transition-colors"
+                                    title="Remove entry"
+                                  >
+                                    <Trash2 size={14} />
+                                  </button>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg p-6 shadow-soft">
+            <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+              <div>
+                <h3 className="text-lg font-heading font-semibold text-primary-600">Arrears Report</h3>
+                <p className="text-sm text-neutral-500 mt-1">
+                  {arrears.length} member{arrears.length === 1 ? '' : 's'} owing {formatCurrency(totalArrears)} in total
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={handleExportArrears} disabled={arrears.length === 0} className="flex items-center">
+                <Download size={14} className="mr-2" />
+                Export CSV
+              </Button>
+            </div>
+
+            {arrears.length === 0 ? (
+              <p className="text-sm text-neutral-600">No members are in arrears.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-neutral-500 border-b border-neutral-200">
+                      <th className="py-2 pr-4 font-medium">Member</th>
+                      <th className="py-2 pr-4 font-medium">Years Outstanding</th>
+                      <th className="py-2 pr-4 font-medium">Last Payment</th>
+                      <th className="py-2 font-medium text-right">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {arrears.map(row => (
+                      <tr key={row.member.id} className="border-b border-neutral-100">
+                        <td className="py-2 pr-4">
+                          <button
+                            type="button"
+                            onClick={() => { setSelectedUserId(row.member.user_id); setActiveTab('ledger'); }}
+                            className="text-primary-600 hover:text-secondary-600"
+                          >
+                            {row.member.full_name}
+                          </button>
+                          {row.member.status !== 'active' && (
+                            <span className="text-xs text-neutral-400"> ({row.member.status || 'pending'})</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4">{row.outstandingYears.map(formatMasonicYear).join(', ')}</td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          {row.lastPayment
+                            ? `${format(new Date(row.lastPayment.entry_date), 'd MMM yyyy')} (${formatCurrency(Number(row.lastPayment.amount))})`
+                            : 'None recorded'}
+                        </td>
+                        <td className="py-2 text-right font-medium text-yellow-700 whitespace-nowrap">{formatCurrency(row.balance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={deletingEntry !== null}
+        title="Remove Ledger Entry"
+        message="Are you sure you want to remove this entry from the ledger? The member's balance will be recalculated."
+        onConfirm={handleDeleteEntry}
+        onCancel={() => setDeletingEntry(null)}
+        type="danger"
+        confirmText="Remove"
+      />
+
+      {/* Toast Notifications */}
+      {toasts.map((toast) => (
+        <Toast
+          key={toast.id}
+          type={toast.type}
+          message={toast.message}
+          onClose={() => removeToast(toast.id)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default TreasurerPage;
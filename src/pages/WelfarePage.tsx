@@ -0,0 +1,586 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { format, subDays } from 'date-fns';
+import { AlertTriangle, CheckCircle, HeartHandshake, History, Mail, Pencil, Phone, Plus, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { api } from '../lib/api';
+import { DirectoryMember, WelfareAccessLogEntry, WelfareCase, WelfareContact, WelfareContactType } from '../types';
+import SectionHeading from '../components/SectionHeading';
+import LoadingSpinner from '../components/LoadingSpinner';
+import Button from '../components/Button';
+import ConfirmDialog from '../components/ConfirmDialog';
+import Toast from '../components/Toast';
+import WelfareCaseForm, { WelfareCaseFormData } from '../components/WelfareCaseForm';
+import { useToast } from '../hooks/useToast';
+import {
+  CONTACT_INTERVAL_DAYS,
+  WELFARE_ACCESS_LABELS,
+  WELFARE_CATEGORY_LABELS,
+  WELFARE_CONTACT_LABELS,
+  WELFARE_PERMISSION_LABELS,
+  WELFARE_SUBJECT_LABELS,
+  daysSinceContact,
+  isContactDue
+} from '../utils/welfare';
+
+type WelfareTab = 'register' | 'log';
+type CaseFilter = 'due' | 'open' | 'closed';
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Demo register when the database is not connected
+const buildDemoData = (today: Date) => {
+  const members: DirectoryMember[] = [
+    { id: 'demo-1', user_id: 'demo-user-1', full_name: 'W.Bro. John Smith', status: 'active', contact_email: null, contact_phone: '07700 900456' },
+    { id: 'demo-2', user_id: 'demo-user-2', full_name: 'Bro. David Jones', status: 'active', contact_email: null, contact_phone: null },
+    { id: 'demo-3', user_id: 'demo-user-3', full_name: 'W.Bro. Michael Brown', status: 'inactive', contact_email: null, contact_phone: null }
+  ];
+  const contact = (id: string, caseId: string, type: WelfareContactType, daysAgo: number, notes?: string): WelfareContact => ({
+    id, case_id: caseId, contact_type: type, contact_date: toDateString(subDays(today, daysAgo)),
+    made_by: 'demo-user-2', notes, created_at: '', updated_at: ''
+  });
+  const cases: WelfareCase[] = [
+    {
+      id: 'demo-case-1', member_id: 'demo-user-1', subject_name: 'W.Bro. John Smith', subject_type: 'member',
+      category: 'sick', status: 'open', opened_on: toDateString(subDays(today, 20)),
+      contact_details: 'Ward 7, Watford General Hospital', notes: 'Hip replacement; expected home within the month.',
+      contacts: [contact('demo-contact-1', 'demo-case-1', 'visit', 6, 'In good spirits, grateful for the card from the lodge.')],
+      created_at: '', updated_at: ''
+    },
+    {
+      id: 'demo-case-2', member_id: 'demo-user-3', subject_name: 'Mrs Margaret Brown', subject_type: 'widow',
+      category: 'isolated', status: 'open', opened_on: toDateString(subDays(today, 400)),
+      contact_details: '01923 000000',
+      contacts: [contact('demo-contact-2', 'demo-case-2', 'call', 45)],
+      created_at: '', updated_at: ''
+    }
+  ];
+  const accessLog: WelfareAccessLogEntry[] = [
+    { id: 'demo-log-1', user_id: 'demo-user-1', action: 'view', record_type: 'register', accessed_at: subDays(today, 1).toISOString() },
+    { id: 'demo-log-2', user_id: 'demo-user-2', action: 'insert', record_type: 'contact', case_id: 'demo-case-1', subject_name: 'W.Bro. John Smith', accessed_at: subDays(today, 6).toISOString() },
+    { id: 'demo-log-3', user_id: 'demo-user-1', action: 'grant', record_type: 'permission', permission: 'almoner', subject_name: 'Bro. David Jones', accessed_at: subDays(today, 30).toISOString() }
+  ];
+
+  return { members, cases, accessLog };
+};
+
+const WelfarePage: React.FC = () => {
+  const { user, loading: authLoading, hasPermission, needsPasswordReset } = useAuth();
+  const { toasts, removeToast, showToast, success, error: showError } = useToast();
+  const [members, setMembers] = useState<DirectoryMember[]>([]);
+  const [cases, setCases] = useState<WelfareCase[]>([]);
+  const [accessLog, setAccessLog] = useState<WelfareAccessLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [usingDemoData, setUsingDemoData] = useState(false);
+  const [activeTab, setActiveTab] = useState<WelfareTab>('register');
+  const [filter, setFilter] = useState<CaseFilter>('open');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<'new' | 'selected' | null>(null);
+  const [contactType, setContactType] = useState<WelfareContactType>('visit');
+  const [contactDate, setContactDate] = useState(() => toDateString(new Date()));
+  const [madeBy, setMadeBy] = useState('');
+  const [contactNotes, setContactNotes] = useState('');
+  const [deletingCase, setDeletingCase] = useState<WelfareCase | null>(null);
+  const [deletingContact, setDeletingContact] = useState<WelfareContact | null>(null);
+
+  // Only the Almoner and the Worshipful Master, matching the database policies
+  const canAccess = hasPermission('almoner') || hasPermission('worshipful_master');
+
+  // Every load of the register is recorded in the access log
+  const loadRegister = useCallback(async () => {
+    setCases(await api.getWelfareRegister());
+  }, []);
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!user || !canAccess) return;
+
+      try {
+        const [membersData] = await Promise.all([api.getMemberDirectory(), loadRegister()]);
+        setMembers(membersData);
+        setUsingDemoData(false);
+      } catch (err) {
+        console.warn('Database not connected, using demo welfare register:', err);
+        const demo = buildDemoData(new Date());
+        setMembers(demo.members);
+        setCases(demo.cases);
+        setAccessLog(demo.accessLog);
+        setUsingDemoData(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [user, canAccess, loadRegister]);
+
+  useEffect(() => {
+    const loadAccessLog = async () => {
+      if (activeTab !== 'log' || usingDemoData) return;
+
+      try {
+        setAccessLog(await api.getWelfareAccessLog());
+      } catch (err) {
+        console.error('Error loading welfare access log:', err);
+        showToast('error', 'Failed to load access log');
+      }
+    };
+
+    loadAccessLog();
+  }, [activeTab, usingDemoData, showToast]);
+
+  if (authLoading) {
+    return <LoadingSpinner subtle={true} className="py-8" />;
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  // Redirect to password reset if needed
+  if (needsPasswordReset) {
+    return <Navigate to="/password-reset" replace />;
+  }
+
+  if (!canAccess) {
+    return <Navigate to="/members" replace />;
+  }
+
+  const memberName = (userId?: string | null) =>
+    members.find(member => member.user_id === userId)?.full_name || 'Unknown member';
+  const activeMembers = members.filter(member => member.status === 'active');
+  const today = new Date();
+  const dueCases = cases.filter(c => isContactDue(c, today));
+  const visibleCases = filter === 'due' ? dueCases : cases.filter(c => c.status === filter);
+  const selectedCase = cases.find(c => c.id === selectedId);
+  const linkedMember = members.find(member => member.user_id === selectedCase?.member_id);
+
+  const handleSaveCase = async (data: WelfareCaseFormData) => {
+    const existing = editing === 'selected' ? selectedCase : undefined;
+
+    try {
+      if (usingDemoData) {
+        const now = new Date().toISOString();
+        const saved: WelfareCase = existing
+          ? { ...existing, ...data, updated_at: now }
+          : { ...data, id: `demo-case-${Date.now()}`, contacts: [], created_at: now, updated_at: now };
+        setCases(prev => [saved, ...prev.filter(c => c.id !== saved.id)]);
+        setSelectedId(saved.id);
+      } else {
+        await api.saveWelfareCase(existing ? data : { ...data, created_by: user.id }, existing?.id);
+        await loadRegister();
+      }
+      setEditing(null);
+      success(`${existing ? 'Record updated' : 'Added to the register'}${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error saving welfare case:', err);
+      showError('Failed to save record');
+    }
+  };
+
+  const handleDeleteCase = async () => {
+    if (!deletingCase) return;
+
+    try {
+      if (!usingDemoData) {
+        await api.deleteWelfareCase(deletingCase.id);
+      }
+      setCases(prev => prev.filter(c => c.id !== deletingCase.id));
+      setSelectedId(null);
+      success(usingDemoData ? 'Record removed (demo mode)' : 'Record removed');
+    } catch (err) {
+      console.error('Error deleting welfare case:', err);
+      showError('Failed to remove record');
+    } finally {
+      setDeletingCase(null);
+    }
+  };
+
+  const handleAddContact = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedCase || !contactDate) return;
+
+    try {
+      const newContact = {
+        case_id: selectedCase.id,
+        contact_type: contactType,
+        contact_date: contactDate,
+        made_by: madeBy || user.id,
+        notes: contactNotes.trim() || null,
+        recorded_by: user.id
+      };
+      if (usingDemoData) {
+        const now = new Date().toISOString();
+        const saved = { ...newContact, id: `demo-contact-${Date.now()}`, created_at: now, updated_at: now };
+        setCases(prev => prev.map(c => (c.id === selectedCase.id ? { ...c, contacts: [saved, ...c.contacts] } : c)));
+      } else {
+        await api.createWelfareContact(newContact);
+        await loadRegister();
+      }
+      setContactNotes('');
+      success(`${WELFARE_CONTACT_LABELS[contactType]} recorded${usingDemoData ? ' (demo mode)' : ''}`);
+    } catch (err) {
+      console.error('Error recording welfare contact:', err);
+      showError('Failed to record visit or call');
+    }
+  };
+
+  const handleDeleteContact = async () => {
+    if (!deletingContact) return;
+
+    try {
+      if (!usingDemoData) {
+        await api.deleteWelfareContact(deletingContact.id);
+      }
+      setCases(prev => prev.map(c => ({ ...c, contacts: c.contacts.filter(ct => ct.id !== deletingContact.id) })));
+      success(usingDemoData ? 'Entry removed (demo mode)' : 'Entry removed');
+    } catch (err) {
+      console.error('Error deleting welfare contact:', err);
+      showError('Failed to remove entry');
+    } finally {
+      setDeletingContact(null);
+    }
+  };
+
+  const inputClass = 'mt-1 block w-full rounded-md border border-neutral-300 px-3 py-2 focus:border-secondary-500 focus:ring-secondary-500';
+
+  return (
+    <div className="min-h-screen pb-20 bg-neutral-50">
+      <div className="container mx-auto px-4 md:px-6">
+        <SectionHeading
+          title="Almoner"
+          subtitle="Welfare register of sick, bereaved and isolated brethren and widows"
+        />
+
+        {usingDemoData && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+            <div className="flex items-start">
+              <AlertTriangle className="w-5 h-5 text-blue-500 mr-2 mt-0.5 flex-shrink-0" />
+              <div className="text-sm">
+                <h3 className="font-medium text-blue-800 mb-1">Demo Mode</h3>
+                <p className="text-blue-700">Database not connected - changes will not be saved.</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <p className="text-sm text-neutral-500 mb-6">
+          This register is confidential to the Almoner and the Worshipful Master. Every time it is opened or changed,
+          the access is recorded in the access log.
+        </p>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={activeTab === 'register' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('register')}
+              className="flex items-center"
+            >
+              <HeartHandshake size={16} className="mr-2" />
+              Register
+            </Button>
+            <Button
+              variant={activeTab === 'log' ? 'primary' : 'outline'}
+              onClick={() => setActiveTab('log')}
+              className="flex items-center"
+            >
+              <History size={16} className="mr-2" />
+              Access Log
+            </Button>
+          </div>
+          {activeTab === 'register' && (
+            <Button
+              onClick={() => { setSelectedId(null); setEditing('new'); }}
+              className="flex items-center"
+            >
+              <Plus size={16} className="mr-2" />
+              Add to Register
+            </Button>
+          )}
+        </div>
+
+        {loading ? (
+          <LoadingSpinner subtle={true} className="py-8" />
+        ) : activeTab === 'log' ? (
+          <div className="bg-white rounded-lg shadow-soft overflow-x-auto">
+            <table className="min-w-full divide-y divide-neutral-200 text-sm">
+              <thead className="bg-neutral-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-neutral-600">When</th>
+                  <th className="px-4 py-3 text-left font-medium text-neutral-600">Who</th>
+                  <th className="px-4 py-3 text-left font-medium text-neutral-600">Action</th>
+                  <th className="px-4 py-3 text-left font-medium text-neutral-600">Record</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-100">
+                {accessLog.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="px-4 py-2 text-neutral-600 whitespace-nowrap">
+                      {format(new Date(entry.accessed_at), 'd MMM yyyy, HH:mm')}
+                    </td>
+                    <td className="px-4 py-2 text-neutral-700">{memberName(entry.user_id)}</td>
+                    <td className="px-4 py-2 text-neutral-700">
+                      {WELFARE_ACCESS_LABELS[entry.action]}
+                      {entry.record_type === 'permission'
+                        ? ` the ${entry.permission ? WELFARE_PERMISSION_LABELS[entry.permission] : ''} permission`
+                        : entry.record_type === 'register' ? ' the register' : entry.record_type === 'case' ? ' a record' : ' a visit or call'}
+                    </td>
+                    <td className="px-4 py-2 text-neutral-700">{entry.subject_name || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {accessLog.length === 0 && (
+              <p className="text-sm text-neutral-500 text-center py-8">No access has been recorded yet.</p>
+            )}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="bg-white rounded-lg p-4 shadow-soft">
+              <div className="flex flex-wrap gap-2 mb-4">
+                {([
+                  ['due', `Due a Visit (${dueCases.length})`],
+                  ['open', `Open (${cases.filter(c => c.status === 'open').length})`],
+                  ['closed', `Closed (${cases.filter(c => c.status === 'closed').length})`]
+                ] as [CaseFilter, string][]).map(([key, label]) => (
+                  <Button key={key} size="sm" variant={filter === key ? 'primary' : 'outline'} onClick={() => setFilter(key)}>
+                    {label}
+                  </Button>
+                ))}
+              </div>
+
+              {visibleCases.length === 0 ? (
+                <p className="text-sm text-neutral-600 p-2">
+                  {filter === 'due'
+                    ? `Everyone on the register has been visited or called in the last ${CONTACT_INTERVAL_DAYS} days.`
+                    : filter === 'open' ? 'Nobody is on the register.' : 'No closed records.'}
+                </p>
+              ) : (
+                <ul className="divide-y divide-neutral-100 max-h-[32rem] overflow-y-auto">
+                  {visibleCases.map(welfareCase => {
+                    const days = daysSinceContact(welfareCase, today);
+                    return (
+                      <li key={welfareCase.id}>
+                        <button
+                          type="button"
+                          onClick={() => { setSelectedId(welfareCase.id); setEditing(null); }}
+                          className={`w-full px-3 py-2 text-sm text-left rounded-md transition-colors ${
+                            welfareCase.id === selectedId ? 'bg-primary-50 text-primary-700' : 'hover:bg-neutral-50 text-neutral-700'
+                          }`}
+                        >
+                          <span className="flex items-center justify-between">
+                            <span className="font-medium">{welfareCase.subject_name}</span>
+                            <span className="text-xs text-neutral-500">{WELFARE_CATEGORY_LABELS[welfareCase.category]}</span>
+                          </span>
+                          <span className="block text-xs text-neutral-500">
+                            {WELFARE_SUBJECT_LABELS[welfareCase.subject_type]}
+                            {welfareCase.contacts.length > 0
+                              ? ` - last contact ${format(new Date(welfareCase.contacts[0].contact_date), 'd MMM yyyy')}`
+                              : ' - no contact yet'}
+                          </span>
+                          {isContactDue(welfareCase, today) && (
+                            <span className="block text-xs text-yellow-700">No visit or call for {days} days</span>
+                          )}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+
+            <div className="lg:col-span-2 bg-white rounded-lg p-6 shadow-soft">
+              {editing === 'new' || (editing === 'selected' && selectedCase) ? (
+                <div>
+                  <h3 className="text-xl font-heading font-semibold text-primary-600 mb-4">
+                    {editing === 'new' ? 'Add to the Register' : `Edit ${selectedCase?.subject_name}`}
+                  </h3>
+                  <WelfareCaseForm
+                    key={editing === 'new' ? 'new' : selectedCase?.id}
+                    welfareCase={editing === 'selected' ? selectedCase : undefined}
+                    members={members}
+                    onSubmit={handleSaveCase}
+                    onCancel={() => setEditing(null)}
+                  />
+                </div>
+              ) : !selectedCase ? (
+                <p className="text-neutral-600 text-center py-12">Select someone on the register to see their record.</p>
+              ) : (
+                <div className="space-y-8">
+                  <div>
+                    <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                      <div>
+                        <h3 className="text-xl font-heading font-semibold text-primary-600">{selectedCase.subject_name}</h3>
+                        <p className="text-sm text-neutral-500 mt-1">
+                          {WELFARE_SUBJECT_LABELS[selectedCase.subject_type]} - {WELFARE_CATEGORY_LABELS[selectedCase.category]}
+                          {' - '}opened {format(new Date(selectedCase.opened_on), 'd MMM yyyy')}
+                          {selectedCase.closed_on && `, closed ${format(new Date(selectedCase.closed_on), 'd MMM yyyy')}`}
+                        </p>
+                        {selectedCase.member_id && selectedCase.subject_type !== 'member' && (
+                          <p className="text-sm text-neutral-500">Connected to {memberName(selectedCase.member_id)}</p>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <Button size="sm" variant="outline" onClick={() => setEditing('selected')} className="flex items-center">
+                          <Pencil size={14} className="mr-2" />
+                          Edit
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setDeletingCase(selectedCase)} className="flex items-center">
+                          <Trash2 size={14} className="mr-2" />
+                          Remove
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                      {selectedCase.contact_details && (
+                        <div>
+                          <p className="text-xs text-neutral-500">Address and Telephone</p>
+                          <p className="text-neutral-700 whitespace-pre-wrap">{selectedCase.contact_details}</p>
+                        </div>
+                      )}
+                      {linkedMember && (linkedMember.contact_phone || linkedMember.contact_email) && (
+                        <div>
+                          <p className="text-xs text-neutral-500">From {linkedMember.full_name}'s profile</p>
+                          {linkedMember.contact_phone && (
+                            <a href={`tel:${linkedMember.contact_phone}`} className="flex items-center text-neutral-700 hover:text-primary-600">
+                              <Phone size={14} className="mr-1" />
+                              {linkedMember.contact_phone}
+                            </a>
+                          )}
+                          {linkedMember.contact_email && (
+                            <a href={`mailto:${linkedMember.contact_email}`} className="flex items-center text-neutral-700 hover:text-primary-600">
+                              <Mail size={14} className="mr-1" />
+                              {linkedMember.contact_email}
+                            </a>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    {selectedCase.notes && (
+                      <p className="mt-4 text-sm text-neutral-600 whitespace-pre-wrap">{selectedCase.notes}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <h4 className="text-lg font-heading font-semibold text-primary-600 mb-3">Visits and Calls</h4>
+                    {selectedCase.status === 'open' && (
+                      <form onSubmit={handleAddContact} className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                        <div>
+                          <label htmlFor="contact_type" className="block text-sm font-medium text-primary-600">Type</label>
+                          <select
+                            id="contact_type"
+                            value={contactType}
+                            onChange={(e) => setContactType(e.target.value as WelfareContactType)}
+                            className={inputClass}
+                          >
+                            {Object.entries(WELFARE_CONTACT_LABELS).map(([type, label]) => (
+                              <option key={type} value={type}>{label}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label htmlFor="contact_date" className="block text-sm font-medium text-primary-600">Date</label>
+                          <input
+                            id="contact_date"
+                            type="date"
+                            value={contactDate}
+                            onChange={(e) => setContactDate(e.target.value)}
+                            className={inputClass}
+                            required
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor="made_by" className="block text-sm font-medium text-primary-600">By</label>
+                          <select id="made_by" value={madeBy} onChange={(e) => setMadeBy(e.target.value)} className={inputClass}>
+                            <option value="">Me</option>
+                            {activeMembers
+                              .filter(member => member.user_id !== user.id)
+                              .map(member => (
+                                <option key={member.id} value={member.user_id}>{member.full_name}</option>
+                              ))}
+                          </select>
+                        </div>
+                        <div className="md:col-span-3">
+                          <label htmlFor="contact_notes" className="block text-sm font-medium text-primary-600">Notes</label>
+                          <textarea
+                            id="contact_notes"
+                            rows={2}
+                            value={contactNotes}
+                            onChange={(e) => setContactNotes(e.target.value)}
+                            className={inputClass}
+                          />
+                        </div>
+                        <div className="md:col-span-3">
+                          <Button type="submit" size="sm">Record</Button>
+                        </div>
+                      </form>
+                    )}
+
+                    {selectedCase.contacts.length === 0 ? (
+                      <p className="text-sm text-neutral-500">No visits or calls recorded yet.</p>
+                    ) : (
+                      <ul className="divide-y divide-neutral-100">
+                        {selectedCase.contacts.map(contact => (
+                          <li key={contact.id} className="py-3 flex items-start justify-between gap-4">
+                            <div className="text-sm">
+                              <p className="text-neutral-700">
+                                <CheckCircle className="inline w-4 h-4 text-green-600 mr-1" />
+                                {WELFARE_CONTACT_LABELS[contact.contact_type]} on {format(new Date(contact.contact_date), 'd MMM yyyy')}
+                                {contact.made_by && <span className="text-neutral-500"> by {memberName(contact.made_by)}</span>}
+                              </p>
+                              {contact.notes && <p className="text-neutral-600 mt-1 whitespace-pre-wrap">{contact.notes}</p>}
+                            </div>
+                            <button
+                              className="p-2 text-neutral-500 hover:text-red-500 transition-colors"
+                              onClick={() => setDeletingContact(contact)}
+                              title="Remove entry"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={deletingCase !== null}
+        title="Remove from Register"
+        message={`Are you sure you want to remove ${deletingCase?.subject_name} and all their visits and calls? Consider closing the record instead.`}
+        onConfirm={handleDeleteCase}
+        onCancel={() => setDeletingCase(null)}
+        type="danger"
+        confirmText="Remove"
+      />
+
+      <ConfirmDialog
+        isOpen={deletingContact !== null}
+        title="Remove Entry"
+        message="Are you sure you want to remove this visit or call?"
+        onConfirm={handleDeleteContact}
+        onCancel={() => setDeletingContact(null)}
+        type="danger"
+        confirmText="Remove"
+      />
+
+      {/* Toast Notifications */}
+      {toasts.map((toast) => (
+        <Toast
+          key={toast.id}
+          type={toast.type}
+          message={toast.message}
+          onClose={() => removeToast(toast.id)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default WelfarePage;
@@ -55,8 +55,59 @@ export interface MemberProfile {
   masonic_provincial_rank?: string;
   grand_lodge_rank?: string;
   needs_password_reset?: boolean;
+  // Masonic career record, maintained by admins
+  initiated_date?: string | null;
+  passed_date?: string | null;
+  raised_date?: string | null;
+  installed_date?: string | null;
+  exalted_date?: string | null;
+  masonic_appointments?: MasonicAppointment[];
+  permissions?: LodgePermission[];
+  directory_privacy?: DirectoryPrivacy;
+  birthday?: string | null;
 }
 
+// Who may see a directory field; a field with no setting is visible to all
+export type DirectoryVisibility = 'all' | 'officers' | 'hidden';
+
+export type DirectoryPrivacyField = 'contact_email' | 'contact_phone' | 'ranks' | 'join_date' | 'birthday';
+
+export type DirectoryPrivacy = Partial<Record<DirectoryPrivacyField, DirectoryVisibility>>;
+
+// Row of the member_directory view. Private fields come back null when the
+// viewer may not see them
+export interface DirectoryEntry extends MasonicCareerFields {
+  id: string;
+  user_id: string;
+  full_name: string;
+  position?: string | null;
+  role: MemberProfile['role'];
+  status?: MemberProfile['status'];
+  join_date: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+  masonic_provincial_rank: string | null;
+  grand_lodge_rank: string | null;
+  birthday: string | null;
+}
+
+// The directory fields the Treasurer's and Almoner's pages list members by
+export type DirectoryMember = Pick<DirectoryEntry, 'id' | 'user_id' | 'full_name' | 'status' | 'contact_email' | 'contact_phone'>;
+
+// Office-holder permissions granted by admins, separate from the admin role
+export type LodgePermission = 'treasurer' | 'mentor' | 'almoner' | 'worshipful_master';
+
+export interface MasonicAppointment {
+  title: string;
+  level: 'provincial' | 'grand';
+  year: number;
+}
+
+export type MasonicCareerFields = Pick<
+  MemberProfile,
+  'initiated_date' | 'passed_date' | 'raised_date' | 'installed_date' | 'exalted_date' | 'masonic_appointments'
+>;
+
 export interface LodgeDocument {
   id: string;
   title: string;
@@ -75,9 +126,40 @@ export interface MeetingMinutes {
   created_at: string;
   updated_at: string;
   document_url?: string; // Optional URL to the full document
+  attendance_recorded_at?: string; // Set once the Secretary has saved the attendance register
+}
+
+export interface MeetingAttendance {
+  id: string;
+  minutes_id: string;
+  attendance_type: 'member' | 'visitor' | 'apology';
+  user_id?: string; // Set for members of the Lodge
+  name: string;
+  lodge_name?: string; // Visitors only
+  lodge_number?: string;
+  rank?: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
 }
 
 // New CMS types
+export interface EventRecurrence {
+  frequency: 'weekly' | 'monthly';
+  interval: number; // Every n weeks or months
+  week_of_month?: number; // Monthly only: 1-4, or -1 for the last weekday of the month
+  until?: string; // YYYY-MM-DD, inclusive
+  count?: number; // Total number of occurrences, including cancelled ones
+}
+
+export interface EventOccurrenceException {
+  date: string; // YYYY-MM-DD the occurrence was scheduled for
+  is_cancelled: boolean;
+  event_date?: string; // Replacement start time when the occurrence is moved
+  title?: string;
+  location?: string;
+}
+
 export interface CMSEvent {
   id: string;
   title: string;
@@ -85,7 +167,13 @@ export interface CMSEvent {
   event_date: string;
   location: string;
   is_members_only: boolean;
-  is_past_event: boolean;
+  is_past_event: boolean; // Derived from event_date by the events_with_status view - never written
+  recurrence?: EventRecurrence | null;
+  recurrence_exceptions?: EventOccurrenceException[];
+  series_id?: string; // Set on expanded occurrences - the id of the recurring event row
+  occurrence_date?: string; // Set on expanded occurrences - YYYY-MM-DD it was scheduled for
+  capacity?: number | null; // Places available - null for unlimited. One-off events only
+  signup_deadline?: string | null; // Registrations close at this time, or when the event starts
   created_at: string;
   updated_at: string;
 }
@@ -118,6 +206,16 @@ export interface CMSOfficer {
   updated_at: string;
 }
 
+export interface OfficerAppointment {
+  id: string;
+  masonic_year: number; // Year of the Installation that opens it
+  position: string;
+  full_name: string;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface CMSTestimonial {
   id: string;
   member_name: string;
@@ -155,4 +253,383 @@ export interface CMSPageContent {
   content_type: 'text' | 'html' | 'json';
   content: string;
   updated_at: string;
-}
\ No newline at end of file
+}
+export interface LodgeMeetingRule {
+  id: string;
+  title: string;
+  description: string;
+  month: number; // 1-12
+  week_of_month: number; // 1st, 2nd, etc. occurrence of the weekday
+  weekday: number; // 0=Sunday, 6=Saturday
+  start_time: string; // HH:MM, Europe/London
+  location: string;
+  is_installation: boolean;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LodgeMeetingOverride {
+  id: string;
+  override_type: 'cancelled' | 'moved' | 'added';
+  original_date?: string; // YYYY-MM-DD of the computed meeting
+  new_date?: string;
+  title?: string;
+  description?: string;
+  location?: string;
+  reason?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CalendarFeedToken {
+  id: string;
+  user_id: string;
+  token: string;
+  last_used_at?: string;
+  created_at: string;
+}
+
+export interface ReminderPreferences {
+  id: string;
+  user_id: string;
+  meeting_reminders: boolean;
+  event_reminders: boolean;
+  days_before: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FestiveBoard {
+  id: string;
+  title: string;
+  event_id?: string;
+  meeting_date?: string; // YYYY-MM-DD of the computed lodge meeting
+  dining_date: string;
+  menu_options: string[];
+  price?: number;
+  cutoff_date: string;
+  notes?: string;
+  is_open: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FestiveBoardGuest {
+  name: string;
+  menu_choice?: string;
+  dietary_requirements?: string;
+}
+
+export interface FestiveBoardBooking {
+  id: string;
+  festive_board_id: string;
+  user_id: string;
+  member_name: string;
+  menu_choice?: string;
+  dietary_requirements?: string;
+  guests: FestiveBoardGuest[];
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VisitorRequest {
+  id: string;
+  meeting_date: string; // YYYY-MM-DD of the scheduled lodge meeting
+  meeting_title: string;
+  name: string;
+  email: string;
+  phone?: string;
+  lodge_name: string;
+  lodge_number: string;
+  rank: string;
+  guest_of?: string;
+  notes?: string;
+  status: 'pending' | 'approved' | 'declined';
+  response_message?: string;
+  responded_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Stages on the path to membership described on the Join page
+export type ProspectStageKey = 'initial_contact' | 'lodge_visit' | 'application' | 'interview' | 'ballot' | 'initiation';
+
+export interface ProspectStage {
+  id: string;
+  prospect_id: string;
+  stage: ProspectStageKey;
+  started_on?: string | null;
+  completed_on?: string | null;
+  officer_id?: string | null; // Member responsible for the stage
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Prospect {
+  id: string;
+  name: string;
+  email: string;
+  phone?: string | null;
+  enquiry_subject?: string | null;
+  enquiry_message?: string | null;
+  source: 'enquiry' | 'manual' | 'application';
+  current_stage: ProspectStageKey;
+  status: 'active' | 'initiated' | 'withdrawn';
+  notes?: string | null;
+  stages: ProspectStage[];
+  applications?: MembershipApplication[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type ApplicationDeclarationKey = 'supreme_being' | 'age' | 'free_will' | 'conduct' | 'fees' | 'data_consent';
+
+// Answers to the online membership application, saved as the applicant goes
+export interface ApplicationAnswers {
+  date_of_birth?: string;
+  address?: string;
+  occupation?: string;
+  proposer_name?: string;
+  proposer_known_years?: string;
+  seconder_name?: string;
+  seconder_known_years?: string;
+  reasons?: string;
+  previous_membership?: string;
+  conduct_details?: string;
+  declarations?: Partial<Record<ApplicationDeclarationKey, boolean>>;
+}
+
+export interface ApplicationAttachment {
+  path: string; // In the membership-applications storage bucket
+  name: string;
+  size: number;
+  content_type: string;
+}
+
+export interface MembershipApplication {
+  id: string;
+  prospect_id?: string | null;
+  full_name: string;
+  email: string;
+  phone?: string | null;
+  answers: ApplicationAnswers;
+  attachments: ApplicationAttachment[];
+  status: 'draft' | 'submitted';
+  submitted_at?: string | null;
+  // Members named as proposer and seconder, and when each endorsed the application
+  proposer_id?: string | null;
+  seconder_id?: string | null;
+  proposer_endorsed_at?: string | null;
+  seconder_endorsed_at?: string | null;
+  sponsors_notified_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A submitted application the signed-in member is named on
+export interface EndorsementRequest {
+  id: string;
+  full_name: string;
+  occupation?: string | null;
+  reasons?: string | null;
+  submitted_at: string;
+  sponsor_role: 'proposer' | 'seconder';
+  endorsed_at?: string | null;
+  other_sponsor_name?: string | null;
+}
+
+export interface EventRegistration {
+  id: string;
+  event_id: string;
+  user_id?: string;
+  name: string;
+  email: string;
+  phone?: string;
+  seats: number; // Places taken, including the registrant's own guests
+  notes?: string;
+  status: 'confirmed' | 'waitlisted' | 'cancelled';
+  promoted_at?: string; // Set when moved off the waitlist
+  promotion_notified_at?: string;
+  cancelled_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EventRegistrationSummary {
+  event_id: string;
+  confirmed_seats: number;
+  waitlist_count: number;
+}
+
+export interface SummonsCandidate {
+  name: string;
+  ceremony: 'initiation' | 'passing' | 'raising' | 'joining';
+  proposer?: string;
+  seconder?: string;
+}
+
+export interface SummonsDining {
+  dining_date: string;
+  price?: number;
+  menu_options: string[];
+  cutoff_date: string;
+  notes?: string;
+}
+
+export interface Summons {
+  id: string;
+  meeting_date: string; // YYYY-MM-DD scheduled date of the lodge meeting
+  meeting_title: string;
+  meeting_start: string;
+  location: string;
+  agenda: string[];
+  candidates: SummonsCandidate[];
+  officers: Pick<CMSOfficer, 'position' | 'full_name'>[]; // As they were when the summons was generated
+  dining?: SummonsDining | null;
+  notes?: string;
+  document_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RitualPart {
+  part: string;
+  performer?: string;
+}
+
+export interface DegreeCeremony {
+  id: string;
+  meeting_date: string; // YYYY-MM-DD scheduled date of the lodge meeting
+  degree: 'first' | 'second' | 'third';
+  candidate_name: string;
+  ritual_parts: RitualPart[];
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DuesEntry {
+  id: string;
+  user_id: string;
+  entry_type: 'invoice' | 'payment' | 'credit';
+  amount: number;
+  entry_date: string;
+  subscription_year: number; // Masonic year the subscription is for
+  method?: 'bank_transfer' | 'standing_order' | 'cheque' | 'cash' | 'card' | null;
+  reference?: string;
+  notes?: string;
+  recorded_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A member prepared from a CSV import. The email is used for the login and
+// as the contact email
+export interface MemberImportRow {
+  row: number; // Spreadsheet row, for the validation report
+  email: string;
+  full_name: string;
+  position?: string;
+  contact_phone?: string;
+  masonic_provincial_rank?: string;
+  grand_lodge_rank?: string;
+  join_date?: string;
+  initiated_date?: string;
+  passed_date?: string;
+  raised_date?: string;
+}
+
+export interface MemberImportResult {
+  row: number;
+  email: string;
+  status: 'created' | 'would_create' | 'duplicate' | 'error';
+  message?: string;
+  invited?: boolean;
+}
+
+// Row of get_mentoring_members(). Degree dates are never masked, unlike in the directory
+export type MentoringMember = Pick<
+  MemberProfile,
+  'id' | 'user_id' | 'full_name' | 'status' | 'initiated_date' | 'passed_date' | 'raised_date' | 'exalted_date'
+>;
+
+export interface MentoringAssignment {
+  id: string;
+  mentee_id: string;
+  mentor_id: string;
+  started_on: string;
+  completed_on?: string | null;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MentoringModuleCompletion {
+  id: string;
+  mentee_id: string;
+  module_key: string; // Key from MENTORING_MODULES
+  completed_on: string;
+  recorded_by?: string;
+  created_at: string;
+}
+
+export interface MentoringMeeting {
+  id: string;
+  mentee_id: string;
+  mentor_id?: string | null;
+  meeting_date: string;
+  notes?: string;
+  recorded_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Almoner's welfare register
+export type WelfareSubjectType = 'member' | 'widow' | 'family';
+export type WelfareCategory = 'sick' | 'bereaved' | 'isolated' | 'other';
+export type WelfareContactType = 'visit' | 'call' | 'card' | 'other';
+
+export interface WelfareContact {
+  id: string;
+  case_id: string;
+  contact_type: WelfareContactType;
+  contact_date: string;
+  made_by?: string | null; // Member who visited or called
+  notes?: string | null;
+  recorded_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WelfareCase {
+  id: string;
+  // The member's profile, or for a widow or family member the brother they are connected to
+  member_id?: string | null;
+  subject_name: string;
+  subject_type: WelfareSubjectType;
+  category: WelfareCategory;
+  status: 'open' | 'closed';
+  opened_on: string;
+  closed_on?: string | null;
+  contact_details?: string | null;
+  notes?: string | null;
+  created_by?: string | null;
+  contacts: WelfareContact[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WelfareAccessLogEntry {
+  id: string;
+  user_id?: string | null;
+  action: 'view' | 'insert' | 'update' | 'delete' | 'grant' | 'revoke';
+  record_type: 'register' | 'case' | 'contact' | 'permission';
+  case_id?: string | null;
+  permission?: Extract<LodgePermission, 'almoner' | 'worshipful_master'> | null;
+  subject_name?: string | null;
+  accessed_at: string;
+}
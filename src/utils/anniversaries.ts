@@ -0,0 +1,95 @@
+/**
+ * Masonic anniversaries and birthdays
+ * Finds the initiation and installation anniversaries that reach a milestone
+ * year, and members' birthdays, falling within a date range. Kept in step with
+ * supabase/functions/_shared/anniversaries.ts, which the monthly digest uses.
+ */
+
+export type AnniversaryKind = 'initiation' | 'installation' | 'birthday';
+
+export interface AnniversarySource {
+  user_id: string;
+  full_name: string;
+  initiated_date?: string | null;
+  installed_date?: string | null;
+  birthday?: string | null;
+}
+
+export interface Anniversary {
+  userId: string;
+  fullName: string;
+  kind: AnniversaryKind;
+  years: number;
+  date: Date;
+  isMilestone: boolean;
+}
+
+// Years since Initiation or Installation that the Lodge marks
+export const MASONIC_MILESTONE_YEARS = [25, 40, 50, 60, 70, 75];
+
+const SOURCE_FIELDS: { kind: AnniversaryKind; field: 'initiated_date' | 'installed_date' | 'birthday' }[] = [
+  { kind: 'initiation', field: 'initiated_date' },
+  { kind: 'installation', field: 'installed_date' },
+  { kind: 'birthday', field: 'birthday' }
+];
+
+function ordinal(n: number): string {
+  const suffixes: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+  const lastTwo = n % 100;
+  return `${n}${lastTwo >= 11 && lastTwo <= 13 ? 'th' : suffixes[n % 10] || 'th'}`;
+}
+
+/**
+ * The date's anniversary in a given year. A 29 February date falls on
+ * 28 February in other years
+ */
+function anniversaryInYear(month: number, day: number, year: number): Date {
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date : new Date(year, month - 1, day - 1);
+}
+
+/**
+ * Anniversaries from `from` to `until` inclusive, soonest first
+ */
+export function getUpcomingAnniversaries(members: AnniversarySource[], from: Date, until: Date): Anniversary[] {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const anniversaries: Anniversary[] = [];
+
+  members.forEach(member => {
+    SOURCE_FIELDS.forEach(({ kind, field }) => {
+      const value = member[field];
+      const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+      if (!match) return;
+
+      const [originYear, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+
+      for (let year = start.getFullYear(); year <= until.getFullYear(); year++) {
+        const date = anniversaryInYear(month, day, year);
+        const years = year - originYear;
+        if (years <= 0 || date < start || date > until) continue;
+
+        const isMilestone = kind === 'birthday' ? years % 10 === 0 : MASONIC_MILESTONE_YEARS.includes(years);
+        // Every birthday is listed; Masonic anniversaries only at a milestone
+        if (kind !== 'birthday' && !isMilestone) continue;
+
+        anniversaries.push({ userId: member.user_id, fullName: member.full_name, kind, years, date, isMilestone });
+      }
+    });
+  });
+
+  return anniversaries.sort((a, b) => a.date.getTime() - b.date.getTime() || a.fullName.localeCompare(b.fullName));
+}
+
+/**
+ * e.g. "50 years since Initiation" or "80th birthday"
+ */
+export function describeAnniversary(anniversary: Anniversary): string {
+  switch (anniversary.kind) {
+    case 'initiation':
+      return `${anniversary.years} years since Initiation`;
+    case 'installation':
+      return `${anniversary.years} years since Installation as Master`;
+    case 'birthday':
+      return `${ordinal(anniversary.years)} birthday`;
+  }
+}
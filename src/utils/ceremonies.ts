@@ -0,0 +1,142 @@
+/**
+ * Degree ceremony planning helpers
+ * Default ritual parts for each degree, and the checks the planner warns on:
+ * more than one initiation at a meeting, candidates taking degrees out of
+ * order or without the minimum interval between them, and ceremonies planned
+ * for meetings that have been cancelled or are no longer on the schedule.
+ */
+
+import { differenceInCalendarDays, format } from 'date-fns';
+import { DegreeCeremony, RitualPart } from '../types';
+import { LodgeMeeting, toMeetingDateKey } from './lodgeMeetings';
+
+export const DEGREE_LABELS: Record<DegreeCeremony['degree'], string> = {
+  first: 'First Degree',
+  second: 'Second Degree',
+  third: 'Third Degree'
+};
+
+export const DEGREE_ORDER: DegreeCeremony['degree'][] = ['first', 'second', 'third'];
+
+// Book of Constitutions: a brother may not take a further degree within four weeks
+export const MIN_DAYS_BETWEEN_DEGREES = 28;
+
+export const DEFAULT_RITUAL_PARTS: Record<DegreeCeremony['degree'], string[]> = {
+  first: [
+    'Ceremony of Initiation',
+    'North-East Corner',
+    'Working Tools',
+    'Explanation of the First Degree Tracing Board',
+    'Charge after Initiation'
+  ],
+  second: [
+    'Ceremony of Passing',
+    'South-East Corner',
+    'Working Tools',
+    'Explanation of the Second Degree Tracing Board'
+  ],
+  third: [
+    'Ceremony of Raising',
+    'Traditional History',
+    'Working Tools',
+    'Explanation of the Third Degree Tracing Board'
+  ]
+};
+
+export interface CeremonyWarning {
+  ceremonyIds: string[];
+  meetingDate: string;
+  message: string;
+}
+
+export function defaultRitualParts(degree: DegreeCeremony['degree']): RitualPart[] {
+  return DEFAULT_RITUAL_PARTS[degree].map(part => ({ part, performer: '' }));
+}
+
+/**
+ * Ritual parts nobody has been asked to perform yet
+ */
+export function countUnassignedParts(ceremony: Pick<DegreeCeremony, 'ritual_parts'>): number {
+  return ceremony.ritual_parts.filter(part => !part.performer?.trim()).length;
+}
+
+/**
+ * Conflicts across the whole plan, so a ceremony can be checked against the
+ * candidate's earlier and later degrees
+ */
+export function getCeremonyWarnings(ceremonies: DegreeCeremony[], meetings: LodgeMeeting[]): CeremonyWarning[] {
+  const warnings: CeremonyWarning[] = [];
+  const meetingFor = (key: string) => meetings.find(m => toMeetingDateKey(m.originalDate || m.date) === key);
+  // A moved meeting keeps its scheduled key, so intervals use the date it actually takes place
+  const heldOn = (ceremony: DegreeCeremony) => meetingFor(ceremony.meeting_date)?.date || new Date(`${ceremony.meeting_date}T00:00:00`);
+  const describeDate = (ceremony: DegreeCeremony) => format(heldOn(ceremony), 'd MMMM yyyy');
+
+  const byMeeting = new Map<string, DegreeCeremony[]>();
+  ceremonies.forEach(ceremony => {
+    byMeeting.set(ceremony.meeting_date, [...(byMeeting.get(ceremony.meeting_date) || []), ceremony]);
+  });
+
+  byMeeting.forEach((planned, meetingDate) => {
+    const meeting = meetingFor(meetingDate);
+    if (meeting?.isCancelled) {
+      warnings.push({
+        ceremonyIds: planned.map(c => c.id),
+        meetingDate,
+        message: `The meeting on ${format(meeting.date, 'd MMMM yyyy')} has been cancelled`
+      });
+    } else if (!meeting && new Date(`${meetingDate}T23:59:59`) >= new Date()) {
+      warnings.push({
+        ceremonyIds: planned.map(c => c.id),
+        meetingDate,
+        message: `${format(new Date(`${meetingDate}T00:00:00`), 'd MMMM yyyy')} is no longer a scheduled Lodge meeting`
+      });
+    }
+
+    const initiations = planned.filter(c => c.degree === 'first');
+    if (initiations.length > 1) {
+      warnings.push({
+        ceremonyIds: initiations.map(c => c.id),
+        meetingDate,
+        message: `${initiations.length} initiations planned at one meeting (${initiations.map(c => c.candidate_name).join(', ')})`
+      });
+    }
+  });
+
+  const byCandidate = new Map<string, DegreeCeremony[]>();
+  ceremonies.forEach(ceremony => {
+    const key = ceremony.candidate_name.trim().toLowerCase();
+    byCandidate.set(key, [...(byCandidate.get(key) || []), ceremony]);
+  });
+
+  byCandidate.forEach(planned => {
+    const sorted = [...planned].sort((a, b) => heldOn(a).getTime() - heldOn(b).getTime());
+
+    sorted.slice(1).forEach((ceremony, index) => {
+      const previous = sorted[index];
+      const name = ceremony.candidate_name;
+      const days = differenceInCalendarDays(heldOn(ceremony), heldOn(previous));
+
+      if (ceremony.degree === previous.degree) {
+        warnings.push({
+          ceremonyIds: [previous.id, ceremony.id],
+          meetingDate: ceremony.meeting_date,
+          message: `${name} is planned for the ${DEGREE_LABELS[ceremony.degree]} twice`
+        });
+      } else if (DEGREE_ORDER.indexOf(ceremony.degree) < DEGREE_ORDER.indexOf(previous.degree)) {
+        warnings.push({
+          ceremonyIds: [previous.id, ceremony.id],
+          meetingDate: ceremony.meeting_date,
+          message: `${name} takes the ${DEGREE_LABELS[previous.degree]} on ${describeDate(previous)}, before the ${DEGREE_LABELS[ceremony.degree]} on ${describeDate(ceremony)}`
+        });
+      } else if (days < MIN_DAYS_BETWEEN_DEGREES) {
+        warnings.push({
+          ceremonyIds: [previous.id, ceremony.id],
+          meetingDate: ceremony.meeting_date,
+          message: `Only ${days} day${days === 1 ? '' : 's'} between ${name}'s ${DEGREE_LABELS[previous.degree]} and ${DEGREE_LABELS[ceremony.degree]} (at least ${MIN_DAYS_BETWEEN_DEGREES / 7} weeks required)`
+        });
+      }
+    });
+  });
+
+  return warnings;
+}
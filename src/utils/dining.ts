@@ -0,0 +1,56 @@
+/**
+ * Festive Board dining helpers
+ * Turns member bookings (each with optional guests) into the flat list of
+ * diners the caterer needs, with totals per menu choice.
+ */
+
+import { FestiveBoard, FestiveBoardBooking } from '../types';
+
+export interface Diner {
+  name: string;
+  guestOf?: string;
+  menuChoice: string;
+  dietaryRequirements: string;
+}
+
+/**
+ * Whether members can still book, change or cancel
+ */
+export function isDiningOpen(festiveBoard: FestiveBoard, now: Date = new Date()): boolean {
+  return festiveBoard.is_open && new Date(festiveBoard.cutoff_date) > now;
+}
+
+/**
+ * One row per diner - each member followed by their guests
+ */
+export function getDiners(bookings: FestiveBoardBooking[]): Diner[] {
+  return bookings.flatMap(booking => [
+    {
+      name: booking.member_name,
+      menuChoice: booking.menu_choice || '',
+      dietaryRequirements: booking.dietary_requirements || ''
+    },
+    ...(booking.guests || []).map(guest => ({
+      name: guest.name,
+      guestOf: booking.member_name,
+      menuChoice: guest.menu_choice || '',
+      dietaryRequirements: guest.dietary_requirements || ''
+    }))
+  ]);
+}
+
+/**
+ * Number of diners per menu choice, in the order the menu lists them
+ */
+export function countMenuChoices(festiveBoard: FestiveBoard, diners: Diner[]): Array<{ choice: string; count: number }> {
+  const choices = [...festiveBoard.menu_options];
+  diners.forEach(diner => {
+    if (!choices.includes(diner.menuChoice)) {
+      choices.push(diner.menuChoice);
+    }
+  });
+
+  return choices
+    .map(choice => ({ choice, count: diners.filter(diner => diner.menuChoice === choice).length }))
+    .filter(({ choice, count }) => count > 0 || choice !== '');
+}
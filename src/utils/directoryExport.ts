@@ -0,0 +1,89 @@
+/**
+ * Member directory exports
+ * Builds a vCard 4.0 bundle for phones and a CSV list for the Secretary from
+ * directory entries. Entries come from the member_directory view, so fields a
+ * member has hidden are already null and are simply left out.
+ */
+
+import { DirectoryEntry } from '../types';
+import { CsvValue } from './csv';
+import { escapeText, foldLine } from './icalendar';
+import { getSortedAppointments } from './masonicCareer';
+
+const LODGE_NAME = 'Radlett Lodge No. 6652';
+
+/**
+ * Split a full name into the vCard N property: family;given;additional;prefix;suffix
+ */
+function toStructuredName(fullName: string): string {
+  const parts = fullName.trim().split(/\s+/);
+  const family = parts.length > 1 ? parts[parts.length - 1] : parts[0] || '';
+  const given = parts.length > 1 ? parts.slice(0, -1).join(' ') : '';
+  return `${escapeText(family)};${escapeText(given)};;;`;
+}
+
+function buildVCard(entry: DirectoryEntry): string[] {
+  const ranks = [entry.grand_lodge_rank, entry.masonic_provincial_rank].filter(Boolean);
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    'KIND:individual',
+    `UID:urn:uuid:${entry.user_id}`,
+    `FN:${escapeText(entry.full_name)}`,
+    `N:${toStructuredName(entry.full_name)}`,
+    `ORG:${escapeText(LODGE_NAME)}`
+  ];
+
+  if (entry.position) lines.push(`TITLE:${escapeText(entry.position)}`);
+  if (entry.contact_email) lines.push(`EMAIL;TYPE=home:${escapeText(entry.contact_email)}`);
+  if (entry.contact_phone) lines.push(`TEL;VALUE=text;TYPE=voice:${escapeText(entry.contact_phone)}`);
+  if (ranks.length > 0) lines.push(`NOTE:${escapeText(ranks.join(', '))}`);
+  lines.push(`CATEGORIES:${escapeText(LODGE_NAME)}`, 'END:VCARD');
+
+  return lines;
+}
+
+/**
+ * Build a single .vcf file holding a card for each entry
+ */
+export function buildVCards(entries: DirectoryEntry[]): string {
+  return entries.flatMap(buildVCard).map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Trigger a browser download of a .vcf bundle
+ */
+export function downloadVCards(filename: string, entries: DirectoryEntry[]): void {
+  const blob = new Blob([buildVCards(entries)], { type: 'text/vcard;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.vcf') ? filename : `${filename}.vcf`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export const DIRECTORY_CSV_HEADERS = [
+  'Name', 'Position', 'Email', 'Phone', 'Provincial Rank', 'Grand Lodge Rank', 'Appointments',
+  'Join Date', 'Initiated', 'Passed', 'Raised', 'Installed', 'Exalted'
+];
+
+export function directoryCsvRows(entries: DirectoryEntry[]): CsvValue[][] {
+  return entries.map(entry => [
+    entry.full_name,
+    entry.position,
+    entry.contact_email,
+    entry.contact_phone,
+    entry.masonic_provincial_rank,
+    entry.grand_lodge_rank,
+    getSortedAppointments(entry).map(a => `${a.title} (${a.year})`).join('; '),
+    entry.join_date,
+    entry.initiated_date,
+    entry.passed_date,
+    entry.raised_date,
+    entry.installed_date,
+    entry.exalted_date
+  ]);
+}
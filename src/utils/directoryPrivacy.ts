@@ -0,0 +1,26 @@
+/**
+ * Directory privacy settings
+ * Each member chooses who sees their contact details, ranks, and join and
+ * degree dates. The member_directory view applies these choices; the labels
+ * here are for the profile settings form.
+ */
+
+import { DirectoryPrivacy, DirectoryPrivacyField, DirectoryVisibility } from '../types';
+
+export const DIRECTORY_PRIVACY_FIELDS: { field: DirectoryPrivacyField; label: string }[] = [
+  { field: 'contact_email', label: 'Contact email' },
+  { field: 'contact_phone', label: 'Contact phone' },
+  { field: 'ranks', label: 'Provincial and Grand Lodge ranks' },
+  { field: 'join_date', label: 'Join date and degree dates' },
+  { field: 'birthday', label: 'Birthday' }
+];
+
+export const DIRECTORY_VISIBILITY_LABELS: Record<DirectoryVisibility, string> = {
+  all: 'All members',
+  officers: 'Officers only',
+  hidden: 'Hidden'
+};
+
+export function getFieldVisibility(privacy: DirectoryPrivacy | undefined, field: DirectoryPrivacyField): DirectoryVisibility {
+  return privacy?.[field] || 'all';
+}
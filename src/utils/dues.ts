@@ -0,0 +1,118 @@
+/**
+ * Subscriptions ledger helpers
+ * Invoices raise what a member owes, payments and credits reduce it. Payments
+ * are set against the oldest invoices first, so the years still unpaid can be
+ * shown on the arrears report.
+ */
+
+import { DirectoryMember, DuesEntry } from '../types';
+import { CsvValue } from './csv';
+import { formatMasonicYear } from './officerProgression';
+
+export const DUES_ENTRY_LABELS: Record<DuesEntry['entry_type'], string> = {
+  invoice: 'Subscription invoiced',
+  payment: 'Payment received',
+  credit: 'Credit / write-off'
+};
+
+export const PAYMENT_METHOD_LABELS: Record<NonNullable<DuesEntry['method']>, string> = {
+  bank_transfer: 'Bank transfer',
+  standing_order: 'Standing order',
+  cheque: 'Cheque',
+  cash: 'Cash',
+  card: 'Card'
+};
+
+export interface ArrearsRow {
+  member: DirectoryMember;
+  balance: number;
+  outstandingYears: number[];
+  lastPayment?: DuesEntry;
+}
+
+export function formatCurrency(amount: number): string {
+  return `${amount < 0 ? '-' : ''}£${Math.abs(amount).toFixed(2)}`;
+}
+
+const sortByDate = (entries: DuesEntry[]) => [...entries].sort((a, b) =>
+  a.entry_date.localeCompare(b.entry_date) || a.created_at.localeCompare(b.created_at)
+);
+
+/**
+ * What the member owes; negative when they are in credit
+ */
+export function getDuesBalance(entries: DuesEntry[]): number {
+  const balance = entries.reduce(
+    (total, entry) => total + (entry.entry_type === 'invoice' ? 1 : -1) * Number(entry.amount),
+    0
+  );
+  // Round away floating point pennies
+  return Math.round(balance * 100) / 100;
+}
+
+/**
+ * Subscription years with an unpaid amount, oldest first
+ */
+export function getOutstandingYears(entries: DuesEntry[]): number[] {
+  let paid = entries
+    .filter(entry => entry.entry_type !== 'invoice')
+    .reduce((total, entry) => total + Number(entry.amount), 0);
+  const unpaid = new Set<number>();
+
+  entries
+    .filter(entry => entry.entry_type === 'invoice')
+    .sort((a, b) => a.subscription_year - b.subscription_year || a.entry_date.localeCompare(b.entry_date))
+    .forEach(invoice => {
+      const covered = Math.min(paid, Number(invoice.amount));
+      paid -= covered;
+      if (Number(invoice.amount) - covered > 0.005) {
+        unpaid.add(invoice.subscription_year);
+      }
+    });
+
+  return [...unpaid];
+}
+
+/**
+ * Ledger entries with the running balance after each one
+ */
+export function withRunningBalance(entries: DuesEntry[]): { entry: DuesEntry; balance: number }[] {
+  let balance = 0;
+  return sortByDate(entries).map(entry => {
+    balance += (entry.entry_type === 'invoice' ? 1 : -1) * Number(entry.amount);
+    return { entry, balance: Math.round(balance * 100) / 100 };
+  });
+}
+
+/**
+ * Members owing money, largest balance first
+ */
+export function buildArrearsReport(members: DirectoryMember[], entries: DuesEntry[]): ArrearsRow[] {
+  return members
+    .map(member => {
+      const memberEntries = entries.filter(entry => entry.user_id === member.user_id);
+      const payments = sortByDate(memberEntries.filter(entry => entry.entry_type === 'payment'));
+      return {
+        member,
+        balance: getDuesBalance(memberEntries),
+        outstandingYears: getOutstandingYears(memberEntries),
+        lastPayment: payments[payments.length - 1]
+      };
+    })
+    .filter(row => row.balance > 0)
+    .sort((a, b) => b.balance - a.balance);
+}
+
+export const ARREARS_CSV_HEADERS = ['Member', 'Email', 'Status', 'Balance', 'Years Outstanding', 'Last Payment', 'Last Payment Amount'];
+
+export function arrearsCsvRows(rows: ArrearsRow[]): CsvValue[][] {
+  return rows.map(row => [
+    row.member.full_name,
+    row.member.contact_email,
+    row.member.status,
+    row.balance.toFixed(2),
+    row.outstandingYears.map(formatMasonicYear).join('; '),
+    row.lastPayment?.entry_date,
+    row.lastPayment ? Number(row.lastPayment.amount).toFixed(2) : ''
+  ]);
+}
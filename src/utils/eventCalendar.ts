@@ -0,0 +1,174 @@
+/**
+ * Events calendar helpers
+ * Merges CMS events and computed Lodge meetings into one list of calendar
+ * items, and converts between calendar views and their URL parameters
+ * (e.g. /events?view=month&date=2026-12).
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isValid,
+  parse,
+  startOfDay,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import { CMSEvent } from '../types';
+import { LodgeMeeting, MeetingSchedule, getLodgeMeetingsForYear } from './lodgeMeetings';
+
+export type CalendarView = 'list' | 'month' | 'week' | 'agenda';
+
+export const CALENDAR_VIEWS: { id: CalendarView; label: string }[] = [
+  { id: 'list', label: 'List' },
+  { id: 'month', label: 'Month' },
+  { id: 'week', label: 'Week' },
+  { id: 'agenda', label: 'Agenda' }
+];
+
+export type CalendarItemKind = 'installation' | 'meeting' | 'members' | 'social';
+
+export interface CalendarItem {
+  id: string;
+  title: string;
+  start: Date;
+  location: string;
+  description: string;
+  kind: CalendarItemKind;
+  isCancelled: boolean;
+  meeting?: LodgeMeeting;
+  event?: CMSEvent;
+}
+
+export const CALENDAR_ITEM_STYLES: Record<CalendarItemKind, { label: string; className: string; dotClassName: string }> = {
+  installation: {
+    label: 'Installation',
+    className: 'bg-secondary-100 text-secondary-800 border-l-4 border-secondary-500',
+    dotClassName: 'bg-secondary-500'
+  },
+  meeting: {
+    label: 'Lodge Meeting',
+    className: 'bg-primary-100 text-primary-700 border-l-4 border-primary-600',
+    dotClassName: 'bg-primary-600'
+  },
+  members: {
+    label: 'Members Only',
+    className: 'bg-purple-100 text-purple-800 border-l-4 border-purple-500',
+    dotClassName: 'bg-purple-500'
+  },
+  social: {
+    label: 'Social & Public',
+    className: 'bg-green-100 text-green-800 border-l-4 border-green-500',
+    dotClassName: 'bg-green-500'
+  }
+};
+
+// Agenda view shows this many weeks from the chosen date
+export const AGENDA_WEEKS = 8;
+
+// Weeks start on Monday
+export const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+/**
+ * Read the view from the URL, defaulting to the list
+ */
+export function parseCalendarView(value: string | null): CalendarView {
+  return CALENDAR_VIEWS.some(view => view.id === value) ? value as CalendarView : 'list';
+}
+
+/**
+ * Read a YYYY-MM or YYYY-MM-DD date from the URL, defaulting to today
+ */
+export function parseCalendarDate(value: string | null): Date {
+  if (value) {
+    const pattern = /^\d{4}-\d{2}$/.test(value) ? 'yyyy-MM' : 'yyyy-MM-dd';
+    const date = parse(value, pattern, new Date());
+    if (isValid(date)) return date;
+  }
+  return startOfDay(new Date());
+}
+
+/**
+ * Month views link to the month, the others to the day
+ */
+export function formatCalendarDate(date: Date, view: CalendarView): string {
+  return format(date, view === 'month' ? 'yyyy-MM' : 'yyyy-MM-dd');
+}
+
+/**
+ * First and last day shown by a view
+ */
+export function getCalendarRange(view: CalendarView, date: Date): { start: Date; end: Date } {
+  switch (view) {
+    case 'month':
+      return {
+        start: startOfWeek(startOfMonth(date), WEEK_OPTIONS),
+        end: endOfWeek(endOfMonth(date), WEEK_OPTIONS)
+      };
+    case 'week':
+      return { start: startOfWeek(date, WEEK_OPTIONS), end: endOfWeek(date, WEEK_OPTIONS) };
+    default:
+      return { start: startOfDay(date), end: addDays(startOfDay(date), AGENDA_WEEKS * 7 - 1) };
+  }
+}
+
+/**
+ * Move a view's date back or forward by one page
+ */
+export function shiftCalendarDate(view: CalendarView, date: Date, amount: number): Date {
+  switch (view) {
+    case 'month':
+      return addMonths(date, amount);
+    case 'week':
+      return addWeeks(date, amount);
+    default:
+      return addWeeks(date, amount * AGENDA_WEEKS);
+  }
+}
+
+/**
+ * Lodge meetings and events between two dates, in date order
+ */
+export function getCalendarItems(
+  events: CMSEvent[],
+  schedule: MeetingSchedule,
+  start: Date,
+  end: Date
+): CalendarItem[] {
+  const rangeEnd = addDays(startOfDay(end), 1);
+  const inRange = (date: Date) => date >= startOfDay(start) && date < rangeEnd;
+
+  const meetings = [start.getFullYear(), end.getFullYear()]
+    .filter((year, index, years) => years.indexOf(year) === index)
+    .flatMap(year => getLodgeMeetingsForYear(year, schedule))
+    .filter(meeting => inRange(meeting.date))
+    .map(meeting => ({
+      id: `meeting-${meeting.date.toISOString()}`,
+      title: meeting.title,
+      start: meeting.date,
+      location: meeting.location,
+      description: meeting.description,
+      kind: meeting.isInstallation ? 'installation' as const : 'meeting' as const,
+      isCancelled: !!meeting.isCancelled,
+      meeting
+    }));
+
+  const eventItems = events
+    .filter(event => inRange(new Date(event.event_date)))
+    .map(event => ({
+      id: `event-${event.id}`,
+      title: event.title,
+      start: new Date(event.event_date),
+      location: event.location,
+      description: event.description,
+      kind: event.is_members_only ? 'members' as const : 'social' as const,
+      isCancelled: false,
+      event
+    }));
+
+  return [...meetings, ...eventItems].sort((a, b) => a.start.getTime() - b.start.getTime());
+}
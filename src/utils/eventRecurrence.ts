@@ -0,0 +1,162 @@
+/**
+ * Recurring Event Expansion
+ * A recurring event (e.g. weekly Lodge of Instruction) is stored as a single
+ * `events` row with a recurrence rule. These helpers expand it into one
+ * CMSEvent per occurrence, applying per-occurrence exceptions so a single
+ * date can be cancelled or moved without touching the rest of the series.
+ * Occurrences take the weekday and time of the first event.
+ */
+
+import { addMonths, addWeeks, format } from 'date-fns';
+import { CMSEvent, EventRecurrence } from '../types';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const WEEK_OF_MONTH_NAMES: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  [-1]: 'last'
+};
+
+// Series without an end date or count are expanded this far ahead
+export const RECURRENCE_HORIZON_MONTHS = 12;
+
+// Guards against runaway rules
+const MAX_OCCURRENCES = 520;
+
+/**
+ * Key used to match an exception to a scheduled occurrence
+ */
+export function toOccurrenceKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Which week of its month a date falls in (1-4, or 5 for a fifth weekday)
+ */
+export function getWeekOfMonth(date: Date): number {
+  return Math.ceil(date.getDate() / 7);
+}
+
+/**
+ * The nth (or last, when weekOfMonth is -1) weekday of a month, or null if
+ * the month has no such day
+ */
+function getWeekdayOfMonth(year: number, month: number, weekday: number, weekOfMonth: number): Date | null {
+  if (weekOfMonth === -1) {
+    const lastDay = new Date(year, month + 1, 0);
+    return new Date(year, month, lastDay.getDate() - (lastDay.getDay() - weekday + 7) % 7);
+  }
+
+  const firstWeekday = new Date(year, month, 1).getDay();
+  const date = new Date(year, month, 1 + (weekday - firstWeekday + 7) % 7 + (weekOfMonth - 1) * 7);
+  return date.getMonth() === month ? date : null;
+}
+
+/**
+ * Scheduled start times of an event up to `until`, before exceptions are applied.
+ * A non-recurring event has a single occurrence.
+ */
+export function getOccurrenceDates(event: CMSEvent, until: Date): Date[] {
+  const start = new Date(event.event_date);
+  const rule = event.recurrence;
+  if (!rule) return [start];
+
+  const interval = Math.max(1, rule.interval || 1);
+  const maxCount = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const ruleEnd = rule.until ? new Date(`${rule.until}T23:59:59`) : null;
+  const end = ruleEnd && ruleEnd < until ? ruleEnd : until;
+  const weekOfMonth = rule.week_of_month || getWeekOfMonth(start);
+  const dates: Date[] = [];
+
+  for (let i = 0; dates.length < maxCount && i < MAX_OCCURRENCES * 2; i++) {
+    let date: Date | null;
+
+    if (rule.frequency === 'weekly') {
+      date = addWeeks(start, i * interval);
+    } else {
+      const month = addMonths(new Date(start.getFullYear(), start.getMonth(), 1), i * interval);
+      if (month > end) break;
+
+      date = getWeekdayOfMonth(month.getFullYear(), month.getMonth(), start.getDay(), weekOfMonth);
+      date?.setHours(start.getHours(), start.getMinutes());
+    }
+
+    if (!date || date < start) continue;
+    if (date > end) break;
+    dates.push(date);
+  }
+
+  return dates;
+}
+
+/**
+ * Expand a recurring event into its occurrences, skipping cancelled dates.
+ * Each occurrence gets a unique id, with `series_id` pointing back to the row.
+ */
+export function expandRecurringEvent(event: CMSEvent, until: Date): CMSEvent[] {
+  if (!event.recurrence) return [event];
+
+  const exceptions = event.recurrence_exceptions || [];
+  const now = new Date();
+
+  return getOccurrenceDates(event, until).flatMap(date => {
+    const key = toOccurrenceKey(date);
+    const exception = exceptions.find(e => e.date === key);
+    if (exception?.is_cancelled) return [];
+
+    const eventDate = exception?.event_date ? new Date(exception.event_date) : date;
+    return [{
+      ...event,
+      id: `${event.id}_${key}`,
+      series_id: event.id,
+      occurrence_date: key,
+      event_date: eventDate.toISOString(),
+      title: exception?.title || event.title,
+      location: exception?.location || event.location,
+      is_past_event: event.is_past_event || eventDate < now
+    }];
+  });
+}
+
+/**
+ * Expand every recurring event in a list, keeping the list in date order
+ */
+export function expandEvents(
+  events: CMSEvent[],
+  until: Date = addMonths(new Date(), RECURRENCE_HORIZON_MONTHS)
+): CMSEvent[] {
+  if (!events.some(event => event.recurrence)) return events;
+
+  return events
+    .flatMap(event => expandRecurringEvent(event, until))
+    .sort((a, b) => new Date(a.event_date).getTime() - new Date(b.event_date).getTime());
+}
+
+/**
+ * Describe a recurrence in words, e.g. "Every week on Thursday, until 30 June 2026"
+ */
+export function describeRecurrence(rule: EventRecurrence, start: Date): string {
+  const interval = Math.max(1, rule.interval || 1);
+  const weekday = WEEKDAY_NAMES[start.getDay()];
+  let description: string;
+
+  if (rule.frequency === 'weekly') {
+    description = interval === 1 ? `Every week on ${weekday}` : `Every ${interval} weeks on ${weekday}`;
+  } else {
+    const week = WEEK_OF_MONTH_NAMES[rule.week_of_month || getWeekOfMonth(start)] || 'fifth';
+    description = interval === 1
+      ? `Monthly on the ${week} ${weekday}`
+      : `Every ${interval} months on the ${week} ${weekday}`;
+  }
+
+  if (rule.until) {
+    description += `, until ${format(new Date(`${rule.until}T00:00:00`), 'd MMMM yyyy')}`;
+  } else if (rule.count) {
+    description += `, ${rule.count} times`;
+  }
+
+  return description;
+}
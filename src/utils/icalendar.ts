@@ -0,0 +1,194 @@
+/**
+ * iCalendar (.ics) helpers
+ * Builds single-event downloads in the browser and the subscription URLs for
+ * the calendar-feed edge function. Times are written in Europe/London so a
+ * meeting keeps its local start time either side of the clocks changing.
+ */
+
+import { Event } from '../types';
+import { LodgeMeeting, toMeetingDateKey } from './lodgeMeetings';
+
+export interface CalendarEntry {
+  uid: string;
+  title: string;
+  start: Date;
+  durationMinutes: number;
+  description?: string;
+  location?: string;
+  isCancelled?: boolean;
+}
+
+const CALENDAR_DOMAIN = 'radlettlodge6652.org.uk';
+const MEETING_DURATION_MINUTES = 180;
+const EVENT_DURATION_MINUTES = 120;
+
+const LONDON_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  'TZID:Europe/London',
+  'X-LIC-LOCATION:Europe/London',
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0000',
+  'TZOFFSETTO:+0100',
+  'TZNAME:BST',
+  'DTSTART:19700329T010000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0000',
+  'TZNAME:GMT',
+  'DTSTART:19701025T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE'
+];
+
+const londonFormatter = new Intl.DateTimeFormat('en-GB', {
+  timeZone: 'Europe/London',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23'
+});
+
+/**
+ * Format an instant as an iCalendar local date-time in Europe/London
+ */
+function toLondonDateTime(date: Date): string {
+  const parts = Object.fromEntries(londonFormatter.formatToParts(date).map(part => [part.type, part.value]));
+  return `${parts.year}${parts.month}${parts.day}T${parts.hour}${parts.minute}${parts.second}`;
+}
+
+function toUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escape a TEXT value. vCard uses the same rules
+ */
+export function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 characters onto continuation lines
+ */
+export function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+  const chunks = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    chunks.push(` ${line.slice(i, i + 74)}`);
+  }
+  return chunks.join('\r\n');
+}
+
+/**
+ * Build a VCALENDAR document from a list of entries
+ */
+export function buildICalendar(entries: CalendarEntry[], calendarName: string = 'Radlett Lodge No. 6652'): string {
+  const stamp = toUtcStamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Radlett Lodge No. 6652//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    'X-WR-TIMEZONE:Europe/London',
+    ...LONDON_VTIMEZONE
+  ];
+
+  entries.forEach(entry => {
+    const end = new Date(entry.start.getTime() + entry.durationMinutes * 60 * 1000);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.uid}@${CALENDAR_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=Europe/London:${toLondonDateTime(entry.start)}`,
+      `DTEND;TZID=Europe/London:${toLondonDateTime(end)}`,
+      `SUMMARY:${escapeText(entry.isCancelled ? `CANCELLED: ${entry.title}` : entry.title)}`,
+      `DESCRIPTION:${escapeText(entry.description || '')}`,
+      `LOCATION:${escapeText(entry.location || '')}`,
+      `STATUS:${entry.isCancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Convert a CMS event (in the EventCard format) to a calendar entry.
+ * The UID matches the one used by the subscription feed.
+ */
+export function eventToCalendarEntry(event: Event): CalendarEntry {
+  return {
+    uid: `event-${event.id}`,
+    title: event.title,
+    start: event.date,
+    durationMinutes: EVENT_DURATION_MINUTES,
+    description: event.description,
+    location: event.location
+  };
+}
+
+/**
+ * Convert a computed lodge meeting to a calendar entry.
+ * The UID matches the one used by the subscription feed.
+ */
+export function lodgeMeetingToCalendarEntry(meeting: LodgeMeeting): CalendarEntry {
+  const key = toMeetingDateKey(meeting.originalDate || meeting.date);
+
+  return {
+    uid: `${meeting.isEmergency ? 'emergency-meeting' : 'lodge-meeting'}-${key}`,
+    title: meeting.title,
+    start: meeting.date,
+    durationMinutes: MEETING_DURATION_MINUTES,
+    description: [meeting.description, meeting.reason].filter(Boolean).join('\n\n'),
+    location: meeting.location,
+    isCancelled: meeting.isCancelled
+  };
+}
+
+/**
+ * Trigger a browser download of an .ics file
+ */
+export function downloadICalendar(filename: string, entries: CalendarEntry[]): void {
+  const blob = new Blob([buildICalendar(entries)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.ics') ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Subscription URL for the calendar-feed edge function.
+ * Pass a member's feed token to include members-only events.
+ */
+export function getCalendarFeedUrl(token?: string): string {
+  const baseUrl = `${import.meta.env.VITE_SUPABASE_URL || ''}/functions/v1/calendar-feed`;
+  return token ? `${baseUrl}?token=${encodeURIComponent(token)}` : baseUrl;
+}
+
+/**
+ * The same URL with the webcal:// scheme, which opens the subscribe dialog
+ * in most calendar apps
+ */
+export function getWebcalUrl(feedUrl: string): string {
+  return feedUrl.replace(/^https?:\/\//, 'webcal://');
+}
+
+/**
+ * Build a filename such as "radlett-lodge-2026-12-12.ics"
+ */
+export function icsFilename(date: Date): string {
+  return `radlett-lodge-${toMeetingDateKey(date)}.ics`;
+}
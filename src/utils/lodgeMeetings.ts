@@ -1,19 +1,143 @@
 /**
  * Lodge Meeting Schedule Calculator
- * Calculates the next meeting date based on Radlett Lodge No. 6652's schedule:
+ * Calculates meeting dates from Radlett Lodge No. 6652's schedule rules.
+ * The rules are edited by admins in the CMS (`lodge_meeting_rules` table),
+ * and individual dates can be cancelled, moved or supplemented with an
+ * emergency meeting (`lodge_meeting_overrides` table).
+ * DEFAULT_MEETING_RULES mirrors the by-laws and is used in demo mode or
+ * when the rules cannot be loaded:
  * - 2nd Saturday December (Installation)
- * - 2nd Saturday February 
+ * - 2nd Saturday February
  * - 1st Saturday April
  * - 2nd Saturday July
  * - 1st Saturday September
  */
 
+import { format } from 'date-fns';
+import { cmsApi } from '../lib/cmsApi';
+import { LodgeMeetingRule, LodgeMeetingOverride } from '../types';
+
 export interface LodgeMeeting {
   date: Date;
   title: string;
   description: string;
   location: string;
   isInstallation: boolean;
+  isCancelled?: boolean;
+  isEmergency?: boolean;
+  originalDate?: Date; // Set when the meeting has been moved
+  reason?: string;
+}
+
+export type MeetingScheduleRule = Pick<
+  LodgeMeetingRule,
+  'title' | 'description' | 'month' | 'week_of_month' | 'weekday' | 'start_time' | 'location' | 'is_installation'
+>;
+
+export interface MeetingSchedule {
+  rules: MeetingScheduleRule[];
+  overrides: LodgeMeetingOverride[];
+}
+
+const DEFAULT_LOCATION = "Radlett Masonic Centre, Rose Walk, Radlett";
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const OCCURRENCE_NAMES = ['1st', '2nd', '3rd', '4th', '5th'];
+
+/**
+ * The by-law schedule, used whenever the CMS rules are unavailable
+ */
+export const DEFAULT_MEETING_RULES: MeetingScheduleRule[] = [
+  {
+    title: "Regular Lodge Meeting",
+    description: "February regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
+    month: 2,
+    week_of_month: 2,
+    weekday: 6,
+    start_time: "18:00",
+    location: DEFAULT_LOCATION,
+    is_installation: false
+  },
+  {
+    title: "Regular Lodge Meeting",
+    description: "April regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
+    month: 4,
+    week_of_month: 1,
+    weekday: 6,
+    start_time: "18:00",
+    location: DEFAULT_LOCATION,
+    is_installation: false
+  },
+  {
+    title: "Regular Lodge Meeting",
+    description: "July regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
+    month: 7,
+    week_of_month: 2,
+    weekday: 6,
+    start_time: "18:00",
+    location: DEFAULT_LOCATION,
+    is_installation: false
+  },
+  {
+    title: "Regular Lodge Meeting",
+    description: "September regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
+    month: 9,
+    week_of_month: 1,
+    weekday: 6,
+    start_time: "18:00",
+    location: DEFAULT_LOCATION,
+    is_installation: false
+  },
+  {
+    title: "Installation Meeting",
+    description: "Annual Installation of the Worshipful Master and Officers. Festive Board to follow.",
+    month: 12,
+    week_of_month: 2,
+    weekday: 6,
+    start_time: "18:00",
+    location: DEFAULT_LOCATION,
+    is_installation: true
+  }
+];
+
+export const DEFAULT_MEETING_SCHEDULE: MeetingSchedule = {
+  rules: DEFAULT_MEETING_RULES,
+  overrides: []
+};
+
+/**
+ * Load the active schedule rules from the CMS, falling back to the
+ * by-law defaults in demo mode or if the request fails
+ */
+export async function loadMeetingRules(): Promise<MeetingScheduleRule[]> {
+  try {
+    const rules = await cmsApi.getLodgeMeetingRules();
+    return rules.length > 0 ? rules : DEFAULT_MEETING_RULES;
+  } catch (error) {
+    console.warn('Could not load meeting rules, using default schedule:', error);
+    return DEFAULT_MEETING_RULES;
+  }
+}
+
+/**
+ * Load the schedule rules together with any per-date overrides
+ */
+export async function loadMeetingSchedule(): Promise<MeetingSchedule> {
+  const [rules, overrides] = await Promise.all([
+    loadMeetingRules(),
+    cmsApi.getLodgeMeetingOverrides().catch(error => {
+      console.warn('Could not load meeting overrides, using unmodified schedule:', error);
+      return [] as LodgeMeetingOverride[];
+    })
+  ]);
+
+  return { rules, overrides };
 }
 
 /**
@@ -23,127 +147,183 @@ export interface LodgeMeeting {
  * @param weekday - The weekday (0=Sunday, 6=Saturday)
  * @param occurrence - Which occurrence (1st, 2nd, etc.)
  */
-function getNthWeekdayOfMonth(year: number, month: number, weekday: number, occurrence: number): Date {
+export function getNthWeekdayOfMonth(year: number, month: number, weekday: number, occurrence: number): Date {
   const firstDay = new Date(year, month, 1);
   const firstWeekday = firstDay.getDay();
-  
+
   // Calculate the date of the first occurrence of the weekday
-  let firstOccurrence = 1 + (weekday - firstWeekday + 7) % 7;
-  
+  const firstOccurrence = 1 + (weekday - firstWeekday + 7) % 7;
+
   // Add weeks to get the nth occurrence
   const targetDate = firstOccurrence + (occurrence - 1) * 7;
-  
+
   return new Date(year, month, targetDate);
 }
 
 /**
- * Get all Lodge meetings for a given year
+ * Describe a rule in words, e.g. "2nd Saturday of February at 18:00"
+ */
+export function describeMeetingRule(rule: MeetingScheduleRule): string {
+  return `${OCCURRENCE_NAMES[rule.week_of_month - 1]} ${WEEKDAY_NAMES[rule.weekday]} of ${MONTH_NAMES[rule.month - 1]} at ${rule.start_time.slice(0, 5)}`;
+}
+
+/**
+ * Parse a "HH:MM" or "HH:MM:SS" start time into hours and minutes
+ */
+function parseStartTime(startTime: string): [number, number] {
+  const [hours, minutes] = startTime.split(':').map(part => parseInt(part, 10));
+  return [isNaN(hours) ? 18 : hours, isNaN(minutes) ? 0 : minutes];
+}
+
+/**
+ * Key used to match an override to a computed meeting
+ */
+export function toMeetingDateKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Get the meetings the rules produce for a given year, before overrides
  */
-export function getLodgeMeetingsForYear(year: number): LodgeMeeting[] {
+export function getScheduledMeetingsForYear(
+  year: number,
+  rules: MeetingScheduleRule[] = DEFAULT_MEETING_RULES
+): LodgeMeeting[] {
   const meetings: LodgeMeeting[] = [];
-  const location = "Radlett Masonic Centre, Rose Walk, Radlett";
-  
-  // February - 2nd Saturday
-  const february = getNthWeekdayOfMonth(year, 1, 6, 2); // Month 1 = February, 6 = Saturday
-  meetings.push({
-    date: new Date(february.getFullYear(), february.getMonth(), february.getDate(), 18, 0), // 6:00 PM
-    title: "Regular Lodge Meeting",
-    description: "February regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
-    location,
-    isInstallation: false
-  });
-  
-  // April - 1st Saturday
-  const april = getNthWeekdayOfMonth(year, 3, 6, 1); // Month 3 = April
-  meetings.push({
-    date: new Date(april.getFullYear(), april.getMonth(), april.getDate(), 18, 0),
-    title: "Regular Lodge Meeting",
-    description: "April regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
-    location,
-    isInstallation: false
-  });
-  
-  // July - 2nd Saturday
-  const july = getNthWeekdayOfMonth(year, 6, 6, 2); // Month 6 = July
-  meetings.push({
-    date: new Date(july.getFullYear(), july.getMonth(), july.getDate(), 18, 0),
-    title: "Regular Lodge Meeting",
-    description: "July regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
-    location,
-    isInstallation: false
-  });
-  
-  // September - 1st Saturday
-  const september = getNthWeekdayOfMonth(year, 8, 6, 1); // Month 8 = September
-  meetings.push({
-    date: new Date(september.getFullYear(), september.getMonth(), september.getDate(), 18, 0),
-    title: "Regular Lodge Meeting",
-    description: "September regular meeting of Radlett Lodge No. 6652. Festive Board to follow.",
-    location,
-    isInstallation: false
-  });
-  
-  // December - 2nd Saturday (Installation)
-  const december = getNthWeekdayOfMonth(year, 11, 6, 2); // Month 11 = December
-  meetings.push({
-    date: new Date(december.getFullYear(), december.getMonth(), december.getDate(), 18, 0),
-    title: "Installation Meeting",
-    description: "Annual Installation of the Worshipful Master and Officers. Festive Board to follow.",
-    location,
-    isInstallation: true
+
+  rules.forEach(rule => {
+    const day = getNthWeekdayOfMonth(year, rule.month - 1, rule.weekday, rule.week_of_month);
+
+    // A 5th occurrence can spill into the following month - skip it for this year
+    if (day.getMonth() !== rule.month - 1) {
+      return;
+    }
+
+    const [hours, minutes] = parseStartTime(rule.start_time);
+    meetings.push({
+      date: new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes),
+      title: rule.title,
+      description: rule.description,
+      location: rule.location || DEFAULT_LOCATION,
+      isInstallation: rule.is_installation
+    });
   });
-  
+
   return meetings.sort((a, b) => a.date.getTime() - b.date.getTime());
 }
 
+/**
+ * Apply cancellations, moves and added meetings to the computed meetings
+ */
+function applyMeetingOverrides(meetings: LodgeMeeting[], overrides: LodgeMeetingOverride[]): LodgeMeeting[] {
+  const adjusted = meetings.map(meeting => {
+    const key = toMeetingDateKey(meeting.date);
+    const override = overrides.find(o => o.override_type !== 'added' && o.original_date === key);
+
+    if (!override) {
+      return meeting;
+    }
+
+    if (override.override_type === 'cancelled') {
+      return { ...meeting, isCancelled: true, reason: override.reason };
+    }
+
+    return {
+      ...meeting,
+      date: new Date(override.new_date as string),
+      title: override.title || meeting.title,
+      description: override.description || meeting.description,
+      location: override.location || meeting.location,
+      originalDate: meeting.date,
+      reason: override.reason
+    };
+  });
+
+  const added = overrides
+    .filter(o => o.override_type === 'added' && o.new_date)
+    .map(o => ({
+      date: new Date(o.new_date as string),
+      title: o.title || 'Emergency Meeting',
+      description: o.description || '',
+      location: o.location || DEFAULT_LOCATION,
+      isInstallation: false,
+      isEmergency: true,
+      reason: o.reason
+    }));
+
+  return [...adjusted, ...added];
+}
+
+/**
+ * Get all Lodge meetings for a given year, with overrides applied.
+ * Cancelled meetings are included (flagged with isCancelled) so they can be shown.
+ */
+export function getLodgeMeetingsForYear(
+  year: number,
+  schedule: MeetingSchedule = DEFAULT_MEETING_SCHEDULE
+): LodgeMeeting[] {
+  // Moved meetings can cross a year boundary, so look at the neighbouring years too
+  const computed = [year - 1, year, year + 1].flatMap(y => getScheduledMeetingsForYear(y, schedule.rules));
+
+  return applyMeetingOverrides(computed, schedule.overrides)
+    .filter(meeting => meeting.date.getFullYear() === year)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
 /**
  * Get the next upcoming Lodge meeting
  */
-export function getNextLodgeMeeting(): LodgeMeeting | null {
+export function getNextLodgeMeeting(schedule: MeetingSchedule = DEFAULT_MEETING_SCHEDULE): LodgeMeeting | null {
   const now = new Date();
   const currentYear = now.getFullYear();
-  
+
   // Get meetings for current year and next year
-  const currentYearMeetings = getLodgeMeetingsForYear(currentYear);
-  const nextYearMeetings = getLodgeMeetingsForYear(currentYear + 1);
-  
+  const currentYearMeetings = getLodgeMeetingsForYear(currentYear, schedule);
+  const nextYearMeetings = getLodgeMeetingsForYear(currentYear + 1, schedule);
+
   const allMeetings = [...currentYearMeetings, ...nextYearMeetings];
-  
+
   // Find the next meeting after now
-  const nextMeeting = allMeetings.find(meeting => meeting.date > now);
-  
+  const nextMeeting = allMeetings.find(meeting => !meeting.isCancelled && meeting.date > now);
+
   return nextMeeting || null;
 }
 
 /**
  * Get all upcoming Lodge meetings (next 3)
+ * Cancelled meetings are left out unless includeCancelled is set.
  */
-export function getUpcomingLodgeMeetings(count: number = 3): LodgeMeeting[] {
+export function getUpcomingLodgeMeetings(
+  count: number = 3,
+  schedule: MeetingSchedule = DEFAULT_MEETING_SCHEDULE,
+  includeCancelled: boolean = false
+): LodgeMeeting[] {
   const now = new Date();
   const currentYear = now.getFullYear();
-  
+
   // Get meetings for current year and next year
-  const currentYearMeetings = getLodgeMeetingsForYear(currentYear);
-  const nextYearMeetings = getLodgeMeetingsForYear(currentYear + 1);
-  
+  const currentYearMeetings = getLodgeMeetingsForYear(currentYear, schedule);
+  const nextYearMeetings = getLodgeMeetingsForYear(currentYear + 1, schedule);
+
   const allMeetings = [...currentYearMeetings, ...nextYearMeetings];
-  
+
   // Filter future meetings and take the requested count
   return allMeetings
-    .filter(meeting => meeting.date > now)
+    .filter(meeting => meeting.date > now && (includeCancelled || !meeting.isCancelled))
     .slice(0, count);
 }
 
 /**
  * Check if a date is a Lodge meeting day
  */
-export function isLodgeMeetingDay(date: Date): boolean {
+export function isLodgeMeetingDay(date: Date, schedule: MeetingSchedule = DEFAULT_MEETING_SCHEDULE): boolean {
   const year = date.getFullYear();
-  const meetings = getLodgeMeetingsForYear(year);
-  
-  return meetings.some(meeting => 
+  const meetings = getLodgeMeetingsForYear(year, schedule);
+
+  return meetings.some(meeting =>
+    !meeting.isCancelled &&
     meeting.date.getFullYear() === date.getFullYear() &&
     meeting.date.getMonth() === date.getMonth() &&
     meeting.date.getDate() === date.getDate()
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,44 @@
+/**
+ * Masonic career record helpers
+ * Labels for the dated milestones on a member profile and for provincial and
+ * grand appointments, shared by the admin form, profile and directory.
+ */
+
+import { MasonicAppointment, MasonicCareerFields } from '../types';
+
+export type CareerMilestoneField = Exclude<keyof MasonicCareerFields, 'masonic_appointments'>;
+
+export const CAREER_MILESTONES: { field: CareerMilestoneField; label: string }[] = [
+  { field: 'initiated_date', label: 'Initiated' },
+  { field: 'passed_date', label: 'Passed' },
+  { field: 'raised_date', label: 'Raised' },
+  { field: 'installed_date', label: 'Installed as Master' },
+  { field: 'exalted_date', label: 'Exalted (Royal Arch)' }
+];
+
+export const APPOINTMENT_LEVEL_LABELS: Record<MasonicAppointment['level'], string> = {
+  provincial: 'Provincial',
+  grand: 'Grand Lodge'
+};
+
+export interface CareerMilestone {
+  label: string;
+  date: Date;
+}
+
+/**
+ * The milestones a member has reached, in the order they were reached
+ */
+export function getCareerMilestones(career: MasonicCareerFields): CareerMilestone[] {
+  return CAREER_MILESTONES
+    .filter(({ field }) => career[field])
+    .map(({ field, label }) => ({ label, date: new Date(`${career[field]}T00:00:00`) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Appointments with the most recent first
+ */
+export function getSortedAppointments(career: MasonicCareerFields): MasonicAppointment[] {
+  return [...(career.masonic_appointments || [])].sort((a, b) => b.year - a.year);
+}
@@ -0,0 +1,125 @@
+/**
+ * Bulk member import helpers
+ * Maps the columns of an uploaded CSV onto member fields, then checks each row
+ * before anything is sent to the import-members edge function. Rows whose
+ * email already belongs to a member are reported as duplicates and skipped.
+ */
+
+import { MemberImportRow } from '../types';
+
+export type ImportField = Exclude<keyof MemberImportRow, 'row'>;
+
+// Column index in the CSV for each member field
+export type ImportColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ValidatedImportRow {
+  member: MemberImportRow;
+  errors: string[];
+  duplicate: boolean;
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'full_name', label: 'Full name', required: true, aliases: ['name', 'full name', 'member', 'member name'] },
+  { field: 'email', label: 'Email', required: true, aliases: ['email', 'email address', 'e-mail', 'contact email'] },
+  { field: 'contact_phone', label: 'Phone', aliases: ['phone', 'telephone', 'mobile', 'contact phone'] },
+  { field: 'position', label: 'Position', aliases: ['position', 'office'] },
+  { field: 'masonic_provincial_rank', label: 'Provincial rank', aliases: ['provincial rank', 'provincial'] },
+  { field: 'grand_lodge_rank', label: 'Grand Lodge rank', aliases: ['grand lodge rank', 'grand rank'] },
+  { field: 'join_date', label: 'Join date', aliases: ['join date', 'joined', 'joining date'] },
+  { field: 'initiated_date', label: 'Initiated', aliases: ['initiated', 'initiation date', 'date of initiation'] },
+  { field: 'passed_date', label: 'Passed', aliases: ['passed', 'passing date', 'date of passing'] },
+  { field: 'raised_date', label: 'Raised', aliases: ['raised', 'raising date', 'date of raising'] }
+];
+
+const DATE_FIELDS: ImportField[] = ['join_date', 'initiated_date', 'passed_date', 'raised_date'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalise = (value: string) => value.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+
+/**
+ * Match CSV headers to member fields by name
+ */
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const normalised = headers.map(normalise);
+  const mapping: ImportColumnMapping = {};
+
+  IMPORT_FIELDS.forEach(({ field, label, aliases }) => {
+    const index = normalised.findIndex(header =>
+      header === normalise(field) || header === normalise(label) || aliases.includes(header)
+    );
+    if (index !== -1) mapping[field] = index;
+  });
+
+  return mapping;
+}
+
+/**
+ * Read a date written as YYYY-MM-DD or the UK DD/MM/YYYY.
+ * Returns null when the value is not a real date.
+ */
+export function parseImportDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const uk = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : uk
+      ? [Number(uk[3]), Number(uk[2]), Number(uk[1])]
+      : [NaN, NaN, NaN];
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Build and check a member for each data row. Rows are numbered as in a
+ * spreadsheet, with the header as row 1.
+ */
+export function validateImportRows(
+  rows: string[][],
+  mapping: ImportColumnMapping,
+  existingEmails: string[],
+  firstRow: number = 2
+): ValidatedImportRow[] {
+  const existing = new Set(existingEmails.map(email => email.trim().toLowerCase()));
+  const seen = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const member: MemberImportRow = { row: firstRow + index, email: '', full_name: '' };
+    const errors: string[] = [];
+
+    IMPORT_FIELDS.forEach(({ field }) => {
+      const column = mapping[field];
+      const value = column === undefined ? '' : (cells[column] || '').trim();
+      if (!value) return;
+
+      if (DATE_FIELDS.includes(field)) {
+        const date = parseImportDate(value);
+        if (date) {
+          member[field] = date;
+        } else {
+          errors.push(`${IMPORT_FIELDS.find(f => f.field === field)?.label} "${value}" is not a date`);
+        }
+      } else {
+        member[field] = field === 'email' ? value.toLowerCase() : value;
+      }
+    });
+
+    if (!member.full_name) errors.push('Full name is missing');
+    if (!member.email) {
+      errors.push('Email is missing');
+    } else if (!EMAIL_PATTERN.test(member.email)) {
+      errors.push(`"${member.email}" is not a valid email`);
+    } else if (seen.has(member.email)) {
+      errors.push(`Same email as row ${seen.get(member.email)}`);
+    } else {
+      seen.set(member.email, member.row);
+    }
+
+    return { member, errors, duplicate: existing.has(member.email) };
+  });
+}
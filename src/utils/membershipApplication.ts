@@ -0,0 +1,99 @@
+/**
+ * Online membership application
+ * The steps, declarations and checks for the application form. Kept in step
+ * with supabase/functions/_shared/membershipApplication.ts, which checks the
+ * application again when it is submitted.
+ */
+
+import { ApplicationAnswers, ApplicationDeclarationKey } from '../types';
+
+export type ApplicationStep = 'about' | 'sponsors' | 'declarations' | 'attachments' | 'review';
+
+export interface ApplicationDraft {
+  full_name: string;
+  email: string;
+  phone?: string | null;
+  answers: ApplicationAnswers;
+}
+
+export const APPLICATION_STEPS: { key: ApplicationStep; label: string }[] = [
+  { key: 'about', label: 'About You' },
+  { key: 'sponsors', label: 'Proposer & Seconder' },
+  { key: 'declarations', label: 'Declarations' },
+  { key: 'attachments', label: 'Attachments' },
+  { key: 'review', label: 'Review & Submit' }
+];
+
+// Every declaration must be made before the application can be submitted
+export const APPLICATION_DECLARATIONS: { key: ApplicationDeclarationKey; label: string }[] = [
+  { key: 'supreme_being', label: 'I believe in a Supreme Being.' },
+  { key: 'age', label: 'I am 21 years of age or over.' },
+  {
+    key: 'free_will',
+    label: 'I offer myself freely and voluntarily, uninfluenced by friends and without mercenary motives.'
+  },
+  {
+    key: 'conduct',
+    label: 'I have no criminal convictions and no proceedings pending against me, other than any I have disclosed below.'
+  },
+  {
+    key: 'fees',
+    label: 'I can meet the fees and subscriptions of the Lodge without detriment to myself or those who depend on me.'
+  },
+  {
+    key: 'data_consent',
+    label: 'I agree to the Lodge holding these details, and sharing them with the Province, to consider my application.'
+  }
+];
+
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const blank = (value?: string | null) => !value || !value.trim();
+
+/**
+ * Problems that stop the step being completed
+ */
+export function getStepErrors(step: ApplicationStep, draft: ApplicationDraft): string[] {
+  const { answers } = draft;
+  const errors: string[] = [];
+
+  switch (step) {
+    case 'about':
+      if (blank(draft.full_name)) errors.push('Your full name is required');
+      if (!EMAIL_PATTERN.test(draft.email.trim())) errors.push('A valid email address is required');
+      if (blank(answers.date_of_birth)) errors.push('Your date of birth is required');
+      if (blank(answers.address)) errors.push('Your address is required');
+      if (blank(answers.occupation)) errors.push('Your occupation is required');
+      break;
+    case 'sponsors':
+      if (blank(answers.proposer_name)) errors.push('Your proposer is required');
+      if (blank(answers.seconder_name)) errors.push('Your seconder is required');
+      if (!blank(answers.proposer_name) &&
+          answers.proposer_name?.trim().toLowerCase() === answers.seconder_name?.trim().toLowerCase()) {
+        errors.push('Your proposer and seconder must be different members');
+      }
+      break;
+    case 'declarations':
+      if (blank(answers.reasons)) errors.push('Please tell us why you wish to become a Freemason');
+      APPLICATION_DECLARATIONS.forEach(({ key, label }) => {
+        if (!answers.declarations?.[key]) errors.push(`Please confirm: ${label}`);
+      });
+      break;
+    case 'attachments':
+    case 'review':
+      break;
+  }
+
+  return errors;
+}
+
+/**
+ * Problems across the whole application, which must be empty to submit
+ */
+export function getApplicationErrors(draft: ApplicationDraft): string[] {
+  return APPLICATION_STEPS.flatMap(({ key }) => getStepErrors(key, draft));
+}
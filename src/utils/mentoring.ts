@@ -0,0 +1,130 @@
+/**
+ * Mentoring scheme helpers
+ * The learning modules follow the Solomon resources degree by degree. A new
+ * member is falling behind when they have no mentor, have not had a mentoring
+ * meeting recently, or have not completed the modules for a degree some time
+ * after taking it.
+ */
+
+import { differenceInCalendarDays, parseISO, subYears } from 'date-fns';
+import { MasonicCareerFields, MentoringAssignment, MentoringMeeting, MentoringMember, MentoringModuleCompletion } from '../types';
+
+export type MentoringStage = 'first' | 'second' | 'third' | 'royal_arch';
+
+export interface MentoringModule {
+  key: string;
+  title: string;
+  stage: MentoringStage;
+}
+
+export interface MenteeStatus {
+  member: MentoringMember;
+  assignment?: MentoringAssignment;
+  completedKeys: string[];
+  expectedModules: MentoringModule[];
+  overdueModules: MentoringModule[];
+  lastMeeting?: MentoringMeeting;
+  concerns: string[];
+}
+
+export const MENTORING_STAGE_LABELS: Record<MentoringStage, string> = {
+  first: 'First Degree',
+  second: 'Second Degree',
+  third: 'Third Degree',
+  royal_arch: 'Royal Arch'
+};
+
+export const MENTORING_MODULES: MentoringModule[] = [
+  { key: 'preparing_for_initiation', title: 'Preparing for Initiation', stage: 'first' },
+  { key: 'first_degree_ceremony', title: 'The First Degree Ceremony', stage: 'first' },
+  { key: 'first_degree_tracing_board', title: 'The First Degree Tracing Board', stage: 'first' },
+  { key: 'lodge_organisation', title: 'How the Lodge Works', stage: 'first' },
+  { key: 'second_degree_ceremony', title: 'The Second Degree Ceremony', stage: 'second' },
+  { key: 'second_degree_tracing_board', title: 'The Second Degree Tracing Board', stage: 'second' },
+  { key: 'third_degree_ceremony', title: 'The Third Degree Ceremony', stage: 'third' },
+  { key: 'third_degree_tracing_board', title: 'The Third Degree Tracing Board', stage: 'third' },
+  { key: 'province_and_grand_lodge', title: 'The Province and Grand Lodge', stage: 'third' },
+  { key: 'introduction_to_royal_arch', title: 'Introduction to the Royal Arch', stage: 'royal_arch' }
+];
+
+// Members initiated within this many years are expected to have a mentor
+export const NEW_MEMBER_YEARS = 3;
+// Longest expected gap between mentoring meetings
+export const MEETING_INTERVAL_DAYS = 60;
+// Time allowed to complete a degree's modules after taking the degree
+export const MODULE_GRACE_DAYS = 90;
+
+const STAGE_DATE_FIELDS: Record<MentoringStage, keyof MasonicCareerFields> = {
+  first: 'initiated_date',
+  second: 'passed_date',
+  third: 'raised_date',
+  royal_arch: 'exalted_date'
+};
+
+/**
+ * When the member reached a stage, if they have
+ */
+export function getStageDate(career: MasonicCareerFields, stage: MentoringStage): string | null {
+  const value = career[STAGE_DATE_FIELDS[stage]];
+  return typeof value === 'string' && value ? value : null;
+}
+
+/**
+ * Modules for the degrees the member has taken
+ */
+export function getExpectedModules(career: MasonicCareerFields): MentoringModule[] {
+  return MENTORING_MODULES.filter(module => getStageDate(career, module.stage) !== null);
+}
+
+export function isNewMember(member: MentoringMember, today: Date): boolean {
+  return member.status === 'active' &&
+    !!member.initiated_date &&
+    parseISO(member.initiated_date) >= subYears(today, NEW_MEMBER_YEARS);
+}
+
+/**
+ * Progress and concerns for every member in the scheme: those with a current
+ * mentor, and new members still waiting for one. Members needing attention
+ * come first.
+ */
+export function getMenteeStatuses(
+  members: MentoringMember[],
+  assignments: MentoringAssignment[],
+  completions: MentoringModuleCompletion[],
+  meetings: MentoringMeeting[],
+  today: Date = new Date()
+): MenteeStatus[] {
+  return members
+    .map(member => ({ member, assignment: assignments.find(a => a.mentee_id === member.user_id) }))
+    .filter(({ member, assignment }) => assignment ? !assignment.completed_on : isNewMember(member, today))
+    .map(({ member, assignment }) => {
+      const completedKeys = completions.filter(c => c.mentee_id === member.user_id).map(c => c.module_key);
+      const expectedModules = getExpectedModules(member);
+      const overdueModules = expectedModules.filter(module => {
+        const stageDate = getStageDate(member, module.stage);
+        return !completedKeys.includes(module.key) &&
+          stageDate !== null &&
+          differenceInCalendarDays(today, parseISO(stageDate)) > MODULE_GRACE_DAYS;
+      });
+      const lastMeeting = meetings
+        .filter(m => m.mentee_id === member.user_id)
+        .sort((a, b) => b.meeting_date.localeCompare(a.meeting_date))[0];
+
+      const concerns: string[] = [];
+      if (!assignment) {
+        concerns.push('No mentor assigned');
+      } else {
+        const since = lastMeeting?.meeting_date || assignment.started_on;
+        const days = differenceInCalendarDays(today, parseISO(since));
+        if (days > MEETING_INTERVAL_DAYS) {
+          concerns.push(lastMeeting ? `No mentoring meeting for ${days} days` : `No mentoring meeting in ${days} days since starting`);
+        }
+      }
+      if (overdueModules.length > 0) {
+        concerns.push(`${overdueModules.length} module${overdueModules.length === 1 ? '' : 's'} overdue`);
+      }
+
+      return { member, assignment, completedKeys, expectedModules, overdueModules, lastMeeting, concerns };
+    })
+    .sort((a, b) => b.concerns.length - a.concerns.length || a.member.full_name.localeCompare(b.member.full_name));
+}
@@ -0,0 +1,154 @@
+/**
+ * Officer history and progression helpers
+ * A Masonic year runs from one Installation meeting to the next and is named
+ * after the calendar year of the Installation that opens it. The progression
+ * planner moves each officer on the ladder up one office per Installation.
+ */
+
+import { OfficerAppointment } from '../types';
+import { DEFAULT_MEETING_SCHEDULE, MeetingSchedule, getLodgeMeetingsForYear } from './lodgeMeetings';
+
+export type BoardPosition = Pick<OfficerAppointment, 'position' | 'full_name'>;
+
+export interface ProjectedPosition extends BoardPosition {
+  // Moved up the ladder at this Installation
+  progressed: boolean;
+  // Named by the Secretary rather than projected
+  planned: boolean;
+}
+
+export interface OfficerBoard {
+  masonicYear: number;
+  officers: OfficerAppointment[];
+}
+
+export interface ProjectedBoard {
+  masonicYear: number;
+  positions: ProjectedPosition[];
+}
+
+// Progressive offices, from the first step to the Chair of King Solomon
+export const OFFICER_LADDER = [
+  'Junior Steward',
+  'Senior Steward',
+  'Inner Guard',
+  'Junior Deacon',
+  'Senior Deacon',
+  'Junior Warden',
+  'Senior Warden',
+  'Worshipful Master'
+];
+
+export const IMMEDIATE_PAST_MASTER = 'Immediate Past Master';
+
+// Order offices are listed in on a board or summons
+export const OFFICER_POSITION_ORDER = [
+  'Worshipful Master',
+  IMMEDIATE_PAST_MASTER,
+  'Senior Warden',
+  'Junior Warden',
+  'Chaplain',
+  'Treasurer',
+  'Secretary',
+  'Director of Ceremonies',
+  'Almoner',
+  'Charity Steward',
+  'Lodge Mentor',
+  'Senior Deacon',
+  'Junior Deacon',
+  'Assistant Director of Ceremonies',
+  'Organist',
+  'Assistant Secretary',
+  'Inner Guard',
+  'Senior Steward',
+  'Junior Steward',
+  'Tyler'
+];
+
+export function positionRank(position: string): number {
+  const index = OFFICER_POSITION_ORDER.indexOf(position);
+  return index === -1 ? OFFICER_POSITION_ORDER.length : index;
+}
+
+export function sortBoard<T extends BoardPosition>(board: T[]): T[] {
+  return [...board].sort((a, b) => positionRank(a.position) - positionRank(b.position));
+}
+
+/**
+ * e.g. 2025 -> "2025-26"
+ */
+export function formatMasonicYear(masonicYear: number): string {
+  return `${masonicYear}-${String((masonicYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * The Masonic year a date falls in, using the Installation meeting on the schedule
+ */
+export function getMasonicYear(date: Date, schedule: MeetingSchedule = DEFAULT_MEETING_SCHEDULE): number {
+  const year = date.getFullYear();
+  const installation = getLodgeMeetingsForYear(year, schedule)
+    .find(meeting => meeting.isInstallation && !meeting.isCancelled);
+
+  if (!installation) {
+    return year;
+  }
+
+  return date >= installation.date ? year : year - 1;
+}
+
+/**
+ * Group recorded appointments into boards, most recent year first
+ */
+export function groupBoardsByYear(appointments: OfficerAppointment[]): OfficerBoard[] {
+  const years = [...new Set(appointments.map(a => a.masonic_year))].sort((a, b) => b - a);
+
+  return years.map(masonicYear => ({
+    masonicYear,
+    officers: [...appointments.filter(a => a.masonic_year === masonicYear)]
+      .sort((a, b) => a.sort_order - b.sort_order || positionRank(a.position) - positionRank(b.position))
+  }));
+}
+
+/**
+ * Project the boards for the Installations after `fromYear`.
+ * Each Installation moves ladder officers up one office, the Master becomes
+ * Immediate Past Master and other offices carry over. Names the Secretary has
+ * planned for a year take precedence over the projection and progress from there.
+ */
+export function projectProgression(
+  board: BoardPosition[],
+  fromYear: number,
+  years: number,
+  planned: Record<number, Record<string, string>> = {}
+): ProjectedBoard[] {
+  const projections: ProjectedBoard[] = [];
+  let current = board.filter(officer => officer.full_name.trim());
+
+  for (let masonicYear = fromYear + 1; masonicYear <= fromYear + years; masonicYear++) {
+    const holderOf = (position: string) => current.find(officer => officer.position === position)?.full_name || '';
+    const next = new Map<string, ProjectedPosition>();
+
+    current
+      .filter(officer => !OFFICER_LADDER.includes(officer.position) && officer.position !== IMMEDIATE_PAST_MASTER)
+      .forEach(officer => next.set(officer.position, { ...officer, progressed: false, planned: false }));
+
+    next.set(IMMEDIATE_PAST_MASTER, { position: IMMEDIATE_PAST_MASTER, full_name: holderOf('Worshipful Master'), progressed: true, planned: false });
+
+    OFFICER_LADDER.forEach((position, index) => {
+      const below = index > 0 ? holderOf(OFFICER_LADDER[index - 1]) : '';
+      next.set(position, { position, full_name: below, progressed: Boolean(below), planned: false });
+    });
+
+    Object.entries(planned[masonicYear] || {}).forEach(([position, name]) => {
+      if (name.trim()) {
+        next.set(position, { position, full_name: name.trim(), progressed: false, planned: true });
+      }
+    });
+
+    const positions = sortBoard([...next.values()]);
+    projections.push({ masonicYear, positions });
+    current = positions.filter(officer => officer.full_name);
+  }
+
+  return projections;
+}
@@ -0,0 +1,30 @@
+/**
+ * Office-holder permissions
+ * Granted to individual members by admins for records only that office should
+ * see. Row level security enforces them; these labels are for the admin form.
+ */
+
+import { LodgePermission } from '../types';
+
+export const LODGE_PERMISSIONS: { permission: LodgePermission; label: string; description: string }[] = [
+  {
+    permission: 'treasurer',
+    label: 'Treasurer',
+    description: 'Subscriptions ledger, arrears report and export'
+  },
+  {
+    permission: 'mentor',
+    label: 'Lodge Mentor',
+    description: 'Mentor assignments, learning modules and mentoring meetings'
+  },
+  {
+    permission: 'almoner',
+    label: 'Almoner',
+    description: 'Welfare register of sick, bereaved and isolated brethren and widows'
+  },
+  {
+    permission: 'worshipful_master',
+    label: 'Worshipful Master',
+    description: 'Read and update the welfare register alongside the Almoner'
+  }
+];
@@ -0,0 +1,52 @@
+/**
+ * Prospect pipeline stages
+ * The six steps of "The Path to Membership" on the Join page, in order.
+ */
+
+import { Prospect, ProspectStage, ProspectStageKey } from '../types';
+
+export const PROSPECT_STAGES: { key: ProspectStageKey; label: string }[] = [
+  { key: 'initial_contact', label: 'Initial Contact' },
+  { key: 'lodge_visit', label: 'Lodge Visit' },
+  { key: 'application', label: 'Application' },
+  { key: 'interview', label: 'Interview' },
+  { key: 'ballot', label: 'Lodge Ballot' },
+  { key: 'initiation', label: 'Initiation' }
+];
+
+// Stages a prospect cannot reach, or have recorded, while their application awaits endorsement
+export const ENDORSED_STAGES: ProspectStageKey[] = ['interview', 'ballot', 'initiation'];
+
+export const PROSPECT_STATUS_LABELS: Record<Prospect['status'], string> = {
+  active: 'In progress',
+  initiated: 'Initiated',
+  withdrawn: 'Withdrawn'
+};
+
+export function getStageLabel(key: ProspectStageKey): string {
+  return PROSPECT_STAGES.find(stage => stage.key === key)?.label || key;
+}
+
+/**
+ * The stage after `key`, or null after Initiation
+ */
+export function getNextStage(key: ProspectStageKey): ProspectStageKey | null {
+  const index = PROSPECT_STAGES.findIndex(stage => stage.key === key);
+  return PROSPECT_STAGES[index + 1]?.key ?? null;
+}
+
+export function findStage(prospect: Prospect, key: ProspectStageKey): ProspectStage | undefined {
+  return prospect.stages.find(stage => stage.stage === key);
+}
+
+/**
+ * Whether a submitted online application still needs its proposer's or
+ * seconder's endorsement. Such prospects cannot move beyond the Application
+ * stage, which the database also enforces.
+ */
+export function isAwaitingEndorsement(prospect: Prospect): boolean {
+  return (prospect.applications || []).some(application =>
+    application.status === 'submitted' &&
+    (!application.proposer_endorsed_at || !application.seconder_endorsed_at)
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * Summons helpers
+ * A summons is generated from the meeting, its business and the current
+ * officers, then rendered as a printable page members can save as a PDF.
+ */
+
+import { format } from 'date-fns';
+import { Summons, SummonsCandidate } from '../types';
+
+export const CEREMONY_LABELS: Record<SummonsCandidate['ceremony'], string> = {
+  initiation: 'Initiation',
+  passing: 'Passing',
+  raising: 'Raising',
+  joining: 'Joining'
+};
+
+// The opening and closing business that appears on every summons
+export const DEFAULT_SUMMONS_AGENDA = [
+  'To open the Lodge',
+  'To confirm the minutes of the last regular meeting',
+  'To receive the Secretary\'s communications',
+  'Alms and the Charity Steward\'s report',
+  'Risings'
+];
+
+/**
+ * Title used for the summons entry in the documents list
+ */
+export function summonsDocumentTitle(summons: Pick<Summons, 'meeting_start'>): string {
+  return `Summons - ${format(new Date(summons.meeting_start), 'd MMMM yyyy')}`;
+}
+
+/**
+ * Members area page that renders a summons for printing
+ */
+export function getSummonsUrl(id: string): string {
+  return `${window.location.origin}/members/summons/${id}`;
+}
+
+/**
+ * The officer holding a position, as recorded on the summons
+ */
+export function getSummonsOfficer(summons: Pick<Summons, 'officers'>, position: string): string | undefined {
+  return summons.officers.find(officer => officer.position.toLowerCase() === position.toLowerCase())?.full_name;
+}
@@ -0,0 +1,61 @@
+/**
+ * Almoner's welfare register helpers
+ * An open case is due a visit or call when nobody has been in touch for a
+ * while, so the Almoner can see at a glance who may have been forgotten.
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { WelfareAccessLogEntry, WelfareCase, WelfareCategory, WelfareContactType, WelfareSubjectType } from '../types';
+
+// Longest expected gap between visits or calls on an open case
+export const CONTACT_INTERVAL_DAYS = 30;
+
+export const WELFARE_CATEGORY_LABELS: Record<WelfareCategory, string> = {
+  sick: 'Sick',
+  bereaved: 'Bereaved',
+  isolated: 'Isolated',
+  other: 'Other'
+};
+
+export const WELFARE_SUBJECT_LABELS: Record<WelfareSubjectType, string> = {
+  member: 'Brother',
+  widow: 'Widow',
+  family: 'Family member'
+};
+
+export const WELFARE_CONTACT_LABELS: Record<WelfareContactType, string> = {
+  visit: 'Visit',
+  call: 'Telephone call',
+  card: 'Card or letter',
+  other: 'Other'
+};
+
+export const WELFARE_ACCESS_LABELS: Record<WelfareAccessLogEntry['action'], string> = {
+  view: 'Viewed',
+  insert: 'Added',
+  update: 'Changed',
+  delete: 'Removed',
+  grant: 'Granted',
+  revoke: 'Revoked'
+};
+
+export const WELFARE_PERMISSION_LABELS: Record<NonNullable<WelfareAccessLogEntry['permission']>, string> = {
+  almoner: 'Almoner',
+  worshipful_master: 'Worshipful Master'
+};
+
+/**
+ * Days since the last visit or call, or since the case was opened if there
+ * has been none
+ */
+export function daysSinceContact(welfareCase: WelfareCase, today: Date = new Date()): number {
+  const since = welfareCase.contacts.reduce(
+    (latest, contact) => (contact.contact_date > latest ? contact.contact_date : latest),
+    welfareCase.opened_on
+  );
+  return differenceInCalendarDays(today, parseISO(since));
+}
+
+export function isContactDue(welfareCase: WelfareCase, today: Date = new Date()): boolean {
+  return welfareCase.status === 'open' && daysSinceContact(welfareCase, today) > CONTACT_INTERVAL_DAYS;
+}
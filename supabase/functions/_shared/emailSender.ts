@@ -0,0 +1,106 @@
+import nodemailer from 'npm:nodemailer@6';
+
+// Pluggable outgoing email for edge functions.
+//
+// EMAIL_TRANSPORT chooses the sender:
+//   resend  (default) - Resend API, using EMAIL_SERVICE_API_KEY
+//   smtp              - Any SMTP server, e.g. the Inbucket/Mailpit stand-in in local
+//                       development: SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_SECURE
+//   console           - Logs the message instead of sending it
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  replyTo?: string;
+}
+
+export interface EmailSender {
+  name: string;
+  send: (message: EmailMessage) => Promise<void>;
+}
+
+const fromHeader = (senderAddress: string) => `Radlett Lodge Website <${senderAddress}>`;
+
+export function createResendSender(apiKey: string, senderAddress: string): EmailSender {
+  return {
+    name: 'resend',
+    send: async ({ to, subject, text, replyTo }) => {
+      const emailResponse = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: fromHeader(senderAddress),
+          to: [to],
+          reply_to: replyTo,
+          subject,
+          text,
+        }),
+      });
+
+      if (!emailResponse.ok) {
+        const errorText = await emailResponse.text();
+        throw new Error(`Resend API returned ${emailResponse.status}: ${errorText}`);
+      }
+    }
+  };
+}
+
+export function createSmtpSender(
+  options: { host: string; port: number; secure: boolean; user?: string; password?: string },
+  senderAddress: string
+): EmailSender {
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    send: async ({ to, subject, text, replyTo }) => {
+      await transport.sendMail({ from: fromHeader(senderAddress), to, replyTo, subject, text });
+    }
+  };
+}
+
+export function createConsoleSender(): EmailSender {
+  return {
+    name: 'console',
+    send: async ({ to, subject, text }) => {
+      console.log(`Email to ${to}: ${subject}\n\n${text}`);
+    }
+  };
+}
+
+// The sender configured for this environment
+export function createEmailSender(): EmailSender {
+  const transport = Deno.env.get('EMAIL_TRANSPORT') || 'resend';
+  const senderAddress = Deno.env.get('EMAIL_SENDER_ADDRESS') || 'onboarding@resend.dev';
+
+  switch (transport) {
+    case 'smtp':
+      return createSmtpSender({
+        host: Deno.env.get('SMTP_HOST') || 'localhost',
+        port: parseInt(Deno.env.get('SMTP_PORT') || '2500', 10),
+        secure: Deno.env.get('SMTP_SECURE') === 'true',
+        user: Deno.env.get('SMTP_USER') || undefined,
+        password: Deno.env.get('SMTP_PASSWORD') || undefined,
+      }, senderAddress);
+    case 'console':
+      return createConsoleSender();
+    case 'resend': {
+      const emailServiceApiKey = Deno.env.get('EMAIL_SERVICE_API_KEY');
+      if (!emailServiceApiKey) {
+        throw new Error('EMAIL_SERVICE_API_KEY is not configured');
+      }
+      return createResendSender(emailServiceApiKey, senderAddress);
+    }
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${transport}`);
+  }
+}
@@ -0,0 +1,151 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+// Server-side copy of the lodge meeting schedule calculation in
+// src/utils/lodgeMeetings.ts, for edge functions.
+//
+// Edge functions run in UTC, so meeting times are held as "London wall clock"
+// dates: the UTC fields of the Date hold the Europe/London local time.
+
+export interface MeetingRule {
+  title: string;
+  description: string;
+  month: number;
+  week_of_month: number;
+  weekday: number;
+  start_time: string;
+  location: string;
+  is_installation: boolean;
+}
+
+export interface MeetingOverride {
+  override_type: 'cancelled' | 'moved' | 'added';
+  original_date: string | null;
+  new_date: string | null;
+  title: string | null;
+  description: string | null;
+  location: string | null;
+  reason: string | null;
+}
+
+export interface ScheduledMeeting {
+  key: string; // YYYY-MM-DD of the scheduled (or emergency) date, stable across moves
+  start: Date; // London wall clock
+  title: string;
+  description: string;
+  location: string;
+  isInstallation: boolean;
+  isCancelled: boolean;
+  isEmergency: boolean;
+  reason?: string;
+}
+
+const DEFAULT_LOCATION = 'Radlett Masonic Centre, Rose Walk, Radlett';
+
+const DEFAULT_RULES: MeetingRule[] = [
+  { title: 'Regular Lodge Meeting', description: 'February regular meeting of Radlett Lodge No. 6652. Festive Board to follow.', month: 2, week_of_month: 2, weekday: 6, start_time: '18:00', location: DEFAULT_LOCATION, is_installation: false },
+  { title: 'Regular Lodge Meeting', description: 'April regular meeting of Radlett Lodge No. 6652. Festive Board to follow.', month: 4, week_of_month: 1, weekday: 6, start_time: '18:00', location: DEFAULT_LOCATION, is_installation: false },
+  { title: 'Regular Lodge Meeting', description: 'July regular meeting of Radlett Lodge No. 6652. Festive Board to follow.', month: 7, week_of_month: 2, weekday: 6, start_time: '18:00', location: DEFAULT_LOCATION, is_installation: false },
+  { title: 'Regular Lodge Meeting', description: 'September regular meeting of Radlett Lodge No. 6652. Festive Board to follow.', month: 9, week_of_month: 1, weekday: 6, start_time: '18:00', location: DEFAULT_LOCATION, is_installation: false },
+  { title: 'Installation Meeting', description: 'Annual Installation of the Worshipful Master and Officers. Festive Board to follow.', month: 12, week_of_month: 2, weekday: 6, start_time: '18:00', location: DEFAULT_LOCATION, is_installation: true }
+];
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export const toDateKey = (date: Date) =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+// Convert an instant (e.g. a timestamptz from the database) to London wall clock
+export const toLondonWallClock = (instant: Date): Date => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone: 'Europe/London',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(instant).map(part => [part.type, part.value])
+  );
+
+  return new Date(Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+    Number(parts.hour), Number(parts.minute), Number(parts.second)
+  ));
+};
+
+const getNthWeekdayOfMonth = (year: number, month: number, weekday: number, occurrence: number) => {
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const firstOccurrence = 1 + (weekday - firstWeekday + 7) % 7;
+  return new Date(Date.UTC(year, month, firstOccurrence + (occurrence - 1) * 7));
+};
+
+export async function loadMeetingSchedule(supabase: SupabaseClient) {
+  const [{ data: rules }, { data: overrides }] = await Promise.all([
+    supabase.from('lodge_meeting_rules').select('*').eq('is_active', true),
+    supabase.from('lodge_meeting_overrides').select('*')
+  ]);
+
+  return {
+    rules: (rules && rules.length > 0 ? rules : DEFAULT_RULES) as MeetingRule[],
+    overrides: (overrides || []) as MeetingOverride[]
+  };
+}
+
+// Meetings from the start of fromYear to the end of toYear, with overrides applied
+export function getMeetingsForYears(
+  schedule: { rules: MeetingRule[]; overrides: MeetingOverride[] },
+  fromYear: number,
+  toYear: number
+): ScheduledMeeting[] {
+  const meetings: ScheduledMeeting[] = [];
+
+  for (let year = fromYear; year <= toYear; year++) {
+    for (const rule of schedule.rules) {
+      const day = getNthWeekdayOfMonth(year, rule.month - 1, rule.weekday, rule.week_of_month);
+      if (day.getUTCMonth() !== rule.month - 1) continue;
+
+      const [hours, minutes] = rule.start_time.split(':').map(part => parseInt(part, 10));
+      day.setUTCHours(isNaN(hours) ? 18 : hours, isNaN(minutes) ? 0 : minutes);
+
+      const key = toDateKey(day);
+      const override = schedule.overrides.find(o => o.override_type !== 'added' && o.original_date === key);
+
+      meetings.push({
+        key,
+        start: override?.override_type === 'moved' && override.new_date
+          ? toLondonWallClock(new Date(override.new_date))
+          : day,
+        title: (override?.override_type === 'moved' && override.title) || rule.title,
+        description: (override?.override_type === 'moved' && override.description) || rule.description,
+        location: (override?.override_type === 'moved' && override.location) || rule.location || DEFAULT_LOCATION,
+        isInstallation: rule.is_installation,
+        isCancelled: override?.override_type === 'cancelled',
+        isEmergency: false,
+        reason: override?.reason || undefined
+      });
+    }
+  }
+
+  for (const override of schedule.overrides) {
+    if (override.override_type !== 'added' || !override.new_date) continue;
+
+    const start = toLondonWallClock(new Date(override.new_date));
+    if (start.getUTCFullYear() < fromYear || start.getUTCFullYear() > toYear) continue;
+
+    meetings.push({
+      key: toDateKey(start),
+      start,
+      title: override.title || 'Emergency Meeting',
+      description: override.description || '',
+      location: override.location || DEFAULT_LOCATION,
+      isInstallation: false,
+      isCancelled: false,
+      isEmergency: true,
+      reason: override.reason || undefined
+    });
+  }
+
+  return meetings.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
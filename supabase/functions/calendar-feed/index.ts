@@ -0,0 +1,297 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { loadMeetingSchedule, getMeetingsForYears, toLondonWallClock } from '../_shared/lodgeMeetings.ts';
+
+// Calendar apps subscribe without an Authorization header, so deploy with:
+//   supabase functions deploy calendar-feed --no-verify-jwt
+//
+// GET /calendar-feed              - public meetings and events
+// GET /calendar-feed?token=<tok>  - personal feed, adds members-only events
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+const CALENDAR_DOMAIN = 'radlettlodge6652.org.uk';
+const MEETING_DURATION_MINUTES = 180;
+const EVENT_DURATION_MINUTES = 120;
+
+const LONDON_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  'TZID:Europe/London',
+  'X-LIC-LOCATION:Europe/London',
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0000',
+  'TZOFFSETTO:+0100',
+  'TZNAME:BST',
+  'DTSTART:19700329T010000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0000',
+  'TZNAME:GMT',
+  'DTSTART:19701025T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE'
+];
+
+interface FeedEntry {
+  uid: string;
+  start: Date; // London wall clock
+  durationMinutes: number;
+  title: string;
+  description: string;
+  location: string;
+  isCancelled?: boolean;
+  rrule?: string; // Recurring events are published as a series rather than expanded
+  exdates?: Date[]; // London wall clock starts of cancelled occurrences
+  recurrenceId?: Date; // London wall clock start an overridden occurrence was scheduled for
+}
+
+interface EventRow {
+  id: string;
+  title: string;
+  description: string;
+  event_date: string;
+  location: string;
+  recurrence: {
+    frequency: 'weekly' | 'monthly';
+    interval?: number;
+    week_of_month?: number;
+    until?: string;
+    count?: number;
+  } | null;
+  recurrence_exceptions: Array<{
+    date: string;
+    is_cancelled: boolean;
+    event_date?: string;
+    title?: string;
+    location?: string;
+  }> | null;
+}
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Format the UTC fields of a wall clock date as an iCalendar local date-time
+const formatWallClock = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}00`;
+
+const formatUtcStamp = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters must be folded onto continuation lines
+const foldLine = (line: string) => {
+  if (line.length <= 75) return line;
+  const chunks = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    chunks.push(` ${line.slice(i, i + 74)}`);
+  }
+  return chunks.join('\r\n');
+};
+
+const buildCalendar = (name: string, entries: FeedEntry[]) => {
+  const stamp = formatUtcStamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Radlett Lodge No. 6652//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-WR-TIMEZONE:Europe/London',
+    ...LONDON_VTIMEZONE
+  ];
+
+  for (const entry of entries) {
+    const end = new Date(entry.start.getTime() + entry.durationMinutes * 60 * 1000);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.uid}@${CALENDAR_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=Europe/London:${formatWallClock(entry.start)}`,
+      `DTEND;TZID=Europe/London:${formatWallClock(end)}`,
+      ...(entry.rrule ? [`RRULE:${entry.rrule}`] : []),
+      ...(entry.exdates || []).map(exdate => `EXDATE;TZID=Europe/London:${formatWallClock(exdate)}`),
+      ...(entry.recurrenceId ? [`RECURRENCE-ID;TZID=Europe/London:${formatWallClock(entry.recurrenceId)}`] : []),
+      `SUMMARY:${escapeText(entry.isCancelled ? `CANCELLED: ${entry.title}` : entry.title)}`,
+      `DESCRIPTION:${escapeText(entry.description)}`,
+      `LOCATION:${escapeText(entry.location)}`,
+      `STATUS:${entry.isCancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// One entry for a one-off event; a series plus its moved occurrences for a recurring one
+const eventToFeedEntries = (event: EventRow): FeedEntry[] => {
+  const start = toLondonWallClock(new Date(event.event_date));
+  const entry: FeedEntry = {
+    uid: `event-${event.id}`,
+    start,
+    durationMinutes: EVENT_DURATION_MINUTES,
+    title: event.title,
+    description: event.description || '',
+    location: event.location || ''
+  };
+
+  const rule = event.recurrence;
+  if (!rule) return [entry];
+
+  const parts = [`FREQ=${rule.frequency === 'weekly' ? 'WEEKLY' : 'MONTHLY'}`, `INTERVAL=${Math.max(1, rule.interval || 1)}`];
+  if (rule.frequency === 'monthly') {
+    parts.push(`BYDAY=${rule.week_of_month || Math.ceil(start.getUTCDate() / 7)}${RRULE_DAYS[start.getUTCDay()]}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}T235959Z`);
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+
+  // Exceptions are keyed by date; the occurrence keeps the series start time
+  const scheduledStart = (date: string) => {
+    const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+    return new Date(Date.UTC(year, month - 1, day, start.getUTCHours(), start.getUTCMinutes()));
+  };
+  const exceptions = event.recurrence_exceptions || [];
+
+  return [
+    {
+      ...entry,
+      rrule: parts.join(';'),
+      exdates: exceptions.filter(e => e.is_cancelled).map(e => scheduledStart(e.date))
+    },
+    ...exceptions.filter(e => !e.is_cancelled).map(e => ({
+      ...entry,
+      start: e.event_date ? toLondonWallClock(new Date(e.event_date)) : scheduledStart(e.date),
+      title: e.title || event.title,
+      location: e.location || event.location || '',
+      recurrenceId: scheduledStart(e.date)
+    }))
+  ];
+};
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only allow GET requests
+    if (req.method !== 'GET') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        {
+          status: 405,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Use the service role so the token lookup and members-only events bypass RLS
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = new URL(req.url).searchParams.get('token');
+    let includeMembersOnly = false;
+
+    if (token) {
+      const { data: feedToken } = await supabaseAdmin
+        .from('calendar_feed_tokens')
+        .select('user_id')
+        .eq('token', token)
+        .maybeSingle();
+
+      const { data: profile } = feedToken
+        ? await supabaseAdmin
+            .from('member_profiles')
+            .select('status')
+            .eq('user_id', feedToken.user_id)
+            .maybeSingle()
+        : { data: null };
+
+      if (!profile || profile.status !== 'active') {
+        return new Response(
+          JSON.stringify({ error: 'Invalid or revoked calendar token' }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      includeMembersOnly = true;
+      await supabaseAdmin
+        .from('calendar_feed_tokens')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('token', token);
+    }
+
+    // Last year's meetings stay in the feed so recent entries don't vanish from calendars
+    const currentYear = new Date().getUTCFullYear();
+    const schedule = await loadMeetingSchedule(supabaseAdmin);
+    const meetings = getMeetingsForYears(schedule, currentYear - 1, currentYear + 1);
+
+    let eventsQuery = supabaseAdmin
+      .from('events')
+      .select('*')
+      .or(`event_date.gte.${currentYear - 1}-01-01,recurrence.not.is.null`)
+      .order('event_date', { ascending: true });
+
+    if (!includeMembersOnly) {
+      eventsQuery = eventsQuery.eq('is_members_only', false);
+    }
+
+    const { data: events, error: eventsError } = await eventsQuery;
+    if (eventsError) {
+      throw new Error(`Failed to fetch events: ${eventsError.message}`);
+    }
+
+    const entries: FeedEntry[] = [
+      ...meetings.map(meeting => ({
+        uid: `${meeting.isEmergency ? 'emergency-meeting' : 'lodge-meeting'}-${meeting.key}`,
+        start: meeting.start,
+        durationMinutes: MEETING_DURATION_MINUTES,
+        title: meeting.title,
+        description: [meeting.description, meeting.reason].filter(Boolean).join('\n\n'),
+        location: meeting.location,
+        isCancelled: meeting.isCancelled
+      })),
+      ...((events || []) as EventRow[]).flatMap(eventToFeedEntries)
+    ];
+
+    const calendarName = includeMembersOnly ? 'Radlett Lodge No. 6652 (Members)' : 'Radlett Lodge No. 6652';
+
+    return new Response(buildCalendar(calendarName, entries), {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="radlett-lodge.ics"',
+        'Cache-Control': includeMembersOnly ? 'private, max-age=3600' : 'public, max-age=3600'
+      }
+    });
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to build calendar feed' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,368 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+// POST { action: 'register', event_id, name, email, phone?, seats, notes? } - public, members-only events need a signed-in member
+// POST { action: 'cancel', cancel_token } - public, from the link in the confirmation email
+// POST { action: 'cancel', registration_id } - the member who registered, or an admin
+// POST { action: 'notify', event_id } - admins only, emails anyone promoted from the waitlist who has not been told yet
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface RegisterData {
+  event_id: string;
+  name: string;
+  email: string;
+  phone?: string;
+  seats?: number;
+  notes?: string;
+}
+
+interface EventRow {
+  id: string;
+  title: string;
+  event_date: string;
+  location: string;
+  is_members_only: boolean;
+}
+
+interface RegistrationRow {
+  id: string;
+  event_id: string;
+  user_id: string | null;
+  name: string;
+  email: string;
+  seats: number;
+  status: 'confirmed' | 'waitlisted' | 'cancelled';
+  cancel_token: string;
+}
+
+const MAX_SEATS = 10;
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const formatEventDate = (value: string) =>
+  new Date(value).toLocaleString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Europe/London'
+  });
+
+const cancelLink = (registration: RegistrationRow) =>
+  `${Deno.env.get('SITE_URL') || 'https://radlettlodge6652.org.uk'}/events?cancel_registration=${registration.cancel_token}`;
+
+const placesText = (seats: number) => seats === 1 ? '1 place' : `${seats} places`;
+
+async function sendEmail(to: string, subject: string, text: string, replyTo?: string) {
+  const emailServiceApiKey = Deno.env.get('EMAIL_SERVICE_API_KEY');
+  const senderAddress = Deno.env.get('EMAIL_SENDER_ADDRESS') || 'onboarding@resend.dev';
+
+  if (!emailServiceApiKey) {
+    throw new Error('EMAIL_SERVICE_API_KEY is not configured');
+  }
+
+  const emailResponse = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${emailServiceApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: `Radlett Lodge Website <${senderAddress}>`,
+      to: [to],
+      reply_to: replyTo,
+      subject,
+      text,
+    }),
+  });
+
+  if (!emailResponse.ok) {
+    const errorText = await emailResponse.text();
+    throw new Error(`Resend API returned ${emailResponse.status}: ${errorText}`);
+  }
+}
+
+// The signed-in user and their profile, or nulls for guests using the anon key
+async function getRequestMember(req: Request) {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return { user: null, profile: null };
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+    }
+  );
+
+  const { data: { user } } = await supabaseClient.auth.getUser();
+  if (!user) return { user: null, profile: null };
+
+  const { data: profile } = await supabaseClient
+    .from('member_profiles')
+    .select('role, status')
+    .eq('user_id', user.id)
+    .single();
+
+  return { user, profile: profile as { role: string; status: string } | null };
+}
+
+// Email everyone moved off the waitlist for an event who has not been told yet
+async function notifyPromotions(supabaseAdmin: SupabaseClient, event: EventRow, replyTo: string): Promise<number> {
+  const { data: promoted, error } = await supabaseAdmin
+    .from('event_registrations')
+    .select('*')
+    .eq('event_id', event.id)
+    .eq('status', 'confirmed')
+    .not('promoted_at', 'is', null)
+    .is('promotion_notified_at', null);
+
+  if (error) {
+    console.error('Error loading promoted registrations:', error);
+    return 0;
+  }
+
+  let notified = 0;
+  for (const registration of (promoted || []) as RegistrationRow[]) {
+    try {
+      await sendEmail(
+        registration.email,
+        `A place has come up: ${event.title}`,
+        `
+Dear ${registration.name},
+
+Good news - a place has become available and your registration for ${event.title} on ${formatEventDate(event.event_date)} is now confirmed (${placesText(registration.seats)}).
+
+Venue: ${event.location}
+
+If you can no longer attend, please cancel so the place can go to someone else:
+${cancelLink(registration)}
+
+Fraternal regards,
+Radlett Lodge No. 6652
+        `.trim(),
+        replyTo
+      );
+
+      await supabaseAdmin
+        .from('event_registrations')
+        .update({ promotion_notified_at: new Date().toISOString() })
+        .eq('id', registration.id);
+      notified++;
+    } catch (emailError) {
+      console.error('Error sending promotion email:', emailError);
+    }
+  }
+
+  return notified;
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only allow POST requests
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const secretaryAddress = Deno.env.get('EMAIL_RECIPIENT_ADDRESS') || 'radlettlodge6652@gmail.com';
+
+    const body = await req.json();
+
+    if (body.action === 'register') {
+      const formData = body as RegisterData;
+      const seats = Number(formData.seats || 1);
+
+      // Validate required fields
+      if (!formData.event_id || !formData.name || !formData.email) {
+        return jsonResponse({ error: 'Missing required fields' }, 400);
+      }
+      if (!Number.isInteger(seats) || seats < 1 || seats > MAX_SEATS) {
+        return jsonResponse({ error: `Please request between 1 and ${MAX_SEATS} places` }, 400);
+      }
+
+      const { data: event } = await supabaseAdmin
+        .from('events')
+        .select('id, title, event_date, location, is_members_only')
+        .eq('id', formData.event_id)
+        .single();
+
+      if (!event) {
+        return jsonResponse({ error: 'Event not found' }, 404);
+      }
+
+      const { user, profile } = await getRequestMember(req);
+      if (event.is_members_only && profile?.status !== 'active') {
+        return jsonResponse({ error: 'Please sign in as a member to register for this event' }, 403);
+      }
+
+      const { data: registration, error: registerError } = await supabaseAdmin
+        .rpc('register_for_event', {
+          p_event_id: event.id,
+          p_user_id: user?.id ?? null,
+          p_name: formData.name,
+          p_email: formData.email.trim(),
+          p_phone: formData.phone || null,
+          p_seats: seats,
+          p_notes: formData.notes || null
+        })
+        .single();
+
+      if (registerError || !registration) {
+        console.error('Error registering for event:', registerError);
+        if (registerError?.code === '23505') {
+          return jsonResponse({ error: 'This email address is already registered for this event' }, 409);
+        }
+        if (registerError?.code === 'P0001') {
+          return jsonResponse({ error: registerError.message }, 400);
+        }
+        return jsonResponse({ error: 'Failed to save registration' }, 500);
+      }
+
+      const saved = registration as RegistrationRow;
+      const eventDate = formatEventDate(event.event_date);
+
+      // The registration is saved, so email failures are logged rather than returned
+      try {
+        await sendEmail(
+          saved.email,
+          saved.status === 'confirmed'
+            ? `Registration confirmed: ${event.title}`
+            : `You are on the waitlist: ${event.title}`,
+          saved.status === 'confirmed'
+            ? `
+Dear ${saved.name},
+
+Your registration for ${event.title} on ${eventDate} is confirmed (${placesText(saved.seats)}).
+
+Venue: ${event.location}
+
+If you can no longer attend, please cancel so the place can go to someone else:
+${cancelLink(saved)}
+
+Fraternal regards,
+Radlett Lodge No. 6652
+            `.trim()
+            : `
+Dear ${saved.name},
+
+${event.title} on ${eventDate} is currently full, so we have added you to the waitlist (${placesText(saved.seats)}).
+
+If a place becomes available you will be confirmed automatically and we will email you.
+
+To leave the waitlist:
+${cancelLink(saved)}
+
+Fraternal regards,
+Radlett Lodge No. 6652
+            `.trim(),
+          secretaryAddress
+        );
+      } catch (emailError) {
+        console.error('Error sending registration email:', emailError);
+      }
+
+      return jsonResponse({ success: true, id: saved.id, status: saved.status });
+    }
+
+    if (body.action === 'cancel') {
+      let query = supabaseAdmin.from('event_registrations').select('*');
+
+      if (body.cancel_token) {
+        query = query.eq('cancel_token', body.cancel_token);
+      } else if (body.registration_id) {
+        query = query.eq('id', body.registration_id);
+      } else {
+        return jsonResponse({ error: 'cancel_token or registration_id is required' }, 400);
+      }
+
+      const { data: registration } = await query.single();
+      if (!registration) {
+        return jsonResponse({ error: 'Registration not found' }, 404);
+      }
+
+      // Without the emailed token, only the member who registered or an admin may cancel
+      if (!body.cancel_token) {
+        const { user, profile } = await getRequestMember(req);
+        if (!user || (registration.user_id !== user.id && profile?.role !== 'admin')) {
+          return jsonResponse({ error: 'Insufficient permissions' }, 403);
+        }
+      }
+
+      if (registration.status === 'cancelled') {
+        return jsonResponse({ success: true, registration, promoted: 0 });
+      }
+
+      // Cancelling a confirmed place promotes from the waitlist in the database
+      const { data: cancelled, error: cancelError } = await supabaseAdmin
+        .from('event_registrations')
+        .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+        .eq('id', registration.id)
+        .select()
+        .single();
+
+      if (cancelError) {
+        console.error('Error cancelling registration:', cancelError);
+        return jsonResponse({ error: 'Failed to cancel registration' }, 500);
+      }
+
+      const { data: event } = await supabaseAdmin
+        .from('events')
+        .select('id, title, event_date, location, is_members_only')
+        .eq('id', registration.event_id)
+        .single();
+
+      const promoted = event ? await notifyPromotions(supabaseAdmin, event as EventRow, secretaryAddress) : 0;
+
+      return jsonResponse({ success: true, registration: cancelled, promoted });
+    }
+
+    if (body.action === 'notify') {
+      const { profile } = await getRequestMember(req);
+      if (profile?.role !== 'admin') {
+        return jsonResponse({ error: 'Insufficient permissions' }, 403);
+      }
+
+      const { data: event } = await supabaseAdmin
+        .from('events')
+        .select('id, title, event_date, location, is_members_only')
+        .eq('id', body.event_id)
+        .single();
+
+      if (!event) {
+        return jsonResponse({ error: 'Event not found' }, 404);
+      }
+
+      const promoted = await notifyPromotions(supabaseAdmin, event as EventRow, secretaryAddress);
+      return jsonResponse({ success: true, promoted });
+    }
+
+    return jsonResponse({ error: 'Unknown action' }, 400);
+  } catch (error) {
+    console.error('Error in event-registration function:', error);
+    return jsonResponse({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
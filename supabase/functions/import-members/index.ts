@@ -0,0 +1,212 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Bulk member import for admins, called from the CSV import on the Admin page.
+//
+// POST { members: MemberImportRow[], dry_run: true }  - report what would be created
+// POST { members: MemberImportRow[] }                 - create an account and profile for each new member
+//
+// Members are matched to existing profiles by email (contact_email) and to
+// existing logins, and duplicates are skipped. Each new account is created by
+// sending the Supabase invitation email, since an imported member has no
+// password and could not otherwise sign in; the member chooses one when they
+// follow the link.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface MemberImportRow {
+  row: number;
+  email: string;
+  full_name: string;
+  position?: string;
+  contact_phone?: string;
+  masonic_provincial_rank?: string;
+  grand_lodge_rank?: string;
+  join_date?: string;
+  initiated_date?: string;
+  passed_date?: string;
+  raised_date?: string;
+}
+
+interface ImportRequest {
+  members: MemberImportRow[];
+  dry_run?: boolean;
+}
+
+interface ImportResult {
+  row: number;
+  email: string;
+  status: 'created' | 'would_create' | 'duplicate' | 'error';
+  message?: string;
+  invited?: boolean;
+}
+
+const MAX_MEMBERS = 500;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PROFILE_FIELDS = [
+  'position', 'contact_phone', 'masonic_provincial_rank', 'grand_lodge_rank',
+  'join_date', 'initiated_date', 'passed_date', 'raised_date'
+] as const;
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const validationError = (member: MemberImportRow): string | null => {
+  if (!member.full_name?.trim()) return 'Full name is missing';
+  if (!EMAIL_PATTERN.test(member.email || '')) return 'Email is not valid';
+  const badDate = (['join_date', 'initiated_date', 'passed_date', 'raised_date'] as const)
+    .find(field => member[field] && !DATE_PATTERN.test(member[field] as string));
+  return badDate ? `${badDate} is not a date` : null;
+};
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    // Service role client for creating accounts and profiles
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    // Regular client to verify the requesting user is an admin
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      console.error('Auth error:', authError);
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { data: profile, error: profileError } = await supabaseClient
+      .from('member_profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .single();
+
+    if (profileError || !profile || profile.role !== 'admin') {
+      console.error('Profile error:', profileError);
+      return jsonResponse({ error: 'Insufficient permissions' }, 403);
+    }
+
+    const { members, dry_run = false }: ImportRequest = await req.json();
+
+    if (!Array.isArray(members) || members.length === 0) {
+      return jsonResponse({ error: 'members is required' }, 400);
+    }
+    if (members.length > MAX_MEMBERS) {
+      return jsonResponse({ error: `Import at most ${MAX_MEMBERS} members at a time` }, 400);
+    }
+
+    // Emails already in use, from profiles and from logins
+    const { data: profiles, error: profilesError } = await supabaseAdmin
+      .from('member_profiles')
+      .select('contact_email');
+    if (profilesError) throw profilesError;
+
+    const profileEmails = new Set(
+      (profiles || []).map(p => (p.contact_email || '').trim().toLowerCase()).filter(Boolean)
+    );
+    const accountEmails = new Set<string>();
+    for (let page = 1; ; page++) {
+      const { data, error } = await supabaseAdmin.auth.admin.listUsers({ page, perPage: 1000 });
+      if (error) throw error;
+      data.users.forEach(account => account.email && accountEmails.add(account.email.toLowerCase()));
+      if (data.users.length < 1000) break;
+    }
+
+    const siteUrl = Deno.env.get('SITE_URL') || 'https://radlettlodge6652.org.uk';
+    const results: ImportResult[] = [];
+
+    // One at a time, so a failure part way through leaves a clear report
+    for (const member of members) {
+      const email = (member.email || '').trim().toLowerCase();
+      const invalid = validationError({ ...member, email });
+
+      if (invalid) {
+        results.push({ row: member.row, email, status: 'error', message: invalid });
+        continue;
+      }
+      if (profileEmails.has(email)) {
+        results.push({ row: member.row, email, status: 'duplicate', message: 'A member profile already uses this email' });
+        continue;
+      }
+      if (accountEmails.has(email)) {
+        results.push({ row: member.row, email, status: 'duplicate', message: 'An account already exists for this email' });
+        continue;
+      }
+
+      // Later rows with the same email count as duplicates
+      profileEmails.add(email);
+
+      if (dry_run) {
+        results.push({ row: member.row, email, status: 'would_create', invited: true });
+        continue;
+      }
+
+      const { data: created, error: createError } = await supabaseAdmin.auth.admin.inviteUserByEmail(email, {
+        data: { full_name: member.full_name.trim() },
+        redirectTo: `${siteUrl}/members`
+      });
+
+      if (createError || !created.user) {
+        console.error('Error creating account:', email, createError);
+        results.push({ row: member.row, email, status: 'error', message: createError?.message || 'Failed to invite member' });
+        continue;
+      }
+
+      const profileData: Record<string, unknown> = {
+        user_id: created.user.id,
+        full_name: member.full_name.trim(),
+        contact_email: email,
+        role: 'member',
+        status: 'active',
+        needs_password_reset: true
+      };
+      PROFILE_FIELDS.forEach(field => {
+        const value = member[field]?.trim();
+        if (value) profileData[field] = value;
+      });
+
+      const { error: insertError } = await supabaseAdmin.from('member_profiles').insert(profileData);
+
+      if (insertError) {
+        console.error('Error creating profile:', email, insertError);
+        // Remove the account so the row can be imported again once fixed
+        await supabaseAdmin.auth.admin.deleteUser(created.user.id);
+        results.push({ row: member.row, email, status: 'error', message: insertError.message });
+        continue;
+      }
+
+      results.push({ row: member.row, email, status: 'created', invited: true });
+    }
+
+    return jsonResponse({ dry_run, results });
+  } catch (error) {
+    console.error('Unexpected error in import-members function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,614 @@
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { createEmailSender } from '../_shared/emailSender.ts';
+import {
+  ApplicationAnswers,
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS,
+  getApplicationErrors
+} from '../_shared/membershipApplication.ts';
+
+// The online membership application. Applicants are not signed in: a draft is
+// identified by the secret resume token in the link emailed when it is first
+// saved, so they can save and come back to it.
+//
+// POST { action: 'save', token?, draft, attachments?, send_link? } - create or update a draft; the
+//                                                                     link is emailed at most hourly
+// POST { action: 'load', token }                                   - fetch a draft
+// POST { action: 'upload_url', token, file_name, content_type, size } - signed upload for an attachment
+// POST { action: 'submit', token, draft, attachments }             - submit, add to the prospect
+//                                                                     pipeline and email the Secretary
+// POST { action: 'notify_sponsors', application_id }               - admins only, email the proposer and
+//                                                                     seconder who have not yet endorsed it
+//
+// On submission the proposer and seconder named by the applicant are matched
+// to active members by name and asked to endorse the application in the
+// members area.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const BUCKET = 'membership-applications';
+// Everything but the resume token, which is only ever sent by email
+const APPLICATION_COLUMNS = 'id, prospect_id, full_name, email, phone, answers, attachments, status, submitted_at, created_at, updated_at';
+const STAGE_ORDER = ['initial_contact', 'lodge_visit', 'application', 'interview', 'ballot', 'initiation'];
+// Limits on the public actions, so the form cannot be used to send mail to
+// any address or to fill the attachments bucket
+const DRAFTS_PER_EMAIL_PER_DAY = 3;
+const DRAFTS_PER_IP_PER_DAY = 10;
+const LINK_RESEND_MINUTES = 60;
+// Leaves room for attachments to be removed and replaced
+const MAX_UPLOADS_ISSUED = MAX_ATTACHMENTS * 3;
+// Honorifics ignored when matching the names given for the proposer and seconder
+const SALUTATIONS = new Set(['bro', 'brother', 'w', 'v', 'r', 'm', 'wbro', 'vwbro', 'rwbro', 'mr', 'dr']);
+
+interface DraftData {
+  full_name: string;
+  email: string;
+  phone?: string | null;
+  answers: ApplicationAnswers;
+}
+
+interface Attachment {
+  path: string;
+  name: string;
+  size: number;
+  content_type: string;
+}
+
+interface ApplicationRow extends DraftData {
+  id: string;
+  prospect_id: string | null;
+  attachments: Attachment[];
+  status: 'draft' | 'submitted';
+}
+
+interface SponsorRow {
+  full_name: string;
+  answers: ApplicationAnswers;
+  proposer_id: string | null;
+  seconder_id: string | null;
+  proposer_endorsed_at: string | null;
+  seconder_endorsed_at: string | null;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const siteUrl = () => Deno.env.get('SITE_URL') || 'https://radlettlodge6652.org.uk';
+
+const resumeLink = (token: string) => `${siteUrl()}/apply?token=${token}`;
+
+const clientIp = (req: Request) => req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null;
+
+const generateToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const cleanDraft = (draft: DraftData): DraftData => ({
+  full_name: (draft.full_name || '').trim(),
+  email: (draft.email || '').trim().toLowerCase(),
+  phone: draft.phone?.trim() || null,
+  answers: draft.answers && typeof draft.answers === 'object' ? draft.answers : {}
+});
+
+async function findDraft(supabaseAdmin: SupabaseClient, token: unknown): Promise<ApplicationRow | null> {
+  if (typeof token !== 'string' || !token) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('membership_applications')
+    .select(APPLICATION_COLUMNS)
+    .eq('resume_token', token)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load application: ${error.message}`);
+  }
+  return data as ApplicationRow | null;
+}
+
+// Attachments must have been uploaded for this application; any other file
+// in its folder, whether removed by the applicant or uploaded and never
+// saved, is deleted from storage
+async function reconcileAttachments(
+  supabaseAdmin: SupabaseClient,
+  application: ApplicationRow,
+  attachments: Attachment[] | undefined
+): Promise<Attachment[]> {
+  if (!attachments) return application.attachments;
+
+  const kept = attachments
+    .filter(a => typeof a.path === 'string' && a.path.startsWith(`${application.id}/`))
+    .slice(0, MAX_ATTACHMENTS);
+
+  const { data: stored, error: listError } = await supabaseAdmin.storage
+    .from(BUCKET)
+    .list(application.id, { limit: MAX_UPLOADS_ISSUED + MAX_ATTACHMENTS });
+  if (listError) {
+    console.error('Error listing application attachments:', listError);
+    return kept;
+  }
+
+  const removed = (stored || [])
+    .map(file => `${application.id}/${file.name}`)
+    .filter(path => !kept.some(k => k.path === path));
+
+  if (removed.length > 0) {
+    const { error } = await supabaseAdmin.storage.from(BUCKET).remove(removed);
+    if (error) console.error('Error removing application attachments:', error);
+  }
+  return kept;
+}
+
+// Drafts started in the last day by an email address or network address
+async function countRecentDrafts(supabaseAdmin: SupabaseClient, column: 'email' | 'created_ip', value: string) {
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+  const { count, error } = await supabaseAdmin
+    .from('membership_applications')
+    .select('id', { count: 'exact', head: true })
+    .eq(column, value)
+    .gte('created_at', since);
+
+  if (error) throw error;
+  return count ?? 0;
+}
+
+// Records that the resume link is being emailed, unless it already was in the
+// last LINK_RESEND_MINUTES; returns whether it should be sent
+async function claimLinkSend(supabaseAdmin: SupabaseClient, applicationId: string): Promise<boolean> {
+  const since = new Date(Date.now() - LINK_RESEND_MINUTES * 60 * 1000).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('membership_applications')
+    .update({ link_sent_at: new Date().toISOString() })
+    .eq('id', applicationId)
+    .or(`link_sent_at.is.null,link_sent_at.lt.${since}`)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+// Counts a signed upload against the draft; returns false once
+// MAX_UPLOADS_ISSUED have been handed out
+async function claimUpload(supabaseAdmin: SupabaseClient, applicationId: string): Promise<boolean> {
+  const { data: current, error } = await supabaseAdmin
+    .from('membership_applications')
+    .select('uploads_issued')
+    .eq('id', applicationId)
+    .single();
+
+  if (error) throw error;
+  if (current.uploads_issued >= MAX_UPLOADS_ISSUED) return false;
+
+  // Only counts if no other upload was claimed in the meantime
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('membership_applications')
+    .update({ uploads_issued: current.uploads_issued + 1 })
+    .eq('id', applicationId)
+    .eq('uploads_issued', current.uploads_issued)
+    .select('id');
+
+  if (claimError) throw claimError;
+  return (claimed || []).length > 0;
+}
+
+async function sendResumeLink(application: Pick<ApplicationRow, 'full_name' | 'email'>, token: string) {
+  await createEmailSender().send({
+    to: application.email,
+    subject: 'Your application to Radlett Lodge No. 6652',
+    text: `
+Dear ${application.full_name},
+
+Thank you for starting your application to join Radlett Lodge No. 6652. Your answers have been saved, and you can return to your application at any time using this link:
+
+${resumeLink(token)}
+
+Please keep this link private - anyone with it can view and change your application.
+
+Radlett Lodge No. 6652
+    `.trim()
+  });
+}
+
+// e.g. "W.Bro. John Smith" -> "john smith"
+const normaliseName = (name: string) => {
+  const words = name.toLowerCase().replace(/[.,]/g, ' ').split(/\s+/).filter(Boolean);
+  while (words.length > 1 && SALUTATIONS.has(words[0])) words.shift();
+  return words.join(' ');
+};
+
+// The active members named as proposer and seconder, where exactly one member matches each name
+async function matchSponsors(supabaseAdmin: SupabaseClient, answers: ApplicationAnswers) {
+  const { data: members, error } = await supabaseAdmin
+    .from('member_profiles')
+    .select('user_id, full_name')
+    .eq('status', 'active');
+  if (error) throw error;
+
+  const match = (name?: string) => {
+    if (!name) return null;
+    const matches = (members || []).filter(m => normaliseName(m.full_name) === normaliseName(name));
+    return matches.length === 1 ? matches[0].user_id as string : null;
+  };
+
+  const proposerId = match(answers.proposer_name);
+  const seconderId = match(answers.seconder_name);
+  return { proposer_id: proposerId, seconder_id: seconderId !== proposerId ? seconderId : null };
+}
+
+// Emails the named members who have not yet endorsed the application; returns how many were sent
+async function notifySponsors(supabaseAdmin: SupabaseClient, applicationId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('membership_applications')
+    .select('full_name, answers, proposer_id, seconder_id, proposer_endorsed_at, seconder_endorsed_at')
+    .eq('id', applicationId)
+    .single();
+  if (error) throw error;
+
+  const application = data as SponsorRow;
+  const pending = [
+    { role: 'proposer', userId: application.proposer_id, endorsed: application.proposer_endorsed_at },
+    { role: 'seconder', userId: application.seconder_id, endorsed: application.seconder_endorsed_at }
+  ].filter(sponsor => sponsor.userId && !sponsor.endorsed);
+
+  const sender = createEmailSender();
+  let sent = 0;
+
+  for (const sponsor of pending) {
+    const { data: member } = await supabaseAdmin
+      .from('member_profiles')
+      .select('full_name, contact_email')
+      .eq('user_id', sponsor.userId)
+      .single();
+
+    let email = member?.contact_email as string | null;
+    if (!email) {
+      const { data: authUser } = await supabaseAdmin.auth.admin.getUserById(sponsor.userId as string);
+      email = authUser?.user?.email ?? null;
+    }
+    if (!email) continue;
+
+    await sender.send({
+      to: email,
+      subject: `Please endorse the application of ${application.full_name}`,
+      text: `
+Dear ${member?.full_name || 'Brother'},
+
+${application.full_name} has applied to join Radlett Lodge No. 6652 and has named you as their ${sponsor.role}.
+
+Please sign in to the members area to review the application and confirm that you support it:
+${siteUrl()}/members/endorsements
+
+The application cannot progress to interview until both the proposer and seconder have endorsed it.
+
+Radlett Lodge No. 6652
+      `.trim()
+    });
+    sent++;
+  }
+
+  if (sent > 0) {
+    await supabaseAdmin
+      .from('membership_applications')
+      .update({ sponsors_notified_at: new Date().toISOString() })
+      .eq('id', applicationId);
+  }
+  return sent;
+}
+
+// Links the application to the applicant's prospect record, creating one if
+// they did not enquire first, and moves it on to the Application stage
+async function addToPipeline(supabaseAdmin: SupabaseClient, application: ApplicationRow): Promise<string> {
+  const today = new Date().toISOString().split('T')[0];
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from('prospects')
+    .select('id, current_stage')
+    .eq('email', application.email)
+    .eq('status', 'active')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (existingError) throw existingError;
+
+  let prospect = existing;
+  if (!prospect) {
+    const { data: created, error: createError } = await supabaseAdmin
+      .from('prospects')
+      .insert({ name: application.full_name, email: application.email, phone: application.phone, source: 'application' })
+      .select('id, current_stage')
+      .single();
+    if (createError) throw createError;
+    prospect = created;
+  }
+
+  if (STAGE_ORDER.indexOf(prospect.current_stage) < STAGE_ORDER.indexOf('application')) {
+    const { error: completeError } = await supabaseAdmin
+      .from('prospect_stages')
+      .update({ completed_on: today })
+      .eq('prospect_id', prospect.id)
+      .eq('stage', prospect.current_stage)
+      .is('completed_on', null);
+    if (completeError) throw completeError;
+
+    const { error: updateError } = await supabaseAdmin
+      .from('prospects')
+      .update({ current_stage: 'application' })
+      .eq('id', prospect.id);
+    if (updateError) throw updateError;
+  }
+
+  const { error: stageError } = await supabaseAdmin
+    .from('prospect_stages')
+    .upsert(
+      { prospect_id: prospect.id, stage: 'application', started_on: today, notes: 'Online application submitted' },
+      { onConflict: 'prospect_id,stage', ignoreDuplicates: true }
+    );
+  if (stageError) throw stageError;
+
+  return prospect.id;
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body = await req.json();
+
+    if (body.action === 'load') {
+      const application = await findDraft(supabaseAdmin, body.token);
+      if (!application) {
+        return jsonResponse({ error: 'Application not found. The link may be incomplete.' }, 404);
+      }
+      return jsonResponse({ success: true, application });
+    }
+
+    if (body.action === 'notify_sponsors') {
+      // Get the authorization header
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader) {
+        return jsonResponse({ error: 'Missing authorization header' }, 401);
+      }
+
+      // Create regular client to verify the requesting user is an admin
+      const supabaseClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        {
+          global: {
+            headers: { Authorization: authHeader },
+          },
+        }
+      );
+
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+      if (authError || !user) {
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+      }
+
+      const { data: profile } = await supabaseClient
+        .from('member_profiles')
+        .select('role')
+        .eq('user_id', user.id)
+        .single();
+
+      if (!profile || profile.role !== 'admin') {
+        return jsonResponse({ error: 'Insufficient permissions' }, 403);
+      }
+
+      const sent = await notifySponsors(supabaseAdmin, body.application_id);
+      return jsonResponse({ success: true, sent });
+    }
+
+    if (body.action === 'save' && !body.token) {
+      const draft = cleanDraft(body.draft || {});
+      if (!draft.full_name || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(draft.email)) {
+        return jsonResponse({ error: 'Your name and email address are needed to save your application' }, 400);
+      }
+
+      const ip = clientIp(req);
+      if (await countRecentDrafts(supabaseAdmin, 'email', draft.email) >= DRAFTS_PER_EMAIL_PER_DAY ||
+          (ip && await countRecentDrafts(supabaseAdmin, 'created_ip', ip) >= DRAFTS_PER_IP_PER_DAY)) {
+        return jsonResponse({
+          error: 'Too many applications have been started today. Please use the link already emailed to you, or try again tomorrow.'
+        }, 429);
+      }
+
+      const token = generateToken();
+      const { data: application, error: insertError } = await supabaseAdmin
+        .from('membership_applications')
+        .insert({ ...draft, resume_token: token, created_ip: ip, link_sent_at: new Date().toISOString() })
+        .select(APPLICATION_COLUMNS)
+        .single();
+
+      if (insertError) {
+        console.error('Error creating application:', insertError);
+        return jsonResponse({ error: 'Failed to save your application' }, 500);
+      }
+
+      // The draft is saved, so an email failure is logged rather than returned
+      try {
+        await sendResumeLink(draft, token);
+      } catch (emailError) {
+        console.error('Error sending application resume link:', emailError);
+      }
+
+      return jsonResponse({ success: true, token, application });
+    }
+
+    if (body.action !== 'save' && body.action !== 'upload_url' && body.action !== 'submit') {
+      return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+
+    const application = await findDraft(supabaseAdmin, body.token);
+    if (!application) {
+      return jsonResponse({ error: 'Application not found. The link may be incomplete.' }, 404);
+    }
+    if (application.status !== 'draft') {
+      return jsonResponse({ error: 'This application has already been submitted' }, 409);
+    }
+
+    if (body.action === 'upload_url') {
+      const { file_name: fileName, content_type: contentType, size } = body;
+
+      if (!ATTACHMENT_TYPES.includes(contentType)) {
+        return jsonResponse({ error: 'Attachments must be PDFs, JPEGs or PNGs' }, 400);
+      }
+      if (typeof size !== 'number' || size <= 0 || size > MAX_ATTACHMENT_BYTES) {
+        return jsonResponse({ error: 'Attachments must be no larger than 10MB' }, 400);
+      }
+      if (application.attachments.length >= MAX_ATTACHMENTS) {
+        return jsonResponse({ error: `No more than ${MAX_ATTACHMENTS} attachments can be added` }, 400);
+      }
+      if (!await claimUpload(supabaseAdmin, application.id)) {
+        return jsonResponse({ error: 'No more attachments can be uploaded for this application' }, 429);
+      }
+
+      const safeName = String(fileName || 'attachment').replace(/[^A-Za-z0-9._-]+/g, '_').slice(-100);
+      const path = `${application.id}/${crypto.randomUUID()}-${safeName}`;
+      const { data: upload, error: uploadError } = await supabaseAdmin.storage.from(BUCKET).createSignedUploadUrl(path);
+
+      if (uploadError || !upload) {
+        console.error('Error creating attachment upload:', uploadError);
+        return jsonResponse({ error: 'Failed to prepare the upload' }, 500);
+      }
+
+      return jsonResponse({ success: true, path: upload.path, upload_token: upload.token });
+    }
+
+    // save or submit
+    const draft = cleanDraft(body.draft || application);
+    if (!draft.full_name || !draft.email) {
+      return jsonResponse({ error: 'Your name and email address are needed to save your application' }, 400);
+    }
+    const attachments = await reconcileAttachments(supabaseAdmin, application, body.attachments);
+
+    if (body.action === 'submit') {
+      const errors = getApplicationErrors(draft);
+      if (errors.length > 0) {
+        return jsonResponse({ error: 'Your application is not complete', details: errors }, 400);
+      }
+    }
+
+    const { data: saved, error: saveError } = await supabaseAdmin
+      .from('membership_applications')
+      .update({ ...draft, attachments })
+      .eq('id', application.id)
+      .select(APPLICATION_COLUMNS)
+      .single();
+
+    if (saveError) {
+      console.error('Error saving application:', saveError);
+      return jsonResponse({ error: 'Failed to save your application' }, 500);
+    }
+
+    if (body.action === 'save') {
+      let linkSent = false;
+      if (body.send_link) {
+        try {
+          linkSent = await claimLinkSend(supabaseAdmin, application.id);
+          if (linkSent) await sendResumeLink(saved, body.token);
+        } catch (emailError) {
+          console.error('Error sending application resume link:', emailError);
+          return jsonResponse({ error: 'Your application was saved, but the link could not be emailed' }, 500);
+        }
+      }
+      return jsonResponse({ success: true, token: body.token, application: saved, link_sent: linkSent });
+    }
+
+    const prospectId = await addToPipeline(supabaseAdmin, saved as ApplicationRow);
+    const sponsors = await matchSponsors(supabaseAdmin, draft.answers);
+    const { data: submitted, error: submitError } = await supabaseAdmin
+      .from('membership_applications')
+      .update({ status: 'submitted', submitted_at: new Date().toISOString(), prospect_id: prospectId, ...sponsors })
+      .eq('id', application.id)
+      .select(APPLICATION_COLUMNS)
+      .single();
+
+    if (submitError) {
+      console.error('Error submitting application:', submitError);
+      return jsonResponse({ error: 'Failed to submit your application' }, 500);
+    }
+
+    const { answers } = draft;
+    const secretaryAddress = Deno.env.get('EMAIL_RECIPIENT_ADDRESS') || 'radlettlodge6652@gmail.com';
+    const sender = createEmailSender();
+
+    // The application is submitted, so email failures are logged rather than returned
+    try {
+      await notifySponsors(supabaseAdmin, application.id);
+    } catch (notifyError) {
+      console.error('Error notifying proposer and seconder:', notifyError);
+    }
+
+    const sponsorLine = (name: string | undefined, userId: string | null) =>
+      `${name}${userId ? '' : ' (not matched to a member - choose them in the Prospects tab)'}`;
+
+    try {
+      await sender.send({
+        to: secretaryAddress,
+        replyTo: draft.email,
+        subject: `Membership Application: ${draft.full_name}`,
+        text: `
+A membership application has been submitted through the Radlett Lodge website:
+
+Name: ${draft.full_name}
+Email: ${draft.email}
+Phone: ${draft.phone || 'Not provided'}
+Occupation: ${answers.occupation || 'Not given'}
+Proposer: ${sponsorLine(answers.proposer_name, sponsors.proposer_id)}
+Seconder: ${sponsorLine(answers.seconder_name, sponsors.seconder_id)}
+Attachments: ${attachments.length}
+
+The proposer and seconder have been asked to endorse the application, which cannot progress to interview until both have done so.
+
+Review the application in the Prospects tab of the Admin Dashboard:
+${siteUrl()}/members/admin
+
+---
+This message was sent via the Radlett Lodge No. 6652 website application form.
+        `.trim()
+      });
+
+      await sender.send({
+        to: draft.email,
+        replyTo: secretaryAddress,
+        subject: 'Your application to Radlett Lodge No. 6652 has been received',
+        text: `
+Dear ${draft.full_name},
+
+Thank you for applying to join Radlett Lodge No. 6652. Your application has been passed to the Secretary, who will be in touch about the next steps, including your interview.
+
+Radlett Lodge No. 6652
+        `.trim()
+      });
+    } catch (emailError) {
+      console.error('Error sending application emails:', emailError);
+    }
+
+    return jsonResponse({ success: true, application: submitted });
+  } catch (error) {
+    console.error('Error in membership-application function:', error);
+    return jsonResponse({
+      error: 'Failed to process application',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
@@ -0,0 +1,168 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createEmailSender } from '../_shared/emailSender.ts';
+import { Anniversary, AnniversarySource, describeAnniversary, getUpcomingAnniversaries } from '../_shared/anniversaries.ts';
+
+// Scheduled job that emails each admin a digest of next month's Masonic
+// anniversaries and members' birthdays, so the Worshipful Master and Almoner
+// can mark them. Each admin gets one digest per month (reminder_deliveries,
+// keyed by the month), so the job can safely run more than once. Schedule it
+// monthly, e.g. with pg_cron and pg_net:
+//
+//   select cron.schedule('send-anniversary-digest', '0 8 1 * *', $$
+//     select net.http_post(
+//       url := '<SUPABASE_URL>/functions/v1/send-anniversary-digest',
+//       headers := jsonb_build_object('Authorization', 'Bearer <SERVICE_ROLE_KEY>')
+//     );
+//   $$);
+//
+// POST {}                 - send the digest for next month
+// POST { dry_run: true }  - list the anniversaries and recipients without sending
+//
+// Only the service role may run it. Uses the same email transport as
+// send-reminders (see _shared/emailSender.ts).
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const siteUrl = () => Deno.env.get('SITE_URL') || 'https://radlettlodge6652.org.uk';
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'long', timeZone: 'UTC' });
+
+const digestLine = (anniversary: Anniversary) =>
+  `${formatDay(anniversary.date)} - ${anniversary.fullName}: ${describeAnniversary(anniversary)}${
+    anniversary.kind === 'birthday' && anniversary.isMilestone ? ' *' : ''
+  }`;
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ error: 'Not authorised to send the digest' }, 401);
+    }
+
+    const { dry_run: dryRun = false } = await req.json().catch(() => ({}));
+
+    const supabaseAdmin = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    // The whole of next month
+    const now = new Date();
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    const monthEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 2, 0));
+    const monthKey = monthStart.toISOString().slice(0, 7);
+    const monthName = monthStart.toLocaleDateString('en-GB', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+    const [
+      { data: members, error: membersError },
+      { data: deliveries, error: deliveriesError }
+    ] = await Promise.all([
+      supabaseAdmin
+        .from('member_profiles')
+        .select('user_id, full_name, role, contact_email, initiated_date, installed_date, birthday')
+        .eq('status', 'active'),
+      supabaseAdmin
+        .from('reminder_deliveries')
+        .select('user_id')
+        .eq('reminder_type', 'anniversary_digest')
+        .eq('item_key', monthKey)
+    ]);
+
+    if (membersError || deliveriesError) {
+      throw new Error(`Failed to load digest details: ${(membersError || deliveriesError)?.message}`);
+    }
+
+    const anniversaries = getUpcomingAnniversaries((members || []) as AnniversarySource[], monthStart, monthEnd);
+    const alreadySent = new Set((deliveries || []).map(d => d.user_id));
+    const admins = (members || []).filter(m => m.role === 'admin' && !alreadySent.has(m.user_id));
+
+    if (dryRun) {
+      return jsonResponse({
+        success: true,
+        dry_run: true,
+        month: monthKey,
+        anniversaries: anniversaries.map(digestLine),
+        recipients: admins.map(admin => admin.full_name)
+      });
+    }
+
+    if (anniversaries.length === 0) {
+      return jsonResponse({ success: true, month: monthKey, sent: 0, failed: 0, anniversaries: 0 });
+    }
+
+    const masonic = anniversaries.filter(a => a.kind !== 'birthday');
+    const birthdays = anniversaries.filter(a => a.kind === 'birthday');
+    const text = (name: string) => `
+Dear ${name},
+
+Anniversaries and birthdays of Radlett Lodge members in ${monthName}:
+
+Masonic anniversaries
+${masonic.length > 0 ? masonic.map(digestLine).join('\n') : 'None this month'}
+
+Birthdays (* a milestone birthday)
+${birthdays.length > 0 ? birthdays.map(digestLine).join('\n') : 'None recorded this month'}
+
+Upcoming anniversaries are also shown on the members dashboard:
+${siteUrl()}/members
+
+You are receiving this monthly digest as a Lodge administrator.
+
+Radlett Lodge No. 6652
+    `.trim();
+
+    const sender = createEmailSender();
+    let sent = 0;
+    let failed = 0;
+
+    for (const admin of admins) {
+      let email = admin.contact_email as string | null;
+      if (!email) {
+        const { data: authUser } = await supabaseAdmin.auth.admin.getUserById(admin.user_id);
+        email = authUser?.user?.email ?? null;
+      }
+      if (!email) continue;
+
+      try {
+        await sender.send({ to: email, subject: `Lodge anniversaries and birthdays - ${monthName}`, text: text(admin.full_name) });
+        await supabaseAdmin.from('reminder_deliveries').insert({
+          user_id: admin.user_id,
+          reminder_type: 'anniversary_digest',
+          item_key: monthKey,
+          item_date: monthStart.toISOString()
+        });
+        sent++;
+      } catch (sendError) {
+        // Left undelivered, so the next run tries again
+        console.error(`Error sending anniversary digest to ${email}:`, sendError);
+        failed++;
+      }
+    }
+
+    console.log(`Anniversary digest for ${monthKey} sent via ${sender.name}: ${sent} sent, ${failed} failed`);
+    return jsonResponse({ success: true, month: monthKey, sent, failed, anniversaries: anniversaries.length });
+  } catch (error) {
+    console.error('Error in send-anniversary-digest function:', error);
+    return jsonResponse({
+      error: 'Failed to send anniversary digest',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
@@ -1,3 +1,5 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
 // Define CORS headers directly in this file
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -49,6 +51,46 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Interested enquiries join the prospect pipeline in the Admin Dashboard,
+    // unless the person is already in it. A failure here must not lose the email
+    let pipelineNote = '';
+    if (formData.interested) {
+      try {
+        const supabaseAdmin = createClient(
+          Deno.env.get('SUPABASE_URL') ?? '',
+          Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+        );
+        const email = formData.email.trim().toLowerCase();
+
+        const { data: existing, error: existingError } = await supabaseAdmin
+          .from('prospects')
+          .select('id')
+          .eq('email', email)
+          .eq('status', 'active')
+          .limit(1);
+        if (existingError) throw existingError;
+
+        if (existing && existing.length > 0) {
+          pipelineNote = 'This person is already in the prospect pipeline.';
+        } else {
+          const { error: insertError } = await supabaseAdmin
+            .from('prospects')
+            .insert({
+              name: formData.name,
+              email,
+              phone: formData.phone || null,
+              enquiry_subject: formData.subject,
+              enquiry_message: formData.message,
+              source: 'enquiry'
+            });
+          if (insertError) throw insertError;
+          pipelineNote = 'A prospect has been added to the pipeline in the Prospects tab of the Admin Dashboard.';
+        }
+      } catch (pipelineError) {
+        console.error('Error adding prospect from enquiry:', pipelineError);
+      }
+    }
+
     // Email configuration - try environment variables first, then fallback to hardcoded
     const emailServiceApiKey = Deno.env.get('EMAIL_SERVICE_API_KEY') || 're_6DGfYf7Q_Cn2vVDJqdtLt3rep24GkMXxX';
     const senderAddress = Deno.env.get('EMAIL_SENDER_ADDRESS') || 'onboarding@resend.dev';
@@ -74,7 +116,7 @@ Message:
 ${formData.message}
 
 ${formData.interested ? '✓ Interested in becoming a Freemason' : '✗ Not interested in membership at this time'}
-
+${pipelineNote ? `${pipelineNote}\n` : ''}
 ---
 This message was sent via the Radlett Lodge No. 6652 website contact form.
     `.trim();
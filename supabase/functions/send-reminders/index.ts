@@ -0,0 +1,275 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { loadMeetingSchedule, getMeetingsForYears, toLondonWallClock } from '../_shared/lodgeMeetings.ts';
+import { createEmailSender } from '../_shared/emailSender.ts';
+
+// Scheduled job that emails members who have opted in (reminder_preferences)
+// before each Lodge meeting and before events they have registered for.
+// Each member is reminded once per meeting or event (reminder_deliveries), so
+// the job can safely run more than once a day. Schedule it daily, e.g. with
+// pg_cron and pg_net:
+//
+//   select cron.schedule('send-reminders', '0 8 * * *', $$
+//     select net.http_post(
+//       url := '<SUPABASE_URL>/functions/v1/send-reminders',
+//       headers := jsonb_build_object('Authorization', 'Bearer <SERVICE_ROLE_KEY>')
+//     );
+//   $$);
+//
+// POST {}                 - send due reminders
+// POST { dry_run: true }  - list the reminders that would be sent
+//
+// Only the service role may run it. Set EMAIL_TRANSPORT=smtp to send through
+// a local SMTP stand-in during development (see _shared/emailSender.ts).
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PreferenceRow {
+  user_id: string;
+  meeting_reminders: boolean;
+  event_reminders: boolean;
+  days_before: number;
+}
+
+interface Reminder {
+  user_id: string;
+  email: string;
+  reminder_type: 'meeting' | 'event';
+  item_key: string;
+  item_date: string;
+  subject: string;
+  text: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+// Meeting dates are London wall clock, so format them as UTC
+const formatMeetingDate = (date: Date) =>
+  date.toLocaleString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'UTC'
+  });
+
+const formatEventDate = (value: string) =>
+  new Date(value).toLocaleString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Europe/London'
+  });
+
+// Convert a London wall clock date back to the instant it represents
+const fromLondonWallClock = (wallClock: Date) => {
+  const offset = toLondonWallClock(wallClock).getTime() - wallClock.getTime();
+  return new Date(wallClock.getTime() - offset);
+};
+
+const siteUrl = () => Deno.env.get('SITE_URL') || 'https://radlettlodge6652.org.uk';
+
+const signOff = () => `
+You are receiving this because you asked for reminders. You can change this on your profile:
+${siteUrl()}/members/profile
+
+Fraternal regards,
+Radlett Lodge No. 6652`;
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ error: 'Not authorised to run reminders' }, 401);
+    }
+
+    const { dry_run: dryRun = false } = await req.json().catch(() => ({}));
+
+    const supabaseAdmin = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const { data: preferences, error: preferencesError } = await supabaseAdmin
+      .from('reminder_preferences')
+      .select('user_id, meeting_reminders, event_reminders, days_before')
+      .or('meeting_reminders.eq.true,event_reminders.eq.true');
+
+    if (preferencesError) {
+      throw new Error(`Failed to load reminder preferences: ${preferencesError.message}`);
+    }
+    if (!preferences || preferences.length === 0) {
+      return jsonResponse({ success: true, sent: 0, failed: 0, reminders: [] });
+    }
+
+    const userIds = (preferences as PreferenceRow[]).map(p => p.user_id);
+    const now = new Date();
+    const maxDaysBefore = Math.max(...(preferences as PreferenceRow[]).map(p => p.days_before));
+    const horizon = new Date(now.getTime() + maxDaysBefore * DAY_MS);
+
+    const [
+      { data: profiles, error: profilesError },
+      { data: deliveries, error: deliveriesError },
+      { data: registrations, error: registrationsError },
+      schedule
+    ] = await Promise.all([
+      supabaseAdmin
+        .from('member_profiles')
+        .select('user_id, full_name, contact_email')
+        .in('user_id', userIds)
+        .eq('status', 'active'),
+      supabaseAdmin
+        .from('reminder_deliveries')
+        .select('user_id, reminder_type, item_key')
+        .in('user_id', userIds)
+        .gte('item_date', now.toISOString()),
+      supabaseAdmin
+        .from('event_registrations')
+        .select('user_id, seats, events(id, title, event_date, location)')
+        .in('user_id', userIds)
+        .eq('status', 'confirmed'),
+      loadMeetingSchedule(supabaseAdmin)
+    ]);
+
+    if (profilesError || deliveriesError || registrationsError) {
+      throw new Error(`Failed to load reminder details: ${(profilesError || deliveriesError || registrationsError)?.message}`);
+    }
+
+    const nowWallClock = toLondonWallClock(now);
+    const meetings = getMeetingsForYears(schedule, nowWallClock.getUTCFullYear(), nowWallClock.getUTCFullYear() + 1)
+      .filter(meeting => !meeting.isCancelled)
+      .map(meeting => ({ ...meeting, instant: fromLondonWallClock(meeting.start) }))
+      .filter(meeting => meeting.instant > now && meeting.instant <= horizon);
+
+    const alreadySent = new Set((deliveries || []).map(d => `${d.user_id}:${d.reminder_type}:${d.item_key}`));
+    const reminders: Reminder[] = [];
+
+    for (const preference of preferences as PreferenceRow[]) {
+      const profile = (profiles || []).find(p => p.user_id === preference.user_id);
+      if (!profile) continue;
+
+      let email = profile.contact_email as string | null;
+      if (!email) {
+        const { data: authUser } = await supabaseAdmin.auth.admin.getUserById(preference.user_id);
+        email = authUser?.user?.email ?? null;
+      }
+      if (!email) continue;
+
+      const dueBy = new Date(now.getTime() + preference.days_before * DAY_MS);
+      const isDue = (type: 'meeting' | 'event', key: string, instant: Date) =>
+        instant > now && instant <= dueBy && !alreadySent.has(`${preference.user_id}:${type}:${key}`);
+
+      if (preference.meeting_reminders) {
+        for (const meeting of meetings) {
+          if (!isDue('meeting', meeting.key, meeting.instant)) continue;
+
+          reminders.push({
+            user_id: preference.user_id,
+            email,
+            reminder_type: 'meeting',
+            item_key: meeting.key,
+            item_date: meeting.instant.toISOString(),
+            subject: `Reminder: ${meeting.title} on ${formatMeetingDate(meeting.start)}`,
+            text: `
+Dear ${profile.full_name},
+
+This is a reminder that the ${meeting.title} of Radlett Lodge No. 6652 will be held on ${formatMeetingDate(meeting.start)}.
+
+Venue: ${meeting.location}
+
+The summons and Festive Board booking are in the members area:
+${siteUrl()}/members
+${signOff()}
+            `.trim()
+          });
+        }
+      }
+
+      if (preference.event_reminders) {
+        for (const registration of (registrations || []).filter(r => r.user_id === preference.user_id)) {
+          const event = registration.events as unknown as { id: string; title: string; event_date: string; location: string } | null;
+          if (!event || !isDue('event', event.id, new Date(event.event_date))) continue;
+
+          reminders.push({
+            user_id: preference.user_id,
+            email,
+            reminder_type: 'event',
+            item_key: event.id,
+            item_date: event.event_date,
+            subject: `Reminder: ${event.title} on ${formatEventDate(event.event_date)}`,
+            text: `
+Dear ${profile.full_name},
+
+This is a reminder that you are registered for ${event.title} on ${formatEventDate(event.event_date)} (${registration.seats === 1 ? '1 place' : `${registration.seats} places`}).
+
+Venue: ${event.location}
+
+If you can no longer attend, please cancel from the events page so the place can go to someone else:
+${siteUrl()}/events
+${signOff()}
+            `.trim()
+          });
+        }
+      }
+    }
+
+    if (dryRun) {
+      return jsonResponse({
+        success: true,
+        dry_run: true,
+        reminders: reminders.map(({ email, reminder_type, item_key, subject }) => ({ email, reminder_type, item_key, subject }))
+      });
+    }
+
+    const sender = createEmailSender();
+    const replyTo = Deno.env.get('EMAIL_RECIPIENT_ADDRESS') || 'radlettlodge6652@gmail.com';
+    let sent = 0;
+    let failed = 0;
+
+    for (const reminder of reminders) {
+      try {
+        await sender.send({ to: reminder.email, subject: reminder.subject, text: reminder.text, replyTo });
+        await supabaseAdmin.from('reminder_deliveries').insert({
+          user_id: reminder.user_id,
+          reminder_type: reminder.reminder_type,
+          item_key: reminder.item_key,
+          item_date: reminder.item_date
+        });
+        sent++;
+      } catch (sendError) {
+        // Left undelivered, so the next run tries again
+        console.error(`Error sending ${reminder.reminder_type} reminder to ${reminder.email}:`, sendError);
+        failed++;
+      }
+    }
+
+    console.log(`Reminders sent via ${sender.name}: ${sent} sent, ${failed} failed`);
+    return jsonResponse({ success: true, sent, failed });
+  } catch (error) {
+    console.error('Error in send-reminders function:', error);
+    return jsonResponse({
+      error: 'Failed to send reminders',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
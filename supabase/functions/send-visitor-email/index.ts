@@ -0,0 +1,284 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { loadMeetingSchedule, getMeetingsForYears, toLondonWallClock } from '../_shared/lodgeMeetings.ts';
+
+// POST { action: 'request', ...VisitorRequestData }  - public, saves the request and emails the Secretary
+// POST { action: 'respond', request_id, status, response_message? } - admins only, emails the visitor
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+interface VisitorRequestData {
+  meeting_date: string;
+  name: string;
+  email: string;
+  phone?: string;
+  lodge_name: string;
+  lodge_number: string;
+  rank: string;
+  guest_of?: string;
+  notes?: string;
+}
+
+interface RespondData {
+  request_id: string;
+  status: 'approved' | 'declined';
+  response_message?: string;
+}
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+// Meeting dates are London wall clock, so format them as UTC
+const formatMeetingDate = (date: Date) =>
+  date.toLocaleString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'UTC'
+  });
+
+async function sendEmail(to: string, subject: string, text: string, replyTo?: string) {
+  const emailServiceApiKey = Deno.env.get('EMAIL_SERVICE_API_KEY');
+  const senderAddress = Deno.env.get('EMAIL_SENDER_ADDRESS') || 'onboarding@resend.dev';
+
+  if (!emailServiceApiKey) {
+    throw new Error('EMAIL_SERVICE_API_KEY is not configured');
+  }
+
+  const emailResponse = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${emailServiceApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: `Radlett Lodge Website <${senderAddress}>`,
+      to: [to],
+      reply_to: replyTo,
+      subject,
+      text,
+    }),
+  });
+
+  if (!emailResponse.ok) {
+    const errorText = await emailResponse.text();
+    throw new Error(`Resend API returned ${emailResponse.status}: ${errorText}`);
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only allow POST requests
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const secretaryAddress = Deno.env.get('EMAIL_RECIPIENT_ADDRESS') || 'radlettlodge6652@gmail.com';
+
+    const body = await req.json();
+
+    if (body.action === 'request') {
+      const formData = body as VisitorRequestData;
+
+      // Validate required fields
+      if (!formData.meeting_date || !formData.name || !formData.email ||
+          !formData.lodge_name || !formData.lodge_number || !formData.rank) {
+        return jsonResponse({ error: 'Missing required fields' }, 400);
+      }
+
+      // The meeting must be an upcoming, uncancelled meeting on the schedule
+      const now = toLondonWallClock(new Date());
+      const schedule = await loadMeetingSchedule(supabaseAdmin);
+      const meeting = getMeetingsForYears(schedule, now.getUTCFullYear(), now.getUTCFullYear() + 1)
+        .find(m => m.key === formData.meeting_date && !m.isCancelled && m.start > now);
+
+      if (!meeting) {
+        return jsonResponse({ error: 'That meeting is not open to visitors' }, 400);
+      }
+
+      const { data: request, error: insertError } = await supabaseAdmin
+        .from('visitor_requests')
+        .insert({
+          meeting_date: meeting.key,
+          meeting_title: meeting.title,
+          name: formData.name,
+          email: formData.email,
+          phone: formData.phone || null,
+          lodge_name: formData.lodge_name,
+          lodge_number: formData.lodge_number,
+          rank: formData.rank,
+          guest_of: formData.guest_of || null,
+          notes: formData.notes || null
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('Error saving visitor request:', insertError);
+        return jsonResponse({ error: 'Failed to save visitor request' }, 500);
+      }
+
+      const meetingDate = formatMeetingDate(meeting.start);
+
+      // The request is saved, so email failures are logged rather than returned.
+      // Only the Secretary is emailed: the address is unverified, so the
+      // visitor hears from the lodge only once an admin has responded
+      try {
+        await sendEmail(
+          secretaryAddress,
+          `Visitor Request: ${formData.name} - ${meeting.title}, ${meetingDate}`,
+          `
+A visiting brother has asked to attend a meeting of Radlett Lodge:
+
+Meeting: ${meeting.title}, ${meetingDate}
+Name: ${formData.name}
+Rank: ${formData.rank}
+Lodge: ${formData.lodge_name} No. ${formData.lodge_number}
+Guest of: ${formData.guest_of || 'Not given'}
+Email: ${formData.email}
+Phone: ${formData.phone || 'Not provided'}
+
+${formData.notes ? `Notes:\n${formData.notes}\n\n` : ''}Approve or decline the request from the Visitors tab of the Admin Dashboard.
+
+---
+This message was sent via the Radlett Lodge No. 6652 website visitor request form.
+          `.trim(),
+          formData.email
+        );
+      } catch (emailError) {
+        console.error('Error sending visitor request email:', emailError);
+      }
+
+      return jsonResponse({ success: true, id: request.id });
+    }
+
+    if (body.action === 'respond') {
+      // Get the authorization header
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader) {
+        return jsonResponse({ error: 'Missing authorization header' }, 401);
+      }
+
+      // Create regular client to verify the requesting user is an admin
+      const supabaseClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        {
+          global: {
+            headers: { Authorization: authHeader },
+          },
+        }
+      );
+
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+      if (authError || !user) {
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+      }
+
+      const { data: profile } = await supabaseClient
+        .from('member_profiles')
+        .select('role')
+        .eq('user_id', user.id)
+        .single();
+
+      if (!profile || profile.role !== 'admin') {
+        return jsonResponse({ error: 'Insufficient permissions' }, 403);
+      }
+
+      const { request_id, status, response_message } = body as RespondData;
+      if (!request_id || (status !== 'approved' && status !== 'declined')) {
+        return jsonResponse({ error: 'request_id and a status of approved or declined are required' }, 400);
+      }
+
+      const { data: request, error: updateError } = await supabaseAdmin
+        .from('visitor_requests')
+        .update({
+          status,
+          response_message: response_message || null,
+          responded_at: new Date().toISOString()
+        })
+        .eq('id', request_id)
+        .select()
+        .single();
+
+      if (updateError || !request) {
+        console.error('Error updating visitor request:', updateError);
+        return jsonResponse({ error: 'Visitor request not found' }, 404);
+      }
+
+      const schedule = await loadMeetingSchedule(supabaseAdmin);
+      const year = parseInt(request.meeting_date.slice(0, 4), 10);
+      const meeting = getMeetingsForYears(schedule, year, year).find(m => m.key === request.meeting_date);
+      const meetingDate = meeting ? formatMeetingDate(meeting.start) : request.meeting_date;
+
+      const emailBody = status === 'approved'
+        ? `
+Dear Brother ${request.name},
+
+We are delighted to confirm your visit to Radlett Lodge No. 6652 at our ${request.meeting_title} on ${meetingDate}.
+
+${meeting ? `Venue: ${meeting.location}\n\n` : ''}${response_message ? `${response_message}\n\n` : ''}We look forward to welcoming you.
+
+Fraternal regards,
+Radlett Lodge No. 6652
+        `.trim()
+        : `
+Dear Brother ${request.name},
+
+Thank you for asking to visit Radlett Lodge No. 6652 at our ${request.meeting_title} on ${meetingDate}. Unfortunately we are unable to accommodate your visit on this occasion.
+
+${response_message ? `${response_message}\n\n` : ''}We hope to welcome you at a future meeting.
+
+Fraternal regards,
+Radlett Lodge No. 6652
+        `.trim();
+
+      try {
+        await sendEmail(
+          request.email,
+          status === 'approved'
+            ? 'Your visit to Radlett Lodge No. 6652 is confirmed'
+            : 'Your request to visit Radlett Lodge No. 6652',
+          emailBody,
+          secretaryAddress
+        );
+      } catch (emailError) {
+        console.error('Error sending visitor response email:', emailError);
+        return jsonResponse({
+          error: 'Request updated but the email could not be sent',
+          details: emailError instanceof Error ? emailError.message : 'Unknown error',
+          request
+        }, 502);
+      }
+
+      return jsonResponse({ success: true, request });
+    }
+
+    return jsonResponse({ error: 'Unknown action' }, 400);
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return jsonResponse({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
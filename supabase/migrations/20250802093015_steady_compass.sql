@@ -0,0 +1,69 @@
+/*
+  # Lodge Meeting Schedule Rules
+
+  1. New Tables
+    - `lodge_meeting_rules` - One row per regular meeting in the Lodge year
+      - `title` (text) - e.g. Regular Lodge Meeting, Installation Meeting
+      - `description` (text)
+      - `month` (integer, 1-12)
+      - `week_of_month` (integer, 1-5) - Which occurrence of the weekday
+      - `weekday` (integer, 0-6) - 0 = Sunday, 6 = Saturday
+      - `start_time` (time) - Local (Europe/London) start time
+      - `location` (text)
+      - `is_installation` (boolean)
+      - `is_active` (boolean)
+      - `sort_order` (integer)
+
+  2. Security
+    - Enable RLS
+    - Public can view active rules (used by the home page countdown)
+    - Only admins can manage rules
+
+  3. Sample Data
+    - Seed with the current by-law schedule:
+      2nd Saturday February, 1st Saturday April, 2nd Saturday July,
+      1st Saturday September and 2nd Saturday December (Installation)
+*/
+
+-- Create lodge_meeting_rules table
+CREATE TABLE IF NOT EXISTS public.lodge_meeting_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    month INTEGER NOT NULL CHECK (month BETWEEN 1 AND 12),
+    week_of_month INTEGER NOT NULL CHECK (week_of_month BETWEEN 1 AND 5),
+    weekday INTEGER NOT NULL DEFAULT 6 CHECK (weekday BETWEEN 0 AND 6),
+    start_time TIME NOT NULL DEFAULT '18:00',
+    location TEXT NOT NULL DEFAULT 'Radlett Masonic Centre, Rose Walk, Radlett',
+    is_installation BOOLEAN DEFAULT false,
+    is_active BOOLEAN DEFAULT true,
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.lodge_meeting_rules ENABLE ROW LEVEL SECURITY;
+
+-- Meeting rules policies
+CREATE POLICY "Public can view active meeting rules"
+    ON public.lodge_meeting_rules FOR SELECT TO public USING (is_active = true);
+CREATE POLICY "Admins can manage meeting rules"
+    ON public.lodge_meeting_rules FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_lodge_meeting_rules_updated_at
+    BEFORE UPDATE ON public.lodge_meeting_rules FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_lodge_meeting_rules_month ON public.lodge_meeting_rules(month);
+
+-- Seed with the current schedule
+INSERT INTO public.lodge_meeting_rules (title, description, month, week_of_month, weekday, start_time, is_installation, sort_order) VALUES
+('Regular Lodge Meeting', 'February regular meeting of Radlett Lodge No. 6652. Festive Board to follow.', 2, 2, 6, '18:00', false, 1),
+('Regular Lodge Meeting', 'April regular meeting of Radlett Lodge No. 6652. Festive Board to follow.', 4, 1, 6, '18:00', false, 2),
+('Regular Lodge Meeting', 'July regular meeting of Radlett Lodge No. 6652. Festive Board to follow.', 7, 2, 6, '18:00', false, 3),
+('Regular Lodge Meeting', 'September regular meeting of Radlett Lodge No. 6652. Festive Board to follow.', 9, 1, 6, '18:00', false, 4),
+('Installation Meeting', 'Annual Installation of the Worshipful Master and Officers. Festive Board to follow.', 12, 2, 6, '18:00', true, 5);
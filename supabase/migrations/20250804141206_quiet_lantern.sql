@@ -0,0 +1,63 @@
+/*
+  # Lodge Meeting Overrides
+
+  1. New Tables
+    - `lodge_meeting_overrides` - Per-date exceptions to the rule-based schedule
+      - `override_type` (text) - cancelled, moved or added
+      - `original_date` (date) - The computed meeting date being cancelled or moved
+      - `new_date` (timestamptz) - New date and time for moved or added meetings
+      - `title` (text) - Optional title, e.g. Emergency Meeting
+      - `description` (text)
+      - `location` (text) - Optional replacement location
+      - `reason` (text) - Shown to members alongside the change
+
+  2. Security
+    - Enable RLS
+    - Public can view overrides (the home page countdown and events page respect them)
+    - Only admins can manage overrides
+
+  3. Constraints
+    - Cancelled meetings need an original date
+    - Moved meetings need both an original and a new date
+    - Added meetings need a new date
+*/
+
+-- Create lodge_meeting_overrides table
+CREATE TABLE IF NOT EXISTS public.lodge_meeting_overrides (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    override_type TEXT NOT NULL CHECK (override_type IN ('cancelled', 'moved', 'added')),
+    original_date DATE,
+    new_date TIMESTAMPTZ,
+    title TEXT,
+    description TEXT,
+    location TEXT,
+    reason TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT lodge_meeting_overrides_dates_check CHECK (
+      (override_type = 'cancelled' AND original_date IS NOT NULL) OR
+      (override_type = 'moved' AND original_date IS NOT NULL AND new_date IS NOT NULL) OR
+      (override_type = 'added' AND new_date IS NOT NULL)
+    )
+);
+
+-- Only one override per computed meeting
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lodge_meeting_overrides_original_date
+    ON public.lodge_meeting_overrides(original_date)
+    WHERE original_date IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.lodge_meeting_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Meeting overrides policies
+CREATE POLICY "Public can view meeting overrides"
+    ON public.lodge_meeting_overrides FOR SELECT TO public USING (true);
+CREATE POLICY "Admins can manage meeting overrides"
+    ON public.lodge_meeting_overrides FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_lodge_meeting_overrides_updated_at
+    BEFORE UPDATE ON public.lodge_meeting_overrides FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
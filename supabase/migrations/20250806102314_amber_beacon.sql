@@ -0,0 +1,35 @@
+/*
+  # Calendar Feed Tokens
+
+  1. New Tables
+    - `calendar_feed_tokens` - One private feed token per member
+      - `user_id` (uuid, references auth.users)
+      - `token` (text) - Secret included in the member's personal .ics feed URL
+      - `last_used_at` (timestamptz) - Updated by the calendar-feed edge function
+
+  2. Security
+    - Enable RLS
+    - Members can view, create and delete their own token (deleting and
+      creating a new token revokes the old feed URL)
+    - The calendar-feed edge function looks tokens up with the service role
+*/
+
+-- Create calendar_feed_tokens table
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    last_used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Calendar feed token policies
+CREATE POLICY "Members can view own calendar token"
+    ON public.calendar_feed_tokens FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Members can create own calendar token"
+    ON public.calendar_feed_tokens FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Members can delete own calendar token"
+    ON public.calendar_feed_tokens FOR DELETE TO authenticated USING (auth.uid() = user_id);
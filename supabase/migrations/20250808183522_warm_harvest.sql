@@ -0,0 +1,117 @@
+/*
+  # Festive Board Dining Bookings
+
+  1. New Tables
+    - `festive_boards` - A dining occasion that members can book
+      - `title` (text)
+      - `event_id` (uuid, references events) - Set when dining follows a CMS event
+      - `meeting_date` (date) - Set when dining follows a computed lodge meeting
+      - `dining_date` (timestamptz)
+      - `menu_options` (text[]) - Choices offered to diners
+      - `price` (numeric) - Price per head
+      - `cutoff_date` (timestamptz) - Bookings close at this time
+      - `notes` (text) - Shown to members, e.g. dress code
+      - `is_open` (boolean) - Admins can close bookings early
+    - `festive_board_bookings` - One booking per member per festive board
+      - `festive_board_id` (uuid, references festive_boards)
+      - `user_id` (uuid, references auth.users)
+      - `member_name` (text)
+      - `menu_choice` (text)
+      - `dietary_requirements` (text)
+      - `guests` (jsonb) - Array of { name, menu_choice, dietary_requirements }
+      - `notes` (text)
+
+  2. Security
+    - Enable RLS on both tables
+    - Active members can view festive boards
+    - Members can view their own bookings, and create, change or cancel them
+      while the festive board is open and before the cut-off
+    - Admins can manage festive boards and all bookings
+*/
+
+-- Create festive_boards table
+CREATE TABLE IF NOT EXISTS public.festive_boards (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title TEXT NOT NULL,
+    event_id UUID REFERENCES public.events(id) ON DELETE SET NULL,
+    meeting_date DATE,
+    dining_date TIMESTAMPTZ NOT NULL,
+    menu_options TEXT[] NOT NULL DEFAULT '{}',
+    price NUMERIC(8, 2),
+    cutoff_date TIMESTAMPTZ NOT NULL,
+    notes TEXT,
+    is_open BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create festive_board_bookings table
+CREATE TABLE IF NOT EXISTS public.festive_board_bookings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    festive_board_id UUID REFERENCES public.festive_boards(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    member_name TEXT NOT NULL,
+    menu_choice TEXT,
+    dietary_requirements TEXT,
+    guests JSONB NOT NULL DEFAULT '[]'::jsonb,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (festive_board_id, user_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.festive_boards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.festive_board_bookings ENABLE ROW LEVEL SECURITY;
+
+-- Festive board policies
+CREATE POLICY "Active members can view festive boards"
+    ON public.festive_boards FOR SELECT TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.status = 'active'));
+CREATE POLICY "Admins can manage festive boards"
+    ON public.festive_boards FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+-- Booking policies
+CREATE POLICY "Members can view own dining bookings"
+    ON public.festive_board_bookings FOR SELECT TO authenticated
+    USING (auth.uid() = user_id);
+CREATE POLICY "Members can book dining before the cut-off"
+    ON public.festive_board_bookings FOR INSERT TO authenticated
+    WITH CHECK (
+      auth.uid() = user_id AND
+      EXISTS (SELECT 1 FROM public.festive_boards fb WHERE fb.id = festive_board_id AND fb.is_open AND fb.cutoff_date > NOW())
+    );
+CREATE POLICY "Members can change dining bookings before the cut-off"
+    ON public.festive_board_bookings FOR UPDATE TO authenticated
+    USING (
+      auth.uid() = user_id AND
+      EXISTS (SELECT 1 FROM public.festive_boards fb WHERE fb.id = festive_board_id AND fb.is_open AND fb.cutoff_date > NOW())
+    )
+    -- Checked again, so a booking cannot be moved onto a closed festive board
+    WITH CHECK (
+      auth.uid() = user_id AND
+      EXISTS (SELECT 1 FROM public.festive_boards fb WHERE fb.id = festive_board_id AND fb.is_open AND fb.cutoff_date > NOW())
+    );
+CREATE POLICY "Members can cancel dining bookings before the cut-off"
+    ON public.festive_board_bookings FOR DELETE TO authenticated
+    USING (
+      auth.uid() = user_id AND
+      EXISTS (SELECT 1 FROM public.festive_boards fb WHERE fb.id = festive_board_id AND fb.is_open AND fb.cutoff_date > NOW())
+    );
+CREATE POLICY "Admins can manage dining bookings"
+    ON public.festive_board_bookings FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+-- Create triggers for updated_at
+CREATE TRIGGER update_festive_boards_updated_at
+    BEFORE UPDATE ON public.festive_boards FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_festive_board_bookings_updated_at
+    BEFORE UPDATE ON public.festive_board_bookings FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_festive_boards_dining_date ON public.festive_boards(dining_date);
+CREATE INDEX IF NOT EXISTS idx_festive_board_bookings_board ON public.festive_board_bookings(festive_board_id);
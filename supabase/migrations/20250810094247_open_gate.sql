@@ -0,0 +1,60 @@
+/*
+  # Visiting Brethren Requests
+
+  1. New Tables
+    - `visitor_requests` - Requests from brethren of other lodges to attend a meeting
+      - `meeting_date` (date) - Scheduled date key of the lodge meeting
+      - `meeting_title` (text)
+      - `name` (text)
+      - `email` (text)
+      - `phone` (text)
+      - `lodge_name` (text)
+      - `lodge_number` (text)
+      - `rank` (text) - Masonic rank, e.g. "MM", "PM", "PPrJGW"
+      - `guest_of` (text) - Member of Radlett Lodge hosting the visitor, if any
+      - `notes` (text)
+      - `status` (text) - pending, approved or declined
+      - `response_message` (text) - Included in the email sent to the visitor
+      - `responded_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `visitor_requests`
+    - Requests are submitted through the `send-visitor-email` edge function,
+      which writes with the service role, so there is no public insert policy
+    - Admins can view and manage requests
+*/
+
+-- Create visitor_requests table
+CREATE TABLE IF NOT EXISTS public.visitor_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    meeting_date DATE NOT NULL,
+    meeting_title TEXT NOT NULL,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    phone TEXT,
+    lodge_name TEXT NOT NULL,
+    lodge_number TEXT NOT NULL,
+    rank TEXT NOT NULL,
+    guest_of TEXT,
+    notes TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'declined')),
+    response_message TEXT,
+    responded_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.visitor_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage visitor requests"
+    ON public.visitor_requests FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_visitor_requests_updated_at
+    BEFORE UPDATE ON public.visitor_requests FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_visitor_requests_status ON public.visitor_requests(status, meeting_date);
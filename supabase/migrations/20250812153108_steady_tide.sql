@@ -0,0 +1,28 @@
+/*
+  # Recurring Events
+
+  1. Changes
+    - Add `recurrence` column to `events` - null for one-off events, otherwise
+      { frequency: 'weekly' | 'monthly', interval, week_of_month?, until?, count? }
+      Occurrences take the weekday and time of `event_date`
+    - Add `recurrence_exceptions` column to `events` - array of
+      { date, is_cancelled, event_date?, title?, location? } for individual
+      occurrences that are cancelled or moved
+
+  2. Security
+    - No changes - existing events policies apply
+*/
+
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS recurrence JSONB
+CHECK (
+  recurrence IS NULL OR (
+    recurrence->>'frequency' IN ('weekly', 'monthly') AND
+    COALESCE((recurrence->>'interval')::int, 1) >= 1
+  )
+);
+
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS recurrence_exceptions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_events_recurring ON public.events(event_date) WHERE recurrence IS NOT NULL;
@@ -0,0 +1,46 @@
+/*
+  # Derive Past/Upcoming Event Status
+
+  1. Changes
+    - Drop the manual `is_past_event` column from `events`, which admins had to
+      remember to flip
+    - Add `events_with_status` view exposing `is_past_event` derived from
+      `event_date` at query time. A recurring series is past once its `until`
+      date has gone; its individual occurrences are dated by the client
+    - Past public events stay visible so they can be listed in the archive
+
+  2. Security
+    - The view uses `security_invoker` so the `events` RLS policies still apply
+    - Replace "Public can view public events" so it no longer hides past events
+*/
+
+DROP POLICY IF EXISTS "Public can view public events" ON public.events;
+
+ALTER TABLE public.events DROP COLUMN IF EXISTS is_past_event;
+
+CREATE POLICY "Public can view public events"
+  ON public.events
+  FOR SELECT
+  TO public
+  USING (NOT is_members_only);
+
+CREATE OR REPLACE VIEW public.events_with_status
+WITH (security_invoker = on) AS
+SELECT
+    e.id,
+    e.title,
+    e.description,
+    e.event_date,
+    e.location,
+    e.is_members_only,
+    e.recurrence,
+    e.recurrence_exceptions,
+    e.created_at,
+    e.updated_at,
+    CASE
+      WHEN e.recurrence IS NULL THEN e.event_date < NOW()
+      ELSE COALESCE((e.recurrence->>'until')::date < CURRENT_DATE, false)
+    END AS is_past_event
+FROM public.events e;
+
+GRANT SELECT ON public.events_with_status TO anon, authenticated;
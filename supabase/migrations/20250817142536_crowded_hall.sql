@@ -0,0 +1,267 @@
+/*
+  # Event Capacity, Registrations and Waitlists
+
+  1. Changes
+    - Add `capacity` (integer) to `events` - places available, null for unlimited.
+      Only one-off events take registrations
+    - Add `signup_deadline` (timestamptz) to `events` - registrations close at this
+      time, or when the event starts if not set
+    - Recreate `events_with_status` to include the new columns
+
+  2. New Tables
+    - `event_registrations` - A member or guest registered for an event
+      - `event_id` (uuid, references events)
+      - `user_id` (uuid, references auth.users) - Set when a signed-in member registers
+      - `name`, `email`, `phone` (text)
+      - `seats` (integer) - Places taken, including the registrant's own guests
+      - `notes` (text)
+      - `status` (text) - confirmed, waitlisted or cancelled
+      - `cancel_token` (uuid) - Lets guests cancel from the link in their email
+      - `promoted_at` (timestamptz) - Set when moved off the waitlist
+      - `promotion_notified_at` (timestamptz) - Set once the promotion email is sent
+      - `cancelled_at` (timestamptz)
+
+  3. Functions
+    - `register_for_event` - Locks the event and confirms the registration if the
+      seats fit, otherwise waitlists it
+    - `promote_event_waitlist` - Confirms waitlisted registrations in the order they
+      were made while seats remain. Runs automatically when a confirmed
+      registration is cancelled or deleted, or the capacity is raised
+    - `event_registration_summary` view - Confirmed seats and waitlist size per
+      event, so the events page can show places left without exposing registrations
+
+  4. Security
+    - Enable RLS on `event_registrations`
+    - Members can view their own registrations; admins can manage all of them
+    - Registering and cancelling go through the `event-registration` edge function,
+      which uses the service role
+*/
+
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS capacity INTEGER CHECK (capacity IS NULL OR capacity > 0);
+
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS signup_deadline TIMESTAMPTZ;
+
+CREATE OR REPLACE VIEW public.events_with_status
+WITH (security_invoker = on) AS
+SELECT
+    e.id,
+    e.title,
+    e.description,
+    e.event_date,
+    e.location,
+    e.is_members_only,
+    e.recurrence,
+    e.recurrence_exceptions,
+    e.created_at,
+    e.updated_at,
+    CASE
+      WHEN e.recurrence IS NULL THEN e.event_date < NOW()
+      ELSE COALESCE((e.recurrence->>'until')::date < CURRENT_DATE, false)
+    END AS is_past_event,
+    e.capacity,
+    e.signup_deadline
+FROM public.events e;
+
+-- Create event_registrations table
+CREATE TABLE IF NOT EXISTS public.event_registrations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID REFERENCES public.events(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    phone TEXT,
+    seats INTEGER NOT NULL DEFAULT 1 CHECK (seats BETWEEN 1 AND 10),
+    notes TEXT,
+    status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'waitlisted', 'cancelled')),
+    cancel_token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+    promoted_at TIMESTAMPTZ,
+    promotion_notified_at TIMESTAMPTZ,
+    cancelled_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One active registration per email address per event
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_registrations_active_email
+    ON public.event_registrations(event_id, lower(email))
+    WHERE status <> 'cancelled';
+CREATE INDEX IF NOT EXISTS idx_event_registrations_event ON public.event_registrations(event_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_event_registrations_user ON public.event_registrations(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.event_registrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view own event registrations"
+    ON public.event_registrations FOR SELECT TO authenticated
+    USING (auth.uid() = user_id);
+CREATE POLICY "Admins can manage event registrations"
+    ON public.event_registrations FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+CREATE TRIGGER update_event_registrations_updated_at
+    BEFORE UPDATE ON public.event_registrations FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Places taken and waitlist size per event. Aggregates only, so it runs with
+-- the owner's privileges and is readable by everyone
+CREATE OR REPLACE VIEW public.event_registration_summary AS
+SELECT
+    r.event_id,
+    COALESCE(SUM(r.seats) FILTER (WHERE r.status = 'confirmed'), 0)::int AS confirmed_seats,
+    COUNT(*) FILTER (WHERE r.status = 'waitlisted')::int AS waitlist_count
+FROM public.event_registrations r
+GROUP BY r.event_id;
+
+GRANT SELECT ON public.event_registration_summary TO anon, authenticated;
+
+-- Confirm waitlisted registrations in order while seats remain. A party too
+-- large for the remaining seats is passed over so smaller parties behind it
+-- can still take them
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist(p_event_id UUID)
+RETURNS SETOF public.event_registrations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_capacity INTEGER;
+  v_taken INTEGER;
+  v_registration public.event_registrations;
+BEGIN
+  SELECT capacity INTO v_capacity FROM public.events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(seats), 0) INTO v_taken
+  FROM public.event_registrations
+  WHERE event_id = p_event_id AND status = 'confirmed';
+
+  FOR v_registration IN
+    SELECT * FROM public.event_registrations
+    WHERE event_id = p_event_id AND status = 'waitlisted'
+    ORDER BY created_at
+  LOOP
+    IF v_capacity IS NULL OR v_taken + v_registration.seats <= v_capacity THEN
+      UPDATE public.event_registrations
+      SET status = 'confirmed', promoted_at = NOW()
+      WHERE id = v_registration.id
+      RETURNING * INTO v_registration;
+
+      v_taken := v_taken + v_registration.seats;
+      RETURN NEXT v_registration;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Register for an event, confirming if the seats fit and waitlisting otherwise.
+-- The event row is locked so concurrent registrations cannot overbook it
+CREATE OR REPLACE FUNCTION public.register_for_event(
+  p_event_id UUID,
+  p_user_id UUID,
+  p_name TEXT,
+  p_email TEXT,
+  p_phone TEXT,
+  p_seats INTEGER,
+  p_notes TEXT
+)
+RETURNS public.event_registrations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.events;
+  v_taken INTEGER;
+  v_waitlisted INTEGER;
+  v_registration public.event_registrations;
+BEGIN
+  SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND OR v_event.recurrence IS NOT NULL THEN
+    RAISE EXCEPTION 'This event does not take registrations';
+  END IF;
+
+  IF v_event.event_date <= NOW() OR (v_event.signup_deadline IS NOT NULL AND v_event.signup_deadline <= NOW()) THEN
+    RAISE EXCEPTION 'Registration for this event has closed';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(seats) FILTER (WHERE status = 'confirmed'), 0),
+    COUNT(*) FILTER (WHERE status = 'waitlisted')
+  INTO v_taken, v_waitlisted
+  FROM public.event_registrations
+  WHERE event_id = p_event_id;
+
+  -- Join the back of any existing waitlist rather than jumping it
+  INSERT INTO public.event_registrations (event_id, user_id, name, email, phone, seats, notes, status)
+  VALUES (
+    p_event_id, p_user_id, p_name, p_email, p_phone, p_seats, p_notes,
+    CASE
+      WHEN v_event.capacity IS NULL OR (v_waitlisted = 0 AND v_taken + p_seats <= v_event.capacity) THEN 'confirmed'
+      ELSE 'waitlisted'
+    END
+  )
+  RETURNING * INTO v_registration;
+
+  RETURN v_registration;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.promote_event_waitlist(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.register_for_event(UUID, UUID, TEXT, TEXT, TEXT, INTEGER, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.promote_event_waitlist(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.register_for_event(UUID, UUID, TEXT, TEXT, TEXT, INTEGER, TEXT) TO service_role;
+
+-- Auto-promote from the waitlist when a confirmed place is given up
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist_on_release()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'confirmed' THEN
+      PERFORM public.promote_event_waitlist(OLD.event_id);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.status = 'confirmed' AND NEW.status <> 'confirmed' THEN
+    PERFORM public.promote_event_waitlist(NEW.event_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER promote_waitlist_after_registration_change
+    AFTER UPDATE OF status OR DELETE ON public.event_registrations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.promote_event_waitlist_on_release();
+
+CREATE OR REPLACE FUNCTION public.promote_event_waitlist_on_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.capacity IS NULL OR NEW.capacity > COALESCE(OLD.capacity, 0) THEN
+    PERFORM public.promote_event_waitlist(NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER promote_waitlist_after_capacity_change
+    AFTER UPDATE OF capacity ON public.events
+    FOR EACH ROW
+    WHEN (OLD.capacity IS DISTINCT FROM NEW.capacity)
+    EXECUTE FUNCTION public.promote_event_waitlist_on_capacity();
+
+-- Stream roster changes to the admin dashboard
+ALTER PUBLICATION supabase_realtime ADD TABLE public.event_registrations;
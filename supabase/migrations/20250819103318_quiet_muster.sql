@@ -0,0 +1,92 @@
+/*
+  # Meeting Attendance Register
+
+  1. Changes
+    - Add `attendance_recorded_at` (timestamptz) to `meeting_minutes` - Set when the
+      Secretary saves the register, so members who are not on it can be shown as absent
+
+  2. New Tables
+    - `meeting_attendance` - One row per person on a meeting's register
+      - `minutes_id` (uuid, references meeting_minutes)
+      - `attendance_type` (text) - member, visitor or apology
+      - `user_id` (uuid, references auth.users) - Set for members of the Lodge
+      - `name` (text) - Name as recorded, kept if the member later leaves
+      - `lodge_name`, `lodge_number`, `rank` (text) - For visitors
+      - `notes` (text)
+
+  3. New Functions
+    - `save_meeting_attendance(meeting, entries)` - Replaces a meeting's
+      register and marks it as recorded in one transaction, so a failed save
+      leaves the previous register in place
+
+  4. Security
+    - Enable RLS on `meeting_attendance`
+    - Members can view their own attendance
+    - Admins can manage the register
+*/
+
+ALTER TABLE public.meeting_minutes
+ADD COLUMN IF NOT EXISTS attendance_recorded_at TIMESTAMPTZ;
+
+-- Create meeting_attendance table
+CREATE TABLE IF NOT EXISTS public.meeting_attendance (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    minutes_id UUID REFERENCES public.meeting_minutes(id) ON DELETE CASCADE NOT NULL,
+    attendance_type TEXT NOT NULL CHECK (attendance_type IN ('member', 'visitor', 'apology')),
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    lodge_name TEXT,
+    lodge_number TEXT,
+    rank TEXT,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A member appears on a register once, whether present or sending apologies
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meeting_attendance_member
+    ON public.meeting_attendance(minutes_id, user_id)
+    WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_meeting_attendance_minutes ON public.meeting_attendance(minutes_id);
+CREATE INDEX IF NOT EXISTS idx_meeting_attendance_user ON public.meeting_attendance(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.meeting_attendance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view own attendance"
+    ON public.meeting_attendance FOR SELECT TO authenticated
+    USING (auth.uid() = user_id);
+CREATE POLICY "Admins can manage meeting attendance"
+    ON public.meeting_attendance FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+CREATE TRIGGER update_meeting_attendance_updated_at
+    BEFORE UPDATE ON public.meeting_attendance FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Runs with the caller's privileges, so the admin policies above still apply
+CREATE OR REPLACE FUNCTION public.save_meeting_attendance(meeting UUID, entries JSONB)
+RETURNS SETOF public.meeting_attendance
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.meeting_attendance WHERE minutes_id = meeting;
+
+  RETURN QUERY
+  INSERT INTO public.meeting_attendance (minutes_id, attendance_type, user_id, name, lodge_name, lodge_number, rank, notes)
+  SELECT meeting, e.attendance_type, e.user_id, e.name, e.lodge_name, e.lodge_number, e.rank, e.notes
+  FROM jsonb_to_recordset(COALESCE(entries, '[]'::jsonb)) AS e(
+    attendance_type TEXT, user_id UUID, name TEXT, lodge_name TEXT, lodge_number TEXT, rank TEXT, notes TEXT
+  )
+  RETURNING *;
+
+  UPDATE public.meeting_minutes SET attendance_recorded_at = NOW() WHERE id = meeting;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meeting minutes not found';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_meeting_attendance(UUID, JSONB) TO authenticated;
@@ -0,0 +1,100 @@
+/*
+  # Generated Lodge Summons
+
+  1. New Tables
+    - `lodge_summons` - The structured content of a summons, rendered as a
+      printable page at /members/summons/:id
+      - `meeting_date` (date) - Scheduled date key of the lodge meeting
+      - `meeting_title` (text)
+      - `meeting_start` (timestamptz)
+      - `location` (text)
+      - `agenda` (jsonb) - Array of agenda item strings, in order
+      - `candidates` (jsonb) - Array of { name, ceremony, proposer?, seconder? }
+      - `officers` (jsonb) - Array of { position, full_name }, copied from the
+        officers table when generated so past summons stay as issued
+      - `dining` (jsonb) - { dining_date, price?, menu_options, cutoff_date, notes? }
+        copied from the festive board, or null
+      - `notes` (text) - e.g. dress code
+      - `document_id` (uuid, references lodge_documents) - The summons entry
+        created in the documents list
+
+  2. New Functions
+    - `generate_summons(summons, document_title, summons_url)` - Saves a
+      summons and its documents list entry, linked to each other, in one
+      transaction. `summons_url` is the page address the new summons id is
+      appended to
+
+  3. Security
+    - Enable RLS on `lodge_summons`
+    - Active members can view summons
+    - Admins can manage summons
+*/
+
+-- Create lodge_summons table
+CREATE TABLE IF NOT EXISTS public.lodge_summons (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    meeting_date DATE NOT NULL,
+    meeting_title TEXT NOT NULL,
+    meeting_start TIMESTAMPTZ NOT NULL,
+    location TEXT NOT NULL,
+    agenda JSONB NOT NULL DEFAULT '[]'::jsonb,
+    candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+    officers JSONB NOT NULL DEFAULT '[]'::jsonb,
+    dining JSONB,
+    notes TEXT,
+    document_id UUID REFERENCES public.lodge_documents(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.lodge_summons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active members can view summons"
+    ON public.lodge_summons FOR SELECT TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.status = 'active'));
+CREATE POLICY "Admins can manage summons"
+    ON public.lodge_summons FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+CREATE TRIGGER update_lodge_summons_updated_at
+    BEFORE UPDATE ON public.lodge_summons FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_lodge_summons_meeting_date ON public.lodge_summons(meeting_date);
+
+CREATE OR REPLACE FUNCTION public.generate_summons(summons JSONB, document_title TEXT, summons_url TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  summons_id UUID := gen_random_uuid();
+  new_document public.lodge_documents;
+  new_summons public.lodge_summons;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can generate summons';
+  END IF;
+
+  INSERT INTO public.lodge_documents (title, description, url, category)
+  VALUES (document_title, summons->>'meeting_title', summons_url || summons_id, 'summons')
+  RETURNING * INTO new_document;
+
+  INSERT INTO public.lodge_summons (
+    id, meeting_date, meeting_title, meeting_start, location, agenda, candidates, officers, dining, notes, document_id
+  )
+  SELECT summons_id, s.meeting_date, s.meeting_title, s.meeting_start, s.location,
+         COALESCE(s.agenda, '[]'::jsonb), COALESCE(s.candidates, '[]'::jsonb), COALESCE(s.officers, '[]'::jsonb),
+         s.dining, s.notes, new_document.id
+  FROM jsonb_populate_record(NULL::public.lodge_summons, summons) AS s
+  RETURNING * INTO new_summons;
+
+  RETURN jsonb_build_object('summons', to_jsonb(new_summons), 'document', to_jsonb(new_document));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_summons(JSONB, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_summons(JSONB, TEXT, TEXT) TO authenticated;
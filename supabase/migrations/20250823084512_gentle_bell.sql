@@ -0,0 +1,71 @@
+/*
+  # Meeting and Event Reminders
+
+  1. New Tables
+    - `reminder_preferences` - A member's opt-in to reminder emails
+      - `user_id` (uuid, references auth.users)
+      - `meeting_reminders` (boolean) - Remind before each Lodge meeting
+      - `event_reminders` (boolean) - Remind before events the member has registered for
+      - `days_before` (integer) - How many days ahead to send the reminder
+    - `reminder_deliveries` - One row per reminder sent by the send-reminders
+      edge function, so each member is reminded once per meeting or event
+      - `user_id` (uuid, references auth.users)
+      - `reminder_type` (text) - meeting or event
+      - `item_key` (text) - Meeting date key (YYYY-MM-DD) or event id
+      - `item_date` (timestamptz) - When the meeting or event starts
+      - `sent_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on both tables
+    - Members can view, create and update their own preferences
+    - Admins can view preferences and deliveries
+    - The send-reminders edge function uses the service role
+*/
+
+-- Create reminder_preferences table
+CREATE TABLE IF NOT EXISTS public.reminder_preferences (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    meeting_reminders BOOLEAN NOT NULL DEFAULT false,
+    event_reminders BOOLEAN NOT NULL DEFAULT false,
+    days_before INTEGER NOT NULL DEFAULT 3 CHECK (days_before BETWEEN 1 AND 28),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create reminder_deliveries table
+CREATE TABLE IF NOT EXISTS public.reminder_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    reminder_type TEXT NOT NULL CHECK (reminder_type IN ('meeting', 'event')),
+    item_key TEXT NOT NULL,
+    item_date TIMESTAMPTZ NOT NULL,
+    sent_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (user_id, reminder_type, item_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_item_date ON public.reminder_deliveries(item_date);
+
+-- Enable Row Level Security
+ALTER TABLE public.reminder_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view own reminder preferences"
+    ON public.reminder_preferences FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Members can create own reminder preferences"
+    ON public.reminder_preferences FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Members can update own reminder preferences"
+    ON public.reminder_preferences FOR UPDATE TO authenticated
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Admins can view reminder preferences"
+    ON public.reminder_preferences FOR SELECT TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+CREATE POLICY "Admins can view reminder deliveries"
+    ON public.reminder_deliveries FOR SELECT TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+CREATE TRIGGER update_reminder_preferences_updated_at
+    BEFORE UPDATE ON public.reminder_preferences FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,45 @@
+/*
+  # Degree Ceremony Planner
+
+  1. New Tables
+    - `degree_ceremonies` - A candidate taking a degree at a Lodge meeting
+      - `meeting_date` (date) - Scheduled date key of the lodge meeting
+      - `degree` (text) - first, second or third
+      - `candidate_name` (text)
+      - `ritual_parts` (jsonb) - Array of { part, performer } in working order
+      - `notes` (text)
+
+  2. Security
+    - Enable RLS on `degree_ceremonies`
+    - Active members can view the planner
+    - Admins can manage ceremonies
+*/
+
+-- Create degree_ceremonies table
+CREATE TABLE IF NOT EXISTS public.degree_ceremonies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    meeting_date DATE NOT NULL,
+    degree TEXT NOT NULL CHECK (degree IN ('first', 'second', 'third')),
+    candidate_name TEXT NOT NULL,
+    ritual_parts JSONB NOT NULL DEFAULT '[]'::jsonb,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_degree_ceremonies_meeting_date ON public.degree_ceremonies(meeting_date);
+
+-- Enable Row Level Security
+ALTER TABLE public.degree_ceremonies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active members can view degree ceremonies"
+    ON public.degree_ceremonies FOR SELECT TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.status = 'active'));
+CREATE POLICY "Admins can manage degree ceremonies"
+    ON public.degree_ceremonies FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+CREATE TRIGGER update_degree_ceremonies_updated_at
+    BEFORE UPDATE ON public.degree_ceremonies FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
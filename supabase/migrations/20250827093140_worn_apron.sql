@@ -0,0 +1,60 @@
+/*
+  # Masonic Career Record on Member Profiles
+
+  1. New Columns Added to member_profiles
+    - `initiated_date` (date, nullable) - Initiated into Freemasonry
+    - `passed_date` (date, nullable) - Passed to the Second Degree
+    - `raised_date` (date, nullable) - Raised to the Third Degree
+    - `installed_date` (date, nullable) - First installed as Worshipful Master
+    - `exalted_date` (date, nullable) - Exalted into the Royal Arch
+    - `masonic_appointments` (jsonb) - Array of { title, level, year } where
+      level is 'provincial' or 'grand'
+
+  2. Security
+    - Existing RLS policies remain unchanged
+    - The career record is maintained by admins; a trigger keeps members
+      from setting it when they update or insert their own profile
+*/
+
+ALTER TABLE public.member_profiles
+ADD COLUMN IF NOT EXISTS initiated_date DATE,
+ADD COLUMN IF NOT EXISTS passed_date DATE,
+ADD COLUMN IF NOT EXISTS raised_date DATE,
+ADD COLUMN IF NOT EXISTS installed_date DATE,
+ADD COLUMN IF NOT EXISTS exalted_date DATE,
+ADD COLUMN IF NOT EXISTS masonic_appointments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Only admins may change the career record
+CREATE OR REPLACE FUNCTION public.protect_masonic_career()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'
+  ) THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.initiated_date := NULL;
+      NEW.passed_date := NULL;
+      NEW.raised_date := NULL;
+      NEW.installed_date := NULL;
+      NEW.exalted_date := NULL;
+      NEW.masonic_appointments := '[]'::jsonb;
+    ELSE
+      NEW.initiated_date := OLD.initiated_date;
+      NEW.passed_date := OLD.passed_date;
+      NEW.raised_date := OLD.raised_date;
+      NEW.installed_date := OLD.installed_date;
+      NEW.exalted_date := OLD.exalted_date;
+      NEW.masonic_appointments := OLD.masonic_appointments;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_member_profiles_masonic_career
+    BEFORE INSERT OR UPDATE ON public.member_profiles FOR EACH ROW
+    EXECUTE FUNCTION public.protect_masonic_career();
@@ -0,0 +1,46 @@
+/*
+  # Officer History by Masonic Year
+
+  1. New Tables
+    - `officer_appointments` - Who held each office in a Masonic year
+      - `masonic_year` (integer) - Calendar year of the Installation that opens
+        the year, so 2025 runs from the 2025 Installation to the 2026 one
+      - `position` (text)
+      - `full_name` (text)
+      - `sort_order` (integer) - Order on the board
+      - One holder per office per year
+
+  2. Security
+    - Enable RLS on `officer_appointments`
+    - Anyone can view past boards (shown on the About page)
+    - Admins can manage appointments
+*/
+
+-- Create officer_appointments table
+CREATE TABLE IF NOT EXISTS public.officer_appointments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    masonic_year INTEGER NOT NULL CHECK (masonic_year BETWEEN 1940 AND 2200),
+    position TEXT NOT NULL,
+    full_name TEXT NOT NULL,
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (masonic_year, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_officer_appointments_year ON public.officer_appointments(masonic_year);
+
+-- Enable Row Level Security
+ALTER TABLE public.officer_appointments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can view officer appointments"
+    ON public.officer_appointments FOR SELECT TO public
+    USING (true);
+CREATE POLICY "Admins can manage officer appointments"
+    ON public.officer_appointments FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+CREATE TRIGGER update_officer_appointments_updated_at
+    BEFORE UPDATE ON public.officer_appointments FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,114 @@
+/*
+  # Subscriptions Ledger and Officer Permissions
+
+  1. New Columns Added to member_profiles
+    - `permissions` (text[]) - Office-holder permissions granted by admins,
+      separate from the admin role, e.g. 'treasurer'
+
+  2. New Functions
+    - `has_lodge_permission(permission)` - Whether the signed-in member holds
+      a permission, for use in RLS policies
+
+  3. New Tables
+    - `dues_entries` - Per-member subscriptions ledger
+      - `user_id` (uuid) - Member the entry belongs to
+      - `entry_type` (text) - invoice, payment or credit
+      - `amount` (numeric) - Always positive; the type gives the direction
+      - `entry_date` (date)
+      - `subscription_year` (integer) - Masonic year the subscription is for
+      - `method` (text) - How a payment was made
+      - `reference` (text), `notes` (text)
+      - `recorded_by` (uuid)
+
+  4. Security
+    - Enable RLS on `dues_entries`
+    - Members can view their own ledger
+    - Only members with the treasurer permission can view all entries or
+      record, change and remove them
+    - A trigger keeps members from granting themselves permissions, or the
+      admin role or active status they depend on, whether by updating their
+      own profile or by inserting one. The first admin is therefore set up
+      with the service role or from the SQL editor, where there is no
+      signed-in user
+*/
+
+ALTER TABLE public.member_profiles
+ADD COLUMN IF NOT EXISTS permissions TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION public.has_lodge_permission(permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.member_profiles mp
+    WHERE mp.user_id = auth.uid()
+      AND mp.status = 'active'
+      AND permission = ANY(mp.permissions)
+  );
+$$;
+
+-- Only admins may change permissions, or the role and status that
+-- has_lodge_permission() and the admin checks rely on
+CREATE OR REPLACE FUNCTION public.protect_member_permissions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'
+  ) THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.role := 'member';
+      NEW.status := 'pending';
+      NEW.permissions := '{}';
+    ELSE
+      NEW.role := OLD.role;
+      NEW.status := OLD.status;
+      NEW.permissions := OLD.permissions;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_member_profiles_permissions
+    BEFORE INSERT OR UPDATE ON public.member_profiles FOR EACH ROW
+    EXECUTE FUNCTION public.protect_member_permissions();
+
+-- Create dues_entries table
+CREATE TABLE IF NOT EXISTS public.dues_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    entry_type TEXT NOT NULL CHECK (entry_type IN ('invoice', 'payment', 'credit')),
+    amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+    entry_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    subscription_year INTEGER NOT NULL,
+    method TEXT CHECK (method IN ('bank_transfer', 'standing_order', 'cheque', 'cash', 'card')),
+    reference TEXT,
+    notes TEXT,
+    recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dues_entries_user ON public.dues_entries(user_id, entry_date);
+
+-- Enable Row Level Security
+ALTER TABLE public.dues_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their own dues"
+    ON public.dues_entries FOR SELECT TO authenticated
+    USING (user_id = auth.uid());
+CREATE POLICY "Treasurer can manage dues"
+    ON public.dues_entries FOR ALL TO authenticated
+    USING (public.has_lodge_permission('treasurer'))
+    WITH CHECK (public.has_lodge_permission('treasurer'));
+
+CREATE TRIGGER update_dues_entries_updated_at
+    BEFORE UPDATE ON public.dues_entries FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,130 @@
+/*
+  # Per-Field Directory Privacy
+
+  1. New Columns Added to member_profiles
+    - `directory_privacy` (jsonb) - Who may see each directory field, keyed by
+      `contact_email`, `contact_phone`, `ranks` and `join_date`. Each value is
+      'all', 'officers' or 'hidden'; a missing key means 'all'. `ranks` covers
+      the Provincial and Grand Lodge ranks and the dated appointments, and
+      `join_date` covers the degree and installation dates
+
+  2. New Functions
+    - `is_lodge_officer()` - Whether the signed-in member is an admin or has
+      been granted an office permission. The free-text `position` is not
+      used, as members can edit it themselves
+    - `is_lodge_admin()` - Whether the signed-in member is an admin, for use
+      in policies on `member_profiles` itself
+    - `directory_field_visible(owner, privacy, field)` - Whether the signed-in
+      member may see one field of another member's directory entry
+
+  3. New Views
+    - `member_directory` - Directory entries with each private field replaced
+      by NULL where the viewer may not see it. Runs with the owner's
+      privileges so it can read every profile, and only returns rows to
+      signed-in users
+
+  4. Security
+    - Replace "Members can view all profiles" so that reading `member_profiles`
+      directly is limited to a member's own profile and to admins. Everyone
+      else, officers included, reads the directory through `member_directory`
+*/
+
+ALTER TABLE public.member_profiles
+ADD COLUMN IF NOT EXISTS directory_privacy JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.is_lodge_officer()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.member_profiles mp
+    WHERE mp.user_id = auth.uid()
+      AND mp.status = 'active'
+      AND (mp.role = 'admin' OR CARDINALITY(mp.permissions) > 0)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_lodge_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.member_profiles mp
+    WHERE mp.user_id = auth.uid()
+      AND mp.role = 'admin'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.directory_field_visible(owner UUID, privacy JSONB, field TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    -- Members always see their own entry in full
+    WHEN owner = auth.uid() THEN true
+    WHEN COALESCE(privacy->>field, 'all') = 'all' THEN true
+    WHEN privacy->>field = 'officers' THEN public.is_lodge_officer()
+    ELSE false
+  END;
+$$;
+
+-- Direct reads are limited to a member's own profile and to admins
+DROP POLICY IF EXISTS "Members can view all profiles" ON public.member_profiles;
+
+CREATE POLICY "Members can view their own profile"
+    ON public.member_profiles
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all profiles"
+    ON public.member_profiles
+    FOR SELECT
+    TO authenticated
+    USING (public.is_lodge_admin());
+
+CREATE OR REPLACE VIEW public.member_directory AS
+SELECT
+    mp.id,
+    mp.user_id,
+    mp.full_name,
+    mp.position,
+    mp.role,
+    mp.status,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'join_date')
+      THEN mp.join_date END AS join_date,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'contact_email')
+      THEN mp.contact_email END AS contact_email,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'contact_phone')
+      THEN mp.contact_phone END AS contact_phone,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'ranks')
+      THEN mp.masonic_provincial_rank END AS masonic_provincial_rank,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'ranks')
+      THEN mp.grand_lodge_rank END AS grand_lodge_rank,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'ranks')
+      THEN mp.masonic_appointments ELSE '[]'::jsonb END AS masonic_appointments,
+    -- Degree dates follow the join date setting, as initiation is usually the day a member joined
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'join_date')
+      THEN mp.initiated_date END AS initiated_date,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'join_date')
+      THEN mp.passed_date END AS passed_date,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'join_date')
+      THEN mp.raised_date END AS raised_date,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'join_date')
+      THEN mp.installed_date END AS installed_date,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'join_date')
+      THEN mp.exalted_date END AS exalted_date
+FROM public.member_profiles mp
+WHERE auth.uid() IS NOT NULL;
+
+REVOKE ALL ON public.member_directory FROM anon;
+GRANT SELECT ON public.member_directory TO authenticated;
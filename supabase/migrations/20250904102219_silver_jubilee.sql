@@ -0,0 +1,64 @@
+/*
+  # Birthdays and the Anniversary Digest
+
+  1. New Columns Added to member_profiles
+    - `birthday` (date) - Optional, entered by the member
+
+  2. Changes
+    - `member_directory` gains `birthday`, hidden according to the member's
+      `birthday` directory privacy setting like the other private fields. The
+      degree and installation dates stay hidden with the join date
+    - `reminder_deliveries` accepts the `anniversary_digest` type, recorded once
+      per admin per month by the send-anniversary-digest edge function with
+      the month (YYYY-MM) as the item key
+
+  3. Security
+    - No policy changes. Members update their own birthday through the existing
+      profile policies
+*/
+
+ALTER TABLE public.member_profiles
+ADD COLUMN IF NOT EXISTS birthday DATE;
+
+CREATE OR REPLACE VIEW public.member_directory AS
+SELECT
+    mp.id,
+    mp.user_id,
+    mp.full_name,
+    mp.position,
+    mp.role,
+    mp.status,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'join_date')
+      THEN mp.join_date END AS join_date,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'contact_email')
+      THEN mp.contact_email END AS contact_email,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'contact_phone')
+      THEN mp.contact_phone END AS contact_phone,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'ranks')
+      THEN mp.masonic_provincial_rank END AS masonic_provincial_rank,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'ranks')
+      THEN mp.grand_lodge_rank END AS grand_lodge_rank,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'ranks')
+      THEN mp.masonic_appointments ELSE '[]'::jsonb END AS masonic_appointments,
+    -- Degree dates follow the join date setting, as initiation is usually the day a member joined
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'join_date')
+      THEN mp.initiated_date END AS initiated_date,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'join_date')
+      THEN mp.passed_date END AS passed_date,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'join_date')
+      THEN mp.raised_date END AS raised_date,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'join_date')
+      THEN mp.installed_date END AS installed_date,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'join_date')
+      THEN mp.exalted_date END AS exalted_date,
+    CASE WHEN public.directory_field_visible(mp.user_id, mp.directory_privacy, 'birthday')
+      THEN mp.birthday END AS birthday
+FROM public.member_profiles mp
+WHERE auth.uid() IS NOT NULL;
+
+ALTER TABLE public.reminder_deliveries
+DROP CONSTRAINT IF EXISTS reminder_deliveries_reminder_type_check;
+
+ALTER TABLE public.reminder_deliveries
+ADD CONSTRAINT reminder_deliveries_reminder_type_check
+CHECK (reminder_type IN ('meeting', 'event', 'anniversary_digest'));
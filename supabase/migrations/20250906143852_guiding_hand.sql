@@ -0,0 +1,174 @@
+/*
+  # Mentoring Scheme
+
+  1. New Tables
+    - `mentoring_assignments` - The personal mentor for each new member
+      - `mentee_id` (uuid) - One assignment per member
+      - `mentor_id` (uuid)
+      - `started_on` (date)
+      - `completed_on` (date) - Set when the member has finished the scheme
+      - `notes` (text)
+    - `mentoring_modules_completed` - Solomon-style learning modules a member
+      has completed, keyed by the module list in src/utils/mentoring.ts
+      - `mentee_id` (uuid), `module_key` (text), `completed_on` (date)
+      - `recorded_by` (uuid)
+    - `mentoring_meetings` - Meetings between a mentor and mentee
+      - `mentee_id` (uuid), `mentor_id` (uuid)
+      - `meeting_date` (date)
+      - `notes` (text)
+      - `recorded_by` (uuid)
+
+  2. New Functions
+    - `get_mentoring_members()` - Each member's name, status and degree
+      dates for the Lodge Mentor, who cannot read `member_profiles` directly
+
+  3. Security
+    - Enable RLS on all three tables
+    - The Lodge Mentor (`mentor` permission) and admins manage everything
+    - Members can view their own assignment, modules and meetings
+    - Personal mentors can view the records of the members they mentor
+*/
+
+-- Create mentoring_assignments table
+CREATE TABLE IF NOT EXISTS public.mentoring_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mentee_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    mentor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    started_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    completed_on DATE,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (mentee_id <> mentor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mentoring_assignments_mentor ON public.mentoring_assignments(mentor_id);
+
+-- Create mentoring_modules_completed table
+CREATE TABLE IF NOT EXISTS public.mentoring_modules_completed (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mentee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    module_key TEXT NOT NULL,
+    completed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (mentee_id, module_key)
+);
+
+-- Create mentoring_meetings table
+CREATE TABLE IF NOT EXISTS public.mentoring_meetings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mentee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    mentor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    meeting_date DATE NOT NULL,
+    notes TEXT,
+    recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mentoring_meetings_mentee ON public.mentoring_meetings(mentee_id, meeting_date);
+
+-- Enable Row Level Security
+ALTER TABLE public.mentoring_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mentoring_modules_completed ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mentoring_meetings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their own mentoring assignment"
+    ON public.mentoring_assignments FOR SELECT TO authenticated
+    USING (mentee_id = auth.uid() OR mentor_id = auth.uid());
+CREATE POLICY "Lodge Mentor can manage mentoring assignments"
+    ON public.mentoring_assignments FOR ALL TO authenticated
+    USING (
+      public.has_lodge_permission('mentor')
+      OR EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin')
+    )
+    WITH CHECK (
+      public.has_lodge_permission('mentor')
+      OR EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin')
+    );
+
+CREATE POLICY "Members can view their own mentoring modules"
+    ON public.mentoring_modules_completed FOR SELECT TO authenticated
+    USING (
+      mentee_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.mentoring_assignments ma
+        WHERE ma.mentee_id = mentoring_modules_completed.mentee_id AND ma.mentor_id = auth.uid()
+      )
+    );
+CREATE POLICY "Lodge Mentor can manage mentoring modules"
+    ON public.mentoring_modules_completed FOR ALL TO authenticated
+    USING (
+      public.has_lodge_permission('mentor')
+      OR EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin')
+    )
+    WITH CHECK (
+      public.has_lodge_permission('mentor')
+      OR EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin')
+    );
+
+CREATE POLICY "Members can view their own mentoring meetings"
+    ON public.mentoring_meetings FOR SELECT TO authenticated
+    USING (
+      mentee_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.mentoring_assignments ma
+        WHERE ma.mentee_id = mentoring_meetings.mentee_id AND ma.mentor_id = auth.uid()
+      )
+    );
+CREATE POLICY "Lodge Mentor can manage mentoring meetings"
+    ON public.mentoring_meetings FOR ALL TO authenticated
+    USING (
+      public.has_lodge_permission('mentor')
+      OR EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin')
+    )
+    WITH CHECK (
+      public.has_lodge_permission('mentor')
+      OR EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin')
+    );
+
+CREATE TRIGGER update_mentoring_assignments_updated_at
+    BEFORE UPDATE ON public.mentoring_assignments FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_mentoring_meetings_updated_at
+    BEFORE UPDATE ON public.mentoring_meetings FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Only the columns the mentoring page needs, with degree dates unmasked as
+-- the scheme depends on them
+CREATE OR REPLACE FUNCTION public.get_mentoring_members()
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    full_name TEXT,
+    status TEXT,
+    initiated_date DATE,
+    passed_date DATE,
+    raised_date DATE,
+    exalted_date DATE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    public.has_lodge_permission('mentor')
+    OR EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only the Lodge Mentor can view the mentoring scheme';
+  END IF;
+
+  RETURN QUERY
+  SELECT mp.id, mp.user_id, mp.full_name, mp.status,
+         mp.initiated_date, mp.passed_date, mp.raised_date, mp.exalted_date
+  FROM public.member_profiles mp
+  ORDER BY mp.full_name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_mentoring_members() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_mentoring_members() TO authenticated;
@@ -0,0 +1,108 @@
+/*
+  # Prospect Pipeline
+
+  1. New Tables
+    - `prospects` - People interested in joining the Lodge
+      - `name` (text)
+      - `email` (text) - Stored in lower case
+      - `phone` (text)
+      - `enquiry_subject` (text), `enquiry_message` (text) - The original enquiry
+      - `source` (text) - enquiry (from the contact form) or manual
+      - `current_stage` (text) - The stage the prospect has reached
+      - `status` (text) - active, initiated or withdrawn
+      - `notes` (text)
+    - `prospect_stages` - One row per stage a prospect has reached, following
+      the path to membership on the Join page: initial_contact, lodge_visit,
+      application, interview, ballot, initiation
+      - `prospect_id` (uuid)
+      - `stage` (text)
+      - `started_on` (date), `completed_on` (date)
+      - `officer_id` (uuid) - The member responsible for the stage
+      - `notes` (text)
+
+  2. Security
+    - Enable RLS on both tables
+    - Interested enquiries are added by the `send-contact-email` edge function,
+      which writes with the service role, so there is no public insert policy
+    - Admins can view and manage prospects
+
+  3. Triggers
+    - Every new prospect starts with an Initial Contact stage
+*/
+
+-- Create prospects table
+CREATE TABLE IF NOT EXISTS public.prospects (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    phone TEXT,
+    enquiry_subject TEXT,
+    enquiry_message TEXT,
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('enquiry', 'manual')),
+    current_stage TEXT NOT NULL DEFAULT 'initial_contact'
+      CHECK (current_stage IN ('initial_contact', 'lodge_visit', 'application', 'interview', 'ballot', 'initiation')),
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'initiated', 'withdrawn')),
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prospects_email ON public.prospects(email);
+CREATE INDEX IF NOT EXISTS idx_prospects_status ON public.prospects(status, current_stage);
+
+-- Create prospect_stages table
+CREATE TABLE IF NOT EXISTS public.prospect_stages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    prospect_id UUID NOT NULL REFERENCES public.prospects(id) ON DELETE CASCADE,
+    stage TEXT NOT NULL
+      CHECK (stage IN ('initial_contact', 'lodge_visit', 'application', 'interview', 'ballot', 'initiation')),
+    started_on DATE,
+    completed_on DATE,
+    officer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (prospect_id, stage)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.prospects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.prospect_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage prospects"
+    ON public.prospects FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+CREATE POLICY "Admins can manage prospect stages"
+    ON public.prospect_stages FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+-- Every prospect starts at Initial Contact, from the day they are added
+CREATE OR REPLACE FUNCTION public.create_initial_prospect_stage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.prospect_stages (prospect_id, stage, started_on)
+  VALUES (NEW.id, 'initial_contact', COALESCE(NEW.created_at, NOW())::date)
+  ON CONFLICT (prospect_id, stage) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_prospect_initial_stage
+    AFTER INSERT ON public.prospects FOR EACH ROW
+    EXECUTE FUNCTION public.create_initial_prospect_stage();
+
+-- Create triggers for updated_at
+CREATE TRIGGER update_prospects_updated_at
+    BEFORE UPDATE ON public.prospects FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_prospect_stages_updated_at
+    BEFORE UPDATE ON public.prospect_stages FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,101 @@
+/*
+  # Online Membership Applications
+
+  1. New Tables
+    - `membership_applications` - Applications made through the website
+      - `prospect_id` (uuid) - The prospect record, set on submission
+      - `resume_token` (text) - Secret in the emailed link used to resume a draft
+      - `full_name` (text), `email` (text), `phone` (text)
+      - `answers` (jsonb) - The rest of the form, see ApplicationAnswers
+      - `attachments` (jsonb) - Files in the `membership-applications` bucket
+      - `status` (text) - draft or submitted
+      - `submitted_at` (timestamptz)
+      - `created_ip` (text) - Address the draft was started from, for rate
+        limiting
+      - `link_sent_at` (timestamptz) - When the resume link was last emailed
+      - `uploads_issued` (integer) - Signed attachment uploads handed out
+
+  2. Changes
+    - `prospects.source` may also be `application`, for applicants who did
+      not make an enquiry first
+
+  3. Storage
+    - Private `membership-applications` bucket for attachments, limited to
+      10MB PDFs and images
+
+  4. Security
+    - Enable RLS on `membership_applications`
+    - Applicants save and submit through the `membership-application` edge
+      function, which writes with the service role and checks the resume
+      token, so there are no public policies. It limits how many drafts an
+      email address or network address can start each day, how often the
+      resume link is emailed and how many attachment uploads a draft is given
+    - Admins can view and manage applications and read their attachments
+*/
+
+-- Create membership_applications table
+CREATE TABLE IF NOT EXISTS public.membership_applications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    prospect_id UUID REFERENCES public.prospects(id) ON DELETE SET NULL,
+    resume_token TEXT NOT NULL UNIQUE,
+    full_name TEXT NOT NULL,
+    email TEXT NOT NULL,
+    phone TEXT,
+    answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+    attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted')),
+    submitted_at TIMESTAMPTZ,
+    created_ip TEXT,
+    link_sent_at TIMESTAMPTZ,
+    uploads_issued INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_membership_applications_prospect ON public.membership_applications(prospect_id);
+CREATE INDEX IF NOT EXISTS idx_membership_applications_email ON public.membership_applications(email, created_at);
+CREATE INDEX IF NOT EXISTS idx_membership_applications_ip ON public.membership_applications(created_ip, created_at);
+
+-- Applicants may apply without an earlier enquiry
+ALTER TABLE public.prospects DROP CONSTRAINT IF EXISTS prospects_source_check;
+ALTER TABLE public.prospects
+  ADD CONSTRAINT prospects_source_check CHECK (source IN ('enquiry', 'manual', 'application'));
+
+-- Enable Row Level Security
+ALTER TABLE public.membership_applications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage membership applications"
+    ON public.membership_applications FOR ALL TO authenticated
+    USING (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'))
+    WITH CHECK (EXISTS (SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.role = 'admin'));
+
+CREATE TRIGGER update_membership_applications_updated_at
+    BEFORE UPDATE ON public.membership_applications FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Private bucket for application attachments
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('membership-applications', 'membership-applications', false, 10485760, ARRAY['application/pdf', 'image/jpeg', 'image/png'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can read application attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'membership-applications' AND
+  EXISTS (
+    SELECT 1 FROM public.member_profiles mp
+    WHERE mp.user_id = auth.uid() AND mp.role = 'admin'
+  )
+);
+
+CREATE POLICY "Admins can delete application attachments"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'membership-applications' AND
+  EXISTS (
+    SELECT 1 FROM public.member_profiles mp
+    WHERE mp.user_id = auth.uid() AND mp.role = 'admin'
+  )
+);
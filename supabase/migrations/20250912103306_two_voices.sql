@@ -0,0 +1,221 @@
+/*
+  # Proposer and Seconder Endorsements
+
+  1. Changes
+    - `membership_applications`
+      - `proposer_id`, `seconder_id` (uuid) - The members named on the
+        application, matched on submission or set by an admin
+      - `proposer_endorsed_at`, `seconder_endorsed_at` (timestamptz) - When
+        each confirmed their support; cleared if the member named changes
+      - `sponsors_notified_at` (timestamptz) - When the named members were last emailed
+
+  2. New Views
+    - `endorsement_requests` - The submitted applications the signed-in member
+      has been named on, without the applicant's resume token
+
+  3. New Functions
+    - `endorse_membership_application(application_id)` - Records the signed-in
+      member's endorsement as proposer or seconder
+    - `application_awaiting_endorsement(prospect)` - Whether a prospect has a
+      submitted application still missing an endorsement
+    - `advance_prospect(prospect)` - Completes a prospect's current stage and
+      opens the next, or marks them initiated, in one transaction
+
+  4. Security
+    - A prospect with a submitted online application cannot move beyond the
+      Application stage until both the proposer and seconder have endorsed it.
+      Triggers enforce this on the prospect's stage and status and on the
+      Interview, Ballot and Initiation stage records
+*/
+
+ALTER TABLE public.membership_applications
+  ADD COLUMN IF NOT EXISTS proposer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS seconder_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS proposer_endorsed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS seconder_endorsed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS sponsors_notified_at TIMESTAMPTZ,
+  ADD CONSTRAINT membership_applications_distinct_sponsors CHECK (proposer_id IS NULL OR proposer_id <> seconder_id);
+
+-- A change of proposer or seconder needs a fresh endorsement
+CREATE OR REPLACE FUNCTION public.reset_application_endorsements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.proposer_id IS DISTINCT FROM OLD.proposer_id THEN
+    NEW.proposer_endorsed_at := NULL;
+  END IF;
+  IF NEW.seconder_id IS DISTINCT FROM OLD.seconder_id THEN
+    NEW.seconder_endorsed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_membership_application_endorsements
+    BEFORE UPDATE OF proposer_id, seconder_id ON public.membership_applications FOR EACH ROW
+    EXECUTE FUNCTION public.reset_application_endorsements();
+
+-- Applications awaiting the signed-in member's endorsement, or endorsed by them
+CREATE OR REPLACE VIEW public.endorsement_requests AS
+SELECT
+  a.id,
+  a.full_name,
+  a.answers->>'occupation' AS occupation,
+  a.answers->>'reasons' AS reasons,
+  a.submitted_at,
+  CASE WHEN a.proposer_id = auth.uid() THEN 'proposer' ELSE 'seconder' END AS sponsor_role,
+  CASE WHEN a.proposer_id = auth.uid() THEN a.proposer_endorsed_at ELSE a.seconder_endorsed_at END AS endorsed_at,
+  CASE WHEN a.proposer_id = auth.uid() THEN a.answers->>'seconder_name' ELSE a.answers->>'proposer_name' END AS other_sponsor_name
+FROM public.membership_applications a
+WHERE a.status = 'submitted'
+  AND (a.proposer_id = auth.uid() OR a.seconder_id = auth.uid());
+
+GRANT SELECT ON public.endorsement_requests TO authenticated;
+
+-- Records the endorsement for whichever role the signed-in member holds
+CREATE OR REPLACE FUNCTION public.endorse_membership_application(application_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  endorsed TIMESTAMPTZ := NOW();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.member_profiles mp WHERE mp.user_id = auth.uid() AND mp.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Only active members can endorse applications';
+  END IF;
+
+  UPDATE public.membership_applications a
+  SET proposer_endorsed_at = CASE WHEN a.proposer_id = auth.uid() THEN COALESCE(a.proposer_endorsed_at, endorsed) ELSE a.proposer_endorsed_at END,
+      seconder_endorsed_at = CASE WHEN a.seconder_id = auth.uid() THEN COALESCE(a.seconder_endorsed_at, endorsed) ELSE a.seconder_endorsed_at END
+  WHERE a.id = application_id
+    AND a.status = 'submitted'
+    AND (a.proposer_id = auth.uid() OR a.seconder_id = auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not named on this application';
+  END IF;
+
+  RETURN endorsed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.endorse_membership_application(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.application_awaiting_endorsement(prospect UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.membership_applications a
+    WHERE a.prospect_id = prospect
+      AND a.status = 'submitted'
+      AND (a.proposer_endorsed_at IS NULL OR a.seconder_endorsed_at IS NULL)
+  );
+$$;
+
+-- Prospects with an online application wait at the Application stage until
+-- both the proposer and seconder have endorsed it
+CREATE OR REPLACE FUNCTION public.require_application_endorsements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF ((NEW.current_stage IN ('interview', 'ballot', 'initiation') AND NEW.current_stage IS DISTINCT FROM OLD.current_stage)
+      OR (NEW.status = 'initiated' AND OLD.status IS DISTINCT FROM 'initiated'))
+     AND public.application_awaiting_endorsement(NEW.id) THEN
+    RAISE EXCEPTION 'Both the proposer and seconder must endorse the application before it can progress';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_prospect_endorsements
+    BEFORE UPDATE OF current_stage, status ON public.prospects FOR EACH ROW
+    EXECUTE FUNCTION public.require_application_endorsements();
+
+-- Nor can the later stages be recorded for them directly
+CREATE OR REPLACE FUNCTION public.require_stage_endorsements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage IN ('interview', 'ballot', 'initiation')
+     AND public.application_awaiting_endorsement(NEW.prospect_id) THEN
+    RAISE EXCEPTION 'Both the proposer and seconder must endorse the application before it can progress';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_prospect_stage_endorsements
+    BEFORE INSERT OR UPDATE ON public.prospect_stages FOR EACH ROW
+    EXECUTE FUNCTION public.require_stage_endorsements();
+
+-- Completes the current stage and opens the next, or marks the prospect
+-- initiated after Initiation. The prospect is moved first, so a missing
+-- endorsement stops the advance before any stage is touched
+CREATE OR REPLACE FUNCTION public.advance_prospect(prospect UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  stage_order TEXT[] := ARRAY['initial_contact', 'lodge_visit', 'application', 'interview', 'ballot', 'initiation'];
+  current_key TEXT;
+  next_key TEXT;
+  advanced public.prospects;
+  saved_stage public.prospect_stages;
+  saved_stages JSONB := '[]'::jsonb;
+BEGIN
+  SELECT p.current_stage INTO current_key
+  FROM public.prospects p
+  WHERE p.id = prospect AND p.status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prospect not found or no longer in the pipeline';
+  END IF;
+
+  -- NULL after Initiation
+  next_key := stage_order[array_position(stage_order, current_key) + 1];
+
+  IF next_key IS NOT NULL THEN
+    UPDATE public.prospects p SET current_stage = next_key WHERE p.id = prospect RETURNING * INTO advanced;
+  ELSE
+    UPDATE public.prospects p SET status = 'initiated' WHERE p.id = prospect RETURNING * INTO advanced;
+  END IF;
+
+  INSERT INTO public.prospect_stages AS ps (prospect_id, stage, started_on, completed_on)
+  VALUES (prospect, current_key, CURRENT_DATE, CURRENT_DATE)
+  ON CONFLICT (prospect_id, stage) DO UPDATE
+    SET started_on = COALESCE(ps.started_on, EXCLUDED.started_on),
+        completed_on = COALESCE(ps.completed_on, EXCLUDED.completed_on)
+  RETURNING * INTO saved_stage;
+  saved_stages := saved_stages || to_jsonb(saved_stage);
+
+  IF next_key IS NOT NULL THEN
+    INSERT INTO public.prospect_stages AS ps (prospect_id, stage, started_on)
+    VALUES (prospect, next_key, CURRENT_DATE)
+    ON CONFLICT (prospect_id, stage) DO UPDATE
+      SET started_on = COALESCE(ps.started_on, EXCLUDED.started_on)
+    RETURNING * INTO saved_stage;
+    saved_stages := saved_stages || to_jsonb(saved_stage);
+  END IF;
+
+  RETURN jsonb_build_object('current_stage', advanced.current_stage, 'status', advanced.status, 'stages', saved_stages);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.advance_prospect(UUID) TO authenticated;
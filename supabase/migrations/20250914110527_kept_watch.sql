@@ -0,0 +1,253 @@
+/*
+  # Almoner's Welfare Register
+
+  1. New Tables
+    - `welfare_cases` - Brethren, widows and family the Almoner is looking after
+      - `member_id` (uuid) - The member's profile; for a widow or family
+        member, the profile of the brother they are connected to
+      - `subject_name` (text) - Who the record is about, kept if the profile
+        is removed
+      - `subject_type` (text) - member, widow or family
+      - `category` (text) - sick, bereaved, isolated or other
+      - `status` (text) - open or closed
+      - `opened_on`, `closed_on` (date)
+      - `contact_details` (text) - Address or telephone, where not on a profile
+      - `notes` (text)
+      - `created_by` (uuid)
+    - `welfare_contacts` - Visits, calls and cards for a case
+      - `case_id` (uuid)
+      - `contact_type` (text) - visit, call, card or other
+      - `contact_date` (date)
+      - `made_by` (uuid) - The member who visited or called
+      - `notes` (text)
+      - `recorded_by` (uuid)
+    - `welfare_access_log` - Every read of and change to the register, and
+      every grant or revocation of the permissions that open it
+      - `user_id` (uuid), `action` (text) - view, insert, update, delete,
+        grant or revoke
+      - `record_type` (text) - register, case, contact or permission
+      - `case_id` (uuid) - Not a foreign key, so the trail outlives the case
+      - `permission` (text) - almoner or worshipful_master, for permission
+        entries
+      - `subject_name` (text), `accessed_at` (timestamptz)
+
+  2. New Functions
+    - `can_access_welfare_register()` - Whether the signed-in member holds the
+      `almoner` or `worshipful_master` permission
+    - `get_welfare_register()` - The cases with their contacts, recording the
+      read in the access log
+
+  3. Security
+    - Enable RLS on all three tables; only the Almoner and the Worshipful
+      Master pass the policies. Admins are not included, although they grant
+      the permissions
+    - Direct SELECT on the register tables is revoked so that every read goes
+      through `get_welfare_register()` and is logged. `id` stays readable so
+      rows can be updated and deleted by id
+    - Triggers log every insert, update and delete, and every change to a
+      member's `almoner` or `worshipful_master` permission, so an admin
+      cannot give themselves access to the register unnoticed
+    - The access log can be read by the Almoner and Worshipful Master but
+      never changed
+*/
+
+CREATE OR REPLACE FUNCTION public.can_access_welfare_register()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_lodge_permission('almoner') OR public.has_lodge_permission('worshipful_master');
+$$;
+
+-- Create welfare_cases table
+CREATE TABLE IF NOT EXISTS public.welfare_cases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    member_id UUID REFERENCES public.member_profiles(user_id) ON DELETE SET NULL,
+    subject_name TEXT NOT NULL,
+    subject_type TEXT NOT NULL DEFAULT 'member' CHECK (subject_type IN ('member', 'widow', 'family')),
+    category TEXT NOT NULL CHECK (category IN ('sick', 'bereaved', 'isolated', 'other')),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+    opened_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    closed_on DATE,
+    contact_details TEXT,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_welfare_cases_member ON public.welfare_cases(member_id);
+
+-- Create welfare_contacts table
+CREATE TABLE IF NOT EXISTS public.welfare_contacts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    case_id UUID NOT NULL REFERENCES public.welfare_cases(id) ON DELETE CASCADE,
+    contact_type TEXT NOT NULL CHECK (contact_type IN ('visit', 'call', 'card', 'other')),
+    contact_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    made_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    notes TEXT,
+    recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_welfare_contacts_case ON public.welfare_contacts(case_id, contact_date);
+
+-- Create welfare_access_log table
+CREATE TABLE IF NOT EXISTS public.welfare_access_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    action TEXT NOT NULL CHECK (action IN ('view', 'insert', 'update', 'delete', 'grant', 'revoke')),
+    record_type TEXT NOT NULL CHECK (record_type IN ('register', 'case', 'contact', 'permission')),
+    case_id UUID,
+    permission TEXT CHECK (permission IN ('almoner', 'worshipful_master')),
+    subject_name TEXT,
+    accessed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_welfare_access_log_accessed ON public.welfare_access_log(accessed_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.welfare_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.welfare_contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.welfare_access_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Almoner and WM can manage welfare cases"
+    ON public.welfare_cases FOR ALL TO authenticated
+    USING (public.can_access_welfare_register())
+    WITH CHECK (public.can_access_welfare_register());
+CREATE POLICY "Almoner and WM can manage welfare contacts"
+    ON public.welfare_contacts FOR ALL TO authenticated
+    USING (public.can_access_welfare_register())
+    WITH CHECK (public.can_access_welfare_register());
+CREATE POLICY "Almoner and WM can view the welfare access log"
+    ON public.welfare_access_log FOR SELECT TO authenticated
+    USING (public.can_access_welfare_register());
+
+-- Reads go through get_welfare_register() so that they are logged
+REVOKE SELECT ON public.welfare_cases, public.welfare_contacts FROM anon, authenticated;
+GRANT SELECT (id) ON public.welfare_cases, public.welfare_contacts TO authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.welfare_access_log FROM anon, authenticated;
+
+CREATE TRIGGER update_welfare_cases_updated_at
+    BEFORE UPDATE ON public.welfare_cases FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_welfare_contacts_updated_at
+    BEFORE UPDATE ON public.welfare_contacts FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Records every change to a case or contact in the access log
+CREATE OR REPLACE FUNCTION public.log_welfare_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected_case UUID;
+  subject TEXT;
+BEGIN
+  IF TG_TABLE_NAME = 'welfare_cases' THEN
+    affected_case := COALESCE(NEW.id, OLD.id);
+    subject := COALESCE(NEW.subject_name, OLD.subject_name);
+  ELSE
+    affected_case := COALESCE(NEW.case_id, OLD.case_id);
+    SELECT wc.subject_name INTO subject FROM public.welfare_cases wc WHERE wc.id = affected_case;
+  END IF;
+
+  INSERT INTO public.welfare_access_log (user_id, action, record_type, case_id, subject_name)
+  VALUES (
+    auth.uid(),
+    LOWER(TG_OP),
+    CASE WHEN TG_TABLE_NAME = 'welfare_cases' THEN 'case' ELSE 'contact' END,
+    affected_case,
+    subject
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_welfare_cases_changes
+    AFTER INSERT OR UPDATE OR DELETE ON public.welfare_cases FOR EACH ROW
+    EXECUTE FUNCTION public.log_welfare_change();
+CREATE TRIGGER log_welfare_contacts_changes
+    AFTER INSERT OR UPDATE OR DELETE ON public.welfare_contacts FOR EACH ROW
+    EXECUTE FUNCTION public.log_welfare_change();
+
+-- Records each grant and revocation of a permission that opens the register
+CREATE OR REPLACE FUNCTION public.log_welfare_permission_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_permissions TEXT[] := '{}';
+  new_permissions TEXT[] := '{}';
+  member_name TEXT;
+  register_permission TEXT;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_permissions := OLD.permissions;
+    member_name := OLD.full_name;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_permissions := NEW.permissions;
+    member_name := NEW.full_name;
+  END IF;
+
+  FOREACH register_permission IN ARRAY ARRAY['almoner', 'worshipful_master'] LOOP
+    IF register_permission = ANY(new_permissions) AND NOT register_permission = ANY(old_permissions) THEN
+      INSERT INTO public.welfare_access_log (user_id, action, record_type, permission, subject_name)
+      VALUES (auth.uid(), 'grant', 'permission', register_permission, member_name);
+    ELSIF register_permission = ANY(old_permissions) AND NOT register_permission = ANY(new_permissions) THEN
+      INSERT INTO public.welfare_access_log (user_id, action, record_type, permission, subject_name)
+      VALUES (auth.uid(), 'revoke', 'permission', register_permission, member_name);
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_welfare_permission_changes
+    AFTER INSERT OR UPDATE OF permissions OR DELETE ON public.member_profiles FOR EACH ROW
+    EXECUTE FUNCTION public.log_welfare_permission_change();
+
+-- The whole register, each case with its contacts, newest first
+CREATE OR REPLACE FUNCTION public.get_welfare_register()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  register JSONB;
+BEGIN
+  IF NOT public.can_access_welfare_register() THEN
+    RAISE EXCEPTION 'Only the Almoner and Worshipful Master can view the welfare register';
+  END IF;
+
+  INSERT INTO public.welfare_access_log (user_id, action, record_type)
+  VALUES (auth.uid(), 'view', 'register');
+
+  SELECT COALESCE(jsonb_agg(
+           to_jsonb(wc) || jsonb_build_object('contacts', COALESCE((
+             SELECT jsonb_agg(to_jsonb(ct) ORDER BY ct.contact_date DESC, ct.created_at DESC)
+             FROM public.welfare_contacts ct
+             WHERE ct.case_id = wc.id
+           ), '[]'::jsonb))
+           ORDER BY wc.opened_on DESC, wc.created_at DESC
+         ), '[]'::jsonb)
+  INTO register
+  FROM public.welfare_cases wc;
+
+  RETURN register;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_welfare_register() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_welfare_register() TO authenticated;